@@ -0,0 +1,117 @@
+// PawfectBite service worker: keeps the app shell and visited pages available
+// offline. API data is not cached here; the client persists its query cache
+// to IndexedDB instead.
+
+const VERSION = "v1";
+const STATIC_CACHE = `static-${VERSION}`;
+const PAGE_CACHE = `pages-${VERSION}`;
+const OFFLINE_URL = "/offline.html";
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(STATIC_CACHE)
+      .then((cache) => cache.addAll([OFFLINE_URL, "/images/logo.PNG"]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys.filter((key) => key !== STATIC_CACHE && key !== PAGE_CACHE).map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+// Sent on sign-out so the next person on this device doesn't see cached pages
+self.addEventListener("message", (event) => {
+  if (event.data === "clear-pages") {
+    event.waitUntil(caches.delete(PAGE_CACHE));
+  }
+});
+
+async function networkFirst(request, fallbackUrl) {
+  const cache = await caches.open(PAGE_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    // Next.js varies pages on router headers, which differ between visits
+    const cached = await cache.match(request, { ignoreVary: true });
+    if (cached) return cached;
+    if (fallbackUrl) {
+      const fallback = await caches.match(fallbackUrl);
+      if (fallback) return fallback;
+    }
+    throw error;
+  }
+}
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok || response.type === "opaque") {
+    const cache = await caches.open(STATIC_CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function staleWhileRevalidate(request) {
+  const cache = await caches.open(STATIC_CACHE);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then((response) => {
+      if (response.ok || response.type === "opaque") cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached);
+  return cached ?? network;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  const sameOrigin = url.origin === self.location.origin;
+
+  // Pet photos and avatars from other hosts
+  if (!sameOrigin) {
+    if (request.destination === "image") event.respondWith(cacheFirst(request));
+    return;
+  }
+
+  // The session is what keeps the user signed in while offline
+  if (url.pathname === "/api/auth/session") {
+    event.respondWith(networkFirst(request));
+    return;
+  }
+  if (url.pathname.startsWith("/api/")) return;
+
+  if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(cacheFirst(request));
+    return;
+  }
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request, OFFLINE_URL));
+    return;
+  }
+
+  // Client-side navigations fetch React Server Component payloads
+  if (request.headers.get("RSC") === "1") {
+    event.respondWith(networkFirst(request));
+    return;
+  }
+
+  event.respondWith(staleWhileRevalidate(request));
+});
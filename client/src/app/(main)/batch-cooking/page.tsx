@@ -0,0 +1,175 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { addDays, isSunday, nextSunday } from "date-fns";
+import { CookingPot, Calendar as CalendarIcon, Dog, Cat, Users } from "lucide-react";
+import { useSession } from "next-auth/react";
+import { usePets } from "@/lib/hooks/use-pets";
+import { useCalendarEntriesInRange } from "@/lib/hooks/use-calendar";
+import { useRecipesByIds } from "@/lib/hooks/use-recipes";
+import { useShoppingListChecks } from "@/lib/hooks/use-shopping-list";
+import { formatDate } from "@/lib/utils/format";
+import { buildBatchPlan } from "@/lib/utils/batch-plan";
+import { BatchPlanView } from "@/components/batch-cooking/batch-plan-view";
+import { LoadingSpinner } from "@/components/shared/loading-spinner";
+import { EmptyState } from "@/components/shared/empty-state";
+import { ErrorAlert } from "@/components/shared/error-alert";
+
+function defaultRange() {
+  const today = new Date();
+  const cookDay = isSunday(today) ? today : nextSunday(today);
+  return { from: formatDate(cookDay), to: formatDate(addDays(cookDay, 6)) };
+}
+
+export default function BatchCookingPage() {
+  const { status } = useSession();
+  const isAuthenticated = status === "authenticated";
+  const { data: pets, isLoading: isPetsLoading } = usePets({ enabled: isAuthenticated });
+  // `from` doubles as cook day: everything until `to` is cooked then
+  const [range, setRange] = useState(defaultRange);
+  const [selectedPetIds, setSelectedPetIds] = useState<string[] | null>(null);
+
+  const allPetIds = (pets ?? []).map((p) => p.id);
+  const petIds = selectedPetIds ?? allPetIds;
+  const isAllPets = selectedPetIds === null;
+
+  const { data: entries, isLoading: isEntriesLoading, isError: isEntriesError } =
+    useCalendarEntriesInRange(petIds, range.from, range.to);
+  const recipeIds = useMemo(() => [...new Set(entries.map((e) => e.recipeId))], [entries]);
+  const { data: recipesById, isLoading: isRecipesLoading, isError: isRecipesError } = useRecipesByIds(recipeIds);
+  const plan = useMemo(() => buildBatchPlan(entries, recipesById, range.from), [entries, recipesById, range.from]);
+
+  const listId = `batch_${range.from}_${range.to}_${[...petIds].sort().join(",")}`;
+  const { checked, toggle } = useShoppingListChecks(listId);
+
+  const isLoading = status === "loading" || (isAuthenticated && (isPetsLoading || isEntriesLoading || isRecipesLoading));
+  const isRangeValid = !!range.from && !!range.to && range.from <= range.to;
+  const totalBatches = plan.recipes.reduce((sum, r) => sum + r.batches, 0);
+
+  const togglePet = (petId: string) => {
+    const current = selectedPetIds ?? allPetIds;
+    const next = current.includes(petId) ? current.filter((id) => id !== petId) : [...current, petId];
+    setSelectedPetIds(next.length === allPetIds.length ? null : next);
+  };
+
+  const dateInputClass =
+    "h-12 rounded-xl border-4 border-[#4A3B32] px-3 font-bold text-[#4A3B32] shadow-[2px_2px_0px_#4A3B32] focus:outline-none bg-white";
+
+  return (
+    <div className="w-full max-w-4xl mx-auto">
+      <motion.div
+        initial={{ y: -20, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        className="flex flex-col sm:flex-row justify-between items-center gap-6 mb-12"
+      >
+        <div className="flex items-center gap-4">
+          <div className="w-16 h-16 bg-[#B5A4E5] rounded-2xl border-4 border-[#4A3B32] shadow-[4px_4px_0px_#4A3B32] flex items-center justify-center rotate-[-3deg]">
+            <CookingPot className="w-8 h-8 text-white" />
+          </div>
+          <div>
+            <h1 className="text-4xl font-black tracking-tight">Batch Cooking</h1>
+            <p className="text-lg font-medium text-[#4A3B32]/70">Cook once, fill the fridge and freezer for the week</p>
+          </div>
+        </div>
+      </motion.div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 10 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="mb-8 flex flex-col gap-5 rounded-[2rem] border-4 border-[#4A3B32] bg-[#FFF9F2] p-6 shadow-[8px_8px_0px_#4A3B32]"
+      >
+        <div className="flex flex-wrap items-end gap-4">
+          <label className="flex flex-col gap-1.5 text-sm font-black text-[#4A3B32]">
+            Cook day
+            <input
+              type="date"
+              value={range.from}
+              onChange={(e) => setRange((r) => ({ ...r, from: e.target.value }))}
+              className={dateInputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1.5 text-sm font-black text-[#4A3B32]">
+            Cover meals until
+            <input
+              type="date"
+              value={range.to}
+              min={range.from}
+              onChange={(e) => setRange((r) => ({ ...r, to: e.target.value }))}
+              className={dateInputClass}
+            />
+          </label>
+        </div>
+
+        {pets && pets.length > 0 && (
+          <div className="flex flex-wrap gap-3">
+            <button
+              onClick={() => setSelectedPetIds(null)}
+              aria-pressed={isAllPets}
+              className={`px-5 py-2 rounded-full font-bold border-2 border-[#4A3B32] transition-colors flex items-center gap-2 ${
+                isAllPets ? "bg-[#4A3B32] text-white shadow-[2px_2px_0px_#4A3B32]" : "bg-white text-[#4A3B32] hover:bg-[#FFF9F2]"
+              }`}
+            >
+              <Users className="w-4 h-4" />
+              All Pets
+            </button>
+            {pets.map((pet) => {
+              const isSelected = !isAllPets && petIds.includes(pet.id);
+              return (
+                <button
+                  key={pet.id}
+                  onClick={() => (isAllPets ? setSelectedPetIds([pet.id]) : togglePet(pet.id))}
+                  aria-pressed={isSelected}
+                  className={`px-5 py-2 rounded-full font-bold border-2 border-[#4A3B32] transition-colors flex items-center gap-2 ${
+                    isSelected ? "bg-[#4A3B32] text-white shadow-[2px_2px_0px_#4A3B32]" : "bg-white text-[#4A3B32] hover:bg-[#FFF9F2]"
+                  }`}
+                >
+                  {pet.species === "DOG" ? <Dog className="w-4 h-4" /> : <Cat className="w-4 h-4" />}
+                  {pet.name}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </motion.div>
+
+      {!isRangeValid && (
+        <ErrorAlert message="Pick a cook day that comes on or before the last day to cover." />
+      )}
+
+      {isRangeValid && isLoading && <LoadingSpinner message="Planning your cook day..." color="yellow" />}
+
+      {isRangeValid && !isLoading && (isEntriesError || isRecipesError) && (
+        <ErrorAlert message="Failed to load your planned meals. Please try refreshing the page." />
+      )}
+
+      {isRangeValid && !isLoading && !isEntriesError && !isRecipesError && plan.recipes.length === 0 && (
+        <EmptyState
+          icon={CalendarIcon}
+          title="Nothing to batch cook"
+          description="There are no meals scheduled for these dates. Plan some on the calendar and they'll show up here."
+          action={
+            <Link
+              href="/calendar"
+              className="px-6 py-3 rounded-full font-black border-4 border-[#4A3B32] bg-[#98C9A3] text-white shadow-[4px_4px_0px_#4A3B32]"
+            >
+              Go to Calendar
+            </Link>
+          }
+        />
+      )}
+
+      {isRangeValid && !isLoading && plan.recipes.length > 0 && (
+        <div className="flex flex-col gap-6">
+          <p className="text-base font-black text-[#4A3B32]/70">
+            {entries.length} {entries.length === 1 ? "meal" : "meals"} · {totalBatches}{" "}
+            {totalBatches === 1 ? "batch" : "batches"} to cook · {plan.warningCount}{" "}
+            {plan.warningCount === 1 ? "warning" : "warnings"}
+          </p>
+          <BatchPlanView plan={plan} checked={checked} onToggle={toggle} />
+        </div>
+      )}
+    </div>
+  );
+}
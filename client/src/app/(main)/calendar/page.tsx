@@ -2,9 +2,9 @@
 
 import { useState } from "react";
 import { motion } from "framer-motion";
-import { Calendar as CalendarIcon, Plus, Dog, Cat, Users } from "lucide-react";
+import { Calendar as CalendarIcon, CalendarDays, CalendarRange, Plus, Dog, Cat, Users } from "lucide-react";
 import { usePets } from "@/lib/hooks/use-pets";
-import { CalendarGrid } from "@/components/calendar/calendar-grid";
+import { CalendarGrid, type CalendarView } from "@/components/calendar/calendar-grid";
 import { CalendarEntryDialog } from "@/components/calendar/calendar-entry-dialog";
 import Link from "next/link";
 import { useSession } from "next-auth/react";
@@ -17,6 +17,7 @@ export default function CalendarPage() {
   const isLoading = status === "loading" || (isAuthenticated && isPetsLoading);
   const [selectedPetId, setSelectedPetId] = useState<string>("all");
   const [dialogState, setDialogState] = useState<{ date: string } | null>(null);
+  const [view, setView] = useState<CalendarView>("month");
 
   const isAllPets = selectedPetId === "all";
   const activePetId = isAllPets ? "" : (selectedPetId || pets?.[0]?.id || "");
@@ -95,6 +96,25 @@ export default function CalendarPage() {
             <p className="text-lg font-medium text-[#4A3B32]/70">Plan your pet&apos;s meals by day</p>
           </div>
         </div>
+
+        <div className="flex rounded-full border-4 border-[#4A3B32] bg-white p-1 shadow-[4px_4px_0px_#4A3B32]">
+          {([
+            { value: "month", label: "Month", icon: CalendarDays },
+            { value: "week", label: "Week", icon: CalendarRange },
+          ] as const).map(({ value, label, icon: Icon }) => (
+            <button
+              key={value}
+              onClick={() => setView(value)}
+              aria-pressed={view === value}
+              className={`px-5 py-2 rounded-full font-black transition-colors flex items-center gap-2 ${
+                view === value ? "bg-[#4A3B32] text-white" : "text-[#4A3B32] hover:bg-[#FFF9F2]"
+              }`}
+            >
+              <Icon className="w-4 h-4" strokeWidth={3} />
+              {label}
+            </button>
+          ))}
+        </div>
       </motion.div>
 
       <motion.div 
@@ -137,12 +157,14 @@ export default function CalendarPage() {
         {isAllPets ? (
           <CalendarGrid
             petIds={pets.map((p) => p.id)}
+            view={view}
             onDayClick={(date) => setDialogState({ date })}
           />
         ) : (
           activePetId && (
             <CalendarGrid
               petId={activePetId}
+              view={view}
               onDayClick={(date) => setDialogState({ date })}
             />
           )
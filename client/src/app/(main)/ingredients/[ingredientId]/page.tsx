@@ -0,0 +1,112 @@
+"use client";
+
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { ArrowLeft, BookOpen, ShieldAlert, Sparkles, Utensils } from "lucide-react";
+import { useIngredient, useRelatedGuidance } from "@/lib/hooks/use-ingredients";
+import { PageHeader } from "@/components/layout/page-header";
+import { SpeciesSafety } from "@/components/ingredients/species-safety";
+import { LoadingSpinner } from "@/components/shared/loading-spinner";
+import { ErrorAlert } from "@/components/shared/error-alert";
+import { formatCategory, splitIngredientName } from "@/lib/utils/ingredient-catalog";
+
+export default function IngredientDetailPage() {
+  const params = useParams();
+  const ingredientId = params.ingredientId as string;
+  const { data: ingredient, isLoading, error } = useIngredient(ingredientId);
+  const { data: guidance, isLoading: isGuidanceLoading } = useRelatedGuidance(ingredientId);
+
+  if (isLoading) return <LoadingSpinner message="Loading ingredient..." color="green" />;
+  if (error) return <ErrorAlert message="Failed to load ingredient" />;
+  if (!ingredient) return null;
+
+  const { base, notes } = splitIngredientName(ingredient.name);
+
+  return (
+    <div>
+      <Link
+        href="/ingredients"
+        className="mb-6 inline-flex items-center gap-2 font-black text-[#4A3B32]/60 hover:text-[#4A3B32] transition-colors"
+      >
+        <ArrowLeft className="w-4 h-4" strokeWidth={3} />
+        All ingredients
+      </Link>
+      <PageHeader
+        title={base.charAt(0).toUpperCase() + base.slice(1)}
+        description={notes ?? undefined}
+        action={
+          <Link
+            href={`/recipes/generate?include=${encodeURIComponent(base)}`}
+            className="flex items-center gap-2 rounded-full border-4 border-[#4A3B32] bg-[#E88D72] text-white px-6 py-2 font-black shadow-[4px_4px_0px_#4A3B32] transition-all hover:scale-[1.05] hover:-translate-y-1 hover:shadow-[6px_6px_0px_#4A3B32] active:scale-95 active:translate-y-1 active:shadow-none"
+          >
+            <Sparkles className="size-5" strokeWidth={3} />
+            Use in a recipe
+          </Link>
+        }
+      />
+
+      <div className="mx-auto max-w-2xl flex flex-col gap-10">
+        <div className="flex flex-wrap items-center gap-3">
+          {ingredient.category && (
+            <span className="rounded-full border-2 border-[#4A3B32] bg-[#FFD89B] px-4 py-1 text-sm font-black uppercase tracking-wider text-[#4A3B32]">
+              {formatCategory(ingredient.category)}
+            </span>
+          )}
+          <SpeciesSafety speciesSafe={ingredient.speciesSafe} showLabels />
+        </div>
+
+        <p className="text-lg font-medium leading-relaxed text-[#4A3B32]">{ingredient.contentText}</p>
+
+        {ingredient.safetyNotes && (
+          <section className="flex flex-col gap-3 p-6 rounded-3xl border-4 border-[#4A3B32] bg-[#F7B2B7]/30 shadow-[4px_4px_0px_#4A3B32]">
+            <h2 className="flex items-center gap-2 text-xl font-black text-[#4A3B32]">
+              <ShieldAlert className="w-5 h-5 text-[#E88D72]" strokeWidth={3} />
+              Safety notes
+            </h2>
+            <p className="font-bold text-[#4A3B32]/80">{ingredient.safetyNotes}</p>
+          </section>
+        )}
+
+        {ingredient.nutritionInfo && (
+          <section className="flex flex-col gap-3 p-6 rounded-3xl border-4 border-[#4A3B32] bg-[#98C9A3]/20 shadow-[4px_4px_0px_#4A3B32]">
+            <h2 className="flex items-center gap-2 text-xl font-black text-[#4A3B32]">
+              <Utensils className="w-5 h-5 text-[#98C9A3]" strokeWidth={3} />
+              Nutrition
+            </h2>
+            <p className="font-bold text-[#4A3B32]/80">{ingredient.nutritionInfo}</p>
+          </section>
+        )}
+
+        <section className="flex flex-col gap-4">
+          <h2 className="flex items-center gap-2 text-xl font-black text-[#4A3B32]">
+            <BookOpen className="w-5 h-5 text-[#B5A4E5]" strokeWidth={3} />
+            Related nutrition guides
+          </h2>
+          {isGuidanceLoading ? (
+            <p className="font-bold text-[#4A3B32]/50">Finding related guides...</p>
+          ) : guidance && guidance.length > 0 ? (
+            <ul className="flex flex-col gap-3">
+              {guidance.map((g) => (
+                <li key={g.id}>
+                  <Link
+                    href={`/ingredients/guides/${g.id}`}
+                    className="flex items-center justify-between gap-4 p-4 rounded-2xl border-4 border-[#4A3B32] bg-white shadow-[2px_2px_0px_#4A3B32] transition-all hover:-translate-y-0.5 hover:shadow-[4px_4px_0px_#4A3B32] hover:bg-[#FFF9F2]"
+                  >
+                    <span className="font-black text-[#4A3B32]">{g.title}</span>
+                    <span className="shrink-0 text-xs font-black uppercase tracking-wider text-[#4A3B32]/50">
+                      {[g.category, g.species === "DOG" ? "Dogs" : g.species === "CAT" ? "Cats" : null]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </span>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="font-bold text-[#4A3B32]/50">No related guides yet.</p>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
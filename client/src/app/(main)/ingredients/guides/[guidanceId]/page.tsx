@@ -0,0 +1,47 @@
+"use client";
+
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+import { useGuidance } from "@/lib/hooks/use-ingredients";
+import { PageHeader } from "@/components/layout/page-header";
+import { LoadingSpinner } from "@/components/shared/loading-spinner";
+import { ErrorAlert } from "@/components/shared/error-alert";
+
+export default function NutritionGuidePage() {
+  const params = useParams();
+  const router = useRouter();
+  const guidanceId = params.guidanceId as string;
+  const { data: guidance, isLoading, error } = useGuidance(guidanceId);
+
+  if (isLoading) return <LoadingSpinner message="Loading guide..." color="green" />;
+  if (error) return <ErrorAlert message="Failed to load guide" />;
+  if (!guidance) return null;
+
+  const species = guidance.species === "DOG" ? "For dogs" : guidance.species === "CAT" ? "For cats" : null;
+
+  return (
+    <div>
+      <button
+        onClick={() => router.back()}
+        className="mb-6 inline-flex items-center gap-2 font-black text-[#4A3B32]/60 hover:text-[#4A3B32] transition-colors"
+      >
+        <ArrowLeft className="w-4 h-4" strokeWidth={3} />
+        Back
+      </button>
+      <PageHeader
+        title={guidance.title}
+        description={[guidance.category, species].filter(Boolean).join(" · ") || undefined}
+      />
+      <article className="mx-auto max-w-2xl flex flex-col gap-6">
+        <p className="text-lg font-medium leading-relaxed text-[#4A3B32] whitespace-pre-line">{guidance.contentText}</p>
+        {guidance.source && (
+          <p className="text-sm font-bold text-[#4A3B32]/50">Source: {guidance.source}</p>
+        )}
+        <Link href="/ingredients" className="font-black text-[#E88D72] hover:underline">
+          Browse all ingredients
+        </Link>
+      </article>
+    </div>
+  );
+}
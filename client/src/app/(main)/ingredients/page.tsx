@@ -0,0 +1,111 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { Carrot, Cat, Dog, Search, SearchX } from "lucide-react";
+import { useSession } from "next-auth/react";
+import { useIngredients } from "@/lib/hooks/use-ingredients";
+import { IngredientCard } from "@/components/ingredients/ingredient-card";
+import { LoadingSpinner } from "@/components/shared/loading-spinner";
+import { EmptyState } from "@/components/shared/empty-state";
+import { ErrorAlert } from "@/components/shared/error-alert";
+import { formatCategory, groupIngredients } from "@/lib/utils/ingredient-catalog";
+import { cn } from "@/lib/utils";
+import type { Species } from "@/lib/types/pet.types";
+
+const SPECIES_FILTERS: { species: Species; label: string; icon: typeof Dog }[] = [
+  { species: "DOG", label: "Safe for dogs", icon: Dog },
+  { species: "CAT", label: "Safe for cats", icon: Cat },
+];
+
+export default function IngredientsPage() {
+  const { status } = useSession();
+  const { data: ingredients, isLoading, error, refetch } = useIngredients({ enabled: status === "authenticated" });
+  const [query, setQuery] = useState("");
+  const [species, setSpecies] = useState<Species[]>([]);
+  const groups = useMemo(() => groupIngredients(ingredients ?? [], query, species), [ingredients, query, species]);
+
+  const toggleSpecies = (s: Species) =>
+    setSpecies((prev) => (prev.includes(s) ? prev.filter((x) => x !== s) : [...prev, s]));
+
+  return (
+    <div className="w-full max-w-7xl mx-auto">
+      <motion.div
+        initial={{ y: -20, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        className="flex flex-col sm:flex-row justify-between items-center gap-6 mb-12"
+      >
+        <div className="flex items-center gap-4">
+          <div className="w-16 h-16 bg-[#98C9A3] rounded-2xl border-4 border-[#4A3B32] shadow-[4px_4px_0px_#4A3B32] flex items-center justify-center rotate-[-3deg]">
+            <Carrot className="w-8 h-8 text-white" />
+          </div>
+          <div>
+            <h1 className="text-4xl font-black tracking-tight">Ingredients</h1>
+            <p className="text-lg font-medium text-[#4A3B32]/70">What&apos;s safe to cook with, and how to prepare it</p>
+          </div>
+        </div>
+      </motion.div>
+
+      <div className="mb-10 flex flex-col md:flex-row gap-4 md:items-center">
+        <div className="relative flex-1">
+          <Search className="absolute left-5 top-1/2 -translate-y-1/2 w-5 h-5 text-[#4A3B32]/40" strokeWidth={3} />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search ingredients or categories..."
+            aria-label="Search ingredients"
+            className="w-full h-14 pl-13 pr-5 rounded-2xl border-4 border-[#4A3B32] shadow-[4px_4px_0px_#4A3B32] text-lg font-bold bg-white focus:outline-none focus:shadow-[6px_6px_0px_#4A3B32] transition-all placeholder:text-[#4A3B32]/40"
+          />
+        </div>
+        <div className="flex gap-3">
+          {SPECIES_FILTERS.map(({ species: s, label, icon: Icon }) => (
+            <motion.button
+              key={s}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={() => toggleSpecies(s)}
+              aria-pressed={species.includes(s)}
+              className={cn(
+                "flex items-center gap-2 px-5 py-3 rounded-full border-4 border-[#4A3B32] font-black transition-colors",
+                species.includes(s)
+                  ? "bg-[#98C9A3] text-white shadow-[4px_4px_0px_#4A3B32]"
+                  : "bg-white text-[#4A3B32] hover:bg-[#FFF9F2]"
+              )}
+            >
+              <Icon className="w-4 h-4" strokeWidth={3} />
+              {label}
+            </motion.button>
+          ))}
+        </div>
+      </div>
+
+      {status === "loading" || isLoading ? (
+        <LoadingSpinner message="Loading ingredients..." color="green" />
+      ) : error ? (
+        <ErrorAlert message="Failed to load ingredients" onRetry={() => refetch()} />
+      ) : groups.length === 0 ? (
+        <EmptyState
+          icon={SearchX}
+          title="No ingredients found"
+          description="Try a different search, or clear the species filters."
+        />
+      ) : (
+        <div className="flex flex-col gap-12">
+          {groups.map(({ category, ingredients: items }) => (
+            <section key={category} className="flex flex-col gap-5">
+              <h2 className="text-2xl font-black text-[#4A3B32] capitalize">
+                {formatCategory(category)}
+                <span className="ml-3 text-base font-bold text-[#4A3B32]/50">{items.length}</span>
+              </h2>
+              <div className="grid gap-5 sm:grid-cols-2 lg:grid-cols-3">
+                {items.map((ingredient) => (
+                  <IngredientCard key={ingredient.id} ingredient={ingredient} />
+                ))}
+              </div>
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
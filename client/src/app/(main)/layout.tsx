@@ -1,6 +1,9 @@
 import { auth } from "@/lib/auth/auth";
 import { TokenSetter } from "@/components/layout/token-setter";
 import { MainNavBar } from "@/components/layout/main-nav-bar";
+import { OfflineStatus } from "@/components/layout/offline-status";
+import { GuestMigrationGate } from "@/components/layout/guest-migration-gate";
+import { HealthReviewBanner } from "@/components/layout/health-review-banner";
 
 export default async function MainLayout({ children }: { children: React.ReactNode }) {
   const session = await auth();
@@ -9,6 +12,9 @@ export default async function MainLayout({ children }: { children: React.ReactNo
     <div className="min-h-screen bg-[#FFF9F2] text-[#4A3B32] font-sans selection:bg-[#F7B2B7] selection:text-[#4A3B32] flex flex-col">
       <TokenSetter token={session?.accessToken ?? null} expiresAt={session?.accessTokenExpiresAt ?? null} />
       <MainNavBar user={session?.user} />
+      <OfflineStatus userId={session?.userId ?? null} />
+      <GuestMigrationGate userId={session?.userId ?? null} />
+      <HealthReviewBanner userId={session?.userId ?? null} />
       <main className="flex-1 w-full max-w-7xl mx-auto px-6 py-8 md:py-12 flex flex-col">
         {children}
       </main>
@@ -5,6 +5,8 @@ import Link from "next/link";
 import { ArrowLeft } from "lucide-react";
 import { motion } from "framer-motion";
 import { usePet, useUpdatePet } from "@/lib/hooks/use-pets";
+import { useGuestPet, useSaveGuestPet, useSetGuestPhoto } from "@/lib/hooks/use-guest";
+import { isGuestId } from "@/lib/offline/guest-store";
 import { PetForm } from "@/components/pets/pet-form";
 import { LoadingSpinner } from "@/components/shared/loading-spinner";
 import { ErrorAlert } from "@/components/shared/error-alert";
@@ -14,11 +16,17 @@ export default function EditPetPage() {
   const params = useParams();
   const router = useRouter();
   const petId = params.petId as string;
-  const { data: pet, isLoading, error } = usePet(petId);
+  const isGuest = isGuestId(petId);
+  const accountPet = usePet(petId);
+  const guestPet = useGuestPet(petId);
+  const { data: pet, isLoading, error } = isGuest ? guestPet : accountPet;
   const updatePet = useUpdatePet(petId);
+  const saveGuestPet = useSaveGuestPet();
+  const setGuestPhoto = useSetGuestPhoto(petId);
 
   const handleSubmit = async (data: PetFormValues) => {
-    await updatePet.mutateAsync(data);
+    if (isGuest) await saveGuestPet.mutateAsync({ data, petId });
+    else await updatePet.mutateAsync(data);
     router.push(`/pets/${petId}`);
   };
 
@@ -48,7 +56,12 @@ export default function EditPetPage() {
       </div>
 
       <div className="w-full">
-        <PetForm defaultValues={pet} onSubmit={handleSubmit} submitLabel="Save Changes" />
+        <PetForm
+          defaultValues={pet}
+          onSubmit={handleSubmit}
+          submitLabel="Save Changes"
+          onPhotoChange={isGuest ? (file) => setGuestPhoto.mutate(file) : undefined}
+        />
       </div>
     </div>
   );
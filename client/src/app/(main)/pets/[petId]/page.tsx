@@ -2,9 +2,14 @@
 
 import { useParams, useRouter } from "next/navigation";
 import Link from "next/link";
-import { Pencil, Trash2, ArrowLeft } from "lucide-react";
+import { Pencil, Trash2, ArrowLeft, CloudOff } from "lucide-react";
 import { usePet, useDeletePet } from "@/lib/hooks/use-pets";
+import { useDeleteGuestPet, useGuestPet } from "@/lib/hooks/use-guest";
+import { isGuestId } from "@/lib/offline/guest-store";
 import { PetProfileSummary } from "@/components/pets/pet-profile-summary";
+import { NutritionDashboard } from "@/components/pets/nutrition-dashboard";
+import { WeightLog } from "@/components/pets/weight-log";
+import { PetPhotoGallery } from "@/components/pets/pet-photo-gallery";
 import { LoadingSpinner } from "@/components/shared/loading-spinner";
 import { ErrorAlert } from "@/components/shared/error-alert";
 import { ConfirmDialog } from "@/components/shared/confirm-dialog";
@@ -14,11 +19,15 @@ export default function PetDetailPage() {
   const params = useParams();
   const router = useRouter();
   const petId = params.petId as string;
-  const { data: pet, isLoading, error } = usePet(petId);
+  const isGuest = isGuestId(petId);
+  const accountPet = usePet(petId);
+  const guestPet = useGuestPet(petId);
+  const { data: pet, isLoading, error } = isGuest ? guestPet : accountPet;
   const deletePet = useDeletePet();
+  const deleteGuestPet = useDeleteGuestPet();
 
   const handleDelete = async () => {
-    await deletePet.mutateAsync(petId);
+    await (isGuest ? deleteGuestPet : deletePet).mutateAsync(petId);
     router.push("/pets");
   };
 
@@ -79,6 +88,24 @@ export default function PetDetailPage() {
       </div>
 
       <PetProfileSummary pet={pet} />
+      {isGuest ? (
+        <div className="flex items-center gap-4 rounded-[2rem] border-4 border-[#4A3B32] bg-[#FFD89B] p-6 font-bold text-[#4A3B32] shadow-[6px_6px_0px_#4A3B32]">
+          <CloudOff className="w-6 h-6 shrink-0" strokeWidth={3} />
+          <p>
+            {pet.name} is only saved on this device.{" "}
+            <Link href="/sign-in?callbackUrl=/pets" className="font-black underline underline-offset-4">
+              Sign in
+            </Link>{" "}
+            to keep them in your account and track weight and nutrition.
+          </p>
+        </div>
+      ) : (
+        <>
+          <PetPhotoGallery pet={pet} />
+          <WeightLog pet={pet} />
+          <NutritionDashboard pet={pet} />
+        </>
+      )}
     </div>
   );
 }
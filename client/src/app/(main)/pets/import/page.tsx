@@ -0,0 +1,206 @@
+"use client";
+
+import { Suspense, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import Image from "next/image";
+import { motion } from "framer-motion";
+import { Cat, Dog, DownloadCloud } from "lucide-react";
+import { useSession } from "next-auth/react";
+import { useQueryClient } from "@tanstack/react-query";
+import { PETS_KEY, usePets } from "@/lib/hooks/use-pets";
+import { GUEST_PETS_KEY, useGuestPets } from "@/lib/hooks/use-guest";
+import {
+  migrateGuestPet,
+  migrateRecipeDraft,
+  planGuestMigration,
+  type GuestPetPlan,
+  type GuestPetResolution,
+} from "@/lib/offline/guest-migration";
+import { LoadingSpinner } from "@/components/shared/loading-spinner";
+import { ErrorAlert } from "@/components/shared/error-alert";
+import { cn } from "@/lib/utils";
+import { safeNextPath } from "@/lib/utils/redirect";
+import type { Pet } from "@/lib/types/pet.types";
+
+const RESOLUTIONS: { resolution: GuestPetResolution; label: (existing: Pet) => string }[] = [
+  { resolution: "import", label: () => "Keep both" },
+  { resolution: "replace", label: (existing) => `Replace ${existing.name} in my account` },
+  { resolution: "skip", label: () => "Don't import it" },
+];
+
+function PetAvatar({ pet }: { pet: Pet }) {
+  const Icon = pet.species === "DOG" ? Dog : Cat;
+  return (
+    <div className="relative w-16 h-16 shrink-0 rounded-full border-4 border-[#4A3B32] bg-[#FFF9F2] overflow-hidden flex items-center justify-center">
+      {pet.photoUrl ? (
+        <Image src={pet.photoUrl} alt={`${pet.name} photo`} fill className="object-cover" sizes="64px" />
+      ) : (
+        <Icon className="w-8 h-8 text-[#4A3B32]/40" />
+      )}
+    </div>
+  );
+}
+
+function ImportGuestPetsContent() {
+  const router = useRouter();
+  const next = safeNextPath(useSearchParams().get("next"));
+  const { status } = useSession();
+  const queryClient = useQueryClient();
+  const { data: accountPets, error: accountError } = usePets({ enabled: status === "authenticated" });
+  const { data: guestPets } = useGuestPets();
+  const [resolutions, setResolutions] = useState<Record<string, GuestPetResolution>>({});
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const autoStarted = useRef(false);
+
+  const plans = useMemo(
+    () => (guestPets && accountPets ? planGuestMigration(guestPets, accountPets) : null),
+    [guestPets, accountPets]
+  );
+  const hasConflicts = !!plans?.some((plan) => plan.conflict);
+
+  const runImport = useCallback(
+    async (toImport: GuestPetPlan[]) => {
+      setIsImporting(true);
+      setImportError(null);
+      const petIds = new Map<string, string | null>();
+      try {
+        for (const plan of toImport) {
+          // Anything left unanswered is kept alongside the account's pets, so nothing is lost
+          petIds.set(plan.guest.id, await migrateGuestPet(plan, resolutions[plan.guest.id] ?? "import"));
+        }
+        await migrateRecipeDraft(petIds);
+        await queryClient.invalidateQueries({ queryKey: PETS_KEY });
+        await queryClient.invalidateQueries({ queryKey: GUEST_PETS_KEY });
+        router.replace(next);
+      } catch (e) {
+        // Pets imported before the failure are already off this device, so a retry picks up the rest
+        await migrateRecipeDraft(petIds);
+        queryClient.invalidateQueries({ queryKey: PETS_KEY });
+        queryClient.invalidateQueries({ queryKey: GUEST_PETS_KEY });
+        setImportError(e instanceof Error && e.message ? e.message : "Couldn't import your pets.");
+        setIsImporting(false);
+      }
+    },
+    [resolutions, queryClient, router, next]
+  );
+
+  useEffect(() => {
+    if (!plans || hasConflicts || autoStarted.current) return;
+    autoStarted.current = true;
+    // Nothing to decide, so there's nothing to review either
+    if (plans.length === 0) router.replace(next);
+    else runImport(plans);
+  }, [plans, hasConflicts, runImport, router, next]);
+
+  if (accountError) return <ErrorAlert message="Failed to load your pets" />;
+
+  if (!plans || (!hasConflicts && !importError)) {
+    return <LoadingSpinner message="Moving your pets into your account..." color="pink" className="min-h-[500px]" />;
+  }
+
+  return (
+    <div className="w-full max-w-3xl mx-auto flex flex-col gap-8">
+      <motion.div
+        initial={{ y: -20, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        className="flex items-center gap-4"
+      >
+        <div className="w-16 h-16 bg-[#B5A4E5] rounded-2xl border-4 border-[#4A3B32] shadow-[4px_4px_0px_#4A3B32] flex items-center justify-center rotate-[-6deg]">
+          <DownloadCloud className="w-8 h-8 text-white" strokeWidth={3} />
+        </div>
+        <div>
+          <h1 className="text-4xl font-black tracking-tight">Import Your Pets</h1>
+          <p className="text-lg font-medium text-[#4A3B32]/70">
+            These pets were added on this device before you signed in.
+          </p>
+        </div>
+      </motion.div>
+
+      <div className="flex flex-col gap-5">
+        {plans.map((plan) => {
+          const { guest, conflict } = plan;
+          const chosen = resolutions[guest.id] ?? "import";
+          return (
+            <div
+              key={guest.id}
+              className="flex flex-col gap-4 p-6 bg-white rounded-[2rem] border-4 border-[#4A3B32] shadow-[6px_6px_0px_#4A3B32]"
+            >
+              <div className="flex items-center gap-4">
+                <PetAvatar pet={guest} />
+                <div className="min-w-0">
+                  <h2 className="text-2xl font-black text-[#4A3B32] truncate">{guest.name}</h2>
+                  <p className="font-bold text-[#4A3B32]/60">
+                    {guest.breed} · {guest.ageYears}y {guest.ageMonths}m · {guest.weightKg} kg
+                  </p>
+                </div>
+              </div>
+
+              {conflict ? (
+                <fieldset className="flex flex-col gap-3">
+                  <legend className="mb-3 font-bold text-[#4A3B32]">
+                    Your account already has a {conflict.species === "DOG" ? "dog" : "cat"} called {conflict.name}
+                    {" "}({conflict.breed} · {conflict.weightKg} kg).
+                  </legend>
+                  <div className="flex flex-wrap gap-3">
+                    {RESOLUTIONS.map(({ resolution, label }) => (
+                      <button
+                        key={resolution}
+                        type="button"
+                        onClick={() => setResolutions((prev) => ({ ...prev, [guest.id]: resolution }))}
+                        aria-pressed={chosen === resolution}
+                        className={cn(
+                          "px-4 py-2 rounded-full border-4 border-[#4A3B32] font-black text-sm transition-all",
+                          chosen === resolution
+                            ? "bg-[#FFD89B] shadow-[4px_4px_0px_#4A3B32] -translate-y-0.5"
+                            : "bg-white text-[#4A3B32]/70 hover:bg-[#FFF9F2]"
+                        )}
+                      >
+                        {label(conflict)}
+                      </button>
+                    ))}
+                  </div>
+                </fieldset>
+              ) : (
+                <p className="font-bold text-[#98C9A3]">Will be added to your account.</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {importError && <ErrorAlert message={importError} onRetry={() => runImport(plans)} />}
+
+      <div className="flex justify-end pt-6 border-t-4 border-[#4A3B32]/10">
+        <motion.button
+          whileHover={isImporting ? {} : { scale: 1.02, y: -2 }}
+          whileTap={isImporting ? {} : { scale: 0.98, y: 0 }}
+          onClick={() => runImport(plans)}
+          disabled={isImporting}
+          className={`px-8 py-4 rounded-full border-4 border-[#4A3B32] font-black text-lg shadow-[4px_4px_0px_#4A3B32] transition-all flex items-center justify-center min-w-[200px] ${
+            isImporting
+              ? "bg-gray-200 text-gray-400 cursor-not-allowed shadow-none"
+              : "bg-[#98C9A3] text-white hover:shadow-[6px_6px_0px_#4A3B32]"
+          }`}
+        >
+          {isImporting ? (
+            <div className="flex items-center gap-3">
+              <div className="w-6 h-6 border-4 border-[#4A3B32] border-t-white rounded-full animate-spin" />
+              Importing...
+            </div>
+          ) : (
+            "Import Pets"
+          )}
+        </motion.button>
+      </div>
+    </div>
+  );
+}
+
+export default function ImportGuestPetsPage() {
+  return (
+    <Suspense fallback={<LoadingSpinner message="Loading..." color="pink" />}>
+      <ImportGuestPetsContent />
+    </Suspense>
+  );
+}
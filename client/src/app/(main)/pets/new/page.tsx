@@ -1,80 +1,59 @@
 "use client";
 
-import { useRef, useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 import { motion } from "framer-motion";
 import { Plus } from "lucide-react";
 import { PetWizard } from "@/components/pets/pet-wizard";
 import { useCreatePet } from "@/lib/hooks/use-pets";
+import { useSaveGuestPet } from "@/lib/hooks/use-guest";
 import { petsApi } from "@/lib/api/pets.api";
+import { clearDraft, getDraft, saveDraft } from "@/lib/offline/guest-store";
 import type { PetFormValues } from "@/lib/schemas/pet.schema";
 import { useSession } from "next-auth/react";
 
 import { LoadingSpinner } from "@/components/shared/loading-spinner";
 
+const DRAFT_SAVE_DELAY_MS = 500;
+
 export default function NewPetPage() {
   const router = useRouter();
   const { status } = useSession();
   const createPet = useCreatePet();
+  const saveGuestPet = useSaveGuestPet();
   const selectedPhoto = useRef<File | null>(null);
+  const draftTimer = useRef<ReturnType<typeof setTimeout>>(undefined);
   const [defaultValues, setDefaultValues] = useState<Partial<PetFormValues> | undefined>();
   const [isRestoring, setIsRestoring] = useState(true);
-  const [isAutoSubmitting, setIsAutoSubmitting] = useState(false);
-  const hasAutoSubmitted = useRef(false);
 
   useEffect(() => {
-    if (status === "loading") return;
-
-    const savedData = sessionStorage.getItem("pending_pet_data");
-
-    if (savedData) {
-      if (status === "authenticated" && !hasAutoSubmitted.current) {
-        hasAutoSubmitted.current = true;
-        setIsAutoSubmitting(true);
-        try {
-          const data = JSON.parse(savedData);
-          sessionStorage.removeItem("pending_pet_data");
-
-          createPet.mutateAsync(data)
-            .then(() => {
-              // We can't automatically upload the photo since File objects cannot be stored in sessionStorage
-              // The user can add a photo later by editing the pet
-              router.push("/pets");
-            })
-            .catch((error) => {
-              console.error("Failed to create pet automatically", error);
-              setIsAutoSubmitting(false);
-              setIsRestoring(false);
-            });
-          return;
-        } catch {
-          console.error("Failed to parse pending pet data for auto-submit");
-          sessionStorage.removeItem("pending_pet_data");
-        }
-      } else if (!hasAutoSubmitted.current) {
-        try {
-          setDefaultValues(JSON.parse(savedData));
-          // Don't clear it here so that if they click save, it'll trigger login again if still unauthenticated. 
-          // Actually, if we restore it, they are in step 1, they would need to go through steps again. 
-          // They should probably just see their restored data.
-          sessionStorage.removeItem("pending_pet_data");
-        } catch {
-          console.error("Failed to parse pending pet data");
-        }
-      }
-    }
+    getDraft("pet-wizard")
+      .then(setDefaultValues)
+      .catch(() => {
+        // No draft to pick up; start from a blank wizard
+      })
+      .finally(() => setIsRestoring(false));
+    return () => clearTimeout(draftTimer.current);
+  }, []);
 
-    setIsRestoring(false);
-  }, [status, createPet, router]);
+  const handleDraftChange = useCallback((values: Partial<PetFormValues>) => {
+    clearTimeout(draftTimer.current);
+    draftTimer.current = setTimeout(() => saveDraft("pet-wizard", values), DRAFT_SAVE_DELAY_MS);
+  }, []);
 
   const handleSubmit = async (data: PetFormValues) => {
+    clearTimeout(draftTimer.current);
+
     if (status !== "authenticated") {
-      sessionStorage.setItem("pending_pet_data", JSON.stringify(data));
-      router.push("/sign-in?callbackUrl=/pets/new");
+      // Kept on this device, photo included, until they sign in and import it
+      await saveGuestPet.mutateAsync({ data, photo: selectedPhoto.current });
+      await clearDraft("pet-wizard");
+      router.push("/pets");
       return;
     }
 
     const pet = await createPet.mutateAsync(data);
+    await clearDraft("pet-wizard");
     if (selectedPhoto.current && pet.id) {
       try {
         await petsApi.uploadPhoto(pet.id, selectedPhoto.current);
@@ -85,14 +64,8 @@ export default function NewPetPage() {
     router.push("/pets");
   };
 
-  if (isRestoring || isAutoSubmitting) {
-    return (
-      <LoadingSpinner
-        message={isAutoSubmitting ? "Creating pet profile..." : "Loading..."}
-        color="pink"
-        className="min-h-[500px]"
-      />
-    );
+  if (isRestoring || status === "loading") {
+    return <LoadingSpinner message="Loading..." color="pink" className="min-h-[500px]" />;
   }
 
   return (
@@ -114,6 +87,7 @@ export default function NewPetPage() {
       <PetWizard
         defaultValues={defaultValues}
         onSubmit={handleSubmit}
+        onDraftChange={handleDraftChange}
         onPhotoSelected={(file) => { selectedPhoto.current = file; }}
       />
     </div>
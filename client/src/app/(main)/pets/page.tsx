@@ -2,8 +2,9 @@
 
 import Link from "next/link";
 import { motion, Variants } from "framer-motion";
-import { Plus, Dog, Cat, Heart, Info } from "lucide-react";
+import { Plus, Dog, Cat, Heart, Info, CloudOff } from "lucide-react";
 import { usePets } from "@/lib/hooks/use-pets";
+import { useGuestPets } from "@/lib/hooks/use-guest";
 import { useSession } from "next-auth/react";
 import { PetCard } from "@/components/pets/pet-card";
 import { LoadingSpinner } from "@/components/shared/loading-spinner";
@@ -11,8 +12,11 @@ import { LoadingSpinner } from "@/components/shared/loading-spinner";
 export default function PetsPage() {
   const { status } = useSession();
   const isAuthenticated = status === "authenticated";
-  const { data: pets, isLoading: isPetsLoading, error } = usePets({ enabled: isAuthenticated });
-  const isLoading = status === "loading" || (isAuthenticated && isPetsLoading);
+  const isGuest = status === "unauthenticated";
+  const { data: accountPets, isLoading: isPetsLoading, error } = usePets({ enabled: isAuthenticated });
+  const { data: guestPets, isLoading: isGuestPetsLoading } = useGuestPets({ enabled: isGuest });
+  const pets = isGuest ? guestPets : accountPets;
+  const isLoading = status === "loading" || (isAuthenticated && isPetsLoading) || (isGuest && isGuestPetsLoading);
 
   const containerVariants: Variants = {
     hidden: { opacity: 0 },
@@ -67,6 +71,19 @@ export default function PetsPage() {
         </Link>
       </motion.div>
 
+      {isGuest && pets && pets.length > 0 && (
+        <div className="flex items-center gap-4 mb-8 rounded-[2rem] border-4 border-[#4A3B32] bg-[#FFD89B] p-6 font-bold text-[#4A3B32] shadow-[6px_6px_0px_#4A3B32]">
+          <CloudOff className="w-6 h-6 shrink-0" strokeWidth={3} />
+          <p>
+            These pets are only saved on this device.{" "}
+            <Link href="/sign-in?callbackUrl=/pets" className="font-black underline underline-offset-4">
+              Sign in
+            </Link>{" "}
+            to keep them in your account. We&apos;ll bring them, photos included, along with you.
+          </p>
+        </div>
+      )}
+
       {isLoading && <LoadingSpinner message="Loading your pets..." color="yellow" />}
 
       {error && (
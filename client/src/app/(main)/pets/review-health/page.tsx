@@ -0,0 +1,263 @@
+"use client";
+
+import { Suspense, useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { motion } from "framer-motion";
+import { ClipboardCheck, Cat, Dog, PenLine, Trash2 } from "lucide-react";
+import { useSession } from "next-auth/react";
+import { useApplyHealthCodes, useHealthReview, useHealthVocabulary } from "@/lib/hooks/use-pets";
+import { HealthTermPicker } from "@/components/pets/health-term-picker";
+import { LoadingSpinner } from "@/components/shared/loading-spinner";
+import { ErrorAlert } from "@/components/shared/error-alert";
+import { cn } from "@/lib/utils";
+import { HEALTH_FIELD_KEYS, HEALTH_FIELD_LABELS, termLabel } from "@/lib/utils/health-terms";
+import { safeNextPath } from "@/lib/utils/redirect";
+import type { HealthCodeMapping, HealthReviewEntry } from "@/lib/types/pet.types";
+
+type Choice = Pick<HealthCodeMapping, "code" | "keepAsTyped">;
+
+const entryKey = (petId: string, entry: HealthReviewEntry) => `${petId}:${entry.field}:${entry.value}`;
+
+function ReviewHealthContent() {
+  const router = useRouter();
+  const next = safeNextPath(useSearchParams().get("next"));
+  const { status } = useSession();
+  const { data: reviews, error: reviewError } = useHealthReview({ enabled: status === "authenticated" });
+  const { data: vocabulary } = useHealthVocabulary();
+  const applyCodes = useApplyHealthCodes();
+  // Missing while still undecided; undecided entries are left for later when saving
+  const [choices, setChoices] = useState<Record<string, Choice>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Nothing left to map, e.g. after saving in another tab
+    if (reviews?.length === 0 && !isSaving) router.replace(next);
+  }, [reviews, isSaving, router, next]);
+
+  if (reviewError) return <ErrorAlert message="Failed to load your pets' health details" />;
+
+  if (!reviews || reviews.length === 0) {
+    return <LoadingSpinner message="Checking your pets' health details..." color="pink" className="min-h-[500px]" />;
+  }
+
+  const choiceFor = (petId: string, entry: HealthReviewEntry): Choice | undefined => {
+    const key = entryKey(petId, entry);
+    if (key in choices) return choices[key];
+    return entry.suggestedCode ? { code: entry.suggestedCode } : undefined;
+  };
+  const choose = (petId: string, entry: HealthReviewEntry, choice: Choice) =>
+    setChoices((prev) => ({ ...prev, [entryKey(petId, entry)]: choice }));
+
+  const total = reviews.reduce((count, review) => count + review.entries.length, 0);
+  const undecided = reviews.reduce(
+    (count, review) => count + review.entries.filter((e) => choiceFor(review.petId, e) === undefined).length,
+    0
+  );
+  const nothingChosen = undecided === total;
+
+  const save = async () => {
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      for (const review of reviews) {
+        const mappings: HealthCodeMapping[] = review.entries.flatMap((entry) => {
+          const choice = choiceFor(review.petId, entry);
+          return choice ? [{ field: entry.field, value: entry.value, ...choice }] : [];
+        });
+        if (mappings.length > 0) await applyCodes.mutateAsync({ petId: review.petId, mappings });
+      }
+      if (undecided === 0) {
+        router.replace(next);
+      } else {
+        // The review reloads with only the entries still undecided
+        setChoices({});
+        setIsSaving(false);
+      }
+    } catch (e) {
+      // Pets saved before the failure drop out of the review when it reloads
+      setSaveError(e instanceof Error && e.message ? e.message : "Couldn't save your pets' health details.");
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-3xl mx-auto flex flex-col gap-8">
+      <motion.div
+        initial={{ y: -20, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        className="flex items-center gap-4"
+      >
+        <div className="w-16 h-16 bg-[#98C9A3] rounded-2xl border-4 border-[#4A3B32] shadow-[4px_4px_0px_#4A3B32] flex items-center justify-center rotate-[-6deg]">
+          <ClipboardCheck className="w-8 h-8 text-white" strokeWidth={3} />
+        </div>
+        <div>
+          <h1 className="text-4xl font-black tracking-tight">Check Health Details</h1>
+          <p className="text-lg font-medium text-[#4A3B32]/70">
+            Allergies, conditions and medications now come from a list, so our safety checks can recognise them.
+            Match what you typed before to a listed entry, or keep it as typed if the list doesn&apos;t have it.
+          </p>
+        </div>
+      </motion.div>
+
+      <div className="flex flex-col gap-5">
+        {reviews.map((review) => {
+          const Icon = review.species === "DOG" ? Dog : Cat;
+          return (
+            <div
+              key={review.petId}
+              className="flex flex-col gap-5 p-6 bg-white rounded-[2rem] border-4 border-[#4A3B32] shadow-[6px_6px_0px_#4A3B32]"
+            >
+              <div className="flex items-center gap-3">
+                <Icon className="w-7 h-7 text-[#4A3B32]/50" />
+                <h2 className="text-2xl font-black text-[#4A3B32] truncate">{review.petName}</h2>
+              </div>
+
+              {review.entries.map((entry) => {
+                const list = HEALTH_FIELD_KEYS[entry.field];
+                const chosen = choiceFor(review.petId, entry);
+                const kept = chosen?.keepAsTyped ? (chosen.code ?? entry.value) : null;
+                const removed = !!chosen && !chosen.keepAsTyped && chosen.code === null;
+                const code = chosen && !chosen.keepAsTyped ? chosen.code : null;
+                return (
+                  <div
+                    key={entryKey(review.petId, entry)}
+                    className="flex flex-col gap-3 p-4 bg-[#FFF9F2] rounded-2xl border-4 border-[#4A3B32]/10"
+                  >
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <p className="font-bold text-[#4A3B32]">
+                        <span className="text-xs font-black uppercase tracking-wider text-[#4A3B32]/50 mr-2">
+                          {HEALTH_FIELD_LABELS[entry.field]}
+                        </span>
+                        &ldquo;{entry.value}&rdquo;
+                      </p>
+                      <span
+                        className={cn(
+                          "px-3 py-1 rounded-full border-2 border-[#4A3B32] font-black text-xs",
+                          !chosen && "bg-white text-[#4A3B32]/60",
+                          removed && "bg-[#E88D72] text-white",
+                          (code || kept) && "bg-[#98C9A3] text-white"
+                        )}
+                      >
+                        {!chosen
+                          ? "Not matched yet"
+                          : removed
+                            ? "Will be removed"
+                            : kept
+                              ? <>Kept as &ldquo;{kept}&rdquo;</>
+                              : termLabel(vocabulary?.[list], code ?? "")}
+                      </span>
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-3">
+                      {entry.suggestedCode && (
+                        <button
+                          type="button"
+                          onClick={() => choose(review.petId, entry, { code: entry.suggestedCode })}
+                          aria-pressed={code === entry.suggestedCode}
+                          className={cn(
+                            "px-4 py-2 rounded-full border-4 border-[#4A3B32] font-black text-sm transition-all",
+                            code === entry.suggestedCode
+                              ? "bg-[#FFD89B] shadow-[4px_4px_0px_#4A3B32] -translate-y-0.5"
+                              : "bg-white text-[#4A3B32]/70 hover:bg-[#FFD89B]/40"
+                          )}
+                        >
+                          {termLabel(vocabulary?.[list], entry.suggestedCode)}
+                        </button>
+                      )}
+                      <div className="flex-1 min-w-[200px]">
+                        <HealthTermPicker
+                          list={list}
+                          selected={code ? [code] : []}
+                          onPick={(value, typed) =>
+                            choose(review.petId, entry, typed ? { code: value, keepAsTyped: true } : { code: value })
+                          }
+                          placeholder={entry.suggestedCode ? "Or search the list..." : "Search the list..."}
+                          className="bg-white border-4 border-[#4A3B32] rounded-xl px-3 py-2 text-sm font-bold text-[#4A3B32] focus:outline-none focus:border-[#F7B2B7]"
+                        />
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => choose(review.petId, entry, { code: null, keepAsTyped: true })}
+                        aria-pressed={kept === entry.value}
+                        className={cn(
+                          "flex items-center gap-1.5 px-4 py-2 rounded-full border-4 border-[#4A3B32] font-black text-sm transition-all",
+                          kept === entry.value
+                            ? "bg-[#FFD89B] shadow-[4px_4px_0px_#4A3B32] -translate-y-0.5"
+                            : "bg-white text-[#4A3B32]/70 hover:bg-[#FFD89B]/40"
+                        )}
+                      >
+                        <PenLine className="w-4 h-4" strokeWidth={3} />
+                        Keep as typed
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => choose(review.petId, entry, { code: null })}
+                        aria-pressed={removed}
+                        className={cn(
+                          "flex items-center gap-1.5 px-4 py-2 rounded-full border-4 border-[#4A3B32] font-black text-sm transition-all",
+                          removed
+                            ? "bg-[#FFD89B] shadow-[4px_4px_0px_#4A3B32] -translate-y-0.5"
+                            : "bg-white text-[#4A3B32]/70 hover:bg-[#FFD89B]/40"
+                        )}
+                      >
+                        <Trash2 className="w-4 h-4" strokeWidth={3} />
+                        Remove
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+
+      {saveError && <ErrorAlert message={saveError} onRetry={save} />}
+
+      <div className="flex flex-wrap items-center justify-end gap-4 pt-6 border-t-4 border-[#4A3B32]/10">
+        {undecided > 0 && (
+          <p className="font-bold text-[#4A3B32]/60">
+            {undecided} {undecided === 1 ? "entry" : "entries"} without a choice will be asked about later
+          </p>
+        )}
+        <button
+          type="button"
+          onClick={() => router.replace(next)}
+          disabled={isSaving}
+          className="px-6 py-4 rounded-full border-4 border-[#4A3B32] bg-white font-black text-lg text-[#4A3B32]/70 hover:bg-[#FFF9F2] disabled:opacity-50"
+        >
+          Later
+        </button>
+        <motion.button
+          whileHover={isSaving || nothingChosen ? {} : { scale: 1.02, y: -2 }}
+          whileTap={isSaving || nothingChosen ? {} : { scale: 0.98, y: 0 }}
+          onClick={save}
+          disabled={isSaving || nothingChosen}
+          className={`px-8 py-4 rounded-full border-4 border-[#4A3B32] font-black text-lg shadow-[4px_4px_0px_#4A3B32] transition-all flex items-center justify-center min-w-[200px] ${
+            isSaving || nothingChosen
+              ? "bg-gray-200 text-gray-400 cursor-not-allowed shadow-none"
+              : "bg-[#98C9A3] text-white hover:shadow-[6px_6px_0px_#4A3B32]"
+          }`}
+        >
+          {isSaving ? (
+            <div className="flex items-center gap-3">
+              <div className="w-6 h-6 border-4 border-[#4A3B32] border-t-white rounded-full animate-spin" />
+              Saving...
+            </div>
+          ) : (
+            "Save Health Details"
+          )}
+        </motion.button>
+      </div>
+    </div>
+  );
+}
+
+export default function ReviewHealthPage() {
+  return (
+    <Suspense fallback={<LoadingSpinner message="Loading..." color="pink" />}>
+      <ReviewHealthContent />
+    </Suspense>
+  );
+}
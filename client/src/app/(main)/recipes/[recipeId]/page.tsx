@@ -1,10 +1,12 @@
 "use client";
 
+import Link from "next/link";
 import { useParams, useRouter } from "next/navigation";
-import { Bookmark, Trash2 } from "lucide-react";
-import { useRecipe, useSaveRecipe, useDeleteRecipe } from "@/lib/hooks/use-recipes";
+import { Archive, ArchiveRestore, Bookmark, Printer, Trash2 } from "lucide-react";
+import { useRecipe, useSaveRecipe, useArchiveRecipe, useDeleteRecipe } from "@/lib/hooks/use-recipes";
 import { PageHeader } from "@/components/layout/page-header";
 import { RecipeDetailView } from "@/components/recipes/recipe-detail-view";
+import { RecipeVersionsPanel } from "@/components/recipes/recipe-versions-panel";
 import { LoadingSpinner } from "@/components/shared/loading-spinner";
 import { ErrorAlert } from "@/components/shared/error-alert";
 import { ConfirmDialog } from "@/components/shared/confirm-dialog";
@@ -15,20 +17,23 @@ export default function RecipeDetailPage() {
   const recipeId = params.recipeId as string;
   const { data: recipe, isLoading, error } = useRecipe(recipeId);
   const saveRecipe = useSaveRecipe();
+  const archiveRecipe = useArchiveRecipe();
   const deleteRecipe = useDeleteRecipe();
 
   if (isLoading) return <LoadingSpinner message="Loading recipe..." color="orange" />;
   if (error) return <ErrorAlert message="Failed to load recipe" />;
   if (!recipe) return null;
 
+  const isArchived = recipe.status === "ARCHIVED";
+
   return (
     <div>
       <PageHeader
         title={recipe.title}
         description={recipe.petName ? `Recipe for ${recipe.petName}` : undefined}
         action={
-          <div className="flex items-center gap-4">
-            {recipe.status !== "SAVED" && (
+          <div className="flex flex-wrap items-center gap-4">
+            {recipe.status === "DRAFT" && (
               <button
                 onClick={() => saveRecipe.mutateAsync(recipeId)}
                 disabled={saveRecipe.isPending}
@@ -38,6 +43,21 @@ export default function RecipeDetailPage() {
                 Save
               </button>
             )}
+            <Link
+              href={`/recipes/${recipeId}/print`}
+              className="flex items-center gap-2 rounded-full border-4 border-[#4A3B32] bg-white text-[#4A3B32] px-6 py-2 font-black shadow-[4px_4px_0px_#4A3B32] transition-all hover:scale-[1.05] hover:-translate-y-1 hover:shadow-[6px_6px_0px_#4A3B32] active:scale-95 active:translate-y-1 active:shadow-none"
+            >
+              <Printer className="size-5" strokeWidth={3} />
+              Print
+            </Link>
+            <button
+              onClick={() => archiveRecipe.mutate({ recipeId, archived: !isArchived })}
+              disabled={archiveRecipe.isPending}
+              className="flex items-center gap-2 rounded-full border-4 border-[#4A3B32] bg-white text-[#4A3B32] px-6 py-2 font-black shadow-[4px_4px_0px_#4A3B32] transition-all hover:scale-[1.05] hover:-translate-y-1 hover:shadow-[6px_6px_0px_#4A3B32] active:scale-95 active:translate-y-1 active:shadow-none disabled:opacity-50 disabled:pointer-events-none"
+            >
+              {isArchived ? <ArchiveRestore className="size-5" strokeWidth={3} /> : <Archive className="size-5" strokeWidth={3} />}
+              {isArchived ? "Restore" : "Archive"}
+            </button>
             <ConfirmDialog
               trigger={
                 <button className="flex items-center gap-2 rounded-full border-4 border-[#4A3B32] bg-[#E88D72] text-white px-6 py-2 font-black shadow-[4px_4px_0px_#4A3B32] transition-all hover:scale-[1.05] hover:-translate-y-1 hover:shadow-[6px_6px_0px_#4A3B32] active:scale-95 active:translate-y-1 active:shadow-none disabled:opacity-50 disabled:pointer-events-none">
@@ -57,8 +77,16 @@ export default function RecipeDetailPage() {
           </div>
         }
       />
-      <div className="mx-auto max-w-2xl">
+      <div className="mx-auto max-w-2xl flex flex-col gap-10">
+        {isArchived && (
+          <div className="flex items-center gap-3 rounded-2xl border-4 border-[#4A3B32] bg-[#FFF9F2] p-4 font-bold text-[#4A3B32]">
+            <Archive className="size-5 shrink-0" strokeWidth={3} />
+            This recipe is archived. It&apos;s hidden from your recipe list but any planned meals still use it.
+          </div>
+        )}
+        {archiveRecipe.isError && <ErrorAlert message={archiveRecipe.error.message || "Couldn't update this recipe."} />}
         <RecipeDetailView recipe={recipe} />
+        <RecipeVersionsPanel recipe={recipe} />
       </div>
     </div>
   );
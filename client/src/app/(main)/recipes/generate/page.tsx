@@ -1,40 +1,75 @@
 "use client";
 
-import { useState } from "react";
-import { useRouter } from "next/navigation";
+import { Suspense, useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useSession } from "next-auth/react";
 import { motion, AnimatePresence } from "framer-motion";
 import { StepSelectPet } from "@/components/recipes/recipe-wizard/step-select-pet";
-import { StepPreferences } from "@/components/recipes/recipe-wizard/step-preferences";
+import { StepPreferences, type RecipePreferences } from "@/components/recipes/recipe-wizard/step-preferences";
 import { StepPrecheckResult } from "@/components/recipes/recipe-wizard/step-precheck-result";
 import { StepGeneratedRecipe } from "@/components/recipes/recipe-wizard/step-generated-recipe";
+import { StepCompareVariants } from "@/components/recipes/recipe-wizard/step-compare-variants";
 import { useRecipePrecheck, useGenerateRecipe } from "@/lib/hooks/use-recipes";
+import { ApiClientError } from "@/lib/api/client";
+import { clearDraft, getDraft, isGuestId, saveDraft } from "@/lib/offline/guest-store";
+import { LoadingSpinner } from "@/components/shared/loading-spinner";
 import { SparklesIcon } from "lucide-react";
 import type { PrecheckResult, Recipe } from "@/lib/types/recipe.types";
 
-type WizardStep = "select-pet" | "preferences" | "precheck" | "result";
+type WizardStep = "select-pet" | "preferences" | "precheck" | "variants" | "result";
 
-export default function GenerateRecipePage() {
+function GenerateRecipeContent() {
   const router = useRouter();
+  const { status } = useSession();
+  // "Use in a recipe" from the ingredient encyclopedia
+  const initialIncludes = useSearchParams().getAll("include");
   const [step, setStep] = useState<WizardStep>("select-pet");
   const [selectedPetId, setSelectedPetId] = useState<string>("");
-  const [preferences, setPreferences] = useState({
+  const [preferences, setPreferences] = useState<RecipePreferences>({
     goal: "",
-    ingredientsToInclude: [] as string[],
-    ingredientsToExclude: [] as string[],
+    ingredientsToInclude: initialIncludes,
+    ingredientsToExclude: [],
+    variantCount: 1,
   });
   const [precheckResult, setPrecheckResult] = useState<PrecheckResult | null>(null);
+  const [variants, setVariants] = useState<Recipe[]>([]);
   const [generatedRecipe, setGeneratedRecipe] = useState<Recipe | null>(null);
+  const [previousRecipe, setPreviousRecipe] = useState<Recipe | null>(null);
 
   const precheck = useRecipePrecheck();
   const generate = useGenerateRecipe();
 
+  // Picks up where a guest left off before signing in, once their pet has been imported
+  useEffect(() => {
+    if (status !== "authenticated") return;
+    getDraft("recipe-wizard")
+      .then(async (draft) => {
+        if (!draft || isGuestId(draft.petId)) return;
+        const { petId, ...prefs } = draft;
+        setSelectedPetId(petId);
+        setPreferences(prefs);
+        setStep("preferences");
+        await clearDraft("recipe-wizard");
+      })
+      .catch(() => {
+        // Nothing to resume
+      });
+  }, [status]);
+
   const handlePetSelected = (petId: string) => {
     setSelectedPetId(petId);
     setStep("preferences");
   };
 
-  const handlePreferencesSubmit = async (prefs: typeof preferences) => {
+  const handlePreferencesSubmit = async (prefs: RecipePreferences) => {
     setPreferences(prefs);
+    if (status !== "authenticated") {
+      // The safety check needs an account; the wizard resumes here after signing in
+      await saveDraft("recipe-wizard", { petId: selectedPetId, ...prefs });
+      router.push("/sign-in?callbackUrl=/recipes/generate");
+      return;
+    }
+    generate.reset();
     const result = await precheck.mutateAsync({
       petId: selectedPetId,
       ingredientsToInclude: prefs.ingredientsToInclude,
@@ -46,18 +81,51 @@ export default function GenerateRecipePage() {
   };
 
   const handleProceedToGenerate = async () => {
-    const recipe = await generate.mutateAsync({
-      petId: selectedPetId,
-      ...preferences,
-    });
-    setGeneratedRecipe(recipe);
+    let recipes: Recipe[];
+    try {
+      recipes = await generate.mutateAsync({
+        petId: selectedPetId,
+        ...preferences,
+      });
+    } catch {
+      // Shown on the safety check step, which stays open for another attempt
+      return;
+    }
+    setPreviousRecipe(null);
+    if (recipes.length > 1) {
+      setVariants(recipes);
+      setStep("variants");
+    } else {
+      setGeneratedRecipe(recipes[0]);
+      setStep("result");
+    }
+  };
+
+  const handleVariantsDone = (saved: Recipe[]) => {
+    if (saved.length !== 1) {
+      router.push("/recipes");
+      return;
+    }
+    // A single pick carries on to the usual result step, where it can still be refined
+    setGeneratedRecipe(saved[0]);
     setStep("result");
   };
 
+  const handleRefined = (refined: Recipe) => {
+    setPreviousRecipe(generatedRecipe);
+    setGeneratedRecipe(refined);
+  };
+
+  const generateError =
+    generate.error && !(generate.error instanceof ApiClientError && generate.error.code === "ABORTED")
+      ? generate.error.message || "Couldn't generate a recipe. Please try again."
+      : null;
+
   const stepLabels: Record<WizardStep, string> = {
     "select-pet": "Select Pet",
     preferences: "Preferences",
     precheck: "Safety Check",
+    variants: "Compare Variants",
     result: "Your Recipe",
   };
 
@@ -103,6 +171,8 @@ export default function GenerateRecipePage() {
 
                 {step === "preferences" && (
                   <StepPreferences
+                    petId={selectedPetId}
+                    initialValues={preferences}
                     onSubmit={handlePreferencesSubmit}
                     isLoading={precheck.isPending}
                     onBack={() => setStep("select-pet")}
@@ -114,13 +184,24 @@ export default function GenerateRecipePage() {
                     result={precheckResult}
                     onProceed={handleProceedToGenerate}
                     isGenerating={generate.isPending}
+                    stage={generate.stage}
+                    variant={generate.variant}
+                    drafts={generate.drafts}
+                    onCancel={generate.cancel}
+                    error={generateError}
                     onBack={() => setStep("preferences")}
                   />
                 )}
 
+                {step === "variants" && (
+                  <StepCompareVariants variants={variants} onDone={handleVariantsDone} />
+                )}
+
                 {step === "result" && generatedRecipe && (
                   <StepGeneratedRecipe
                     recipe={generatedRecipe}
+                    previousRecipe={previousRecipe}
+                    onRefined={handleRefined}
                     onDone={() => router.push(`/recipes/${generatedRecipe.id}`)}
                   />
                 )}
@@ -132,3 +213,11 @@ export default function GenerateRecipePage() {
     </div>
   );
 }
+
+export default function GenerateRecipePage() {
+  return (
+    <Suspense fallback={<LoadingSpinner message="Loading..." color="orange" />}>
+      <GenerateRecipeContent />
+    </Suspense>
+  );
+}
@@ -1,22 +1,73 @@
 "use client";
 
 import Link from "next/link";
-import { useState } from "react";
+import { Suspense, useCallback, useMemo, useState } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import { motion, Variants } from "framer-motion";
-import { Plus, ChefHat, Utensils } from "lucide-react";
-import { useRecipes } from "@/lib/hooks/use-recipes";
+import { Plus, ChefHat, Utensils, SearchX, ChevronLeft, ChevronRight, Archive, Trash2, X } from "lucide-react";
+import { useRecipeSearch, useBulkArchiveRecipes, useBulkDeleteRecipes } from "@/lib/hooks/use-recipes";
 import { usePets } from "@/lib/hooks/use-pets";
 import { useSession } from "next-auth/react";
 import { LoadingSpinner } from "@/components/shared/loading-spinner";
+import { EmptyState } from "@/components/shared/empty-state";
+import { ErrorAlert } from "@/components/shared/error-alert";
+import { ConfirmDialog } from "@/components/shared/confirm-dialog";
+import { RecipeFilters } from "@/components/recipes/recipe-filters";
+import { RecipeCard } from "@/components/recipes/recipe-card";
+import { cn } from "@/lib/utils";
+import {
+  hasActiveFilters,
+  parseRecipeSearch,
+  toRecipeSearchQuery,
+  toRecipeSearchRequest,
+  type RecipeSearchState,
+} from "@/lib/utils/recipe-search";
+
+function RecipesContent() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const filters = useMemo(() => parseRecipeSearch(searchParams), [searchParams]);
+  const page = filters.page ?? 1;
 
-export default function RecipesPage() {
   const { status } = useSession();
   const isAuthenticated = status === "authenticated";
-  const [selectedPetId, setSelectedPetId] = useState<string | undefined>();
-  const { data: recipes, isLoading: isRecipesLoading, error: recipesError } = useRecipes(selectedPetId, { enabled: isAuthenticated });
+  const {
+    data: results,
+    isLoading: isRecipesLoading,
+    isPlaceholderData,
+    error: recipesError,
+  } = useRecipeSearch(toRecipeSearchRequest(filters), { enabled: isAuthenticated });
   const { data: pets, error: petsError } = usePets({ enabled: isAuthenticated });
   const isLoading = status === "loading" || (isAuthenticated && isRecipesLoading);
   const error = recipesError || petsError;
+  const recipes = results?.items;
+  const isFiltered = hasActiveFilters(filters);
+  const isArchivedView = !!filters.archived;
+
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const bulkArchive = useBulkArchiveRecipes();
+  const bulkDelete = useBulkDeleteRecipes();
+  // Only act on what's on screen, so a stale selection from another page or tab is never touched
+  const visibleSelection = selectedIds.filter((id) => recipes?.some((r) => r.id === id));
+  const bulkError = bulkArchive.error || bulkDelete.error;
+
+  const toggleSelected = (recipeId: string, selected: boolean) =>
+    setSelectedIds((prev) => (selected ? [...prev, recipeId] : prev.filter((id) => id !== recipeId)));
+
+  // Any filter change starts again from the first page unless a page is given.
+  const updateSearch = useCallback(
+    (patch: Partial<RecipeSearchState>) => {
+      const query = toRecipeSearchQuery({ ...parseRecipeSearch(searchParams), page: 1, ...patch });
+      router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+    },
+    [searchParams, router, pathname]
+  );
+
+  const clearFilters = useCallback(() => {
+    const query = toRecipeSearchQuery({ archived: filters.archived, petId: filters.petId, sort: filters.sort });
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+  }, [filters.archived, filters.petId, filters.sort, router, pathname]);
 
   const containerVariants: Variants = {
     hidden: { opacity: 0 },
@@ -73,9 +124,9 @@ export default function RecipesPage() {
           <motion.button
             whileHover={{ scale: 1.05 }}
             whileTap={{ scale: 0.95 }}
-            onClick={() => setSelectedPetId(undefined)}
+            onClick={() => updateSearch({ petId: undefined })}
             className={`px-5 py-2 rounded-full font-bold border-2 border-[#4A3B32] transition-colors ${
-              !selectedPetId ? "bg-[#4A3B32] text-white shadow-[2px_2px_0px_#4A3B32]" : "bg-white text-[#4A3B32] hover:bg-[#FFF9F2]"
+              !filters.petId ? "bg-[#4A3B32] text-white shadow-[2px_2px_0px_#4A3B32]" : "bg-white text-[#4A3B32] hover:bg-[#FFF9F2]"
             }`}
           >
             All Pets
@@ -85,9 +136,9 @@ export default function RecipesPage() {
               key={pet.id}
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
-              onClick={() => setSelectedPetId(pet.id)}
+              onClick={() => updateSearch({ petId: pet.id })}
               className={`px-5 py-2 rounded-full font-bold border-2 border-[#4A3B32] transition-colors ${
-                selectedPetId === pet.id ? "bg-[#4A3B32] text-white shadow-[2px_2px_0px_#4A3B32]" : "bg-white text-[#4A3B32] hover:bg-[#FFF9F2]"
+                filters.petId === pet.id ? "bg-[#4A3B32] text-white shadow-[2px_2px_0px_#4A3B32]" : "bg-white text-[#4A3B32] hover:bg-[#FFF9F2]"
               }`}
             >
               {pet.name}
@@ -96,6 +147,80 @@ export default function RecipesPage() {
         </motion.div>
       )}
 
+      {isAuthenticated && (
+        <div role="tablist" aria-label="Recipe lists" className="mb-6 flex gap-3">
+          {[
+            { label: "Active", archived: false },
+            { label: "Archived", archived: true },
+          ].map((tab) => (
+            <button
+              key={tab.label}
+              role="tab"
+              aria-selected={isArchivedView === tab.archived}
+              onClick={() => updateSearch({ archived: tab.archived || undefined, statuses: undefined })}
+              className={cn(
+                "flex items-center gap-2 px-6 py-2.5 rounded-full border-4 border-[#4A3B32] font-black transition-colors",
+                isArchivedView === tab.archived
+                  ? "bg-[#F4D06F] text-[#4A3B32] shadow-[4px_4px_0px_#4A3B32]"
+                  : "bg-white text-[#4A3B32] hover:bg-[#FFF9F2]"
+              )}
+            >
+              {tab.archived && <Archive className="w-4 h-4" strokeWidth={3} />}
+              {tab.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isAuthenticated && (
+        <RecipeFilters value={filters} onChange={updateSearch} onClear={clearFilters} showStatus={!isArchivedView} />
+      )}
+
+      {visibleSelection.length > 0 && (
+        <div className="sticky top-4 z-20 mb-6 flex flex-wrap items-center gap-3 rounded-full border-4 border-[#4A3B32] bg-white px-5 py-3 shadow-[6px_6px_0px_#4A3B32]">
+          <span className="font-black text-[#4A3B32] mr-auto">{visibleSelection.length} selected</span>
+          {!isArchivedView && (
+            <button
+              onClick={() => bulkArchive.mutate(visibleSelection, { onSuccess: () => setSelectedIds([]) })}
+              disabled={bulkArchive.isPending}
+              className="flex items-center gap-2 px-5 py-2 rounded-full border-4 border-[#4A3B32] bg-[#F4D06F] font-black text-[#4A3B32] shadow-[2px_2px_0px_#4A3B32] disabled:opacity-50"
+            >
+              <Archive className="w-4 h-4" strokeWidth={3} />
+              Archive
+            </button>
+          )}
+          <ConfirmDialog
+            trigger={
+              <button className="flex items-center gap-2 px-5 py-2 rounded-full border-4 border-[#4A3B32] bg-[#E88D72] font-black text-white shadow-[2px_2px_0px_#4A3B32]">
+                <Trash2 className="w-4 h-4" strokeWidth={3} />
+                Delete
+              </button>
+            }
+            title={`Delete ${visibleSelection.length} ${visibleSelection.length === 1 ? "recipe" : "recipes"}`}
+            description="Deleted recipes are gone for good, along with any meals planned with them."
+            confirmLabel="Delete"
+            variant="destructive"
+            onConfirm={async () => {
+              await bulkDelete.mutateAsync(visibleSelection);
+              setSelectedIds([]);
+            }}
+          />
+          <button
+            onClick={() => setSelectedIds([])}
+            aria-label="Clear selection"
+            className="flex items-center justify-center w-10 h-10 rounded-full border-4 border-[#4A3B32] bg-white text-[#4A3B32] hover:bg-[#FFF9F2]"
+          >
+            <X className="w-4 h-4" strokeWidth={3} />
+          </button>
+        </div>
+      )}
+
+      {bulkError && (
+        <div className="mb-6">
+          <ErrorAlert message={bulkError.message || "Couldn't update the selected recipes."} />
+        </div>
+      )}
+
       {isLoading && <LoadingSpinner message="Loading recipes..." color="pink" />}
 
       {error && (
@@ -105,7 +230,31 @@ export default function RecipesPage() {
         </div>
       )}
 
-      {!isLoading && !error && (!recipes || recipes.length === 0) && (
+      {!isLoading && !error && isArchivedView && !isFiltered && recipes?.length === 0 && (
+        <EmptyState
+          icon={Archive}
+          title="Nothing archived"
+          description="Recipes you archive are tucked away here. They stay usable in planned meals until you delete them."
+        />
+      )}
+
+      {!isLoading && !error && isFiltered && recipes?.length === 0 && (
+        <EmptyState
+          icon={SearchX}
+          title="No matching recipes"
+          description="Nothing matches these filters. Try a different search or widen the ranges."
+          action={
+            <button
+              onClick={clearFilters}
+              className="px-6 py-3 rounded-full border-4 border-[#4A3B32] bg-white font-black text-[#4A3B32] shadow-[4px_4px_0px_#4A3B32] hover:bg-[#FFF9F2] transition-colors"
+            >
+              Clear filters
+            </button>
+          }
+        />
+      )}
+
+      {!isLoading && !error && !isArchivedView && !isFiltered && (!recipes || recipes.length === 0) && (
         <motion.div 
           initial={{ scale: 0.9, opacity: 0 }}
           animate={{ scale: 1, opacity: 1 }}
@@ -146,33 +295,52 @@ export default function RecipesPage() {
           variants={containerVariants}
           initial="hidden"
           animate="visible"
-          className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3"
+          className={`grid gap-6 sm:grid-cols-2 lg:grid-cols-3 transition-opacity ${isPlaceholderData ? "opacity-60" : ""}`}
         >
           {recipes.map((recipe) => (
             <motion.div key={recipe.id} variants={itemVariants}>
-              <Link href={`/recipes/${recipe.id}`}>
-                <motion.div 
-                  whileHover={{ y: -8 }}
-                  className="bg-white p-6 rounded-[2rem] border-4 border-[#4A3B32] shadow-[8px_8px_0px_#4A3B32] flex flex-col relative transition-transform"
-                >
-                  <div className="w-12 h-12 bg-[#F7B2B7] rounded-full border-2 border-[#4A3B32] flex items-center justify-center mb-4 absolute -top-4 -right-4 shadow-[2px_2px_0px_#4A3B32]">
-                    <ChefHat className="w-6 h-6 text-white" />
-                  </div>
-                  <h3 className="text-xl font-black mb-2 pr-6 line-clamp-2">{recipe.title}</h3>
-                  <p className="text-sm font-bold text-[#4A3B32]/60 mb-4">
-                    For {pets?.find(p => p.id === recipe.petId)?.name || 'Unknown Pet'}
-                  </p>
-                  <div className="flex flex-wrap gap-2 mt-auto">
-                    <span className="text-xs font-bold bg-[#F4D06F]/30 text-[#4A3B32] px-2 py-1 rounded-md border border-[#4A3B32]/20">
-                      {recipe.estimatedCalories} kcal
-                    </span>
-                  </div>
-                </motion.div>
-              </Link>
+              <RecipeCard
+                recipe={{ ...recipe, petName: recipe.petName || pets?.find((p) => p.id === recipe.petId)?.name || "" }}
+                selected={selectedIds.includes(recipe.id)}
+                onSelectedChange={(selected) => toggleSelected(recipe.id, selected)}
+              />
             </motion.div>
           ))}
         </motion.div>
       )}
+
+      {results && results.totalPages > 1 && (
+        <nav aria-label="Recipe pages" className="mt-10 flex items-center justify-center gap-4">
+          <button
+            onClick={() => updateSearch({ page: page - 1 })}
+            disabled={page <= 1}
+            aria-label="Previous page"
+            className="flex items-center justify-center w-12 h-12 rounded-full border-4 border-[#4A3B32] bg-white text-[#4A3B32] shadow-[3px_3px_0px_#4A3B32] hover:bg-[#FFF9F2] transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <ChevronLeft className="w-5 h-5" strokeWidth={3} />
+          </button>
+          <span className="font-black text-[#4A3B32]">
+            Page {page} of {results.totalPages}
+            <span className="block text-center text-sm font-bold text-[#4A3B32]/60">{results.totalItems} recipes</span>
+          </span>
+          <button
+            onClick={() => updateSearch({ page: page + 1 })}
+            disabled={page >= results.totalPages}
+            aria-label="Next page"
+            className="flex items-center justify-center w-12 h-12 rounded-full border-4 border-[#4A3B32] bg-white text-[#4A3B32] shadow-[3px_3px_0px_#4A3B32] hover:bg-[#FFF9F2] transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <ChevronRight className="w-5 h-5" strokeWidth={3} />
+          </button>
+        </nav>
+      )}
     </div>
   );
 }
+
+export default function RecipesPage() {
+  return (
+    <Suspense fallback={<LoadingSpinner message="Loading recipes..." color="pink" />}>
+      <RecipesContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,241 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { addDays, endOfWeek, startOfWeek } from "date-fns";
+import { ShoppingCart, Download, FileText, RotateCcw, Calendar as CalendarIcon, Dog, Cat, Users } from "lucide-react";
+import { useSession } from "next-auth/react";
+import { usePets } from "@/lib/hooks/use-pets";
+import { useCalendarEntriesInRange } from "@/lib/hooks/use-calendar";
+import { useRecipesByIds } from "@/lib/hooks/use-recipes";
+import { useShoppingListChecks } from "@/lib/hooks/use-shopping-list";
+import { formatDate, formatDisplayDate } from "@/lib/utils/format";
+import {
+  buildShoppingList,
+  shoppingListToMarkdown,
+  shoppingListToText,
+} from "@/lib/utils/shopping-list";
+import { ShoppingListItems } from "@/components/shopping-list/shopping-list-items";
+import { LoadingSpinner } from "@/components/shared/loading-spinner";
+import { EmptyState } from "@/components/shared/empty-state";
+import { ErrorAlert } from "@/components/shared/error-alert";
+
+const RANGE_PRESETS = [
+  {
+    label: "This Week",
+    range: () => ({ from: formatDate(startOfWeek(new Date())), to: formatDate(endOfWeek(new Date())) }),
+  },
+  {
+    label: "Next 7 Days",
+    range: () => ({ from: formatDate(new Date()), to: formatDate(addDays(new Date(), 6)) }),
+  },
+  {
+    label: "Next Week",
+    range: () => {
+      const next = addDays(new Date(), 7);
+      return { from: formatDate(startOfWeek(next)), to: formatDate(endOfWeek(next)) };
+    },
+  },
+];
+
+function downloadFile(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function ShoppingListPage() {
+  const { status } = useSession();
+  const isAuthenticated = status === "authenticated";
+  const { data: pets, isLoading: isPetsLoading } = usePets({ enabled: isAuthenticated });
+  const [range, setRange] = useState(RANGE_PRESETS[0].range);
+  const [selectedPetIds, setSelectedPetIds] = useState<string[] | null>(null);
+
+  const allPetIds = (pets ?? []).map((p) => p.id);
+  const petIds = selectedPetIds ?? allPetIds;
+  const isAllPets = selectedPetIds === null;
+
+  const { data: entries, isLoading: isEntriesLoading, isError: isEntriesError } =
+    useCalendarEntriesInRange(petIds, range.from, range.to);
+  const recipeIds = useMemo(() => [...new Set(entries.map((e) => e.recipeId))], [entries]);
+  const { data: recipesById, isLoading: isRecipesLoading, isError: isRecipesError } = useRecipesByIds(recipeIds);
+  const items = useMemo(() => buildShoppingList(entries, recipesById), [entries, recipesById]);
+
+  const listId = `${range.from}_${range.to}_${[...petIds].sort().join(",")}`;
+  const { checked, toggle, clear } = useShoppingListChecks(listId);
+
+  const isLoading = status === "loading" || (isAuthenticated && (isPetsLoading || isEntriesLoading || isRecipesLoading));
+  const isRangeValid = !!range.from && !!range.to && range.from <= range.to;
+  const title = isRangeValid
+    ? `Shopping list: ${formatDisplayDate(new Date(range.from + "T00:00:00"))} – ${formatDisplayDate(new Date(range.to + "T00:00:00"))}`
+    : "Shopping list";
+  const filename = `shopping-list-${range.from}-to-${range.to}`;
+
+  const togglePet = (petId: string) => {
+    const current = selectedPetIds ?? allPetIds;
+    const next = current.includes(petId) ? current.filter((id) => id !== petId) : [...current, petId];
+    setSelectedPetIds(next.length === allPetIds.length ? null : next);
+  };
+
+  const dateInputClass =
+    "h-12 rounded-xl border-4 border-[#4A3B32] px-3 font-bold text-[#4A3B32] shadow-[2px_2px_0px_#4A3B32] focus:outline-none bg-white";
+
+  return (
+    <div className="w-full max-w-4xl mx-auto">
+      <motion.div
+        initial={{ y: -20, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        className="flex flex-col sm:flex-row justify-between items-center gap-6 mb-12"
+      >
+        <div className="flex items-center gap-4">
+          <div className="w-16 h-16 bg-[#E88D72] rounded-2xl border-4 border-[#4A3B32] shadow-[4px_4px_0px_#4A3B32] flex items-center justify-center rotate-[3deg]">
+            <ShoppingCart className="w-8 h-8 text-white" />
+          </div>
+          <div>
+            <h1 className="text-4xl font-black tracking-tight">Shopping List</h1>
+            <p className="text-lg font-medium text-[#4A3B32]/70">Everything you need for the meals you&apos;ve planned</p>
+          </div>
+        </div>
+      </motion.div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 10 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="mb-8 flex flex-col gap-5 rounded-[2rem] border-4 border-[#4A3B32] bg-[#FFF9F2] p-6 shadow-[8px_8px_0px_#4A3B32]"
+      >
+        <div className="flex flex-wrap gap-2">
+          {RANGE_PRESETS.map((preset) => (
+            <button
+              key={preset.label}
+              onClick={() => setRange(preset.range())}
+              className="px-4 py-2 rounded-full font-bold border-2 border-[#4A3B32] bg-white text-[#4A3B32] hover:bg-[#F4D06F]/40 transition-colors"
+            >
+              {preset.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <label className="flex flex-col gap-1.5 text-sm font-black text-[#4A3B32]">
+            From
+            <input
+              type="date"
+              value={range.from}
+              onChange={(e) => setRange((r) => ({ ...r, from: e.target.value }))}
+              className={dateInputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1.5 text-sm font-black text-[#4A3B32]">
+            To
+            <input
+              type="date"
+              value={range.to}
+              min={range.from}
+              onChange={(e) => setRange((r) => ({ ...r, to: e.target.value }))}
+              className={dateInputClass}
+            />
+          </label>
+        </div>
+
+        {pets && pets.length > 0 && (
+          <div className="flex flex-wrap gap-3">
+            <button
+              onClick={() => setSelectedPetIds(null)}
+              aria-pressed={isAllPets}
+              className={`px-5 py-2 rounded-full font-bold border-2 border-[#4A3B32] transition-colors flex items-center gap-2 ${
+                isAllPets ? "bg-[#4A3B32] text-white shadow-[2px_2px_0px_#4A3B32]" : "bg-white text-[#4A3B32] hover:bg-[#FFF9F2]"
+              }`}
+            >
+              <Users className="w-4 h-4" />
+              All Pets
+            </button>
+            {pets.map((pet) => {
+              const isSelected = !isAllPets && petIds.includes(pet.id);
+              return (
+                <button
+                  key={pet.id}
+                  onClick={() => (isAllPets ? setSelectedPetIds([pet.id]) : togglePet(pet.id))}
+                  aria-pressed={isSelected}
+                  className={`px-5 py-2 rounded-full font-bold border-2 border-[#4A3B32] transition-colors flex items-center gap-2 ${
+                    isSelected ? "bg-[#4A3B32] text-white shadow-[2px_2px_0px_#4A3B32]" : "bg-white text-[#4A3B32] hover:bg-[#FFF9F2]"
+                  }`}
+                >
+                  {pet.species === "DOG" ? <Dog className="w-4 h-4" /> : <Cat className="w-4 h-4" />}
+                  {pet.name}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </motion.div>
+
+      {!isRangeValid && (
+        <ErrorAlert message="Pick a start date that comes on or before the end date." />
+      )}
+
+      {isRangeValid && isLoading && <LoadingSpinner message="Gathering ingredients..." color="pink" />}
+
+      {isRangeValid && !isLoading && (isEntriesError || isRecipesError) && (
+        <ErrorAlert message="Failed to load your planned meals. Please try refreshing the page." />
+      )}
+
+      {isRangeValid && !isLoading && !isEntriesError && !isRecipesError && items.length === 0 && (
+        <EmptyState
+          icon={CalendarIcon}
+          title="Nothing to buy yet"
+          description="There are no meals scheduled for these dates. Plan some on the calendar and they'll show up here."
+          action={
+            <Link
+              href="/calendar"
+              className="px-6 py-3 rounded-full font-black border-4 border-[#4A3B32] bg-[#98C9A3] text-white shadow-[4px_4px_0px_#4A3B32]"
+            >
+              Go to Calendar
+            </Link>
+          }
+        />
+      )}
+
+      {isRangeValid && !isLoading && items.length > 0 && (
+        <div className="flex flex-col gap-6">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <p className="text-base font-black text-[#4A3B32]/70">
+              {entries.length} {entries.length === 1 ? "meal" : "meals"} · {recipeIds.length}{" "}
+              {recipeIds.length === 1 ? "recipe" : "recipes"} · {checked.size}/{items.length} checked off
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => downloadFile(`${filename}.txt`, shoppingListToText(title, items, checked), "text/plain")}
+                className="flex items-center gap-2 px-4 py-2 rounded-full font-black border-4 border-[#4A3B32] bg-white text-[#4A3B32] shadow-[2px_2px_0px_#4A3B32] hover:bg-[#FFF9F2]"
+              >
+                <FileText className="w-4 h-4" strokeWidth={3} />
+                Text
+              </button>
+              <button
+                onClick={() => downloadFile(`${filename}.md`, shoppingListToMarkdown(title, items, checked), "text/markdown")}
+                className="flex items-center gap-2 px-4 py-2 rounded-full font-black border-4 border-[#4A3B32] bg-white text-[#4A3B32] shadow-[2px_2px_0px_#4A3B32] hover:bg-[#FFF9F2]"
+              >
+                <Download className="w-4 h-4" strokeWidth={3} />
+                Markdown
+              </button>
+              {checked.size > 0 && (
+                <button
+                  onClick={clear}
+                  className="flex items-center gap-2 px-4 py-2 rounded-full font-black border-4 border-[#4A3B32] bg-[#F7B2B7] text-[#4A3B32] shadow-[2px_2px_0px_#4A3B32]"
+                >
+                  <RotateCcw className="w-4 h-4" strokeWidth={3} />
+                  Uncheck All
+                </button>
+              )}
+            </div>
+          </div>
+
+          <ShoppingListItems items={items} checked={checked} onToggle={toggle} />
+        </div>
+      )}
+    </div>
+  );
+}
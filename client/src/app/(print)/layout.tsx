@@ -0,0 +1,14 @@
+import { auth } from "@/lib/auth/auth";
+import { TokenSetter } from "@/components/layout/token-setter";
+
+/** Bare layout for printable pages: no nav bar, white paper background. */
+export default async function PrintLayout({ children }: { children: React.ReactNode }) {
+  const session = await auth();
+
+  return (
+    <div className="min-h-screen bg-white text-[#4A3B32] font-sans">
+      <TokenSetter token={session?.accessToken ?? null} expiresAt={session?.accessTokenExpiresAt ?? null} />
+      {children}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { ArrowLeft, Printer } from "lucide-react";
+import { useRecipe } from "@/lib/hooks/use-recipes";
+import { usePet } from "@/lib/hooks/use-pets";
+import { RecipePrintCard } from "@/components/recipes/recipe-print-card";
+import { LoadingSpinner } from "@/components/shared/loading-spinner";
+import { ErrorAlert } from "@/components/shared/error-alert";
+
+export default function RecipePrintPage() {
+  const params = useParams();
+  const recipeId = params.recipeId as string;
+  const { data: recipe, isLoading, error } = useRecipe(recipeId);
+  const { data: pet, isLoading: isPetLoading } = usePet(recipe?.petId ?? "");
+
+  if (isLoading || isPetLoading) return <LoadingSpinner message="Preparing recipe card..." color="orange" />;
+  if (error) return <ErrorAlert message="Failed to load recipe" />;
+  if (!recipe) return null;
+
+  return (
+    <div className="px-6 py-8 print:p-0">
+      <div className="mx-auto mb-6 flex max-w-[190mm] items-center justify-between gap-4 print:hidden">
+        <Link
+          href={`/recipes/${recipe.id}`}
+          className="flex items-center gap-2 font-black text-[#4A3B32] hover:underline underline-offset-4"
+        >
+          <ArrowLeft className="size-5" strokeWidth={3} />
+          Back to recipe
+        </Link>
+        <button
+          onClick={() => window.print()}
+          className="flex items-center gap-2 rounded-full border-4 border-[#4A3B32] bg-[#98C9A3] text-white px-6 py-2 font-black shadow-[4px_4px_0px_#4A3B32] transition-all hover:-translate-y-1 hover:shadow-[6px_6px_0px_#4A3B32] active:translate-y-1 active:shadow-none"
+        >
+          <Printer className="size-5" strokeWidth={3} />
+          Print or save as PDF
+        </button>
+      </div>
+
+      <RecipePrintCard recipe={recipe} pet={pet} />
+    </div>
+  );
+}
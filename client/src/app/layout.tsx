@@ -1,9 +1,10 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Nunito } from "next/font/google";
 import { GoogleAnalytics } from "@next/third-parties/google";
 import { SessionProvider } from "@/providers/session-provider";
 import { QueryProvider } from "@/providers/query-provider";
 import { ThemeProvider } from "@/providers/theme-provider";
+import { ServiceWorkerRegistrar } from "@/components/layout/service-worker-registrar";
 import "@/styles/globals.css";
 
 const nunito = Nunito({ 
@@ -15,6 +16,15 @@ const nunito = Nunito({
 export const metadata: Metadata = {
   title: "PawfectBite | Cozy, Vet-Safe Pet Meals",
   description: "AI-powered personalized, veterinary-safe homemade meal recipes for dogs and cats.",
+  appleWebApp: {
+    capable: true,
+    title: "PawfectBite",
+    statusBarStyle: "default",
+  },
+};
+
+export const viewport: Viewport = {
+  themeColor: "#FFF9F2",
 };
 
 export default function RootLayout({ children }: { children: React.ReactNode }) {
@@ -24,6 +34,7 @@ export default function RootLayout({ children }: { children: React.ReactNode })
         <GoogleAnalytics gaId={process.env.NEXT_PUBLIC_GA_MEASUREMENT_ID} />
       )}
       <body className={`${nunito.variable} font-sans antialiased bg-[#FFF9F2]`}>
+        <ServiceWorkerRegistrar />
         <SessionProvider>
           <QueryProvider>
             <ThemeProvider>
@@ -0,0 +1,21 @@
+import type { MetadataRoute } from "next";
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "PawfectBite",
+    short_name: "PawfectBite",
+    description: "AI-powered personalized, veterinary-safe homemade meal recipes for dogs and cats.",
+    start_url: "/calendar",
+    display: "standalone",
+    background_color: "#FFF9F2",
+    theme_color: "#FFF9F2",
+    icons: [
+      {
+        src: "/images/logo.PNG",
+        sizes: "779x779",
+        type: "image/png",
+        purpose: "any",
+      },
+    ],
+  };
+}
@@ -0,0 +1,173 @@
+"use client";
+
+import Link from "next/link";
+import { ChefHat, Refrigerator, Snowflake, TriangleAlert, ListOrdered, ShoppingBasket } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatDisplayDate } from "@/lib/utils/format";
+import { ShoppingListItems } from "@/components/shopping-list/shopping-list-items";
+import type { BatchPlan, PortionStorage, PrepPhase } from "@/lib/utils/batch-plan";
+
+interface BatchPlanViewProps {
+  plan: BatchPlan;
+  checked: Set<string>;
+  onToggle: (key: string) => void;
+}
+
+const PHASE_LABELS: Record<PrepPhase, { label: string; className: string }> = {
+  prep: { label: "Prep", className: "bg-[#98C9A3] text-white" },
+  cook: { label: "Cook", className: "bg-[#E88D72] text-white" },
+  finish: { label: "Finish", className: "bg-[#F4D06F] text-[#4A3B32]" },
+  store: { label: "Store", className: "bg-[#B5A4E5] text-white" },
+};
+
+const STORAGE_STYLES: Record<PortionStorage, { label: string; className: string }> = {
+  fridge: { label: "Fridge", className: "bg-[#98C9A3]/20" },
+  freezer: { label: "Freezer", className: "bg-[#B5A4E5]/20" },
+  "too-late": { label: "Too late", className: "bg-[#E88D72]/25" },
+  "before-cook-day": { label: "Before cook day", className: "bg-[#4A3B32]/5 opacity-60" },
+};
+
+function displayDate(date: string) {
+  return formatDisplayDate(new Date(date + "T00:00:00"));
+}
+
+function SectionTitle({ icon: Icon, children }: { icon: typeof ChefHat; children: React.ReactNode }) {
+  return (
+    <h2 className="flex items-center gap-3 text-2xl font-black text-[#4A3B32]">
+      <Icon className="size-6" strokeWidth={3} />
+      {children}
+    </h2>
+  );
+}
+
+export function BatchPlanView({ plan, checked, onToggle }: BatchPlanViewProps) {
+  const warnings = plan.recipes.flatMap((r) => r.warnings);
+  const cooking = plan.recipes.filter((r) => r.batches > 0);
+
+  return (
+    <div className="flex flex-col gap-10">
+      {warnings.length > 0 && (
+        <section className="flex flex-col gap-2 rounded-[2rem] border-4 border-[#4A3B32] bg-[#F7B2B7]/30 p-6 shadow-[6px_6px_0px_#4A3B32]">
+          <h2 className="flex items-center gap-2 text-lg font-black text-[#4A3B32]">
+            <TriangleAlert className="size-5" strokeWidth={3} />
+            Storage warnings
+          </h2>
+          <ul className="flex flex-col gap-1.5 pl-7 list-disc text-base font-bold text-[#4A3B32]">
+            {warnings.map((warning, i) => (
+              <li key={i}>{warning}</li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <section className="flex flex-col gap-4">
+        <SectionTitle icon={ChefHat}>Batches to cook</SectionTitle>
+        <div className="grid gap-4 sm:grid-cols-2">
+          {plan.recipes.map(({ recipe, batches, portions }) => (
+            <div
+              key={recipe.id}
+              className="flex flex-col gap-3 rounded-[2rem] border-4 border-[#4A3B32] bg-white p-5 shadow-[6px_6px_0px_#4A3B32]"
+            >
+              <div className="flex items-start justify-between gap-3">
+                <Link href={`/recipes/${recipe.id}`} className="font-black text-lg text-[#4A3B32] hover:underline underline-offset-4">
+                  {recipe.title}
+                </Link>
+                <span className="shrink-0 rounded-full border-2 border-[#4A3B32] bg-[#F4D06F] px-3 py-1 text-sm font-black text-[#4A3B32]">
+                  × {batches}
+                </span>
+              </div>
+              <ul className="flex flex-wrap gap-2">
+                {portions.map((portion) => (
+                  <li
+                    key={portion.entry.id}
+                    title={STORAGE_STYLES[portion.storage].label}
+                    className={cn(
+                      "rounded-full border-2 border-[#4A3B32]/20 px-3 py-1 text-xs font-black text-[#4A3B32]",
+                      STORAGE_STYLES[portion.storage].className
+                    )}
+                  >
+                    {displayDate(portion.entry.date)} · {STORAGE_STYLES[portion.storage].label}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      {plan.ingredients.length > 0 && (
+        <section className="flex flex-col gap-4">
+          <SectionTitle icon={ShoppingBasket}>Ingredient totals</SectionTitle>
+          <ShoppingListItems items={plan.ingredients} checked={checked} onToggle={onToggle} />
+        </section>
+      )}
+
+      {plan.prepSteps.length > 0 && (
+        <section className="flex flex-col gap-4">
+          <SectionTitle icon={ListOrdered}>Prep order</SectionTitle>
+          <ol className="flex flex-col gap-3">
+            {plan.prepSteps.map((step, i) => (
+              <li
+                key={i}
+                className="flex items-start gap-4 rounded-2xl border-4 border-[#4A3B32] bg-white p-4 shadow-[4px_4px_0px_#4A3B32]"
+              >
+                <span className="flex size-8 shrink-0 items-center justify-center rounded-full border-4 border-[#4A3B32] bg-[#FFF9F2] text-sm font-black">
+                  {i + 1}
+                </span>
+                <div className="flex min-w-0 flex-col gap-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span
+                      className={cn(
+                        "rounded-full border-2 border-[#4A3B32] px-2.5 py-0.5 text-xs font-black",
+                        PHASE_LABELS[step.phase].className
+                      )}
+                    >
+                      {PHASE_LABELS[step.phase].label}
+                    </span>
+                    <span className="text-xs font-black text-[#4A3B32]/60">
+                      {step.recipeTitle}
+                      {step.batches > 1 && ` · × ${step.batches}`}
+                    </span>
+                  </div>
+                  <p className="font-bold text-[#4A3B32] leading-relaxed">{step.text}</p>
+                </div>
+              </li>
+            ))}
+          </ol>
+        </section>
+      )}
+
+      {cooking.some((r) => r.labels.length > 0) && (
+        <section className="flex flex-col gap-4">
+          <SectionTitle icon={Refrigerator}>Container labels</SectionTitle>
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {cooking.flatMap(({ recipe, labels }) =>
+              labels.map((label) => (
+                <div
+                  key={`${recipe.id}-${label.location}`}
+                  className="flex flex-col gap-1 rounded-2xl border-4 border-dashed border-[#4A3B32] bg-white p-4"
+                >
+                  <span className="flex items-center gap-2 text-xs font-black uppercase tracking-wider text-[#4A3B32]/60">
+                    {label.location === "fridge" ? (
+                      <Refrigerator className="size-4" strokeWidth={3} />
+                    ) : (
+                      <Snowflake className="size-4" strokeWidth={3} />
+                    )}
+                    {label.location === "fridge" ? "Fridge" : "Freezer"} · {label.count}{" "}
+                    {label.count === 1 ? "portion" : "portions"}
+                  </span>
+                  <span className="font-black text-[#4A3B32]">{recipe.title}</span>
+                  <span className="text-sm font-bold text-[#4A3B32]/70">Cooked {displayDate(plan.cookDate)}</span>
+                  <span className="text-sm font-black text-[#E88D72]">Use by {displayDate(label.useBy)}</span>
+                  {label.location === "freezer" && (
+                    <span className="text-xs font-bold text-[#4A3B32]/60">Thaw in the fridge the day before serving</span>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
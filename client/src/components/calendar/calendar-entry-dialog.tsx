@@ -1,14 +1,31 @@
 "use client";
 
 import { useState } from "react";
-import { Trash2Icon, Plus, Check, Dog, Cat } from "lucide-react";
+import { Trash2Icon, Plus, Check, Dog, Cat, Pencil, Repeat, Archive } from "lucide-react";
 import { motion } from "framer-motion";
 import { useQueries } from "@tanstack/react-query";
 import { usePets } from "@/lib/hooks/use-pets";
 import { recipesApi } from "@/lib/api/recipes.api";
-import { useCreateCalendarEntry, useDeleteCalendarEntry, useCalendarEntries, useAllCalendarEntries } from "@/lib/hooks/use-calendar";
-import { formatDisplayDate } from "@/lib/utils/format";
+import { useRecipes } from "@/lib/hooks/use-recipes";
+import {
+  useCreateCalendarEntry,
+  useCreateCalendarSeries,
+  useUpdateCalendarEntry,
+  useUpdateCalendarSeries,
+  useDeleteCalendarEntry,
+  useDeleteCalendarSeries,
+  useCalendarEntries,
+  useAllCalendarEntries,
+} from "@/lib/hooks/use-calendar";
+import { formatDate, formatDisplayDate } from "@/lib/utils/format";
+import { addDays } from "date-fns";
 import Image from "next/image";
+import type {
+  CalendarEntry,
+  CreateCalendarSeriesRequest,
+  DayOfWeek,
+  RecurrenceFrequency,
+} from "@/lib/types/calendar.types";
 import {
   Dialog,
   DialogContent,
@@ -31,13 +48,202 @@ const MEAL_TYPE_STYLES: Record<string, { bg: string; text: string; label: string
   snack:     { bg: "bg-[#F7B2B7]", text: "text-[#4A3B32]", label: "Snack"     },
 };
 
-const MEAL_TYPES = [
+export const MEAL_TYPES = [
   { value: "breakfast", label: "Breakfast", bg: "bg-[#FFD89B]", text: "text-[#4A3B32]" },
   { value: "lunch",     label: "Lunch",     bg: "bg-[#98C9A3]", text: "text-white"     },
   { value: "dinner",    label: "Dinner",    bg: "bg-[#B5A4E5]", text: "text-white"     },
   { value: "snack",     label: "Snack",     bg: "bg-[#F7B2B7]", text: "text-[#4A3B32]" },
 ];
 
+const REPEAT_OPTIONS: { value: RecurrenceFrequency | "NONE"; label: string }[] = [
+  { value: "NONE",         label: "Doesn't repeat" },
+  { value: "DAILY",        label: "Daily"          },
+  { value: "WEEKDAYS",     label: "Weekdays"       },
+  { value: "EVERY_N_DAYS", label: "Every N days"   },
+  { value: "CUSTOM_DAYS",  label: "Custom days"    },
+];
+
+const DAYS_OF_WEEK: { value: DayOfWeek; label: string }[] = [
+  { value: "SUNDAY",    label: "Sun" },
+  { value: "MONDAY",    label: "Mon" },
+  { value: "TUESDAY",   label: "Tue" },
+  { value: "WEDNESDAY", label: "Wed" },
+  { value: "THURSDAY",  label: "Thu" },
+  { value: "FRIDAY",    label: "Fri" },
+  { value: "SATURDAY",  label: "Sat" },
+];
+
+const MAX_OCCURRENCES = 366;
+
+// ─── Repeat Settings ───────────────────────────────────────────────────────────
+
+interface RepeatSettings {
+  frequency: RecurrenceFrequency | "NONE";
+  intervalDays: number;
+  daysOfWeek: DayOfWeek[];
+  endMode: "count" | "date";
+  occurrences: number;
+  endDate: string;
+}
+
+function defaultRepeatSettings(date: string): RepeatSettings {
+  const start = new Date(date + "T00:00:00");
+  return {
+    frequency: "NONE",
+    intervalDays: 2,
+    daysOfWeek: [DAYS_OF_WEEK[start.getDay()].value],
+    endMode: "count",
+    occurrences: 7,
+    endDate: formatDate(addDays(start, 27)),
+  };
+}
+
+function isRepeatValid(settings: RepeatSettings, date: string): boolean {
+  if (settings.frequency === "NONE") return true;
+  if (settings.frequency === "EVERY_N_DAYS" && settings.intervalDays < 1) return false;
+  if (settings.frequency === "CUSTOM_DAYS" && settings.daysOfWeek.length === 0) return false;
+  if (settings.endMode === "date") return !!settings.endDate && settings.endDate >= date;
+  return settings.occurrences >= 1 && settings.occurrences <= MAX_OCCURRENCES;
+}
+
+function toSeriesRequest(
+  settings: RepeatSettings,
+  base: { petId: string; recipeId: string; mealType: string; date: string }
+): CreateCalendarSeriesRequest {
+  const frequency = settings.frequency as RecurrenceFrequency;
+  return {
+    petId: base.petId,
+    recipeId: base.recipeId,
+    mealType: base.mealType,
+    startDate: base.date,
+    frequency,
+    intervalDays: frequency === "EVERY_N_DAYS" ? settings.intervalDays : undefined,
+    daysOfWeek: frequency === "CUSTOM_DAYS" ? settings.daysOfWeek : undefined,
+    endDate: settings.endMode === "date" ? settings.endDate : undefined,
+    occurrences: settings.endMode === "count" ? settings.occurrences : undefined,
+  };
+}
+
+interface RepeatSectionProps {
+  date: string;
+  value: RepeatSettings;
+  onChange: (value: RepeatSettings) => void;
+}
+
+function RepeatSection({ date, value, onChange }: RepeatSectionProps) {
+  const update = (patch: Partial<RepeatSettings>) => onChange({ ...value, ...patch });
+
+  const toggleDay = (day: DayOfWeek) =>
+    update({
+      daysOfWeek: value.daysOfWeek.includes(day)
+        ? value.daysOfWeek.filter((d) => d !== day)
+        : [...value.daysOfWeek, day],
+    });
+
+  const numberInputClass =
+    "h-11 w-20 rounded-xl border-4 border-[#4A3B32] px-3 font-bold text-[#4A3B32] shadow-[2px_2px_0px_#4A3B32] focus:outline-none";
+
+  return (
+    <div className="flex flex-col gap-3">
+      <h3 className="text-base font-black text-[#4A3B32]">Repeat</h3>
+      <div className="flex flex-wrap gap-2">
+        {REPEAT_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            onClick={() => update({ frequency: option.value })}
+            aria-pressed={value.frequency === option.value}
+            className={`px-3 py-2 rounded-xl border-4 border-[#4A3B32] text-xs font-black transition-all ${
+              value.frequency === option.value
+                ? "bg-[#4A3B32] text-white shadow-[3px_3px_0px_#98C9A3]"
+                : "bg-white text-[#4A3B32] hover:bg-[#FFF9F2] shadow-[2px_2px_0px_#4A3B32]"
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {value.frequency === "EVERY_N_DAYS" && (
+        <label className="flex items-center gap-3 text-sm font-black text-[#4A3B32]">
+          Every
+          <input
+            type="number"
+            min={1}
+            max={365}
+            value={value.intervalDays}
+            onChange={(e) => update({ intervalDays: Number(e.target.value) })}
+            className={numberInputClass}
+          />
+          days
+        </label>
+      )}
+
+      {value.frequency === "CUSTOM_DAYS" && (
+        <div className="grid grid-cols-7 gap-1.5">
+          {DAYS_OF_WEEK.map((day) => {
+            const isSelected = value.daysOfWeek.includes(day.value);
+            return (
+              <button
+                key={day.value}
+                onClick={() => toggleDay(day.value)}
+                aria-pressed={isSelected}
+                className={`py-2 rounded-xl border-4 border-[#4A3B32] text-[11px] font-black transition-all ${
+                  isSelected ? "bg-[#98C9A3] text-white shadow-[2px_2px_0px_#4A3B32]" : "bg-white text-[#4A3B32] hover:bg-[#FFF9F2]"
+                }`}
+              >
+                {day.label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {value.frequency !== "NONE" && (
+        <div className="flex flex-col gap-2 rounded-2xl border-4 border-dashed border-[#4A3B32]/40 p-3">
+          <label className="flex items-center gap-3 text-sm font-black text-[#4A3B32]">
+            <input
+              type="radio"
+              name="repeat-end"
+              checked={value.endMode === "count"}
+              onChange={() => update({ endMode: "count" })}
+              className="size-4 accent-[#4A3B32]"
+            />
+            After
+            <input
+              type="number"
+              min={1}
+              max={MAX_OCCURRENCES}
+              value={value.occurrences}
+              disabled={value.endMode !== "count"}
+              onChange={(e) => update({ occurrences: Number(e.target.value) })}
+              className={`${numberInputClass} disabled:opacity-40`}
+            />
+            meals
+          </label>
+          <label className="flex items-center gap-3 text-sm font-black text-[#4A3B32]">
+            <input
+              type="radio"
+              name="repeat-end"
+              checked={value.endMode === "date"}
+              onChange={() => update({ endMode: "date" })}
+              className="size-4 accent-[#4A3B32]"
+            />
+            Until
+            <input
+              type="date"
+              min={date}
+              value={value.endDate}
+              disabled={value.endMode !== "date"}
+              onChange={(e) => update({ endDate: e.target.value })}
+              className="h-11 rounded-xl border-4 border-[#4A3B32] px-3 font-bold text-[#4A3B32] shadow-[2px_2px_0px_#4A3B32] focus:outline-none disabled:opacity-40"
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
+
 // ─── Add Meal Dialog ───────────────────────────────────────────────────────────
 
 interface AddMealDialogProps {
@@ -48,9 +254,11 @@ interface AddMealDialogProps {
 function AddMealDialog({ date, onClose }: AddMealDialogProps) {
   const { data: pets } = usePets();
   const createEntry = useCreateCalendarEntry();
+  const createSeries = useCreateCalendarSeries();
   const [selectedPetIds, setSelectedPetIds] = useState<string[]>([]);
   const [selectedRecipeId, setSelectedRecipeId] = useState("");
   const [mealType, setMealType] = useState("breakfast");
+  const [repeat, setRepeat] = useState<RepeatSettings>(() => defaultRepeatSettings(date));
 
   const recipeQueries = useQueries({
     queries: selectedPetIds.map((petId) => ({
@@ -59,7 +267,7 @@ function AddMealDialog({ date, onClose }: AddMealDialogProps) {
     })),
   });
 
-  const allRecipes = recipeQueries.flatMap((q) => q.data ?? []);
+  const allRecipes = recipeQueries.flatMap((q) => q.data ?? []).filter((r) => r.status !== "ARCHIVED");
   const multiplePetsSelected = selectedPetIds.length > 1;
 
   const togglePet = (petId: string) => {
@@ -72,14 +280,19 @@ function AddMealDialog({ date, onClose }: AddMealDialogProps) {
   const handleSubmit = async () => {
     if (!selectedRecipeId || selectedPetIds.length === 0) return;
     await Promise.all(
-      selectedPetIds.map((petId) =>
-        createEntry.mutateAsync({ petId, recipeId: selectedRecipeId, date, mealType })
-      )
+      selectedPetIds.map((petId) => {
+        const base = { petId, recipeId: selectedRecipeId, date, mealType };
+        return repeat.frequency === "NONE"
+          ? createEntry.mutateAsync(base)
+          : createSeries.mutateAsync(toSeriesRequest(repeat, base));
+      })
     );
     onClose();
   };
 
-  const canSubmit = !!selectedRecipeId && selectedPetIds.length > 0 && !createEntry.isPending;
+  const isPending = createEntry.isPending || createSeries.isPending;
+  const canSubmit =
+    !!selectedRecipeId && selectedPetIds.length > 0 && isRepeatValid(repeat, date) && !isPending;
 
   return (
     <Dialog open onOpenChange={(open) => { if (!open) onClose(); }}>
@@ -198,6 +411,13 @@ function AddMealDialog({ date, onClose }: AddMealDialogProps) {
             </motion.div>
           )}
 
+          {/* Repeat — revealed after recipe chosen */}
+          {selectedRecipeId && (
+            <motion.div initial={{ opacity: 0, y: 8 }} animate={{ opacity: 1, y: 0 }}>
+              <RepeatSection date={date} value={repeat} onChange={setRepeat} />
+            </motion.div>
+          )}
+
           {/* Submit */}
           <motion.button
             whileHover={!canSubmit ? {} : { scale: 1.02, y: -2 }}
@@ -210,9 +430,9 @@ function AddMealDialog({ date, onClose }: AddMealDialogProps) {
             onClick={handleSubmit}
             disabled={!canSubmit}
           >
-            {createEntry.isPending ? (
+            {isPending ? (
               <div className="w-6 h-6 border-4 border-[#4A3B32] border-t-white rounded-full animate-spin" />
-            ) : "Add to Calendar"}
+            ) : repeat.frequency === "NONE" ? "Add to Calendar" : "Add Repeating Meal"}
           </motion.button>
         </div>
       </DialogContent>
@@ -220,6 +440,148 @@ function AddMealDialog({ date, onClose }: AddMealDialogProps) {
   );
 }
 
+// ─── Edit Entry Panel ──────────────────────────────────────────────────────────
+
+interface EditEntryPanelProps {
+  entry: CalendarEntry;
+  onDone: () => void;
+}
+
+/**
+ * Keyboard-friendly alternative to dragging an entry chip on the grid. Entries
+ * that belong to a repeating series can be edited on their own or all at once;
+ * series-wide edits keep each occurrence on its own date.
+ */
+function EditEntryPanel({ entry, onDone }: EditEntryPanelProps) {
+  const updateEntry = useUpdateCalendarEntry();
+  const updateSeries = useUpdateCalendarSeries();
+  const { data: recipes } = useRecipes(entry.petId);
+  const [scope, setScope] = useState<"occurrence" | "series">("occurrence");
+  const [date, setDate] = useState(entry.date);
+  const [mealType, setMealType] = useState(entry.mealType);
+  const [recipeId, setRecipeId] = useState(entry.recipeId);
+
+  const isSeriesEdit = scope === "series" && !!entry.seriesId;
+  const isPending = updateEntry.isPending || updateSeries.isPending;
+  const hasChanged =
+    mealType !== entry.mealType || recipeId !== entry.recipeId || (!isSeriesEdit && date !== entry.date);
+  const canSubmit = !!date && hasChanged && !isPending;
+
+  const handleSave = () => {
+    if (!canSubmit) return;
+    if (isSeriesEdit) {
+      updateSeries.mutate({ seriesId: entry.seriesId!, data: { mealType, recipeId } }, { onSuccess: onDone });
+    } else {
+      updateEntry.mutate({ entryId: entry.id, data: { date, mealType, recipeId } }, { onSuccess: onDone });
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -8 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="flex flex-col gap-3 rounded-2xl border-4 border-dashed border-[#4A3B32]/40 p-4 bg-white"
+    >
+      {entry.seriesId && (
+        <div role="radiogroup" aria-label="Apply changes to" className="grid grid-cols-2 gap-2">
+          {([
+            { value: "occurrence", label: "This meal only" },
+            { value: "series", label: "Whole series" },
+          ] as const).map((option) => (
+            <button
+              key={option.value}
+              role="radio"
+              aria-checked={scope === option.value}
+              onClick={() => setScope(option.value)}
+              className={`py-2 rounded-xl border-4 border-[#4A3B32] text-xs font-black transition-all ${
+                scope === option.value
+                  ? "bg-[#4A3B32] text-white shadow-[3px_3px_0px_#98C9A3]"
+                  : "bg-white text-[#4A3B32] hover:bg-[#FFF9F2] shadow-[2px_2px_0px_#4A3B32]"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {!isSeriesEdit && (
+        <label className="flex flex-col gap-1.5 text-sm font-black text-[#4A3B32]">
+          Move to date
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="h-12 rounded-xl border-4 border-[#4A3B32] px-3 font-bold text-[#4A3B32] shadow-[2px_2px_0px_#4A3B32] focus:outline-none"
+          />
+        </label>
+      )}
+
+      <div className="flex flex-col gap-1.5">
+        <span className="text-sm font-black text-[#4A3B32]">Recipe</span>
+        <Select value={recipeId} onValueChange={setRecipeId}>
+          <SelectTrigger aria-label="Recipe" className="w-full h-12 rounded-xl border-4 border-[#4A3B32] shadow-[2px_2px_0px_#4A3B32] font-bold focus:ring-0 focus:ring-offset-0 bg-white">
+            <SelectValue placeholder={entry.recipeTitle || "Choose a recipe..."} />
+          </SelectTrigger>
+          <SelectContent className="rounded-2xl border-4 border-[#4A3B32] shadow-[8px_8px_0px_#4A3B32] overflow-hidden">
+            <SelectGroup>
+              {(recipes ?? []).filter((r) => r.status !== "ARCHIVED" || r.id === entry.recipeId).map((r) => (
+                <SelectItem key={r.id} value={r.id} className="font-bold focus:bg-[#FFF9F2] cursor-pointer">
+                  {r.title}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div role="radiogroup" aria-label="Meal type" className="grid grid-cols-4 gap-2">
+        {MEAL_TYPES.map((type) => (
+          <button
+            key={type.value}
+            role="radio"
+            aria-checked={mealType === type.value}
+            onClick={() => setMealType(type.value)}
+            className={`py-2 rounded-xl border-4 border-[#4A3B32] text-xs font-black transition-all ${
+              mealType === type.value
+                ? `${type.bg} ${type.text} shadow-[3px_3px_0px_#4A3B32]`
+                : "bg-white text-[#4A3B32] hover:bg-[#FFF9F2] shadow-[2px_2px_0px_#4A3B32]"
+            }`}
+          >
+            {type.label}
+          </button>
+        ))}
+      </div>
+
+      {(updateEntry.isError || updateSeries.isError) && (
+        <p role="alert" className="text-sm font-bold text-red-600">
+          Couldn&apos;t save this meal. Please try again.
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={onDone}
+          className="flex-1 py-2.5 rounded-full border-4 border-[#4A3B32] bg-white font-black text-[#4A3B32] shadow-[2px_2px_0px_#4A3B32]"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!canSubmit}
+          className={`flex-1 py-2.5 rounded-full border-4 border-[#4A3B32] font-black transition-all ${
+            !canSubmit
+              ? "bg-gray-200 text-gray-400 cursor-not-allowed"
+              : "bg-[#98C9A3] text-white shadow-[2px_2px_0px_#4A3B32]"
+          }`}
+        >
+          {isPending ? "Saving..." : isSeriesEdit ? "Update Series" : "Save Meal"}
+        </button>
+      </div>
+    </motion.div>
+  );
+}
+
 // ─── Date Entry Dialog ─────────────────────────────────────────────────────────
 
 interface CalendarEntryDialogProps {
@@ -232,7 +594,10 @@ interface CalendarEntryDialogProps {
 export function CalendarEntryDialog({ date, petId, isAllPets, onClose }: CalendarEntryDialogProps) {
   const { data: pets } = usePets();
   const deleteEntry = useDeleteCalendarEntry();
+  const deleteSeries = useDeleteCalendarSeries();
   const [showAddMeal, setShowAddMeal] = useState(false);
+  const [editingEntryId, setEditingEntryId] = useState<string | null>(null);
+  const [deletingEntryId, setDeletingEntryId] = useState<string | null>(null);
 
   const monthStr = date.substring(0, 7);
   const allPetIds = (pets ?? []).map((p) => p.id);
@@ -260,43 +625,106 @@ export function CalendarEntryDialog({ date, petId, isAllPets, onClose }: Calenda
                 {entries.map((entry) => {
                   const mealStyle = MEAL_TYPE_STYLES[entry.mealType] ?? { bg: "bg-[#E8DDD0]", text: "text-[#4A3B32]", label: entry.mealType };
                   const pet = petById[entry.petId];
+                  const isEditing = editingEntryId === entry.id;
+                  const isChoosingDelete = deletingEntryId === entry.id;
                   return (
-                    <div key={entry.id} className="flex items-center gap-3 rounded-2xl border-4 border-[#4A3B32] p-4 bg-[#FFF9F2] shadow-[4px_4px_0px_#4A3B32]">
-                      {/* Pet avatar */}
-                      <div className="w-10 h-10 shrink-0 rounded-full border-4 border-[#4A3B32] overflow-hidden bg-white flex items-center justify-center shadow-[2px_2px_0px_#4A3B32]">
-                        {pet?.photoUrl ? (
-                          <Image src={pet.photoUrl} alt={pet.name} width={40} height={40} className="w-full h-full object-cover" />
-                        ) : pet?.species === "DOG" ? (
-                          <Dog className="w-5 h-5 text-[#4A3B32]" />
-                        ) : (
-                          <Cat className="w-5 h-5 text-[#4A3B32]" />
-                        )}
-                      </div>
+                    <div key={entry.id} className="flex flex-col gap-3">
+                      <div className="flex items-center gap-3 rounded-2xl border-4 border-[#4A3B32] p-4 bg-[#FFF9F2] shadow-[4px_4px_0px_#4A3B32]">
+                        {/* Pet avatar */}
+                        <div className="w-10 h-10 shrink-0 rounded-full border-4 border-[#4A3B32] overflow-hidden bg-white flex items-center justify-center shadow-[2px_2px_0px_#4A3B32]">
+                          {pet?.photoUrl ? (
+                            <Image src={pet.photoUrl} alt={pet.name} width={40} height={40} className="w-full h-full object-cover" />
+                          ) : pet?.species === "DOG" ? (
+                            <Dog className="w-5 h-5 text-[#4A3B32]" />
+                          ) : (
+                            <Cat className="w-5 h-5 text-[#4A3B32]" />
+                          )}
+                        </div>
 
-                      {/* Content */}
-                      <div className="flex flex-col gap-1.5 min-w-0 flex-1">
-                        <div className="flex items-center gap-2 flex-wrap">
-                          <span className={`px-2.5 py-0.5 rounded-full text-xs font-black border-2 border-[#4A3B32] shadow-[1px_1px_0px_#4A3B32] ${mealStyle.bg} ${mealStyle.text}`}>
-                            {mealStyle.label}
-                          </span>
-                          {isAllPets && entry.petName && (
-                            <span className="text-xs font-black text-[#4A3B32]/60">
-                              {entry.petName}
+                        {/* Content */}
+                        <div className="flex flex-col gap-1.5 min-w-0 flex-1">
+                          <div className="flex items-center gap-2 flex-wrap">
+                            <span className={`px-2.5 py-0.5 rounded-full text-xs font-black border-2 border-[#4A3B32] shadow-[1px_1px_0px_#4A3B32] ${mealStyle.bg} ${mealStyle.text}`}>
+                              {mealStyle.label}
                             </span>
+                            {entry.seriesId && (
+                              <span className="flex items-center gap-1 text-xs font-black text-[#4A3B32]/60">
+                                <Repeat className="w-3 h-3" strokeWidth={3} />
+                                Repeats
+                              </span>
+                            )}
+                            {isAllPets && entry.petName && (
+                              <span className="text-xs font-black text-[#4A3B32]/60">
+                                {entry.petName}
+                              </span>
+                            )}
+                          </div>
+                          <p className="text-base font-bold text-[#4A3B32] truncate">{entry.recipeTitle || "Recipe"}</p>
+                          {entry.recipeArchived && (
+                            <p className="flex items-center gap-1.5 text-xs font-black text-[#4A3B32]/70">
+                              <Archive className="w-3 h-3 shrink-0" strokeWidth={3} />
+                              This recipe is archived — restore it or pick another.
+                            </p>
                           )}
                         </div>
-                        <p className="text-base font-bold text-[#4A3B32] truncate">{entry.recipeTitle || "Recipe"}</p>
+
+                        {/* Edit */}
+                        <motion.button
+                          whileHover={{ scale: 1.1 }}
+                          whileTap={{ scale: 0.9 }}
+                          aria-label={`Edit or move ${entry.recipeTitle || "meal"}`}
+                          aria-expanded={isEditing}
+                          className="ml-1 w-10 h-10 shrink-0 rounded-full border-4 border-[#4A3B32] bg-[#FFD89B] flex items-center justify-center text-[#4A3B32] shadow-[2px_2px_0px_#4A3B32]"
+                          onClick={() => setEditingEntryId(isEditing ? null : entry.id)}
+                        >
+                          <Pencil className="w-5 h-5" strokeWidth={3} />
+                        </motion.button>
+
+                        {/* Delete */}
+                        <motion.button
+                          whileHover={{ scale: 1.1, rotate: 10 }}
+                          whileTap={{ scale: 0.9 }}
+                          aria-label={`Delete ${entry.recipeTitle || "meal"}`}
+                          className="w-10 h-10 shrink-0 rounded-full border-4 border-[#4A3B32] bg-[#F7B2B7] flex items-center justify-center text-white shadow-[2px_2px_0px_#4A3B32]"
+                          onClick={() =>
+                            entry.seriesId
+                              ? setDeletingEntryId(isChoosingDelete ? null : entry.id)
+                              : deleteEntry.mutateAsync(entry.id)
+                          }
+                        >
+                          <Trash2Icon className="w-5 h-5" strokeWidth={3} />
+                        </motion.button>
                       </div>
 
-                      {/* Delete */}
-                      <motion.button
-                        whileHover={{ scale: 1.1, rotate: 10 }}
-                        whileTap={{ scale: 0.9 }}
-                        className="ml-1 w-10 h-10 shrink-0 rounded-full border-4 border-[#4A3B32] bg-[#F7B2B7] flex items-center justify-center text-white shadow-[2px_2px_0px_#4A3B32]"
-                        onClick={() => deleteEntry.mutateAsync(entry.id)}
-                      >
-                        <Trash2Icon className="w-5 h-5" strokeWidth={3} />
-                      </motion.button>
+                      {isChoosingDelete && entry.seriesId && (
+                        <motion.div
+                          initial={{ opacity: 0, y: -8 }}
+                          animate={{ opacity: 1, y: 0 }}
+                          className="flex flex-col gap-2 rounded-2xl border-4 border-dashed border-[#F7B2B7] p-4 bg-white"
+                        >
+                          <p className="text-sm font-black text-[#4A3B32]">This meal repeats. What should be removed?</p>
+                          <div className="grid grid-cols-2 gap-2">
+                            <button
+                              onClick={() => deleteEntry.mutate(entry.id, { onSuccess: () => setDeletingEntryId(null) })}
+                              disabled={deleteEntry.isPending || deleteSeries.isPending}
+                              className="py-2.5 rounded-full border-4 border-[#4A3B32] bg-white font-black text-[#4A3B32] shadow-[2px_2px_0px_#4A3B32]"
+                            >
+                              This meal only
+                            </button>
+                            <button
+                              onClick={() => deleteSeries.mutate(entry.seriesId!, { onSuccess: () => setDeletingEntryId(null) })}
+                              disabled={deleteEntry.isPending || deleteSeries.isPending}
+                              className="py-2.5 rounded-full border-4 border-[#4A3B32] bg-[#F7B2B7] font-black text-[#4A3B32] shadow-[2px_2px_0px_#4A3B32]"
+                            >
+                              Whole series
+                            </button>
+                          </div>
+                        </motion.div>
+                      )}
+
+                      {isEditing && (
+                        <EditEntryPanel entry={entry} onDone={() => setEditingEntryId(null)} />
+                      )}
                     </div>
                   );
                 })}
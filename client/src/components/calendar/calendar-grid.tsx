@@ -1,8 +1,10 @@
 "use client";
 
 import { useState } from "react";
-import { ChevronLeftIcon, ChevronRightIcon } from "lucide-react";
+import type { DragEvent, KeyboardEvent } from "react";
+import { ChevronLeftIcon, ChevronRightIcon, Dog, Cat, Archive } from "lucide-react";
 import { format } from "date-fns";
+import Image from "next/image";
 import {
   getMonthString,
   getMonthLabel,
@@ -10,95 +12,363 @@ import {
   getStartPadding,
   nextMonth,
   prevMonth,
+  getWeekDays,
+  getWeekLabel,
+  nextWeek,
+  prevWeek,
   formatDate,
 } from "@/lib/utils/format";
-import { useCalendarEntries, useAllCalendarEntries } from "@/lib/hooks/use-calendar";
+import { useCalendarEntries, useAllCalendarEntries, useUpdateCalendarEntry } from "@/lib/hooks/use-calendar";
+import { usePets } from "@/lib/hooks/use-pets";
+import { MEAL_TYPES } from "@/components/calendar/calendar-entry-dialog";
 import { cn } from "@/lib/utils";
 import type { CalendarEntry } from "@/lib/types/calendar.types";
+import type { Pet } from "@/lib/types/pet.types";
+
+export type CalendarView = "month" | "week";
 
 interface CalendarGridProps {
   petId?: string;
   petIds?: string[];
+  view?: CalendarView;
   onDayClick: (date: string, entries: CalendarEntry[]) => void;
 }
 
 const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 
-export function CalendarGrid({ petId, petIds, onDayClick }: CalendarGridProps) {
-  const [currentMonth, setCurrentMonth] = useState(new Date());
-  const monthStr = getMonthString(currentMonth);
-  const { data: singleEntries } = useCalendarEntries(petId ?? "", monthStr);
-  const { data: combinedEntries } = useAllCalendarEntries(petIds ?? [], monthStr);
-  const entries = petIds ? combinedEntries : singleEntries;
+const NAV_BUTTON_CLASS =
+  "flex size-10 items-center justify-center rounded-full border-4 border-[#4A3B32] bg-white text-[#4A3B32] shadow-[2px_2px_0px_#4A3B32] transition-all hover:-translate-y-0.5 hover:shadow-[4px_4px_0px_#4A3B32] active:translate-y-0 active:shadow-none";
+
+const DRAG_HINT = "Drag to another day, or open the day to move it";
+const ARCHIVED_HINT = "This meal uses an archived recipe";
+
+/** Shared drag-and-drop wiring handed down to the month and week grids. */
+interface EntryDragHandlers {
+  draggingId: string | null;
+  dropTarget: string | null;
+  onDragStart: (event: DragEvent, entry: CalendarEntry) => void;
+  onDragEnd: () => void;
+  onDragOver: (event: DragEvent, targetKey: string) => void;
+  onDrop: (event: DragEvent, date: string, mealType?: string) => void;
+}
 
-  const days = getCalendarDays(currentMonth);
-  const startPad = getStartPadding(currentMonth);
+export function CalendarGrid({ petId, petIds, view = "month", onDayClick }: CalendarGridProps) {
+  const [currentDate, setCurrentDate] = useState(new Date());
+  const [draggingEntry, setDraggingEntry] = useState<CalendarEntry | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const updateEntry = useUpdateCalendarEntry();
+  const weekDays = getWeekDays(currentDate);
+
+  // A week can straddle two months, so fetch both and merge
+  const primaryMonth = getMonthString(view === "week" ? weekDays[0] : currentDate);
+  const trailingMonth = view === "week" ? getMonthString(weekDays[6]) : primaryMonth;
+  const secondaryMonth = trailingMonth !== primaryMonth ? trailingMonth : "";
+
+  const { data: singleEntries } = useCalendarEntries(petId ?? "", primaryMonth);
+  const { data: singleTrailingEntries } = useCalendarEntries(petId ?? "", secondaryMonth);
+  const { data: combinedEntries } = useAllCalendarEntries(petIds ?? [], primaryMonth);
+  const { data: combinedTrailingEntries } = useAllCalendarEntries(petIds ?? [], secondaryMonth);
+  const entries = petIds
+    ? [...combinedEntries, ...combinedTrailingEntries]
+    : [...(singleEntries ?? []), ...(singleTrailingEntries ?? [])];
 
   const getEntriesForDate = (date: Date): CalendarEntry[] => {
     const dateStr = formatDate(date);
-    return entries?.filter((e) => e.date === dateStr) ?? [];
+    return entries.filter((e) => e.date === dateStr);
+  };
+
+  const goPrev = () => setCurrentDate(view === "week" ? prevWeek(currentDate) : prevMonth(currentDate));
+  const goNext = () => setCurrentDate(view === "week" ? nextWeek(currentDate) : nextMonth(currentDate));
+
+  const dragHandlers: EntryDragHandlers = {
+    draggingId: draggingEntry?.id ?? null,
+    dropTarget,
+    onDragStart: (event, entry) => {
+      event.dataTransfer.effectAllowed = "move";
+      event.dataTransfer.setData("text/plain", entry.id);
+      setDraggingEntry(entry);
+    },
+    onDragEnd: () => {
+      setDraggingEntry(null);
+      setDropTarget(null);
+    },
+    onDragOver: (event, targetKey) => {
+      if (!draggingEntry) return;
+      event.preventDefault();
+      event.dataTransfer.dropEffect = "move";
+      if (dropTarget !== targetKey) setDropTarget(targetKey);
+    },
+    onDrop: (event, date, mealType) => {
+      event.preventDefault();
+      const entry = draggingEntry;
+      setDraggingEntry(null);
+      setDropTarget(null);
+      if (!entry) return;
+
+      const nextMealType = mealType ?? entry.mealType;
+      if (entry.date === date && entry.mealType === nextMealType) return;
+      updateEntry.mutate({ entryId: entry.id, data: { date, mealType: nextMealType } });
+    },
   };
 
   return (
     <div className="overflow-hidden rounded-[2.5rem] border-4 border-[#4A3B32] bg-white shadow-[8px_8px_0px_#4A3B32]">
       <div className="flex items-center justify-between border-b-4 border-[#4A3B32] p-4 bg-[#FFF9F2]">
         <button
-          className="flex size-10 items-center justify-center rounded-full border-4 border-[#4A3B32] bg-white text-[#4A3B32] shadow-[2px_2px_0px_#4A3B32] transition-all hover:-translate-y-0.5 hover:shadow-[4px_4px_0px_#4A3B32] active:translate-y-0 active:shadow-none"
-          onClick={() => setCurrentMonth(prevMonth(currentMonth))}
+          className={NAV_BUTTON_CLASS}
+          aria-label={view === "week" ? "Previous week" : "Previous month"}
+          onClick={goPrev}
         >
           <ChevronLeftIcon className="size-6" strokeWidth={3} />
         </button>
-        <h3 className="text-2xl font-black text-[#4A3B32] uppercase tracking-wider">{getMonthLabel(currentMonth)}</h3>
+        <h3 className="text-2xl font-black text-[#4A3B32] uppercase tracking-wider text-center">
+          {view === "week" ? getWeekLabel(currentDate) : getMonthLabel(currentDate)}
+        </h3>
         <button
-          className="flex size-10 items-center justify-center rounded-full border-4 border-[#4A3B32] bg-white text-[#4A3B32] shadow-[2px_2px_0px_#4A3B32] transition-all hover:-translate-y-0.5 hover:shadow-[4px_4px_0px_#4A3B32] active:translate-y-0 active:shadow-none"
-          onClick={() => setCurrentMonth(nextMonth(currentMonth))}
+          className={NAV_BUTTON_CLASS}
+          aria-label={view === "week" ? "Next week" : "Next month"}
+          onClick={goNext}
         >
           <ChevronRightIcon className="size-6" strokeWidth={3} />
         </button>
       </div>
 
-      <div className="grid grid-cols-7">
-        {WEEKDAYS.map((day) => (
-          <div key={day} className="border-b-4 border-[#4A3B32] p-3 text-center text-sm font-black text-[#4A3B32]/60 uppercase tracking-widest bg-white">
-            {day}
+      {updateEntry.isError && (
+        <p role="alert" className="border-b-4 border-[#4A3B32] bg-[#F7B2B7] px-4 py-2 text-sm font-black text-[#4A3B32]">
+          Couldn&apos;t move that meal, so it&apos;s been put back. Please try again.
+        </p>
+      )}
+
+      {view === "week" ? (
+        <WeekGrid days={weekDays} getEntriesForDate={getEntriesForDate} onDayClick={onDayClick} drag={dragHandlers} />
+      ) : (
+        <MonthGrid month={currentDate} getEntriesForDate={getEntriesForDate} onDayClick={onDayClick} drag={dragHandlers} />
+      )}
+    </div>
+  );
+}
+
+/** Lets the div-based cells behave like buttons for keyboard users. */
+function activateOnKey(event: KeyboardEvent, onActivate: () => void) {
+  if (event.target !== event.currentTarget) return;
+  if (event.key === "Enter" || event.key === " ") {
+    event.preventDefault();
+    onActivate();
+  }
+}
+
+// ─── Month View ────────────────────────────────────────────────────────────────
+
+interface MonthGridProps {
+  month: Date;
+  getEntriesForDate: (date: Date) => CalendarEntry[];
+  onDayClick: (date: string, entries: CalendarEntry[]) => void;
+  drag: EntryDragHandlers;
+}
+
+function MonthGrid({ month, getEntriesForDate, onDayClick, drag }: MonthGridProps) {
+  const days = getCalendarDays(month);
+  const startPad = getStartPadding(month);
+
+  return (
+    <div className="grid grid-cols-7">
+      {WEEKDAYS.map((day) => (
+        <div key={day} className="border-b-4 border-[#4A3B32] p-3 text-center text-sm font-black text-[#4A3B32]/60 uppercase tracking-widest bg-white">
+          {day}
+        </div>
+      ))}
+      {Array.from({ length: startPad }).map((_, i) => (
+        <div key={`pad-${i}`} className="min-h-[100px] border-b-4 border-r-4 border-[#4A3B32]/10 p-2 bg-[#FFF9F2]/50" />
+      ))}
+      {days.map((date) => {
+        const dateStr = formatDate(date);
+        const dayEntries = getEntriesForDate(date);
+        const isToday = dateStr === formatDate(new Date());
+        const openDay = () => onDayClick(dateStr, dayEntries);
+        return (
+          <div
+            key={date.toISOString()}
+            role="button"
+            tabIndex={0}
+            onClick={openDay}
+            onKeyDown={(e) => activateOnKey(e, openDay)}
+            onDragOver={(e) => drag.onDragOver(e, dateStr)}
+            onDrop={(e) => drag.onDrop(e, dateStr)}
+            className={cn(
+              "min-h-[100px] border-b-4 border-r-4 border-[#4A3B32]/10 p-2 text-left transition-all hover:bg-[#FFF9F2] focus:bg-[#FFF9F2] focus:outline-none flex flex-col gap-2 cursor-pointer",
+              drag.dropTarget === dateStr && "bg-[#98C9A3]/20 ring-4 ring-inset ring-[#98C9A3]"
+            )}
+          >
+            <span
+              className={cn(
+                "inline-flex size-8 items-center justify-center rounded-full text-sm font-black transition-all",
+                isToday ? "bg-[#F7B2B7] text-[#4A3B32] border-4 border-[#4A3B32] shadow-[2px_2px_0px_#4A3B32] -translate-y-0.5" : "text-[#4A3B32] group-hover:bg-[#4A3B32]/5"
+              )}
+            >
+              {format(date, "d")}
+            </span>
+            {dayEntries.length > 0 && (
+              <div className="mt-1 flex flex-col gap-1.5">
+                {dayEntries.slice(0, 2).map((entry) => (
+                  <span
+                    key={entry.id}
+                    draggable
+                    title={entry.recipeArchived ? `${ARCHIVED_HINT}. ${DRAG_HINT}` : DRAG_HINT}
+                    onDragStart={(e) => drag.onDragStart(e, entry)}
+                    onDragEnd={drag.onDragEnd}
+                    className={cn(
+                      "truncate rounded-xl border-2 border-[#4A3B32] bg-[#98C9A3] px-2 py-1 text-[10px] font-black text-white shadow-[2px_2px_0px_#4A3B32] cursor-grab active:cursor-grabbing",
+                      entry.recipeArchived && "bg-[#F4D06F] text-[#4A3B32]",
+                      drag.draggingId === entry.id && "opacity-40"
+                    )}
+                  >
+                    {entry.recipeArchived && <Archive className="mr-1 inline size-3 align-[-2px]" strokeWidth={3} aria-label={ARCHIVED_HINT} />}
+                    {entry.recipeTitle || entry.mealType}
+                  </span>
+                ))}
+                {dayEntries.length > 2 && (
+                  <span className="text-[11px] font-bold text-[#4A3B32]/60 pl-1">+{dayEntries.length - 2} more</span>
+                )}
+              </div>
+            )}
           </div>
-        ))}
-        {Array.from({ length: startPad }).map((_, i) => (
-          <div key={`pad-${i}`} className="min-h-[100px] border-b-4 border-r-4 border-[#4A3B32]/10 p-2 bg-[#FFF9F2]/50" />
-        ))}
+        );
+      })}
+    </div>
+  );
+}
+
+// ─── Week View ─────────────────────────────────────────────────────────────────
+
+interface WeekGridProps {
+  days: Date[];
+  getEntriesForDate: (date: Date) => CalendarEntry[];
+  onDayClick: (date: string, entries: CalendarEntry[]) => void;
+  drag: EntryDragHandlers;
+}
+
+function WeekGrid({ days, getEntriesForDate, onDayClick, drag }: WeekGridProps) {
+  const { data: pets } = usePets();
+  const petById = Object.fromEntries((pets ?? []).map((p) => [p.id, p]));
+  const todayStr = formatDate(new Date());
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="grid min-w-[760px] grid-cols-[96px_repeat(7,minmax(0,1fr))]">
+        <div className="border-b-4 border-r-4 border-[#4A3B32]/10 bg-white" />
         {days.map((date) => {
-          const dayEntries = getEntriesForDate(date);
-          const isToday = formatDate(date) === formatDate(new Date());
+          const isToday = formatDate(date) === todayStr;
           return (
             <button
               key={date.toISOString()}
-              onClick={() => onDayClick(formatDate(date), dayEntries)}
-              className="min-h-[100px] border-b-4 border-r-4 border-[#4A3B32]/10 p-2 text-left transition-all hover:bg-[#FFF9F2] focus:bg-[#FFF9F2] focus:outline-none flex flex-col gap-2"
+              onClick={() => onDayClick(formatDate(date), getEntriesForDate(date))}
+              className="flex flex-col items-center gap-1 border-b-4 border-[#4A3B32] p-2 bg-white transition-all hover:bg-[#FFF9F2] focus:bg-[#FFF9F2] focus:outline-none"
             >
+              <span className="text-xs font-black text-[#4A3B32]/60 uppercase tracking-widest">
+                {format(date, "EEE")}
+              </span>
               <span
                 className={cn(
-                  "inline-flex size-8 items-center justify-center rounded-full text-sm font-black transition-all",
-                  isToday ? "bg-[#F7B2B7] text-[#4A3B32] border-4 border-[#4A3B32] shadow-[2px_2px_0px_#4A3B32] -translate-y-0.5" : "text-[#4A3B32] group-hover:bg-[#4A3B32]/5"
+                  "inline-flex size-8 items-center justify-center rounded-full text-sm font-black",
+                  isToday ? "bg-[#F7B2B7] text-[#4A3B32] border-4 border-[#4A3B32] shadow-[2px_2px_0px_#4A3B32]" : "text-[#4A3B32]"
                 )}
               >
                 {format(date, "d")}
               </span>
-              {dayEntries.length > 0 && (
-                <div className="mt-1 flex flex-col gap-1.5">
-                  {dayEntries.slice(0, 2).map((entry) => (
-                    <span key={entry.id} className="truncate rounded-xl border-2 border-[#4A3B32] bg-[#98C9A3] px-2 py-1 text-[10px] font-black text-white shadow-[2px_2px_0px_#4A3B32]">
-                      {entry.recipeTitle || entry.mealType}
-                    </span>
-                  ))}
-                  {dayEntries.length > 2 && (
-                    <span className="text-[11px] font-bold text-[#4A3B32]/60 pl-1">+{dayEntries.length - 2} more</span>
-                  )}
-                </div>
-              )}
             </button>
           );
         })}
+
+        {MEAL_TYPES.map((type) => (
+          <WeekRow
+            key={type.value}
+            mealType={type}
+            days={days}
+            petById={petById}
+            getEntriesForDate={getEntriesForDate}
+            onDayClick={onDayClick}
+            drag={drag}
+          />
+        ))}
       </div>
     </div>
   );
 }
+
+interface WeekRowProps {
+  mealType: (typeof MEAL_TYPES)[number];
+  days: Date[];
+  petById: Record<string, Pet>;
+  getEntriesForDate: (date: Date) => CalendarEntry[];
+  onDayClick: (date: string, entries: CalendarEntry[]) => void;
+  drag: EntryDragHandlers;
+}
+
+function WeekRow({ mealType, days, petById, getEntriesForDate, onDayClick, drag }: WeekRowProps) {
+  return (
+    <>
+      <div className="flex items-center border-b-4 border-r-4 border-[#4A3B32]/10 p-2 bg-[#FFF9F2]">
+        <span className={`w-full rounded-xl border-2 border-[#4A3B32] px-2 py-1 text-center text-xs font-black shadow-[2px_2px_0px_#4A3B32] ${mealType.bg} ${mealType.text}`}>
+          {mealType.label}
+        </span>
+      </div>
+      {days.map((date) => {
+        const dateStr = formatDate(date);
+        const slotKey = `${dateStr}:${mealType.value}`;
+        const dayEntries = getEntriesForDate(date);
+        const slotEntries = dayEntries.filter((e) => e.mealType === mealType.value);
+        const openDay = () => onDayClick(dateStr, dayEntries);
+        return (
+          <div
+            key={date.toISOString()}
+            role="button"
+            tabIndex={0}
+            onClick={openDay}
+            onKeyDown={(e) => activateOnKey(e, openDay)}
+            onDragOver={(e) => drag.onDragOver(e, slotKey)}
+            onDrop={(e) => drag.onDrop(e, dateStr, mealType.value)}
+            aria-label={`${mealType.label} on ${format(date, "EEEE, MMM d")}`}
+            className={cn(
+              "min-h-[88px] border-b-4 border-r-4 border-[#4A3B32]/10 p-1.5 text-left transition-all hover:bg-[#FFF9F2] focus:bg-[#FFF9F2] focus:outline-none flex flex-col gap-1.5 cursor-pointer",
+              drag.dropTarget === slotKey && "bg-[#98C9A3]/20 ring-4 ring-inset ring-[#98C9A3]"
+            )}
+          >
+            {slotEntries.map((entry) => {
+              const pet = petById[entry.petId];
+              return (
+                <span
+                  key={entry.id}
+                  draggable
+                  title={entry.recipeArchived ? `${ARCHIVED_HINT}. ${DRAG_HINT}` : DRAG_HINT}
+                  onDragStart={(e) => drag.onDragStart(e, entry)}
+                  onDragEnd={drag.onDragEnd}
+                  className={cn(
+                    "flex items-center gap-1.5 rounded-xl border-2 border-[#4A3B32] bg-white px-1.5 py-1 shadow-[2px_2px_0px_#4A3B32] cursor-grab active:cursor-grabbing",
+                    entry.recipeArchived && "bg-[#F4D06F]/40",
+                    drag.draggingId === entry.id && "opacity-40"
+                  )}
+                >
+                  <span className="flex size-6 shrink-0 items-center justify-center overflow-hidden rounded-full border-2 border-[#4A3B32] bg-[#FFF9F2]">
+                    {pet?.photoUrl ? (
+                      <Image src={pet.photoUrl} alt={pet.name} width={24} height={24} draggable={false} className="w-full h-full object-cover" />
+                    ) : pet?.species === "DOG" ? (
+                      <Dog className="size-3.5 text-[#4A3B32]" />
+                    ) : (
+                      <Cat className="size-3.5 text-[#4A3B32]" />
+                    )}
+                  </span>
+                  <span className="truncate text-[10px] font-black text-[#4A3B32]">
+                    {entry.recipeTitle || "Recipe"}
+                  </span>
+                  {entry.recipeArchived && (
+                    <Archive className="size-3 shrink-0 text-[#4A3B32]" strokeWidth={3} aria-label={ARCHIVED_HINT} />
+                  )}
+                </span>
+              );
+            })}
+          </div>
+        );
+      })}
+    </>
+  );
+}
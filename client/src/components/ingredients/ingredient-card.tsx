@@ -0,0 +1,26 @@
+"use client";
+
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { SpeciesSafety } from "./species-safety";
+import { splitIngredientName } from "@/lib/utils/ingredient-catalog";
+import type { Ingredient } from "@/lib/types/ingredient.types";
+
+export function IngredientCard({ ingredient }: { ingredient: Ingredient }) {
+  const { base, notes } = splitIngredientName(ingredient.name);
+
+  return (
+    <Link href={`/ingredients/${ingredient.id}`} className="block h-full">
+      <motion.div
+        whileHover={{ y: -4, boxShadow: "6px 6px 0px #4A3B32" }}
+        className="h-full flex flex-col gap-3 p-5 rounded-3xl border-4 border-[#4A3B32] bg-white shadow-[4px_4px_0px_#4A3B32] transition-colors hover:bg-[#FFF9F2]"
+      >
+        <div className="flex items-start justify-between gap-3">
+          <h3 className="text-lg font-black text-[#4A3B32] capitalize">{base}</h3>
+          <SpeciesSafety speciesSafe={ingredient.speciesSafe} />
+        </div>
+        {notes && <p className="text-sm font-bold text-[#4A3B32]/60">{notes}</p>}
+      </motion.div>
+    </Link>
+  );
+}
@@ -0,0 +1,40 @@
+"use client";
+
+import { CatIcon, DogIcon } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Species } from "@/lib/types/pet.types";
+
+const SPECIES: { species: Species; icon: typeof DogIcon; label: string }[] = [
+  { species: "DOG", icon: DogIcon, label: "Dogs" },
+  { species: "CAT", icon: CatIcon, label: "Cats" },
+];
+
+interface SpeciesSafetyProps {
+  speciesSafe: Species[];
+  /** Spell out "Safe for dogs" etc. instead of showing the icons alone. */
+  showLabels?: boolean;
+}
+
+export function SpeciesSafety({ speciesSafe, showLabels }: SpeciesSafetyProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {SPECIES.map(({ species, icon: Icon, label }) => {
+        const safe = speciesSafe.includes(species);
+        return (
+          <span
+            key={species}
+            title={safe ? `Safe for ${label.toLowerCase()}` : `Not listed as safe for ${label.toLowerCase()}`}
+            className={cn(
+              "flex items-center gap-1.5 rounded-full border-2 font-black",
+              showLabels ? "px-3 py-1 text-sm" : "p-1",
+              safe ? "border-[#4A3B32] bg-[#98C9A3] text-white" : "border-[#4A3B32]/20 bg-white text-[#4A3B32]/30"
+            )}
+          >
+            <Icon className="w-4 h-4" strokeWidth={3} />
+            {showLabels && (safe ? `Safe for ${label.toLowerCase()}` : `Not for ${label.toLowerCase()}`)}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
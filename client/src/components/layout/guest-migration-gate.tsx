@@ -0,0 +1,23 @@
+"use client";
+
+import { useEffect } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { useGuestPets } from "@/lib/hooks/use-guest";
+
+const IMPORT_PATH = "/pets/import";
+
+/** Sends a user who has just signed in to the import review while pets from guest mode are still on this device. */
+export function GuestMigrationGate({ userId }: { userId: string | null }) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const { data: guestPets } = useGuestPets({ enabled: !!userId });
+  const hasGuestPets = !!userId && !!guestPets && guestPets.length > 0;
+
+  useEffect(() => {
+    if (hasGuestPets && pathname !== IMPORT_PATH) {
+      router.replace(`${IMPORT_PATH}?next=${encodeURIComponent(pathname)}`);
+    }
+  }, [hasGuestPets, pathname, router]);
+
+  return null;
+}
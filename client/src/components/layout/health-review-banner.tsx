@@ -0,0 +1,48 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { ClipboardCheck, XIcon } from "lucide-react";
+import { useHealthReview } from "@/lib/hooks/use-pets";
+
+const REVIEW_PATH = "/pets/review-health";
+// Imported guest pets can bring typed-in values along, so the import finishes first
+const HIDDEN_PATHS = [REVIEW_PATH, "/pets/import"];
+
+/** Points a signed-in user to the health review while any of their pets still has typed-in health values to check. */
+export function HealthReviewBanner({ userId }: { userId: string | null }) {
+  const pathname = usePathname();
+  const [dismissed, setDismissed] = useState(false);
+  const { data: reviews } = useHealthReview({ enabled: !!userId });
+
+  if (!userId || !reviews || reviews.length === 0 || dismissed || HIDDEN_PATHS.includes(pathname)) return null;
+
+  const count = reviews.reduce((total, review) => total + review.entries.length, 0);
+
+  return (
+    <div className="w-full max-w-7xl mx-auto px-6">
+      <div className="flex flex-wrap items-center gap-3 rounded-2xl border-4 border-[#4A3B32] bg-[#FFD89B] px-5 py-3 font-bold text-[#4A3B32] shadow-[4px_4px_0px_#4A3B32]">
+        <ClipboardCheck className="size-5 shrink-0" strokeWidth={3} />
+        <p className="flex-1 min-w-[200px]">
+          {count} typed-in health {count === 1 ? "detail needs" : "details need"} checking, so our safety checks can
+          recognise {count === 1 ? "it" : "them"}.
+        </p>
+        <Link
+          href={`${REVIEW_PATH}?next=${encodeURIComponent(pathname)}`}
+          className="rounded-full border-2 border-[#4A3B32] bg-white px-4 py-1.5 text-sm font-black hover:bg-[#FFF9F2]"
+        >
+          Check now
+        </Link>
+        <button
+          type="button"
+          aria-label="Dismiss"
+          onClick={() => setDismissed(true)}
+          className="rounded-full p-1 hover:bg-black/10 transition-colors"
+        >
+          <XIcon className="size-4" strokeWidth={3} />
+        </button>
+      </div>
+    </div>
+  );
+}
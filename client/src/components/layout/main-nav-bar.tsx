@@ -4,9 +4,10 @@ import Link from "next/link";
 import Image from "next/image";
 import { usePathname } from "next/navigation";
 import { motion } from "framer-motion";
-import { PawPrint, Utensils, Calendar, LogOut } from "lucide-react";
+import { PawPrint, Utensils, Carrot, Calendar, ShoppingCart, CookingPot, LogOut } from "lucide-react";
 import { signOut } from "next-auth/react";
 import type { User } from "next-auth";
+import { clearOfflineData } from "@/lib/offline/service-worker";
 
 export function MainNavBar({ user }: { user?: User }) {
   const pathname = usePathname();
@@ -14,7 +15,10 @@ export function MainNavBar({ user }: { user?: User }) {
   const navItems = [
     { href: "/pets", label: "My Pets", icon: PawPrint },
     { href: "/recipes", label: "Recipes", icon: Utensils },
+    { href: "/ingredients", label: "Ingredients", icon: Carrot },
     { href: "/calendar", label: "Calendar", icon: Calendar },
+    { href: "/shopping-list", label: "Shopping", icon: ShoppingCart },
+    { href: "/batch-cooking", label: "Batch Cook", icon: CookingPot },
   ];
 
   return (
@@ -79,7 +83,7 @@ export function MainNavBar({ user }: { user?: User }) {
             <motion.button
               whileHover={{ scale: 1.1, rotate: 5 }}
               whileTap={{ scale: 0.9 }}
-              onClick={() => signOut({ callbackUrl: "/" })}
+              onClick={() => clearOfflineData().finally(() => signOut({ callbackUrl: "/" }))}
               className="w-10 h-10 bg-white rounded-full border-4 border-[#4A3B32] shadow-[4px_4px_0px_#4A3B32] flex items-center justify-center text-[#4A3B32] hover:bg-[#F7B2B7] hover:text-white transition-colors"
               title="Sign Out"
             >
@@ -0,0 +1,105 @@
+"use client";
+
+import { useState } from "react";
+import { CloudOff, RefreshCw, TriangleAlert } from "lucide-react";
+import { useOfflineCacheWarmup, useOfflineQueue } from "@/lib/hooks/use-offline";
+import { formatDisplayDate } from "@/lib/utils/format";
+import type { QueuedCalendarMutation } from "@/lib/offline/mutation-queue";
+
+function displayDate(date: string) {
+  return formatDisplayDate(new Date(date + "T00:00:00"));
+}
+
+function describe(mutation: QueuedCalendarMutation): string {
+  switch (mutation.kind) {
+    case "create":
+      return `Add ${mutation.data.mealType.toLowerCase()} on ${displayDate(mutation.data.date)}`;
+    case "update":
+      return `Change ${mutation.base.recipeTitle} on ${displayDate(mutation.base.date)}`;
+    case "delete":
+      return `Remove ${mutation.base.recipeTitle} on ${displayDate(mutation.base.date)}`;
+  }
+}
+
+/** Keeps the offline cache warm, replays queued calendar changes, and shows offline state and sync conflicts. */
+export function OfflineStatus({ userId }: { userId: string | null }) {
+  useOfflineCacheWarmup(userId);
+  const { isOnline, isSyncing, pending, conflicts, keep, discard } = useOfflineQueue(userId);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const resolve = async (mutation: QueuedCalendarMutation, action: typeof keep) => {
+    setResolvingId(mutation.id);
+    try {
+      await action(mutation);
+    } catch {
+      // Still unreachable; the change stays listed so it can be tried again
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  if (isOnline && !isSyncing && conflicts.length === 0) return null;
+
+  const changes = `${pending.length} calendar ${pending.length === 1 ? "change" : "changes"}`;
+
+  return (
+    <div className="w-full max-w-7xl mx-auto px-6 flex flex-col gap-3">
+      {!isOnline && (
+        <div className="flex items-center gap-3 rounded-2xl border-4 border-[#4A3B32] bg-[#F4D06F] px-5 py-3 font-bold text-[#4A3B32] shadow-[4px_4px_0px_#4A3B32]">
+          <CloudOff className="size-5 shrink-0" strokeWidth={3} />
+          <p>
+            You&apos;re offline, so you&apos;re seeing your saved pets, recipes and calendar.
+            {pending.length > 0 && ` ${changes} will sync when you're back online.`}
+          </p>
+        </div>
+      )}
+
+      {isOnline && isSyncing && pending.length > 0 && (
+        <div className="flex items-center gap-3 rounded-2xl border-4 border-[#4A3B32] bg-[#98C9A3] px-5 py-3 font-bold text-white shadow-[4px_4px_0px_#4A3B32]">
+          <RefreshCw className="size-5 shrink-0 animate-spin" strokeWidth={3} />
+          Syncing {changes}...
+        </div>
+      )}
+
+      {conflicts.length > 0 && (
+        <div className="flex flex-col gap-3 rounded-2xl border-4 border-[#4A3B32] bg-[#F7B2B7]/40 px-5 py-4 text-[#4A3B32] shadow-[4px_4px_0px_#4A3B32]">
+          <p className="flex items-center gap-2 font-black">
+            <TriangleAlert className="size-5 shrink-0" strokeWidth={3} />
+            {conflicts.length === 1
+              ? "One change you made offline couldn't be synced"
+              : `${conflicts.length} changes you made offline couldn't be synced`}
+          </p>
+          <ul className="flex flex-col gap-2">
+            {conflicts.map((mutation) => (
+              <li
+                key={mutation.id}
+                className="flex flex-col gap-2 rounded-xl border-2 border-[#4A3B32] bg-white px-4 py-3 sm:flex-row sm:items-center sm:justify-between"
+              >
+                <div>
+                  <p className="font-black">{describe(mutation)}</p>
+                  <p className="text-sm font-bold text-[#4A3B32]/70">{mutation.conflict}</p>
+                </div>
+                <div className="flex shrink-0 gap-2">
+                  <button
+                    onClick={() => resolve(mutation, keep)}
+                    disabled={!isOnline || resolvingId === mutation.id}
+                    className="px-4 py-1.5 rounded-full border-2 border-[#4A3B32] bg-[#98C9A3] text-white text-sm font-black disabled:opacity-50"
+                  >
+                    Apply mine
+                  </button>
+                  <button
+                    onClick={() => resolve(mutation, discard)}
+                    disabled={resolvingId === mutation.id}
+                    className="px-4 py-1.5 rounded-full border-2 border-[#4A3B32] bg-white text-sm font-black hover:bg-[#FFF9F2] disabled:opacity-50"
+                  >
+                    Discard
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
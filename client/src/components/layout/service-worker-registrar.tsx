@@ -0,0 +1,13 @@
+"use client";
+
+import { useEffect } from "react";
+import { registerServiceWorker } from "@/lib/offline/service-worker";
+
+export function ServiceWorkerRegistrar() {
+  useEffect(() => {
+    // A caching worker fights hot reloading, so only production builds get one
+    if (process.env.NODE_ENV === "production") registerServiceWorker();
+  }, []);
+
+  return null;
+}
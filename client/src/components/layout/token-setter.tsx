@@ -1,34 +1,48 @@
 "use client";
 
 import { useEffect } from "react";
-import { signOut } from "next-auth/react";
+import { getSession, signOut, useSession } from "next-auth/react";
 import { apiClient } from "@/lib/api/client";
 
+// Inside the 5-minute window in which the auth config's jwt callback refreshes the token
+const REFRESH_AHEAD_MS = 4 * 60 * 1000;
+
 interface TokenSetterProps {
   token: string | null;
   expiresAt: number | null;
 }
 
-export function TokenSetter({ token, expiresAt }: TokenSetterProps) {
+export function TokenSetter({ token: initialToken, expiresAt: initialExpiresAt }: TokenSetterProps) {
+  const { data: session, update } = useSession();
+  // The server-rendered token is used until the client session loads, and kept if it can't (e.g. offline)
+  const token = session?.accessToken ?? initialToken;
+  const expiresAt = session?.accessTokenExpiresAt ?? initialExpiresAt;
+  const refreshFailed = session?.error === "RefreshTokenError";
+
   useEffect(() => {
     apiClient.setToken(token);
+  }, [token]);
 
-    if (!token || !expiresAt) return;
-
-    const msUntilExpiry = expiresAt - Date.now();
+  useEffect(() => {
+    apiClient.setTokenRefresher(async () => {
+      // update() is a no-op while the session is already loading, so fall back to reading it
+      const refreshed = (await update({ refresh: true })) ?? (await getSession());
+      return refreshed && !refreshed.error ? (refreshed.accessToken ?? null) : null;
+    });
+    return () => apiClient.setTokenRefresher(null);
+  }, [update]);
 
-    if (msUntilExpiry <= 0) {
-      signOut({ redirectTo: "/sign-in" });
-      return;
-    }
+  useEffect(() => {
+    if (refreshFailed) signOut({ redirectTo: "/sign-in" });
+  }, [refreshFailed]);
 
-    // Auto sign-out when the token expires
-    const timer = setTimeout(() => {
-      signOut({ redirectTo: "/sign-in" });
-    }, msUntilExpiry);
+  useEffect(() => {
+    if (!token || !expiresAt) return;
 
+    // Re-reading the session near expiry makes the jwt callback swap in a new token
+    const timer = setTimeout(() => update(), Math.max(expiresAt - REFRESH_AHEAD_MS - Date.now(), 0));
     return () => clearTimeout(timer);
-  }, [token, expiresAt]);
+  }, [token, expiresAt, update]);
 
   return null;
 }
@@ -0,0 +1,130 @@
+"use client";
+
+import { useId, useState } from "react";
+import { Shuffle } from "lucide-react";
+import { useBreeds } from "@/lib/hooks/use-breeds";
+import { cn } from "@/lib/utils";
+import { filterBreeds, findBreed, formatSizeClass, formatWeightRange, MIXED_BREED } from "@/lib/utils/breed";
+import type { Species } from "@/lib/types/pet.types";
+
+interface BreedPickerProps {
+  species: Species | undefined;
+  value: string;
+  onChange: (value: string) => void;
+  className?: string;
+}
+
+/**
+ * Searchable breed input listing the catalog breeds for the chosen species,
+ * plus a mixed/other choice. Anything else typed in is kept as-is and treated
+ * as a mixed breed.
+ */
+export function BreedPicker({ species, value, onChange, className }: BreedPickerProps) {
+  const listId = useId();
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+  const { data: breeds = [] } = useBreeds(species);
+
+  const selected = findBreed(breeds, value);
+  // Once a breed is picked the whole list is useful again, not just that one entry
+  const options = [...filterBreeds(breeds, selected ? "" : value).map((b) => b.name), MIXED_BREED];
+  const visible = open && !!species;
+
+  const pick = (name: string) => {
+    onChange(name);
+    setOpen(false);
+    setHighlighted(-1);
+  };
+
+  return (
+    <div className="relative">
+      <input
+        role="combobox"
+        aria-expanded={visible}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={visible && highlighted >= 0 ? `${listId}-${highlighted}` : undefined}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+          setHighlighted(-1);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={(e) => {
+          if (e.key === "ArrowDown" && visible) {
+            e.preventDefault();
+            setHighlighted((i) => (i + 1) % options.length);
+          } else if (e.key === "ArrowUp" && visible) {
+            e.preventDefault();
+            setHighlighted((i) => (i <= 0 ? options.length - 1 : i - 1));
+          } else if (e.key === "Escape") {
+            setOpen(false);
+          } else if (e.key === "Enter" && visible && highlighted >= 0) {
+            e.preventDefault();
+            pick(options[highlighted]);
+          }
+        }}
+        placeholder={species ? "Search breeds, e.g. Golden Retriever" : "Choose a species first"}
+        className={cn("w-full", className)}
+      />
+      {visible && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute left-0 right-0 top-full z-20 mt-2 max-h-72 overflow-y-auto rounded-2xl border-4 border-[#4A3B32] bg-white p-1.5 shadow-[4px_4px_0px_#4A3B32]"
+        >
+          {options.map((name, i) => {
+            const breed = name === MIXED_BREED ? null : findBreed(breeds, name);
+            return (
+              <li
+                key={name}
+                id={`${listId}-${i}`}
+                role="option"
+                aria-selected={i === highlighted}
+                // Fires before the input's blur would close the list
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  pick(name);
+                }}
+                onMouseEnter={() => setHighlighted(i)}
+                className={cn(
+                  "flex cursor-pointer items-center justify-between gap-3 rounded-xl px-3 py-2 text-sm font-bold text-[#4A3B32]",
+                  i === highlighted && "bg-[#FFD89B]/50"
+                )}
+              >
+                <span className="flex items-center gap-2 min-w-0">
+                  {!breed && <Shuffle className="w-4 h-4 shrink-0 text-[#4A3B32]/50" strokeWidth={3} />}
+                  <span className="truncate">{name}</span>
+                </span>
+                {breed && (
+                  <span className="flex items-center gap-1.5 shrink-0 text-xs text-[#4A3B32]/60">
+                    <span className="rounded-full border-2 border-[#4A3B32]/20 bg-[#FFF9F2] px-2 py-0.5 text-[10px] font-black uppercase tracking-wider">
+                      {formatSizeClass(breed.sizeClass)}
+                    </span>
+                    {formatWeightRange(breed)}
+                  </span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {selected ? (
+        <p className="mt-2 text-xs font-bold text-[#4A3B32]/60">
+          {formatSizeClass(selected.sizeClass)} breed · adults usually weigh {formatWeightRange(selected)}
+        </p>
+      ) : (
+        species &&
+        breeds.length > 0 &&
+        value.trim() &&
+        value !== MIXED_BREED && (
+          <p className="mt-2 text-xs font-bold text-[#4A3B32]/60">
+            Not in our {species === "DOG" ? "dog" : "cat"} breed list, so it&apos;ll be treated as mixed/other.
+          </p>
+        )
+      )}
+    </div>
+  );
+}
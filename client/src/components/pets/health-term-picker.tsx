@@ -0,0 +1,144 @@
+"use client";
+
+import { useId, useState } from "react";
+import { useHealthVocabulary } from "@/lib/hooks/use-pets";
+import { cn } from "@/lib/utils";
+import { filterTerms, matchedSynonym, type HealthListKey } from "@/lib/utils/health-terms";
+
+interface HealthTermPickerProps {
+  list: HealthListKey;
+  /** Codes already on the pet, left out of the suggestions. */
+  selected: string[];
+  /** `typed` is set when the owner added their own text rather than a listed term. */
+  onPick: (value: string, typed: boolean) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+/**
+ * Searchable input over one of the health vocabularies. Synonyms and brand
+ * names find their term too; anything the list doesn't have, such as a rarer
+ * allergen, can still be added as typed.
+ */
+export function HealthTermPicker({ list, selected, onPick, placeholder, className }: HealthTermPickerProps) {
+  const listId = useId();
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+  const { data: vocabulary, isLoading } = useHealthVocabulary();
+
+  const terms = vocabulary?.[list] ?? [];
+  const options = filterTerms(terms, query).filter((t) => !selected.includes(t.code));
+  const typed = query.trim();
+  // Offered unless the text is exactly a listed term, which should be picked as one
+  const canAddTyped =
+    !!typed &&
+    !selected.includes(typed) &&
+    !terms.some((t) => t.label.toLowerCase() === typed.toLowerCase());
+  const count = options.length + (canAddTyped ? 1 : 0);
+  const visible = open && !isLoading;
+
+  const pick = (value: string, isTyped: boolean) => {
+    onPick(value, isTyped);
+    setQuery("");
+    setHighlighted(-1);
+  };
+
+  const pickAt = (index: number) => {
+    if (index < options.length) pick(options[index].code, false);
+    else if (canAddTyped) pick(typed, true);
+  };
+
+  return (
+    <div className="relative w-full">
+      <input
+        role="combobox"
+        aria-expanded={visible}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={visible && highlighted >= 0 ? `${listId}-${highlighted}` : undefined}
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setOpen(true);
+          setHighlighted(-1);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={(e) => {
+          if (e.key === "ArrowDown" && visible && count > 0) {
+            e.preventDefault();
+            setHighlighted((i) => (i + 1) % count);
+          } else if (e.key === "ArrowUp" && visible && count > 0) {
+            e.preventDefault();
+            setHighlighted((i) => (i <= 0 ? count - 1 : i - 1));
+          } else if (e.key === "Escape") {
+            setOpen(false);
+          } else if (e.key === "Enter") {
+            // Never submit the form from here; Enter on typed text picks the best match
+            e.preventDefault();
+            if (visible && (highlighted >= 0 || typed)) pickAt(highlighted >= 0 ? highlighted : 0);
+          }
+        }}
+        placeholder={isLoading ? "Loading list..." : (placeholder ?? "Search...")}
+        className={cn("w-full", className)}
+      />
+      {visible && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute left-0 right-0 top-full z-20 mt-2 max-h-64 overflow-y-auto rounded-2xl border-4 border-[#4A3B32] bg-white p-1.5 shadow-[4px_4px_0px_#4A3B32]"
+        >
+          {count === 0 && (
+            <li className="px-3 py-2 text-sm font-bold text-[#4A3B32]/50">
+              {typed ? "Already added" : "Everything on the list is already added"}
+            </li>
+          )}
+          {options.map((term, i) => {
+            const synonym = matchedSynonym(term, query);
+            return (
+              <li
+                key={term.code}
+                id={`${listId}-${i}`}
+                role="option"
+                aria-selected={i === highlighted}
+                // Fires before the input's blur would close the list
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  pick(term.code, false);
+                }}
+                onMouseEnter={() => setHighlighted(i)}
+                className={cn(
+                  "flex cursor-pointer items-center justify-between gap-3 rounded-xl px-3 py-2 text-sm font-bold text-[#4A3B32]",
+                  i === highlighted && "bg-[#FFD89B]/50"
+                )}
+              >
+                <span className="truncate">{term.label}</span>
+                {synonym && <span className="shrink-0 text-xs text-[#4A3B32]/50">{synonym}</span>}
+              </li>
+            );
+          })}
+          {canAddTyped && (
+            <li
+              id={`${listId}-${options.length}`}
+              role="option"
+              aria-selected={highlighted === options.length}
+              onMouseDown={(e) => {
+                e.preventDefault();
+                pick(typed, true);
+              }}
+              onMouseEnter={() => setHighlighted(options.length)}
+              className={cn(
+                "cursor-pointer truncate rounded-xl px-3 py-2 text-sm font-bold text-[#4A3B32]/70",
+                options.length > 0 && "border-t-2 border-[#4A3B32]/10",
+                highlighted === options.length && "bg-[#FFD89B]/50"
+              )}
+            >
+              Add &ldquo;{typed}&rdquo; as typed
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+"use client";
+
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { format } from "date-fns";
+import { ChevronLeftIcon, ChevronRightIcon, Flame, AlertTriangle } from "lucide-react";
+import { useCalendarEntriesInRange } from "@/lib/hooks/use-calendar";
+import { useRecipesByIds } from "@/lib/hooks/use-recipes";
+import {
+  formatDate,
+  formatDisplayDate,
+  getCalendarDays,
+  getMonthLabel,
+  getWeekDays,
+  getWeekLabel,
+  nextMonth,
+  nextWeek,
+  prevMonth,
+  prevWeek,
+} from "@/lib/utils/format";
+import {
+  CALORIE_TOLERANCE,
+  calculateEnergyRequirement,
+  getCalorieStatus,
+  type CalorieStatus,
+} from "@/lib/utils/nutrition";
+import { cn } from "@/lib/utils";
+import type { Pet } from "@/lib/types/pet.types";
+
+interface NutritionDashboardProps {
+  pet: Pet;
+}
+
+const STATUS_STYLES: Record<CalorieStatus, { bar: string; label: string }> = {
+  UNPLANNED: { bar: "bg-transparent", label: "No meals planned" },
+  UNDER:     { bar: "bg-[#F4D06F]",   label: "Under target"     },
+  ON_TARGET: { bar: "bg-[#98C9A3]",   label: "On target"        },
+  OVER:      { bar: "bg-[#E88D72]",   label: "Over target"      },
+};
+
+const GOAL_LABELS = {
+  MAINTAIN: "maintain weight",
+  LOSE: "lose weight",
+  GAIN: "gain weight",
+} as const;
+
+const NAV_BUTTON_CLASS =
+  "flex size-9 items-center justify-center rounded-full border-4 border-[#4A3B32] bg-white text-[#4A3B32] shadow-[2px_2px_0px_#4A3B32] transition-all hover:-translate-y-0.5 active:translate-y-0 active:shadow-none";
+
+export function NutritionDashboard({ pet }: NutritionDashboardProps) {
+  const [view, setView] = useState<"week" | "month">("week");
+  const [anchor, setAnchor] = useState(new Date());
+
+  const days = view === "week" ? getWeekDays(anchor) : getCalendarDays(anchor);
+  const from = formatDate(days[0]);
+  const to = formatDate(days[days.length - 1]);
+
+  const { data: entries, isLoading: isEntriesLoading } = useCalendarEntriesInRange([pet.id], from, to);
+  const recipeIds = [...new Set(entries.map((e) => e.recipeId))];
+  const { data: recipesById, isLoading: isRecipesLoading } = useRecipesByIds(recipeIds);
+  const isLoading = isEntriesLoading || isRecipesLoading;
+
+  const energy = calculateEnergyRequirement(pet);
+  const lower = Math.round(energy.mer * (1 - CALORIE_TOLERANCE));
+  const upper = Math.round(energy.mer * (1 + CALORIE_TOLERANCE));
+
+  const dailyTotals = days.map((date) => {
+    const dateStr = formatDate(date);
+    const dayEntries = entries.filter((e) => e.date === dateStr);
+    const calories = dayEntries.reduce((sum, e) => sum + (recipesById[e.recipeId]?.estimatedCalories ?? 0), 0);
+    return {
+      date,
+      calories,
+      mealCount: dayEntries.length,
+      status: getCalorieStatus(calories, dayEntries.length, energy.mer),
+    };
+  });
+
+  const plannedDays = dailyTotals.filter((d) => d.status !== "UNPLANNED");
+  const flaggedDays = plannedDays.filter((d) => d.status !== "ON_TARGET");
+  const averageCalories = plannedDays.length
+    ? Math.round(plannedDays.reduce((sum, d) => sum + d.calories, 0) / plannedDays.length)
+    : 0;
+  const chartMax = Math.max(upper, ...dailyTotals.map((d) => d.calories)) * 1.1;
+  const toPercent = (kcal: number) => `${(kcal / chartMax) * 100}%`;
+
+  const goPrev = () => setAnchor(view === "week" ? prevWeek(anchor) : prevMonth(anchor));
+  const goNext = () => setAnchor(view === "week" ? nextWeek(anchor) : nextMonth(anchor));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white rounded-[3rem] border-4 border-[#4A3B32] shadow-[12px_12px_0px_#4A3B32] p-8 md:p-10 flex flex-col gap-8"
+    >
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-[#E88D72] rounded-xl border-4 border-[#4A3B32] flex items-center justify-center rotate-[-5deg]">
+            <Flame className="w-5 h-5 text-white" />
+          </div>
+          <div>
+            <h3 className="text-2xl font-black">Nutrition</h3>
+            <p className="text-sm font-bold text-[#4A3B32]/60">Planned calories vs. {pet.name}&apos;s daily needs</p>
+          </div>
+        </div>
+
+        <div className="flex rounded-full border-4 border-[#4A3B32] bg-white p-1 shadow-[3px_3px_0px_#4A3B32] self-start">
+          {(["week", "month"] as const).map((value) => (
+            <button
+              key={value}
+              onClick={() => setView(value)}
+              aria-pressed={view === value}
+              className={`px-4 py-1.5 rounded-full text-sm font-black capitalize transition-colors ${
+                view === value ? "bg-[#4A3B32] text-white" : "text-[#4A3B32] hover:bg-[#FFF9F2]"
+              }`}
+            >
+              {value}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Energy requirement summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <StatCard label="Resting (RER)" value={`${energy.rer} kcal`} hint={`at ${energy.basisWeightKg} kg`} />
+        <StatCard label="Daily target (MER)" value={`${energy.mer} kcal`} hint={`RER × ${energy.factor}`} />
+        <StatCard
+          label="Avg. planned"
+          value={plannedDays.length ? `${averageCalories} kcal` : "—"}
+          hint={`${plannedDays.length} of ${days.length} days planned`}
+        />
+        <StatCard
+          label="Days flagged"
+          value={String(flaggedDays.length)}
+          hint={`outside ${lower}–${upper} kcal`}
+          highlight={flaggedDays.length > 0}
+        />
+      </div>
+
+      <p className="text-sm font-bold text-[#4A3B32]/60 -mt-4">
+        Target assumes {pet.name} should {GOAL_LABELS[energy.weightGoal]}
+        {energy.lifeStage === "GROWTH" && " and is still growing"}
+        {energy.lifeStage === "SENIOR" && " as a senior"}. These are estimates — check portions with your vet.
+      </p>
+
+      {/* Chart */}
+      <div className="flex flex-col gap-4">
+        <div className="flex items-center justify-between">
+          <button className={NAV_BUTTON_CLASS} onClick={goPrev} aria-label={`Previous ${view}`}>
+            <ChevronLeftIcon className="size-5" strokeWidth={3} />
+          </button>
+          <span className="text-lg font-black uppercase tracking-wider">
+            {view === "week" ? getWeekLabel(anchor) : getMonthLabel(anchor)}
+          </span>
+          <button className={NAV_BUTTON_CLASS} onClick={goNext} aria-label={`Next ${view}`}>
+            <ChevronRightIcon className="size-5" strokeWidth={3} />
+          </button>
+        </div>
+
+        <div
+          className={cn("relative h-56 rounded-2xl border-4 border-[#4A3B32] bg-[#FFF9F2] px-2 pt-2", isLoading && "animate-pulse")}
+          role="img"
+          aria-label={`Daily planned calories compared with a ${energy.mer} kcal target`}
+        >
+          {/* Tolerance band and target line */}
+          <div
+            className="absolute inset-x-0 bg-[#98C9A3]/20 border-y-2 border-dashed border-[#98C9A3]"
+            style={{ bottom: toPercent(lower), height: `calc(${toPercent(upper)} - ${toPercent(lower)})` }}
+          />
+          <div className="absolute inset-x-0 border-t-4 border-[#4A3B32]/40" style={{ bottom: toPercent(energy.mer) }}>
+            <span className="absolute right-2 -top-6 text-[10px] font-black text-[#4A3B32]/60">
+              {energy.mer} kcal
+            </span>
+          </div>
+
+          <div className="relative flex h-full items-end gap-1">
+            {dailyTotals.map((day) => (
+              <div
+                key={day.date.toISOString()}
+                className="flex h-full flex-1 flex-col justify-end"
+                title={`${formatDisplayDate(day.date)}: ${day.mealCount ? `${day.calories} kcal` : "no meals"} (${STATUS_STYLES[day.status].label})`}
+              >
+                <div
+                  className={cn(
+                    "w-full rounded-t-lg border-2 border-b-0 border-[#4A3B32]",
+                    STATUS_STYLES[day.status].bar,
+                    day.status === "UNPLANNED" && "border-dashed border-[#4A3B32]/30 h-1"
+                  )}
+                  style={day.status === "UNPLANNED" ? undefined : { height: toPercent(day.calories) }}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex gap-1 px-2">
+          {dailyTotals.map((day, i) => (
+            <span
+              key={day.date.toISOString()}
+              className="flex-1 text-center text-[10px] font-black text-[#4A3B32]/60"
+            >
+              {view === "week" ? format(day.date, "EEE") : i % 2 === 0 ? format(day.date, "d") : ""}
+            </span>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap gap-4 text-xs font-bold text-[#4A3B32]/70">
+          {(["ON_TARGET", "UNDER", "OVER"] as const).map((status) => (
+            <span key={status} className="flex items-center gap-1.5">
+              <span className={cn("size-3 rounded-sm border-2 border-[#4A3B32]", STATUS_STYLES[status].bar)} />
+              {STATUS_STYLES[status].label}
+            </span>
+          ))}
+          <span className="flex items-center gap-1.5">
+            <span className="h-3 w-5 bg-[#98C9A3]/20 border-y-2 border-dashed border-[#98C9A3]" />
+            ±{CALORIE_TOLERANCE * 100}% band
+          </span>
+        </div>
+      </div>
+
+      {/* Flagged days */}
+      {flaggedDays.length > 0 && (
+        <div className="flex flex-col gap-3">
+          <h4 className="text-sm font-bold text-[#4A3B32]/60 uppercase tracking-wider">Days to review</h4>
+          <ul className="flex flex-col gap-2">
+            {flaggedDays.map((day) => {
+              const diff = day.calories - energy.mer;
+              return (
+                <li
+                  key={day.date.toISOString()}
+                  className="flex items-center gap-3 rounded-2xl border-4 border-[#4A3B32] bg-[#FFF9F2] px-4 py-3 shadow-[3px_3px_0px_#4A3B32]"
+                >
+                  <AlertTriangle className={cn("w-5 h-5 shrink-0", day.status === "OVER" ? "text-[#E88D72]" : "text-[#D4A72C]")} />
+                  <span className="font-black">{formatDisplayDate(day.date)}</span>
+                  <span className="ml-auto text-sm font-bold text-[#4A3B32]/70">
+                    {day.calories} kcal ({diff > 0 ? "+" : ""}{diff} vs target)
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </motion.div>
+  );
+}
+
+interface StatCardProps {
+  label: string;
+  value: string;
+  hint: string;
+  highlight?: boolean;
+}
+
+function StatCard({ label, value, hint, highlight }: StatCardProps) {
+  return (
+    <div
+      className={cn(
+        "p-4 rounded-2xl border-4 border-[#4A3B32] shadow-[4px_4px_0px_#4A3B32] flex flex-col items-center text-center",
+        highlight ? "bg-[#F7B2B7]/40" : "bg-[#FFF9F2]"
+      )}
+    >
+      <span className="text-xs font-bold text-[#4A3B32]/60 uppercase tracking-wider mb-1">{label}</span>
+      <span className="font-black text-lg">{value}</span>
+      <span className="text-xs font-bold text-[#4A3B32]/50 mt-1">{hint}</span>
+    </div>
+  );
+}
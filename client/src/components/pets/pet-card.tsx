@@ -16,6 +16,8 @@ import {
   ShieldAlert,
   ArrowRight,
 } from "lucide-react";
+import { useHealthVocabulary } from "@/lib/hooks/use-pets";
+import { termLabel } from "@/lib/utils/health-terms";
 import type { Pet } from "@/lib/types/pet.types";
 
 interface PetCardProps {
@@ -26,6 +28,7 @@ export function PetCard({ pet }: PetCardProps) {
   const isDog = pet.species === "DOG";
   const themeStrip = isDog ? "bg-[#F4D06F]" : "bg-[#98C9A3]";
   const Icon = isDog ? Dog : Cat;
+  const { data: vocabulary } = useHealthVocabulary();
   const hasMedical =
     pet.allergies.length > 0 ||
     pet.medicalConditions.length > 0 ||
@@ -158,7 +161,7 @@ export function PetCard({ pet }: PetCardProps) {
                     key={`a-${a}`}
                     className="bg-[#E88D72] text-white px-3 py-1 rounded-full text-xs font-bold border-2 border-[#4A3B32]"
                   >
-                    {a}
+                    {termLabel(vocabulary?.allergies, a)}
                   </span>
                 ))}
                 {pet.medicalConditions.map((c) => (
@@ -166,7 +169,7 @@ export function PetCard({ pet }: PetCardProps) {
                     key={`c-${c}`}
                     className="bg-[#F4D06F] text-[#4A3B32] px-3 py-1 rounded-full text-xs font-bold border-2 border-[#4A3B32]"
                   >
-                    {c}
+                    {termLabel(vocabulary?.medicalConditions, c)}
                   </span>
                 ))}
                 {pet.medications.map((m) => (
@@ -174,7 +177,7 @@ export function PetCard({ pet }: PetCardProps) {
                     key={`m-${m}`}
                     className="bg-white text-[#4A3B32] px-3 py-1 rounded-full text-xs font-bold border-2 border-[#4A3B32]"
                   >
-                    {m}
+                    {termLabel(vocabulary?.medications, m)}
                   </span>
                 ))}
               </div>
@@ -1,31 +1,31 @@
 "use client";
 
-import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { 
   XIcon, Plus, PawPrint, Dna, Calendar, Scale, Activity, 
   Home, HeartPulse, Pill, Target, 
-  ShieldAlert, Tag, Heart, Check
+  ShieldAlert, Tag, Heart, Check, PenLine
 } from "lucide-react";
 import { motion } from "framer-motion";
 import { petFormSchema, type PetFormValues } from "@/lib/schemas/pet.schema";
 import type { Pet } from "@/lib/types/pet.types";
 import { PetPhotoUpload } from "./pet-photo-upload";
-import { useUploadPetPhoto, useDeletePetPhoto } from "@/lib/hooks/use-pets";
+import { BreedPicker } from "./breed-picker";
+import { HealthTermPicker } from "./health-term-picker";
+import { useUploadPetPhoto, useDeletePetPhoto, useHealthVocabulary } from "@/lib/hooks/use-pets";
+import { isHealthCode, termLabel, type HealthListKey } from "@/lib/utils/health-terms";
 
 interface PetFormProps {
   defaultValues?: Pet;
   onSubmit: (data: PetFormValues) => Promise<void>;
   submitLabel: string;
+  /** Handles photo changes instead of uploading them, as for guest pets kept on this device. */
+  onPhotoChange?: (file: File | null) => void;
 }
 
-export function PetForm({ defaultValues, onSubmit, submitLabel }: PetFormProps) {
-  const [tagInputs, setTagInputs] = useState({
-    allergy: "",
-    condition: "",
-    medication: "",
-  });
+export function PetForm({ defaultValues, onSubmit, submitLabel, onPhotoChange }: PetFormProps) {
+  const { data: vocabulary } = useHealthVocabulary();
 
   const {
     register,
@@ -72,23 +72,21 @@ export function PetForm({ defaultValues, onSubmit, submitLabel }: PetFormProps)
   const medications = watch("medications") ?? [];
   const isNeutered = watch("isNeutered");
   const species = watch("species");
+  const breed = watch("breed");
   const sex = watch("sex");
   const activityLevel = watch("activityLevel");
   const livingEnvironment = watch("livingEnvironment");
 
-  const addTag = (field: "allergies" | "medicalConditions" | "medications", inputKey: keyof typeof tagInputs) => {
-    const value = tagInputs[inputKey].trim();
-    if (!value) return;
+  const addTag = (field: HealthListKey, code: string) => {
     const current = watch(field) ?? [];
-    if (!current.includes(value)) {
-      setValue(field, [...current, value]);
+    if (!current.includes(code)) {
+      setValue(field, [...current, code], { shouldValidate: !!errors[field] });
     }
-    setTagInputs((prev) => ({ ...prev, [inputKey]: "" }));
   };
 
-  const removeTag = (field: "allergies" | "medicalConditions" | "medications", index: number) => {
+  const removeTag = (field: HealthListKey, index: number) => {
     const current = watch(field) ?? [];
-    setValue(field, current.filter((_, i) => i !== index));
+    setValue(field, current.filter((_, i) => i !== index), { shouldValidate: !!errors[field] });
   };
 
   const petId = defaultValues?.id;
@@ -115,9 +113,9 @@ export function PetForm({ defaultValues, onSubmit, submitLabel }: PetFormProps)
             <div className="flex justify-center pb-4 border-b-4 border-[#4A3B32]/10">
               <PetPhotoUpload
                 currentPhotoUrl={defaultValues?.photoUrl}
-                onFileSelected={(file) => uploadPhoto.mutate(file)}
-                onRemove={() => deletePhoto.mutate()}
-                isUploading={uploadPhoto.isPending}
+                onFileSelected={(file) => (onPhotoChange ? onPhotoChange(file) : uploadPhoto.mutate(file))}
+                onRemove={() => (onPhotoChange ? onPhotoChange(null) : deletePhoto.mutate())}
+                uploadProgress={uploadPhoto.progress}
               />
             </div>
           )}
@@ -153,7 +151,7 @@ export function PetForm({ defaultValues, onSubmit, submitLabel }: PetFormProps)
 
             <div>
               <label className={labelClasses}><Tag className="w-5 h-5 text-[#F4D06F]" /> Breed</label>
-              <input {...register("breed")} className={inputClasses} placeholder="e.g. Golden Retriever" />
+              <BreedPicker species={species} value={breed ?? ""} onChange={(value) => setValue("breed", value)} className={inputClasses} />
               {errors.breed && <p className={errorClasses}>{errors.breed.message}</p>}
             </div>
 
@@ -282,35 +280,21 @@ export function PetForm({ defaultValues, onSubmit, submitLabel }: PetFormProps)
           <div className="grid grid-cols-1 gap-6 lg:gap-8">
             {(
               [
-                { field: "allergies" as const, inputKey: "allergy" as const, label: "Allergies", icon: ShieldAlert, iconColor: "text-[#E88D72]", items: allergies, color: "bg-[#E88D72]" },
-                { field: "medicalConditions" as const, inputKey: "condition" as const, label: "Medical Conditions", icon: HeartPulse, iconColor: "text-[#F4D06F]", items: medicalConditions, color: "bg-[#F4D06F]" },
-                { field: "medications" as const, inputKey: "medication" as const, label: "Medications", icon: Pill, iconColor: "text-[#98C9A3]", items: medications, color: "bg-white" },
+                { field: "allergies" as const, label: "Allergies", icon: ShieldAlert, iconColor: "text-[#E88D72]", items: allergies, color: "bg-[#E88D72]" },
+                { field: "medicalConditions" as const, label: "Medical Conditions", icon: HeartPulse, iconColor: "text-[#F4D06F]", items: medicalConditions, color: "bg-[#F4D06F]" },
+                { field: "medications" as const, label: "Medications", icon: Pill, iconColor: "text-[#98C9A3]", items: medications, color: "bg-white" },
               ] as const
-            ).map(({ field, inputKey, label, icon: Icon, iconColor, items, color }) => (
+            ).map(({ field, label, icon: Icon, iconColor, items, color }) => (
               <div key={field}>
                 <label className={labelClasses}><Icon className={`w-5 h-5 ${iconColor}`} /> {label}</label>
-                <div className="flex gap-2 mb-3">
-                  <input
-                    value={tagInputs[inputKey]}
-                    onChange={(e) => setTagInputs((prev) => ({ ...prev, [inputKey]: e.target.value }))}
-                    onKeyDown={(e) => {
-                      if (e.key === "Enter") {
-                        e.preventDefault();
-                        addTag(field, inputKey);
-                      }
-                    }}
+                <div className="mb-3">
+                  <HealthTermPicker
+                    list={field}
+                    selected={items}
+                    onPick={(code) => addTag(field, code)}
                     className={`${inputClasses} px-3 py-2 text-sm`}
-                    placeholder={`Add...`}
+                    placeholder={`Search ${label.toLowerCase()}...`}
                   />
-                  <motion.button 
-                    type="button" 
-                    whileHover={{ scale: 1.05, y: -2 }}
-                    whileTap={{ scale: 0.95, y: 2, boxShadow: "0px 0px 0px #4A3B32" }}
-                    onClick={() => addTag(field, inputKey)}
-                    className="bg-[#4A3B32] text-white px-4 rounded-xl font-black border-4 border-[#4A3B32] shadow-[2px_2px_0px_#4A3B32] transition-all"
-                  >
-                    Add
-                  </motion.button>
                 </div>
                 {items.length > 0 && (
                   <div className="flex flex-wrap gap-2 p-3 bg-[#FFF9F2] rounded-2xl border-4 border-[#4A3B32]/10 min-h-[60px]">
@@ -319,9 +303,11 @@ export function PetForm({ defaultValues, onSubmit, submitLabel }: PetFormProps)
                         key={i} 
                         className={`${color} ${color === 'bg-white' || color === 'bg-[#F4D06F]' ? 'text-[#4A3B32]' : 'text-white'} px-3 py-1 rounded-full border-2 border-[#4A3B32] font-bold text-xs shadow-[2px_2px_0px_#4A3B32] flex items-center gap-1`}
                       >
-                        {item}
+                        {!isHealthCode(item) && <span title="Added as typed, not from the list"><PenLine className="w-3 h-3" strokeWidth={3} /></span>}
+                        {termLabel(vocabulary?.[field], item)}
                         <button
                           type="button"
+                          aria-label={`Remove ${termLabel(vocabulary?.[field], item)}`}
                           onClick={() => removeTag(field, i)}
                           className="hover:bg-black/10 rounded-full p-0.5 transition-colors"
                         >
@@ -331,6 +317,7 @@ export function PetForm({ defaultValues, onSubmit, submitLabel }: PetFormProps)
                     ))}
                   </div>
                 )}
+                {errors[field] && <p className={errorClasses}>{errors[field].message}</p>}
               </div>
             ))}
           </div>
@@ -0,0 +1,321 @@
+"use client";
+
+import { useRef, useState } from "react";
+import Image from "next/image";
+import { motion } from "framer-motion";
+import { Camera, Check, ChevronLeft, ChevronRight, Images, Pencil, Plus, Star, Trash2, XIcon } from "lucide-react";
+import {
+  useAddPetPhoto,
+  useDeleteGalleryPhoto,
+  usePetPhotos,
+  useReorderPetPhotos,
+  useSetPetAvatar,
+  useUpdatePetPhoto,
+} from "@/lib/hooks/use-pets";
+import { formatDate, formatDisplayDate } from "@/lib/utils/format";
+import { ACCEPTED_PHOTO_TYPES, validatePhotoFile } from "@/lib/utils/photo";
+import { PhotoEditor } from "./photo-editor";
+import { PhotoLightbox } from "./photo-lightbox";
+import { LoadingSpinner } from "@/components/shared/loading-spinner";
+import { ErrorAlert } from "@/components/shared/error-alert";
+import { ConfirmDialog } from "@/components/shared/confirm-dialog";
+import type { Pet, PetPhoto } from "@/lib/types/pet.types";
+
+interface PetPhotoGalleryProps {
+  pet: Pet;
+}
+
+const MAX_CAPTION_LENGTH = 300;
+
+const inputClasses =
+  "w-full bg-[#FFF9F2] border-4 border-[#4A3B32] rounded-2xl px-3 py-2 text-sm font-bold text-[#4A3B32] focus:outline-none focus:ring-4 focus:ring-[#F4D06F]/50 transition-all placeholder:text-[#4A3B32]/40";
+const tileButton =
+  "w-8 h-8 rounded-full border-2 border-[#4A3B32] bg-white text-[#4A3B32] flex items-center justify-center shadow-[2px_2px_0px_#4A3B32] transition-colors hover:bg-[#FFD89B] disabled:opacity-40 disabled:hover:bg-white";
+
+function PhotoDetailsForm({
+  photo,
+  isSaving,
+  onSave,
+  onCancel,
+}: {
+  photo: PetPhoto;
+  isSaving: boolean;
+  onSave: (caption: string | null, takenOn: string | null) => void;
+  onCancel: () => void;
+}) {
+  const [caption, setCaption] = useState(photo.caption ?? "");
+  const [takenOn, setTakenOn] = useState(photo.takenOn ?? "");
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSave(caption.trim() || null, takenOn || null);
+      }}
+      className="flex flex-col gap-2"
+    >
+      <input
+        value={caption}
+        maxLength={MAX_CAPTION_LENGTH}
+        onChange={(e) => setCaption(e.target.value)}
+        placeholder="Caption"
+        aria-label="Caption"
+        className={inputClasses}
+        autoFocus
+      />
+      <input
+        type="date"
+        value={takenOn}
+        max={formatDate(new Date())}
+        onChange={(e) => setTakenOn(e.target.value)}
+        aria-label="Date taken"
+        className={inputClasses}
+      />
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} aria-label="Cancel" className={tileButton}>
+          <XIcon className="w-4 h-4" strokeWidth={3} />
+        </button>
+        <button type="submit" disabled={isSaving} aria-label="Save caption" className={`${tileButton} bg-[#98C9A3]`}>
+          <Check className="w-4 h-4" strokeWidth={3} />
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export function PetPhotoGallery({ pet }: PetPhotoGalleryProps) {
+  const { data: photos, isLoading, isError } = usePetPhotos(pet.id);
+  const addPhoto = useAddPetPhoto(pet.id);
+  const updatePhoto = useUpdatePetPhoto(pet.id);
+  const reorderPhotos = useReorderPetPhotos(pet.id);
+  const setAvatar = useSetPetAvatar(pet.id);
+  const deletePhoto = useDeleteGalleryPhoto(pet.id);
+
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [editing, setEditing] = useState<{ file: File; takenOn: string } | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [detailsId, setDetailsId] = useState<string | null>(null);
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+
+  const mutationError = addPhoto.error ?? updatePhoto.error ?? reorderPhotos.error ?? setAvatar.error ?? deletePhoto.error;
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    const invalid = validatePhotoFile(file);
+    setFileError(invalid);
+    // The edited copy loses the original's timestamp, which is the best guess at when it was taken
+    if (!invalid) setEditing({ file, takenOn: formatDate(new Date(file.lastModified)) });
+  };
+
+  const handleEdited = (file: File) => {
+    const takenOn = editing?.takenOn ?? null;
+    setEditing(null);
+    addPhoto.mutate({ file, details: { takenOn } });
+  };
+
+  const move = (index: number, offset: -1 | 1) => {
+    if (!photos) return;
+    const ids = photos.map((p) => p.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    reorderPhotos.mutate(ids);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white rounded-[3rem] border-4 border-[#4A3B32] shadow-[12px_12px_0px_#4A3B32] p-8 md:p-10 flex flex-col gap-8"
+    >
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-[#B5A4E5] rounded-xl border-4 border-[#4A3B32] flex items-center justify-center rotate-[-5deg]">
+            <Images className="w-5 h-5 text-white" />
+          </div>
+          <div>
+            <h3 className="text-2xl font-black">Photos</h3>
+            <p className="text-sm font-bold text-[#4A3B32]/60">
+              The starred photo is {pet.name}&apos;s profile picture
+            </p>
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          disabled={addPhoto.isPending}
+          className="flex items-center gap-2 px-5 py-2.5 rounded-2xl font-black border-4 border-[#4A3B32] bg-[#98C9A3] text-white shadow-[4px_4px_0px_#4A3B32] transition-all hover:-translate-y-0.5 active:translate-y-0 active:shadow-none disabled:opacity-50 disabled:hover:translate-y-0"
+        >
+          <Plus className="w-5 h-5" strokeWidth={3} />
+          Add Photo
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={ACCEPTED_PHOTO_TYPES.join(",")}
+          onChange={handleFileChange}
+          className="hidden"
+        />
+      </div>
+
+      {isLoading && <LoadingSpinner message="Loading photos..." />}
+      {isError && <ErrorAlert message="Failed to load photos." />}
+      {fileError && <ErrorAlert message={fileError} />}
+      {mutationError && <ErrorAlert message={mutationError.message || "Couldn't update the gallery. Please try again."} />}
+
+      {photos && (photos.length > 0 || addPhoto.progress !== null) ? (
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-5">
+          {photos.map((photo, index) => (
+            <div
+              key={photo.id}
+              className={`flex flex-col gap-3 p-3 rounded-3xl border-4 border-[#4A3B32] bg-[#FFF9F2] ${
+                photo.isAvatar ? "shadow-[4px_4px_0px_#F4D06F]" : ""
+              }`}
+            >
+              <button
+                type="button"
+                onClick={() => setLightboxIndex(index)}
+                aria-label={`View ${photo.caption ?? "photo"}`}
+                className="relative aspect-square w-full rounded-2xl border-4 border-[#4A3B32] overflow-hidden bg-white"
+              >
+                <Image
+                  src={photo.url}
+                  alt={photo.caption ?? `${pet.name} photo`}
+                  fill
+                  className="object-cover transition-transform hover:scale-105"
+                  sizes="(max-width: 640px) 50vw, 220px"
+                />
+                {photo.isAvatar && (
+                  <span className="absolute top-2 left-2 w-7 h-7 rounded-full border-2 border-[#4A3B32] bg-[#F4D06F] flex items-center justify-center">
+                    <Star className="w-4 h-4 text-[#4A3B32]" fill="currentColor" />
+                  </span>
+                )}
+              </button>
+
+              {detailsId === photo.id ? (
+                <PhotoDetailsForm
+                  photo={photo}
+                  isSaving={updatePhoto.isPending}
+                  onCancel={() => setDetailsId(null)}
+                  onSave={(caption, takenOn) =>
+                    updatePhoto.mutate(
+                      { photoId: photo.id, details: { caption, takenOn } },
+                      { onSuccess: () => setDetailsId(null) }
+                    )
+                  }
+                />
+              ) : (
+                <div className="min-h-[2.75rem]">
+                  <p className="text-sm font-black text-[#4A3B32] truncate">{photo.caption || "No caption"}</p>
+                  {photo.takenOn && (
+                    <p className="text-xs font-bold text-[#4A3B32]/60">
+                      {formatDisplayDate(new Date(photo.takenOn + "T00:00:00"))}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <div className="flex items-center justify-between gap-1">
+                <div className="flex gap-1">
+                  <button
+                    type="button"
+                    onClick={() => move(index, -1)}
+                    disabled={index === 0 || reorderPhotos.isPending}
+                    aria-label="Move earlier"
+                    className={tileButton}
+                  >
+                    <ChevronLeft className="w-4 h-4" strokeWidth={3} />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => move(index, 1)}
+                    disabled={index === photos.length - 1 || reorderPhotos.isPending}
+                    aria-label="Move later"
+                    className={tileButton}
+                  >
+                    <ChevronRight className="w-4 h-4" strokeWidth={3} />
+                  </button>
+                </div>
+                <div className="flex gap-1">
+                  <button
+                    type="button"
+                    onClick={() => setAvatar.mutate(photo.id)}
+                    disabled={photo.isAvatar || setAvatar.isPending}
+                    aria-label="Use as profile photo"
+                    title="Use as profile photo"
+                    className={tileButton}
+                  >
+                    <Star className="w-4 h-4" strokeWidth={3} />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setDetailsId(photo.id)}
+                    aria-label="Edit caption and date"
+                    className={tileButton}
+                  >
+                    <Pencil className="w-4 h-4" strokeWidth={3} />
+                  </button>
+                  <ConfirmDialog
+                    trigger={
+                      <button type="button" aria-label="Delete photo" className={`${tileButton} hover:bg-[#E88D72]`}>
+                        <Trash2 className="w-4 h-4" strokeWidth={3} />
+                      </button>
+                    }
+                    title="Delete Photo"
+                    description={
+                      photo.isAvatar
+                        ? `This is ${pet.name}'s profile photo. The next photo in the gallery will take its place.`
+                        : "This photo will be removed from the gallery. This action cannot be undone."
+                    }
+                    confirmLabel="Delete"
+                    variant="destructive"
+                    onConfirm={() => deletePhoto.mutateAsync(photo.id)}
+                  />
+                </div>
+              </div>
+            </div>
+          ))}
+
+          {addPhoto.progress !== null && (
+            <div className="flex flex-col items-center justify-center gap-3 p-3 rounded-3xl border-4 border-dashed border-[#4A3B32]/40 bg-[#FFF9F2] aspect-square">
+              <span className="text-lg font-black text-[#4A3B32]">{Math.round(addPhoto.progress * 100)}%</span>
+              <div
+                role="progressbar"
+                aria-label="Uploading photo"
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={Math.round(addPhoto.progress * 100)}
+                className="w-3/4 h-3 rounded-full border-2 border-[#4A3B32] bg-white overflow-hidden"
+              >
+                <div className="h-full bg-[#98C9A3] transition-[width]" style={{ width: `${addPhoto.progress * 100}%` }} />
+              </div>
+            </div>
+          )}
+        </div>
+      ) : (
+        photos && (
+          <button
+            type="button"
+            onClick={() => inputRef.current?.click()}
+            className="flex flex-col items-center gap-3 py-10 rounded-3xl border-4 border-dashed border-[#4A3B32]/30 bg-[#FFF9F2] font-bold text-[#4A3B32]/60 transition-colors hover:border-[#4A3B32]/60"
+          >
+            <Camera className="w-10 h-10" strokeWidth={2.5} />
+            No photos yet — add the first one.
+          </button>
+        )
+      )}
+
+      {editing && <PhotoEditor file={editing.file} onDone={handleEdited} onCancel={() => setEditing(null)} />}
+
+      {photos && lightboxIndex !== null && (
+        <PhotoLightbox
+          photos={photos}
+          index={lightboxIndex}
+          petName={pet.name}
+          onIndexChange={setLightboxIndex}
+          onClose={() => setLightboxIndex(null)}
+        />
+      )}
+    </motion.div>
+  );
+}
@@ -4,26 +4,27 @@ import { useState, useRef, useCallback } from "react";
 import { Camera, XIcon, Upload, ImageIcon } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import Image from "next/image";
+import { PhotoEditor } from "./photo-editor";
+import { ACCEPTED_PHOTO_TYPES, validatePhotoFile } from "@/lib/utils/photo";
 
 interface PetPhotoUploadProps {
   currentPhotoUrl?: string | null;
   onFileSelected: (file: File) => void;
   onRemove?: () => void;
-  isUploading?: boolean;
+  /** Fraction of the photo uploaded so far, or null when no upload is running. */
+  uploadProgress?: number | null;
   previewOnly?: boolean;
 }
 
-const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
-const ACCEPTED_TYPES = ["image/jpeg", "image/png", "image/webp"];
-
 export function PetPhotoUpload({
   currentPhotoUrl,
   onFileSelected,
   onRemove,
-  isUploading = false,
+  uploadProgress = null,
   previewOnly = false,
 }: PetPhotoUploadProps) {
   const [preview, setPreview] = useState<string | null>(null);
+  const [editing, setEditing] = useState<File | null>(null);
   const [dragActive, setDragActive] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -34,22 +35,32 @@ export function PetPhotoUpload({
     (file: File) => {
       setError(null);
 
-      if (!ACCEPTED_TYPES.includes(file.type)) {
-        setError("Please upload a JPG, PNG, or WebP image.");
-        return;
-      }
-      if (file.size > MAX_FILE_SIZE) {
-        setError("Image must be under 5MB.");
+      const invalid = validatePhotoFile(file);
+      if (invalid) {
+        setError(invalid);
         return;
       }
 
-      const objectUrl = URL.createObjectURL(file);
-      setPreview(objectUrl);
-      onFileSelected(file);
+      setEditing(file);
     },
-    [onFileSelected]
+    []
   );
 
+  const handleEdited = (file: File) => {
+    setEditing(null);
+    if (inputRef.current) inputRef.current.value = "";
+    setPreview(URL.createObjectURL(file));
+    onFileSelected(file);
+  };
+
+  const handleEditCancelled = () => {
+    setEditing(null);
+    // Lets the same file be picked again
+    if (inputRef.current) inputRef.current.value = "";
+  };
+
+  const isUploading = uploadProgress !== null;
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) validateAndProcess(file);
@@ -96,8 +107,18 @@ export function PetPhotoUpload({
               unoptimized={preview !== null}
             />
             {isUploading && (
-              <div className="absolute inset-0 bg-black/40 flex items-center justify-center">
-                <div className="w-8 h-8 border-4 border-white border-t-transparent rounded-full animate-spin" />
+              <div className="absolute inset-0 bg-black/40 flex flex-col items-center justify-center gap-2 px-5">
+                <span className="text-lg font-black text-white">{Math.round(uploadProgress * 100)}%</span>
+                <div
+                  role="progressbar"
+                  aria-label="Uploading photo"
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-valuenow={Math.round(uploadProgress * 100)}
+                  className="w-full h-3 rounded-full border-2 border-white bg-white/30 overflow-hidden"
+                >
+                  <div className="h-full bg-[#98C9A3] transition-[width]" style={{ width: `${uploadProgress * 100}%` }} />
+                </div>
               </div>
             )}
             {!previewOnly && !isUploading && (
@@ -174,7 +195,7 @@ export function PetPhotoUpload({
       <input
         ref={inputRef}
         type="file"
-        accept="image/jpeg,image/png,image/webp"
+        accept={ACCEPTED_PHOTO_TYPES.join(",")}
         onChange={handleFileChange}
         className="hidden"
       />
@@ -184,6 +205,8 @@ export function PetPhotoUpload({
           {error}
         </p>
       )}
+
+      {editing && <PhotoEditor file={editing} onDone={handleEdited} onCancel={handleEditCancelled} />}
     </div>
   );
 }
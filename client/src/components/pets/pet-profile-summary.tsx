@@ -1,8 +1,12 @@
 "use client";
 
-import { DogIcon, CatIcon, Activity, HeartPulse, Scale, Home, Info } from "lucide-react";
+import { DogIcon, CatIcon, Activity, HeartPulse, Scale, Home, Info, AlertTriangle } from "lucide-react";
 import { motion } from "framer-motion";
 import Image from "next/image";
+import { useBreed } from "@/lib/hooks/use-breeds";
+import { useHealthVocabulary } from "@/lib/hooks/use-pets";
+import { breedWeightStatus, formatWeightRange } from "@/lib/utils/breed";
+import { termLabel } from "@/lib/utils/health-terms";
 import type { Pet } from "@/lib/types/pet.types";
 
 interface PetProfileSummaryProps {
@@ -14,6 +18,10 @@ export function PetProfileSummary({ pet }: PetProfileSummaryProps) {
   const Icon = isDog ? DogIcon : CatIcon;
   const themeColor = isDog ? "bg-[#F4D06F]" : "bg-[#98C9A3]";
 
+  const breed = useBreed(pet.species, pet.breed);
+  const weightStatus = breed ? breedWeightStatus(breed, pet) : null;
+  const { data: vocabulary } = useHealthVocabulary();
+
   const hasMedical = pet.allergies.length > 0 || pet.medicalConditions.length > 0 || pet.medications.length > 0;
 
   return (
@@ -63,6 +71,9 @@ export function PetProfileSummary({ pet }: PetProfileSummaryProps) {
             {pet.targetWeightKg && (
               <span className="text-xs font-bold text-[#98C9A3] mt-1">Target: {pet.targetWeightKg} kg</span>
             )}
+            {breed && (
+              <span className="text-xs font-bold text-[#4A3B32]/60 mt-1">Breed range: {formatWeightRange(breed)}</span>
+            )}
           </div>
           
           <div className="bg-[#FFF9F2] p-4 rounded-2xl border-4 border-[#4A3B32] shadow-[4px_4px_0px_#4A3B32] flex flex-col items-center text-center">
@@ -78,6 +89,17 @@ export function PetProfileSummary({ pet }: PetProfileSummaryProps) {
           </div>
         </div>
 
+        {breed && weightStatus && (
+          <div className="flex items-start gap-4 rounded-[2rem] border-4 border-[#4A3B32] bg-[#FFD89B] p-6 font-bold text-[#4A3B32] shadow-[6px_6px_0px_#4A3B32]">
+            <AlertTriangle className="w-6 h-6 shrink-0 text-[#E88D72]" strokeWidth={3} />
+            <p>
+              At {pet.weightKg} kg, {pet.name} is well {weightStatus === "under" ? "below" : "above"} the{" "}
+              {formatWeightRange(breed)} typical for an adult {breed.name}. It&apos;s worth checking{" "}
+              {weightStatus === "under" ? "their body condition" : "a healthy target weight"} with your vet.
+            </p>
+          </div>
+        )}
+
         {/* Health & Medical Section */}
         {hasMedical && (
           <div className="bg-[#FFF9F2] p-6 md:p-8 rounded-[2rem] border-4 border-[#4A3B32] shadow-[6px_6px_0px_#4A3B32]">
@@ -95,7 +117,7 @@ export function PetProfileSummary({ pet }: PetProfileSummaryProps) {
                   <div className="flex flex-wrap gap-2">
                     {pet.allergies.map((a) => (
                       <span key={a} className="bg-[#E88D72] text-white px-4 py-1.5 rounded-full border-2 border-[#4A3B32] font-bold text-sm shadow-[2px_2px_0px_#4A3B32]">
-                        {a}
+                        {termLabel(vocabulary?.allergies, a)}
                       </span>
                     ))}
                   </div>
@@ -108,7 +130,7 @@ export function PetProfileSummary({ pet }: PetProfileSummaryProps) {
                   <div className="flex flex-wrap gap-2">
                     {pet.medicalConditions.map((c) => (
                       <span key={c} className="bg-[#F4D06F] text-[#4A3B32] px-4 py-1.5 rounded-full border-2 border-[#4A3B32] font-bold text-sm shadow-[2px_2px_0px_#4A3B32]">
-                        {c}
+                        {termLabel(vocabulary?.medicalConditions, c)}
                       </span>
                     ))}
                   </div>
@@ -121,7 +143,7 @@ export function PetProfileSummary({ pet }: PetProfileSummaryProps) {
                   <div className="flex flex-wrap gap-2">
                     {pet.medications.map((m) => (
                       <span key={m} className="bg-white text-[#4A3B32] px-4 py-1.5 rounded-full border-2 border-[#4A3B32] font-bold text-sm shadow-[2px_2px_0px_#4A3B32]">
-                        {m}
+                        {termLabel(vocabulary?.medications, m)}
                       </span>
                     ))}
                   </div>
@@ -1,30 +1,32 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   Dog, Cat, Heart, PawPrint, Calendar, Scale, Target,
   Activity, Home, TreePine, Map, Check, ShieldAlert,
-  HeartPulse, Pill, XIcon, ArrowRight, ArrowLeft, CheckCircle2
+  HeartPulse, Pill, XIcon, ArrowRight, ArrowLeft, CheckCircle2, PenLine
 } from "lucide-react";
 import { petFormSchema, type PetFormValues } from "@/lib/schemas/pet.schema";
 import { PetPhotoUpload } from "./pet-photo-upload";
+import { BreedPicker } from "./breed-picker";
+import { HealthTermPicker } from "./health-term-picker";
+import { useHealthVocabulary } from "@/lib/hooks/use-pets";
+import { isHealthCode, termLabel, type HealthListKey } from "@/lib/utils/health-terms";
 
 interface PetWizardProps {
   onSubmit: (data: PetFormValues) => Promise<void>;
   onPhotoSelected?: (file: File | null) => void;
   defaultValues?: Partial<PetFormValues>;
+  /** Called with the answers so far on every change, so they can be kept as a draft. */
+  onDraftChange?: (values: Partial<PetFormValues>) => void;
 }
 
-export function PetWizard({ onSubmit, onPhotoSelected, defaultValues }: PetWizardProps) {
+export function PetWizard({ onSubmit, onPhotoSelected, defaultValues, onDraftChange }: PetWizardProps) {
   const [currentStep, setCurrentStep] = useState(1);
-  const [tagInputs, setTagInputs] = useState({
-    allergy: "",
-    condition: "",
-    medication: "",
-  });
+  const { data: vocabulary } = useHealthVocabulary();
 
   const {
     register,
@@ -48,7 +50,14 @@ export function PetWizard({ onSubmit, onPhotoSelected, defaultValues }: PetWizar
     },
   });
 
+  useEffect(() => {
+    if (!onDraftChange) return;
+    const { unsubscribe } = watch((values) => onDraftChange(values as Partial<PetFormValues>));
+    return unsubscribe;
+  }, [watch, onDraftChange]);
+
   const species = watch("species");
+  const breed = watch("breed");
   const sex = watch("sex");
   const activityLevel = watch("activityLevel");
   const livingEnvironment = watch("livingEnvironment");
@@ -57,19 +66,16 @@ export function PetWizard({ onSubmit, onPhotoSelected, defaultValues }: PetWizar
   const medicalConditions = watch("medicalConditions") ?? [];
   const medications = watch("medications") ?? [];
 
-  const addTag = (field: "allergies" | "medicalConditions" | "medications", inputKey: keyof typeof tagInputs) => {
-    const value = tagInputs[inputKey].trim();
-    if (!value) return;
+  const addTag = (field: HealthListKey, code: string) => {
     const current = watch(field) ?? [];
-    if (!current.includes(value)) {
-      setValue(field, [...current, value]);
+    if (!current.includes(code)) {
+      setValue(field, [...current, code], { shouldValidate: !!errors[field] });
     }
-    setTagInputs((prev) => ({ ...prev, [inputKey]: "" }));
   };
 
-  const removeTag = (field: "allergies" | "medicalConditions" | "medications", index: number) => {
+  const removeTag = (field: HealthListKey, index: number) => {
     const current = watch(field) ?? [];
-    setValue(field, current.filter((_, i) => i !== index));
+    setValue(field, current.filter((_, i) => i !== index), { shouldValidate: !!errors[field] });
   };
 
   const nextStep = async () => {
@@ -241,7 +247,7 @@ export function PetWizard({ onSubmit, onPhotoSelected, defaultValues }: PetWizar
                   {/* Breed */}
                   <div className="md:col-span-2">
                     <label className={labelClasses}>Breed</label>
-                    <input {...register("breed")} className={inputClasses} placeholder="e.g. Golden Retriever" />
+                    <BreedPicker species={species} value={breed ?? ""} onChange={(value) => setValue("breed", value)} className={inputClasses} />
                     {errors.breed && <p className={errorClasses}>{errors.breed.message}</p>}
                   </div>
 
@@ -385,35 +391,21 @@ export function PetWizard({ onSubmit, onPhotoSelected, defaultValues }: PetWizar
                   <h3 className="text-xl font-black text-[#4A3B32] mb-2">Health Details</h3>
                   {(
                     [
-                      { field: "allergies" as const, inputKey: "allergy" as const, label: "Allergies", icon: ShieldAlert, iconColor: "text-[#E88D72]", items: allergies, color: "bg-[#E88D72]" },
-                      { field: "medicalConditions" as const, inputKey: "condition" as const, label: "Medical Conditions", icon: HeartPulse, iconColor: "text-[#F4D06F]", items: medicalConditions, color: "bg-[#F4D06F]" },
-                      { field: "medications" as const, inputKey: "medication" as const, label: "Medications", icon: Pill, iconColor: "text-[#98C9A3]", items: medications, color: "bg-[#98C9A3]" },
+                      { field: "allergies" as const, label: "Allergies", icon: ShieldAlert, iconColor: "text-[#E88D72]", items: allergies, color: "bg-[#E88D72]" },
+                      { field: "medicalConditions" as const, label: "Medical Conditions", icon: HeartPulse, iconColor: "text-[#F4D06F]", items: medicalConditions, color: "bg-[#F4D06F]" },
+                      { field: "medications" as const, label: "Medications", icon: Pill, iconColor: "text-[#98C9A3]", items: medications, color: "bg-[#98C9A3]" },
                     ] as const
-                  ).map(({ field, inputKey, label, icon: Icon, iconColor, items, color }) => (
+                  ).map(({ field, label, icon: Icon, iconColor, items, color }) => (
                     <div key={field} className="bg-[#FFF9F2] p-6 rounded-3xl border-4 border-[#4A3B32]/10">
                       <label className={labelClasses}><Icon className={`w-5 h-5 ${iconColor}`} /> {label}</label>
-                      <div className="flex gap-2 mb-3">
-                        <input
-                          value={tagInputs[inputKey]}
-                          onChange={(e) => setTagInputs((prev) => ({ ...prev, [inputKey]: e.target.value }))}
-                          onKeyDown={(e) => {
-                            if (e.key === "Enter") {
-                              e.preventDefault();
-                              addTag(field, inputKey);
-                            }
-                          }}
+                      <div className="mb-3">
+                        <HealthTermPicker
+                          list={field}
+                          selected={items}
+                          onPick={(code) => addTag(field, code)}
                           className={`${inputClasses} px-3 py-2 text-sm bg-white`}
-                          placeholder={`Add ${label.toLowerCase()}...`}
+                          placeholder={`Search ${label.toLowerCase()}...`}
                         />
-                        <motion.button
-                          type="button"
-                          whileHover={{ scale: 1.05, y: -2 }}
-                          whileTap={{ scale: 0.95, y: 2, boxShadow: "0px 0px 0px #4A3B32" }}
-                          onClick={() => addTag(field, inputKey)}
-                          className="bg-[#4A3B32] text-white px-4 rounded-xl font-black border-4 border-[#4A3B32] shadow-[2px_2px_0px_#4A3B32] transition-all"
-                        >
-                          Add
-                        </motion.button>
                       </div>
                       {items.length > 0 && (
                         <div className="flex flex-wrap gap-2 mt-4">
@@ -422,9 +414,11 @@ export function PetWizard({ onSubmit, onPhotoSelected, defaultValues }: PetWizar
                               key={i}
                               className={`${color} ${color === 'bg-[#F4D06F]' ? 'text-[#4A3B32]' : 'text-white'} px-4 py-1.5 rounded-full border-2 border-[#4A3B32] font-bold text-sm shadow-[2px_2px_0px_#4A3B32] flex items-center gap-2`}
                             >
-                              {item}
+                              {!isHealthCode(item) && <span title="Added as typed, not from the list"><PenLine className="w-4 h-4" strokeWidth={3} /></span>}
+                              {termLabel(vocabulary?.[field], item)}
                               <button
                                 type="button"
+                                aria-label={`Remove ${termLabel(vocabulary?.[field], item)}`}
                                 onClick={() => removeTag(field, i)}
                                 className="hover:bg-black/10 rounded-full p-0.5 transition-colors"
                               >
@@ -434,6 +428,7 @@ export function PetWizard({ onSubmit, onPhotoSelected, defaultValues }: PetWizar
                           ))}
                         </div>
                       )}
+                      {errors[field] && <p className={errorClasses}>{errors[field].message}</p>}
                     </div>
                   ))}
 
@@ -498,7 +493,7 @@ export function PetWizard({ onSubmit, onPhotoSelected, defaultValues }: PetWizar
                           <div>
                             <span className="text-xs font-black text-[#4A3B32]/50 uppercase tracking-wider block mb-1">Allergies</span>
                             <div className="flex flex-wrap gap-2">
-                              {formValues.allergies.map((a: string) => <span key={a} className="bg-[#E88D72] text-white px-3 py-1 rounded-full text-xs font-bold border-2 border-[#4A3B32]">{a}</span>)}
+                              {formValues.allergies.map((a: string) => <span key={a} className="bg-[#E88D72] text-white px-3 py-1 rounded-full text-xs font-bold border-2 border-[#4A3B32]">{termLabel(vocabulary?.allergies, a)}</span>)}
                             </div>
                           </div>
                         )}
@@ -506,7 +501,7 @@ export function PetWizard({ onSubmit, onPhotoSelected, defaultValues }: PetWizar
                           <div>
                             <span className="text-xs font-black text-[#4A3B32]/50 uppercase tracking-wider block mb-1">Medical Conditions</span>
                             <div className="flex flex-wrap gap-2">
-                              {formValues.medicalConditions.map((c: string) => <span key={c} className="bg-[#F4D06F] text-[#4A3B32] px-3 py-1 rounded-full text-xs font-bold border-2 border-[#4A3B32]">{c}</span>)}
+                              {formValues.medicalConditions.map((c: string) => <span key={c} className="bg-[#F4D06F] text-[#4A3B32] px-3 py-1 rounded-full text-xs font-bold border-2 border-[#4A3B32]">{termLabel(vocabulary?.medicalConditions, c)}</span>)}
                             </div>
                           </div>
                         )}
@@ -514,7 +509,7 @@ export function PetWizard({ onSubmit, onPhotoSelected, defaultValues }: PetWizar
                           <div>
                             <span className="text-xs font-black text-[#4A3B32]/50 uppercase tracking-wider block mb-1">Medications</span>
                             <div className="flex flex-wrap gap-2">
-                              {formValues.medications.map((m: string) => <span key={m} className="bg-white text-[#4A3B32] px-3 py-1 rounded-full text-xs font-bold border-2 border-[#4A3B32]">{m}</span>)}
+                              {formValues.medications.map((m: string) => <span key={m} className="bg-white text-[#4A3B32] px-3 py-1 rounded-full text-xs font-bold border-2 border-[#4A3B32]">{termLabel(vocabulary?.medications, m)}</span>)}
                             </div>
                           </div>
                         )}
@@ -0,0 +1,188 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { motion } from "framer-motion";
+import { Check, RotateCcw, RotateCw, ZoomIn, ZoomOut } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  clampCrop,
+  decodePhoto,
+  drawCrop,
+  exportPhoto,
+  DEFAULT_CROP,
+  MAX_ZOOM,
+  type PhotoCrop,
+  type Rotation,
+} from "@/lib/utils/photo";
+
+interface PhotoEditorProps {
+  file: File;
+  /** Called with the cropped, compressed photo, ready to upload. */
+  onDone: (file: File) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_SIZE = 288;
+
+export function PhotoEditor({ file, onDone, onCancel }: PhotoEditorProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drag = useRef<{ x: number; y: number } | null>(null);
+  const [image, setImage] = useState<ImageBitmap | null>(null);
+  const [crop, setCrop] = useState<PhotoCrop>(DEFAULT_CROP);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let decoded: ImageBitmap | null = null;
+    let cancelled = false;
+    decodePhoto(file)
+      .then((bitmap) => {
+        decoded = bitmap;
+        if (cancelled) bitmap.close();
+        else setImage(bitmap);
+      })
+      .catch(() => setError("This photo couldn't be opened. Try a JPG, PNG or WebP image."));
+    return () => {
+      cancelled = true;
+      decoded?.close();
+    };
+  }, [file]);
+
+  useEffect(() => {
+    // Drawn at device resolution so the preview stays sharp; CSS keeps it at PREVIEW_SIZE
+    if (image && canvasRef.current) drawCrop(canvasRef.current, image, crop, PREVIEW_SIZE * window.devicePixelRatio);
+  }, [image, crop]);
+
+  const update = (changes: Partial<PhotoCrop>) => {
+    if (image) setCrop((prev) => clampCrop(image, { ...prev, ...changes }));
+  };
+
+  const rotate = (turns: 1 | -1) => {
+    update({ rotation: ((crop.rotation + turns + 4) % 4) as Rotation, panX: 0, panY: 0 });
+  };
+
+  const handleSave = async () => {
+    if (!image) return;
+    setIsSaving(true);
+    try {
+      onDone(await exportPhoto(image, crop));
+    } catch {
+      setError("This photo couldn't be processed. Please try another one.");
+      setIsSaving(false);
+    }
+  };
+
+  const iconButton =
+    "w-11 h-11 rounded-full border-4 border-[#4A3B32] bg-white text-[#4A3B32] flex items-center justify-center shadow-[2px_2px_0px_#4A3B32] transition-colors hover:bg-[#FFD89B] disabled:opacity-40";
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open && !isSaving) onCancel(); }}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-black text-[#4A3B32]">Adjust Photo</DialogTitle>
+          <DialogDescription className="font-bold text-[#4A3B32]/60">
+            Drag to move, zoom to fill the frame, and rotate if it&apos;s sideways.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col items-center gap-5">
+          <div
+            className="relative rounded-[2rem] border-4 border-[#4A3B32] bg-[#FFF9F2] shadow-[4px_4px_0px_#4A3B32] overflow-hidden"
+            style={{ width: PREVIEW_SIZE, height: PREVIEW_SIZE }}
+          >
+            {image ? (
+              <canvas
+                ref={canvasRef}
+                style={{ width: PREVIEW_SIZE, height: PREVIEW_SIZE }}
+                className="cursor-grab active:cursor-grabbing touch-none"
+                onPointerDown={(e) => {
+                  e.currentTarget.setPointerCapture(e.pointerId);
+                  drag.current = { x: e.clientX, y: e.clientY };
+                }}
+                onPointerMove={(e) => {
+                  if (!drag.current) return;
+                  const dx = (e.clientX - drag.current.x) / PREVIEW_SIZE;
+                  const dy = (e.clientY - drag.current.y) / PREVIEW_SIZE;
+                  drag.current = { x: e.clientX, y: e.clientY };
+                  update({ panX: crop.panX + dx, panY: crop.panY + dy });
+                }}
+                onPointerUp={() => { drag.current = null; }}
+                onPointerCancel={() => { drag.current = null; }}
+                onWheel={(e) => update({ zoom: crop.zoom * (e.deltaY < 0 ? 1.1 : 1 / 1.1) })}
+              />
+            ) : (
+              !error && (
+                <div className="absolute inset-0 flex items-center justify-center">
+                  <div className="w-8 h-8 border-4 border-[#4A3B32] border-t-transparent rounded-full animate-spin" />
+                </div>
+              )
+            )}
+            {/* Where the round avatars will cut it off */}
+            <div className="pointer-events-none absolute inset-0 rounded-full ring-[999px] ring-[#4A3B32]/25" />
+          </div>
+
+          <div className="flex items-center gap-3 w-full">
+            <ZoomOut className="w-5 h-5 shrink-0 text-[#4A3B32]/60" strokeWidth={3} />
+            <input
+              type="range"
+              min={1}
+              max={MAX_ZOOM}
+              step={0.01}
+              value={crop.zoom}
+              onChange={(e) => update({ zoom: Number(e.target.value) })}
+              disabled={!image}
+              aria-label="Zoom"
+              className="flex-1 accent-[#E88D72]"
+            />
+            <ZoomIn className="w-5 h-5 shrink-0 text-[#4A3B32]/60" strokeWidth={3} />
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button type="button" onClick={() => rotate(-1)} disabled={!image} aria-label="Rotate left" className={iconButton}>
+              <RotateCcw className="w-5 h-5" strokeWidth={3} />
+            </button>
+            <button type="button" onClick={() => rotate(1)} disabled={!image} aria-label="Rotate right" className={iconButton}>
+              <RotateCw className="w-5 h-5" strokeWidth={3} />
+            </button>
+          </div>
+
+          {error && (
+            <p className="text-xs font-bold text-[#E88D72] bg-[#E88D72]/10 px-3 py-1 rounded-full border-2 border-[#E88D72]">
+              {error}
+            </p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 pt-4 border-t-4 border-[#4A3B32]/10">
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={isSaving}
+            className="px-6 py-3 rounded-full border-4 border-[#4A3B32] bg-white font-black text-[#4A3B32] transition-colors hover:bg-[#FFF9F2]"
+          >
+            Cancel
+          </button>
+          <motion.button
+            type="button"
+            whileHover={!image || isSaving ? {} : { scale: 1.02, y: -2 }}
+            whileTap={!image || isSaving ? {} : { scale: 0.98, y: 0 }}
+            onClick={handleSave}
+            disabled={!image || isSaving}
+            className={`flex items-center gap-2 px-6 py-3 rounded-full border-4 border-[#4A3B32] font-black shadow-[4px_4px_0px_#4A3B32] transition-all ${
+              !image || isSaving
+                ? "bg-gray-200 text-gray-400 cursor-not-allowed shadow-none"
+                : "bg-[#98C9A3] text-white hover:shadow-[6px_6px_0px_#4A3B32]"
+            }`}
+          >
+            {isSaving ? (
+              <div className="w-5 h-5 border-4 border-[#4A3B32] border-t-white rounded-full animate-spin" />
+            ) : (
+              <Check className="w-5 h-5" strokeWidth={3} />
+            )}
+            Use Photo
+          </motion.button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import Image from "next/image";
+import { ChevronLeft, ChevronRight, Star } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/ui/dialog";
+import { formatDisplayDate } from "@/lib/utils/format";
+import type { PetPhoto } from "@/lib/types/pet.types";
+
+interface PhotoLightboxProps {
+  photos: PetPhoto[];
+  index: number;
+  petName: string;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+}
+
+export function PhotoLightbox({ photos, index, petName, onIndexChange, onClose }: PhotoLightboxProps) {
+  const photo = photos[index];
+  if (!photo) return null;
+
+  const hasPrevious = index > 0;
+  const hasNext = index < photos.length - 1;
+
+  const navButton =
+    "absolute top-1/2 -translate-y-1/2 w-12 h-12 rounded-full border-4 border-[#4A3B32] bg-white text-[#4A3B32] shadow-[4px_4px_0px_#4A3B32] flex items-center justify-center transition-colors hover:bg-[#FFD89B]";
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent
+        className="sm:max-w-3xl"
+        onKeyDown={(e) => {
+          if (e.key === "ArrowLeft" && hasPrevious) onIndexChange(index - 1);
+          if (e.key === "ArrowRight" && hasNext) onIndexChange(index + 1);
+        }}
+      >
+        <DialogTitle className="sr-only">
+          {petName} photo {index + 1} of {photos.length}
+        </DialogTitle>
+
+        <div className="relative aspect-square w-full max-h-[70vh] rounded-[2rem] border-4 border-[#4A3B32] bg-[#FFF9F2] overflow-hidden">
+          <Image
+            src={photo.url}
+            alt={photo.caption ?? `${petName} photo`}
+            fill
+            className="object-contain"
+            sizes="(max-width: 768px) 100vw, 768px"
+          />
+          {hasPrevious && (
+            <button type="button" onClick={() => onIndexChange(index - 1)} aria-label="Previous photo" className={`${navButton} left-4`}>
+              <ChevronLeft className="w-6 h-6" strokeWidth={3} />
+            </button>
+          )}
+          {hasNext && (
+            <button type="button" onClick={() => onIndexChange(index + 1)} aria-label="Next photo" className={`${navButton} right-4`}>
+              <ChevronRight className="w-6 h-6" strokeWidth={3} />
+            </button>
+          )}
+        </div>
+
+        <DialogDescription asChild>
+          <div className="flex flex-wrap items-center justify-between gap-3 text-[#4A3B32]">
+            <div className="flex flex-col">
+              <span className="text-lg font-black">{photo.caption || "No caption"}</span>
+              {photo.takenOn && (
+                <span className="text-sm font-bold text-[#4A3B32]/60">
+                  {formatDisplayDate(new Date(photo.takenOn + "T00:00:00"))}
+                </span>
+              )}
+            </div>
+            <div className="flex items-center gap-3 text-sm font-black text-[#4A3B32]/60">
+              {photo.isAvatar && (
+                <span className="flex items-center gap-1.5 rounded-full border-2 border-[#4A3B32] bg-[#F4D06F] px-3 py-1 text-[#4A3B32]">
+                  <Star className="w-3.5 h-3.5" fill="currentColor" />
+                  Profile photo
+                </span>
+              )}
+              {index + 1} / {photos.length}
+            </div>
+          </div>
+        </DialogDescription>
+      </DialogContent>
+    </Dialog>
+  );
+}
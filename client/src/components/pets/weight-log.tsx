@@ -0,0 +1,318 @@
+"use client";
+
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { format, subDays } from "date-fns";
+import { Scale, Plus, Trash2, AlertTriangle, TrendingDown, TrendingUp, Target } from "lucide-react";
+import { useWeightLog, useLogWeight, useDeleteWeightEntry } from "@/lib/hooks/use-pets";
+import { formatDate, formatDisplayDate } from "@/lib/utils/format";
+import { calculateWeightTrend, parseEntryDate, type WeightTrend } from "@/lib/utils/weight-trend";
+import { LoadingSpinner } from "@/components/shared/loading-spinner";
+import { ErrorAlert } from "@/components/shared/error-alert";
+import type { Pet, WeightEntry } from "@/lib/types/pet.types";
+
+interface WeightLogProps {
+  pet: Pet;
+}
+
+export function WeightLog({ pet }: WeightLogProps) {
+  const { data: entries, isLoading, isError } = useWeightLog(pet.id);
+  const logWeight = useLogWeight(pet.id);
+  const deleteEntry = useDeleteWeightEntry(pet.id);
+
+  const [recordedOn, setRecordedOn] = useState(formatDate(new Date()));
+  const [weight, setWeight] = useState("");
+  const [note, setNote] = useState("");
+
+  const weightKg = parseFloat(weight);
+  const isValid = !!recordedOn && weightKg > 0 && weightKg <= 200;
+  const trend = entries ? calculateWeightTrend(entries, pet.targetWeightKg) : null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+    logWeight.mutate(
+      { weightKg, recordedOn, note: note.trim() || null },
+      {
+        onSuccess: () => {
+          setWeight("");
+          setNote("");
+        },
+      }
+    );
+  };
+
+  const inputClasses =
+    "w-full bg-[#FFF9F2] border-4 border-[#4A3B32] rounded-2xl px-4 py-3 font-bold text-[#4A3B32] focus:outline-none focus:ring-4 focus:ring-[#F4D06F]/50 transition-all placeholder:text-[#4A3B32]/40";
+  const labelClasses = "text-sm font-black text-[#4A3B32] uppercase tracking-wider mb-2 flex items-center gap-2";
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white rounded-[3rem] border-4 border-[#4A3B32] shadow-[12px_12px_0px_#4A3B32] p-8 md:p-10 flex flex-col gap-8"
+    >
+      <div className="flex items-center gap-3">
+        <div className="w-10 h-10 bg-[#F4D06F] rounded-xl border-4 border-[#4A3B32] flex items-center justify-center rotate-[5deg]">
+          <Scale className="w-5 h-5 text-[#4A3B32]" />
+        </div>
+        <div>
+          <h3 className="text-2xl font-black">Weight Log</h3>
+          <p className="text-sm font-bold text-[#4A3B32]/60">
+            {pet.targetWeightKg ? `Tracking toward ${pet.targetWeightKg} kg` : "Weigh-ins over time"}
+          </p>
+        </div>
+      </div>
+
+      {isLoading && <LoadingSpinner message="Loading weigh-ins..." />}
+      {isError && <ErrorAlert message="Failed to load the weight log." />}
+
+      {entries && (
+        <>
+          {trend && <TrendSummary pet={pet} trend={trend} />}
+
+          {entries.length > 0 ? (
+            <WeightChart entries={entries} targetWeightKg={pet.targetWeightKg} trend={trend} />
+          ) : (
+            <p className="text-center font-bold text-[#4A3B32]/60 py-6">No weigh-ins yet — log the first one below.</p>
+          )}
+        </>
+      )}
+
+      {/* New weigh-in */}
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_2fr_auto] gap-4 items-end">
+        <div>
+          <label htmlFor="weigh-in-date" className={labelClasses}>Date</label>
+          <input
+            id="weigh-in-date"
+            type="date"
+            value={recordedOn}
+            max={formatDate(new Date())}
+            onChange={(e) => setRecordedOn(e.target.value)}
+            className={inputClasses}
+          />
+        </div>
+        <div>
+          <label htmlFor="weigh-in-weight" className={labelClasses}>Weight (kg)</label>
+          <input
+            id="weigh-in-weight"
+            type="number"
+            step="0.1"
+            min={0}
+            value={weight}
+            onChange={(e) => setWeight(e.target.value)}
+            className={inputClasses}
+            placeholder={String(pet.weightKg)}
+          />
+        </div>
+        <div>
+          <label htmlFor="weigh-in-note" className={labelClasses}>Note</label>
+          <input
+            id="weigh-in-note"
+            value={note}
+            maxLength={500}
+            onChange={(e) => setNote(e.target.value)}
+            className={inputClasses}
+            placeholder="Optional, e.g. after vet visit"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={!isValid || logWeight.isPending}
+          className="flex items-center justify-center gap-2 px-6 py-3 rounded-2xl font-black border-4 border-[#4A3B32] bg-[#98C9A3] text-white shadow-[4px_4px_0px_#4A3B32] transition-all hover:-translate-y-0.5 active:translate-y-0 active:shadow-none disabled:opacity-50 disabled:hover:translate-y-0"
+        >
+          <Plus className="w-5 h-5" strokeWidth={3} />
+          {logWeight.isPending ? "Saving..." : "Log"}
+        </button>
+      </form>
+      {logWeight.isError && <ErrorAlert message="Couldn't save that weigh-in. Please try again." />}
+
+      {/* History */}
+      {entries && entries.length > 0 && (
+        <div className="flex flex-col gap-3">
+          <h4 className="text-sm font-bold text-[#4A3B32]/60 uppercase tracking-wider">History</h4>
+          <ul className="flex flex-col gap-2">
+            {[...entries].reverse().map((entry) => (
+              <li
+                key={entry.id}
+                className="flex items-center gap-4 rounded-2xl border-4 border-[#4A3B32] bg-[#FFF9F2] px-4 py-3 shadow-[3px_3px_0px_#4A3B32]"
+              >
+                <span className="font-black w-28 shrink-0">{formatDisplayDate(parseEntryDate(entry))}</span>
+                <span className="font-black text-[#E88D72] w-20 shrink-0">{entry.weightKg} kg</span>
+                <span className="text-sm font-bold text-[#4A3B32]/60 flex-1 truncate">{entry.note}</span>
+                <button
+                  onClick={() => deleteEntry.mutate(entry.id)}
+                  disabled={deleteEntry.isPending}
+                  aria-label={`Delete weigh-in from ${formatDisplayDate(parseEntryDate(entry))}`}
+                  className="p-2 rounded-xl text-[#4A3B32]/50 hover:text-[#E88D72] hover:bg-[#E88D72]/10 transition-colors disabled:opacity-50"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </motion.div>
+  );
+}
+
+function TrendSummary({ pet, trend }: { pet: Pet; trend: WeightTrend }) {
+  const rate = `${trend.kgPerWeek > 0 ? "+" : ""}${trend.kgPerWeek.toFixed(2)} kg/week`;
+  const TrendIcon = trend.kgPerWeek < 0 ? TrendingDown : TrendingUp;
+
+  if (trend.direction === "AWAY") {
+    return (
+      <div role="alert" className="flex items-start gap-3 rounded-2xl border-4 border-[#4A3B32] bg-[#E88D72]/15 p-4 shadow-[4px_4px_0px_#4A3B32]">
+        <AlertTriangle className="w-6 h-6 shrink-0 text-[#E88D72]" />
+        <div>
+          <p className="font-black">Trending away from the goal</p>
+          <p className="text-sm font-bold text-[#4A3B32]/70">
+            {pet.name} is {trend.kgPerWeek > 0 ? "gaining" : "losing"} weight ({rate}) but the target is{" "}
+            {pet.targetWeightKg} kg. It may be worth reviewing portions or checking in with your vet.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const message = {
+    TOWARD: trend.projectedDate
+      ? `On track — at this rate ${pet.name} reaches ${pet.targetWeightKg} kg around ${formatDisplayDate(trend.projectedDate)}.`
+      : `Heading the right way, but more than a year from ${pet.targetWeightKg} kg at this rate.`,
+    STEADY: `Weight is holding steady — no real movement toward ${pet.targetWeightKg} kg yet.`,
+    AT_TARGET: `${pet.name} is at the ${pet.targetWeightKg} kg target.`,
+    NO_TARGET: `Set a target weight on ${pet.name}'s profile to see a projection.`,
+  }[trend.direction];
+
+  return (
+    <div className="flex items-start gap-3 rounded-2xl border-4 border-[#4A3B32] bg-[#98C9A3]/15 p-4 shadow-[4px_4px_0px_#4A3B32]">
+      {trend.direction === "AT_TARGET" ? (
+        <Target className="w-6 h-6 shrink-0 text-[#98C9A3]" />
+      ) : (
+        <TrendIcon className="w-6 h-6 shrink-0 text-[#98C9A3]" />
+      )}
+      <div>
+        <p className="font-black">{rate}</p>
+        <p className="text-sm font-bold text-[#4A3B32]/70">{message}</p>
+      </div>
+    </div>
+  );
+}
+
+// ─── Chart ───────────────────────────────────────────────────────────────────
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 240;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 44 };
+
+interface WeightChartProps {
+  entries: WeightEntry[];
+  targetWeightKg: number | null;
+  trend: WeightTrend | null;
+}
+
+function WeightChart({ entries, targetWeightKg, trend }: WeightChartProps) {
+  const points = entries.map((e) => ({ date: parseEntryDate(e), kg: e.weightKg }));
+  const firstDate = points[0].date;
+  const lastDate = trend?.projectedDate ?? points[points.length - 1].date;
+  // A single weigh-in still needs a non-zero span to plot against
+  const startTime = lastDate.getTime() === firstDate.getTime() ? subDays(firstDate, 1).getTime() : firstDate.getTime();
+  const endTime = lastDate.getTime();
+
+  const values = [
+    ...points.map((p) => p.kg),
+    ...(targetWeightKg ? [targetWeightKg] : []),
+    ...(trend ? [trend.fitAt(trend.fittedFrom), trend.fitAt(trend.latestDate)] : []),
+  ];
+  const spread = Math.max(...values) - Math.min(...values) || 1;
+  const minKg = Math.min(...values) - spread * 0.1;
+  const maxKg = Math.max(...values) + spread * 0.1;
+
+  const x = (date: Date) =>
+    PADDING.left + ((date.getTime() - startTime) / (endTime - startTime)) * (CHART_WIDTH - PADDING.left - PADDING.right);
+  const y = (kg: number) =>
+    PADDING.top + ((maxKg - kg) / (maxKg - minKg)) * (CHART_HEIGHT - PADDING.top - PADDING.bottom);
+
+  return (
+    <div className="rounded-2xl border-4 border-[#4A3B32] bg-[#FFF9F2] p-2">
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label={`Weight over time${targetWeightKg ? ` against a ${targetWeightKg} kg target` : ""}`}
+      >
+        {/* Y axis labels */}
+        {[maxKg, (maxKg + minKg) / 2, minKg].map((kg) => (
+          <text key={kg} x={PADDING.left - 8} y={y(kg) + 4} textAnchor="end" className="fill-[#4A3B32]/60 text-[11px] font-black">
+            {kg.toFixed(1)}
+          </text>
+        ))}
+
+        {targetWeightKg && (
+          <g>
+            <line
+              x1={PADDING.left}
+              x2={CHART_WIDTH - PADDING.right}
+              y1={y(targetWeightKg)}
+              y2={y(targetWeightKg)}
+              stroke="#98C9A3"
+              strokeWidth={3}
+              strokeDasharray="8 6"
+            />
+            <text x={CHART_WIDTH - PADDING.right} y={y(targetWeightKg) - 6} textAnchor="end" className="fill-[#98C9A3] text-[11px] font-black">
+              Target {targetWeightKg} kg
+            </text>
+          </g>
+        )}
+
+        {trend && (
+          <line
+            x1={x(trend.fittedFrom)}
+            x2={x(trend.latestDate)}
+            y1={y(trend.fitAt(trend.fittedFrom))}
+            y2={y(trend.fitAt(trend.latestDate))}
+            stroke="#4A3B32"
+            strokeOpacity={0.35}
+            strokeWidth={3}
+            strokeDasharray="4 4"
+          />
+        )}
+
+        {trend?.projectedDate && targetWeightKg && (
+          <line
+            x1={x(trend.latestDate)}
+            x2={x(trend.projectedDate)}
+            y1={y(trend.fitAt(trend.latestDate))}
+            y2={y(targetWeightKg)}
+            stroke="#98C9A3"
+            strokeWidth={3}
+            strokeDasharray="2 6"
+            strokeLinecap="round"
+          />
+        )}
+
+        <polyline
+          points={points.map((p) => `${x(p.date)},${y(p.kg)}`).join(" ")}
+          fill="none"
+          stroke="#E88D72"
+          strokeWidth={4}
+          strokeLinejoin="round"
+        />
+        {points.map((p) => (
+          <circle key={p.date.toISOString()} cx={x(p.date)} cy={y(p.kg)} r={5} fill="#FFF9F2" stroke="#4A3B32" strokeWidth={3}>
+            <title>{`${formatDisplayDate(p.date)}: ${p.kg} kg`}</title>
+          </circle>
+        ))}
+
+        {/* X axis labels */}
+        <text x={PADDING.left} y={CHART_HEIGHT - 6} className="fill-[#4A3B32]/60 text-[11px] font-black">
+          {format(firstDate, "MMM d")}
+        </text>
+        <text x={CHART_WIDTH - PADDING.right} y={CHART_HEIGHT - 6} textAnchor="end" className="fill-[#4A3B32]/60 text-[11px] font-black">
+          {format(lastDate, "MMM d")}
+        </text>
+      </svg>
+    </div>
+  );
+}
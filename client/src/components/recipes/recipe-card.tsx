@@ -1,45 +1,94 @@
 "use client";
 
 import Link from "next/link";
-import { FlameIcon, ChevronRightIcon } from "lucide-react";
+import { FlameIcon, ChevronRightIcon, Archive, ArchiveRestore } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useArchiveRecipe } from "@/lib/hooks/use-recipes";
+import { cn } from "@/lib/utils";
 import { SafetyBadge } from "./safety-badge";
 import type { Recipe } from "@/lib/types/recipe.types";
 
 interface RecipeCardProps {
   recipe: Recipe;
+  /** Passing this turns on the selection checkbox used for bulk actions. */
+  onSelectedChange?: (selected: boolean) => void;
+  selected?: boolean;
 }
 
-export function RecipeCard({ recipe }: RecipeCardProps) {
+export function RecipeCard({ recipe, onSelectedChange, selected = false }: RecipeCardProps) {
+  const archiveRecipe = useArchiveRecipe();
+  const isArchived = recipe.status === "ARCHIVED";
+
   return (
-    <Link href={`/recipes/${recipe.id}`} className="block h-full group">
-      <Card className="h-full border-4 border-[#4A3B32] bg-white transition-all group-hover:-translate-y-1 group-hover:shadow-[8px_8px_0px_#4A3B32] overflow-hidden rounded-[2.5rem]">
-        <CardContent className="flex flex-col gap-4 p-6">
-          <div className="flex items-start justify-between">
-            <div className="min-w-0 flex-1">
-              <h3 className="truncate font-black text-xl text-[#4A3B32]">{recipe.title}</h3>
-              {recipe.petName && (
-                <p className="text-base font-bold text-[#4A3B32]/70">For {recipe.petName}</p>
+    <div className="relative h-full group transition-transform hover:-translate-y-1">
+      <Link href={`/recipes/${recipe.id}`} className="block h-full">
+        <Card
+          className={cn(
+            "h-full border-4 border-[#4A3B32] bg-white transition-all group-hover:shadow-[8px_8px_0px_#4A3B32] overflow-hidden rounded-[2.5rem]",
+            selected && "bg-[#98C9A3]/15 shadow-[8px_8px_0px_#4A3B32]",
+            isArchived && !selected && "bg-[#FFF9F2]"
+          )}
+        >
+          <CardContent className={cn("flex flex-col gap-4 p-6", onSelectedChange && "pl-16")}>
+            <div className="flex items-start justify-between">
+              <div className="min-w-0 flex-1">
+                <h3 className="truncate font-black text-xl text-[#4A3B32]">{recipe.title}</h3>
+                {recipe.petName && (
+                  <p className="text-base font-bold text-[#4A3B32]/70">For {recipe.petName}</p>
+                )}
+              </div>
+              <ChevronRightIcon className="mt-1 size-8 shrink-0 text-[#4A3B32] transition-transform group-hover:translate-x-1" strokeWidth={3} />
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4 text-sm font-bold text-[#4A3B32]/70">
+              <span className="flex items-center gap-1.5 bg-[#FFF9F2] px-3 py-1.5 rounded-full border-2 border-[#4A3B32]/10">
+                <FlameIcon className="size-4" strokeWidth={3} /> {recipe.estimatedCalories} kcal
+              </span>
+              <SafetyBadge riskLevel={recipe.riskLevel} />
+              {recipe.version > 1 && (
+                <span className="bg-[#B5A4E5]/20 px-3 py-1.5 rounded-full border-2 border-[#4A3B32]/10">
+                  v{recipe.version}
+                </span>
               )}
             </div>
-            <ChevronRightIcon className="mt-1 size-8 shrink-0 text-[#4A3B32] transition-transform group-hover:translate-x-1" strokeWidth={3} />
-          </div>
-
-          <div className="flex flex-wrap items-center gap-4 text-sm font-bold text-[#4A3B32]/70">
-            <span className="flex items-center gap-1.5 bg-[#FFF9F2] px-3 py-1.5 rounded-full border-2 border-[#4A3B32]/10">
-              <FlameIcon className="size-4" strokeWidth={3} /> {recipe.estimatedCalories} kcal
-            </span>
-            <SafetyBadge riskLevel={recipe.riskLevel} />
-          </div>
-
-          {recipe.status === "SAVED" && (
-            <Badge variant="secondary" className="self-start">
-              Saved
-            </Badge>
-          )}
-        </CardContent>
-      </Card>
-    </Link>
+
+            {/* Leaves room for the archive button, which sits outside the link */}
+            <div className="flex min-h-10 items-center pr-14">
+              {recipe.status === "SAVED" && (
+                <Badge variant="secondary">Saved</Badge>
+              )}
+              {isArchived && (
+                <Badge variant="outline" className="gap-1.5">
+                  <Archive className="size-3.5" strokeWidth={3} />
+                  Archived
+                </Badge>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </Link>
+
+      {onSelectedChange && (
+        <Checkbox
+          checked={selected}
+          onCheckedChange={(checked) => onSelectedChange(checked === true)}
+          aria-label={`Select ${recipe.title}`}
+          className="absolute left-6 top-7"
+        />
+      )}
+
+      <button
+        type="button"
+        onClick={() => archiveRecipe.mutate({ recipeId: recipe.id, archived: !isArchived })}
+        disabled={archiveRecipe.isPending}
+        aria-label={isArchived ? `Restore ${recipe.title}` : `Archive ${recipe.title}`}
+        title={isArchived ? "Restore" : "Archive"}
+        className="absolute bottom-6 right-6 flex size-10 items-center justify-center rounded-full border-4 border-[#4A3B32] bg-white text-[#4A3B32] shadow-[2px_2px_0px_#4A3B32] transition-all hover:bg-[#F4D06F] active:translate-y-0.5 active:shadow-none disabled:opacity-50"
+      >
+        {isArchived ? <ArchiveRestore className="size-5" strokeWidth={3} /> : <Archive className="size-5" strokeWidth={3} />}
+      </button>
+    </div>
   );
 }
@@ -1,15 +1,36 @@
+"use client";
+
+import { useState } from "react";
 import { FlameIcon, ShoppingCartIcon, TriangleAlertIcon } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Separator } from "@/components/ui/separator";
 import { SafetyBadge } from "./safety-badge";
+import { RecipeScaleControls } from "./recipe-scale-controls";
+import { scaleIngredient, scaleShoppingLine, type UnitSystem } from "@/lib/utils/recipe-scaling";
 import type { Recipe } from "@/lib/types/recipe.types";
 
 interface RecipeDetailViewProps {
   recipe: Recipe;
 }
 
+function NotScaledTag() {
+  return (
+    <span
+      title="We couldn't read this amount, so it's shown as written"
+      className="ml-2 rounded-full border-2 border-[#4A3B32]/20 bg-[#F4D06F]/30 px-2 py-0.5 text-xs font-black text-[#4A3B32]/70"
+    >
+      not scaled
+    </span>
+  );
+}
+
 export function RecipeDetailView({ recipe }: RecipeDetailViewProps) {
+  const [multiplier, setMultiplier] = useState(1);
+  const [unitSystem, setUnitSystem] = useState<UnitSystem | null>(null);
+  const ingredients = recipe.ingredients.map((ing) => scaleIngredient(ing, multiplier, unitSystem));
+  const shoppingList = recipe.shoppingList.map((line) => scaleShoppingLine(line, multiplier, unitSystem));
+
   return (
     <div className="flex flex-col gap-8">
       <div>
@@ -32,16 +53,29 @@ export function RecipeDetailView({ recipe }: RecipeDetailViewProps) {
         )}
       </div>
 
+      <RecipeScaleControls
+        multiplier={multiplier}
+        unitSystem={unitSystem}
+        onMultiplierChange={setMultiplier}
+        onUnitSystemChange={setUnitSystem}
+      />
+
       <Card>
         <CardHeader className="pb-4 border-b-4 border-[#4A3B32]/10 mb-4">
-          <CardTitle className="text-xl font-black text-[#4A3B32]">Ingredients</CardTitle>
+          <CardTitle className="text-xl font-black text-[#4A3B32]">
+            Ingredients
+            {multiplier !== 1 && <span className="ml-2 text-base text-[#4A3B32]/60">× {multiplier}</span>}
+          </CardTitle>
         </CardHeader>
         <CardContent>
           <ul className="flex flex-col gap-3">
-            {recipe.ingredients.map((ing, i) => (
+            {ingredients.map((ing, i) => (
               <li key={i} className="flex items-baseline justify-between text-lg font-bold text-[#4A3B32]">
                 <span>{ing.name}</span>
-                <span className="text-[#4A3B32]/60">{ing.amount} {ing.unit}</span>
+                <span className="text-[#4A3B32]/60">
+                  {ing.amount} {ing.unit}
+                  {!ing.scaled && <NotScaledTag />}
+                </span>
               </li>
             ))}
           </ul>
@@ -66,7 +100,7 @@ export function RecipeDetailView({ recipe }: RecipeDetailViewProps) {
         </CardContent>
       </Card>
 
-      {recipe.shoppingList.length > 0 && (
+      {shoppingList.length > 0 && (
         <Card>
           <CardHeader className="pb-4 border-b-4 border-[#4A3B32]/10 mb-4">
             <CardTitle className="flex items-center gap-3 text-xl font-black text-[#4A3B32]">
@@ -75,10 +109,11 @@ export function RecipeDetailView({ recipe }: RecipeDetailViewProps) {
           </CardHeader>
           <CardContent>
             <ul className="flex flex-col gap-2">
-              {recipe.shoppingList.map((item, i) => (
+              {shoppingList.map((item, i) => (
                 <li key={i} className="flex items-center gap-3 text-lg font-bold text-[#4A3B32]">
                   <span className="size-2 rounded-full bg-[#4A3B32]" />
-                  {item}
+                  {item.text}
+                  {!item.scaled && <NotScaledTag />}
                 </li>
               ))}
             </ul>
@@ -0,0 +1,206 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Search, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  RECIPE_SORT_OPTIONS,
+  RISK_LEVEL_FILTERS,
+  STATUS_FILTERS,
+  hasActiveFilters,
+} from "@/lib/utils/recipe-search";
+import type { RecipeSearchParams, RecipeSort, RecipeStatus, RiskLevel } from "@/lib/types/recipe.types";
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const RISK_LABELS: Record<RiskLevel, string> = {
+  GREEN: "Safe",
+  AMBER: "Caution",
+  RED: "High Risk",
+  BLOCKED: "Blocked",
+};
+
+const STATUS_LABELS: Record<RecipeStatus, string> = {
+  DRAFT: "Draft",
+  SAVED: "Saved",
+  ARCHIVED: "Archived",
+};
+
+const inputClass =
+  "w-full px-4 py-2 rounded-2xl border-4 border-[#4A3B32] bg-white text-base font-bold text-[#4A3B32] focus:outline-none focus:shadow-[4px_4px_0px_#4A3B32] transition-all placeholder:text-[#4A3B32]/40";
+
+interface RecipeFiltersProps {
+  value: RecipeSearchParams;
+  onChange: (patch: Partial<RecipeSearchParams>) => void;
+  onClear: () => void;
+  showStatus?: boolean;
+}
+
+function toggle<T>(list: T[] | undefined, item: T): T[] | undefined {
+  const next = list?.includes(item) ? list.filter((i) => i !== item) : [...(list ?? []), item];
+  return next.length > 0 ? next : undefined;
+}
+
+function parseCalories(value: string): number | undefined {
+  if (value === "") return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? Math.floor(n) : undefined;
+}
+
+function FilterChip({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-pressed={active}
+      className={cn(
+        "px-4 py-1.5 rounded-full border-2 border-[#4A3B32] text-sm font-bold transition-colors",
+        active ? "bg-[#4A3B32] text-white" : "bg-white text-[#4A3B32] hover:bg-[#FFF9F2]"
+      )}
+    >
+      {children}
+    </button>
+  );
+}
+
+export function RecipeFilters({ value, onChange, onClear, showStatus = true }: RecipeFiltersProps) {
+  const [query, setQuery] = useState(value.q ?? "");
+
+  // Keep the box in sync when the URL changes underneath us (back button, clear).
+  useEffect(() => {
+    setQuery(value.q ?? "");
+  }, [value.q]);
+
+  useEffect(() => {
+    const next = query.trim() || undefined;
+    if (next === value.q) return;
+    const timer = setTimeout(() => onChange({ q: next }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query, value.q, onChange]);
+
+  return (
+    <div className="mb-8 flex flex-col gap-5 rounded-[2rem] border-4 border-[#4A3B32] bg-white p-6 shadow-[6px_6px_0px_#4A3B32]">
+      <div className="flex flex-col sm:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-4 top-1/2 -translate-y-1/2 size-5 text-[#4A3B32]/50" strokeWidth={3} />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            maxLength={200}
+            placeholder="Search titles, descriptions or ingredients"
+            aria-label="Search recipes"
+            className={cn(inputClass, "pl-12")}
+          />
+        </div>
+        <select
+          value={value.sort ?? "NEWEST"}
+          onChange={(e) => onChange({ sort: e.target.value as RecipeSort })}
+          aria-label="Sort recipes"
+          className={cn(inputClass, "sm:w-56 cursor-pointer")}
+        >
+          {RECIPE_SORT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid gap-5 md:grid-cols-2">
+        <fieldset className="flex flex-col gap-2">
+          <legend className="mb-2 text-xs font-black uppercase tracking-wider text-[#4A3B32]/60">Safety</legend>
+          <div className="flex flex-wrap gap-2">
+            {RISK_LEVEL_FILTERS.map((level) => (
+              <FilterChip
+                key={level}
+                active={!!value.riskLevels?.includes(level)}
+                onClick={() => onChange({ riskLevels: toggle(value.riskLevels, level) })}
+              >
+                {RISK_LABELS[level]}
+              </FilterChip>
+            ))}
+          </div>
+        </fieldset>
+
+        {showStatus && (
+          <fieldset className="flex flex-col gap-2">
+            <legend className="mb-2 text-xs font-black uppercase tracking-wider text-[#4A3B32]/60">Status</legend>
+            <div className="flex flex-wrap gap-2">
+              {STATUS_FILTERS.map((status) => (
+                <FilterChip
+                  key={status}
+                  active={!!value.statuses?.includes(status)}
+                  onClick={() => onChange({ statuses: toggle(value.statuses, status) })}
+                >
+                  {STATUS_LABELS[status]}
+                </FilterChip>
+              ))}
+            </div>
+          </fieldset>
+        )}
+
+        <fieldset className="flex flex-col gap-2">
+          <legend className="mb-2 text-xs font-black uppercase tracking-wider text-[#4A3B32]/60">Calories (kcal)</legend>
+          <div className="flex items-center gap-3">
+            <input
+              type="number"
+              min={0}
+              inputMode="numeric"
+              value={value.minCalories ?? ""}
+              onChange={(e) => onChange({ minCalories: parseCalories(e.target.value) })}
+              placeholder="Min"
+              aria-label="Minimum calories"
+              className={inputClass}
+            />
+            <span className="font-black text-[#4A3B32]/50">–</span>
+            <input
+              type="number"
+              min={0}
+              inputMode="numeric"
+              value={value.maxCalories ?? ""}
+              onChange={(e) => onChange({ maxCalories: parseCalories(e.target.value) })}
+              placeholder="Max"
+              aria-label="Maximum calories"
+              className={inputClass}
+            />
+          </div>
+        </fieldset>
+
+        <fieldset className="flex flex-col gap-2">
+          <legend className="mb-2 text-xs font-black uppercase tracking-wider text-[#4A3B32]/60">Created</legend>
+          <div className="flex items-center gap-3">
+            <input
+              type="date"
+              value={value.createdFrom ?? ""}
+              max={value.createdTo}
+              onChange={(e) => onChange({ createdFrom: e.target.value || undefined })}
+              aria-label="Created from"
+              className={inputClass}
+            />
+            <span className="font-black text-[#4A3B32]/50">–</span>
+            <input
+              type="date"
+              value={value.createdTo ?? ""}
+              min={value.createdFrom}
+              onChange={(e) => onChange({ createdTo: e.target.value || undefined })}
+              aria-label="Created to"
+              className={inputClass}
+            />
+          </div>
+        </fieldset>
+      </div>
+
+      {hasActiveFilters(value) && (
+        <button
+          type="button"
+          onClick={onClear}
+          className="flex items-center gap-2 self-start px-4 py-1.5 rounded-full border-2 border-[#4A3B32] bg-[#FFF9F2] text-sm font-black text-[#4A3B32] hover:bg-[#F7B2B7]/40 transition-colors"
+        >
+          <X className="size-4" strokeWidth={3} />
+          Clear filters
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { FlameIcon, TriangleAlertIcon, PawPrint } from "lucide-react";
+import { SafetyBadge } from "./safety-badge";
+import { formatDisplayDate } from "@/lib/utils/format";
+import { termLabel } from "@/lib/utils/health-terms";
+import { useHealthVocabulary } from "@/lib/hooks/use-pets";
+import type { Recipe } from "@/lib/types/recipe.types";
+import type { Pet } from "@/lib/types/pet.types";
+
+interface RecipePrintCardProps {
+  recipe: Recipe;
+  pet?: Pet;
+}
+
+/**
+ * Compact, single-sheet version of a recipe for handing to a pet sitter.
+ * Sized to fit one A4/Letter page; long recipes shrink the step text rather
+ * than spill onto a second sheet.
+ */
+export function RecipePrintCard({ recipe, pet }: RecipePrintCardProps) {
+  const petName = pet?.name || recipe.petName;
+  const { data: vocabulary } = useHealthVocabulary();
+  const allergies = (pet?.allergies ?? []).map((a) => termLabel(vocabulary?.allergies, a));
+  const isLong = recipe.steps.length + recipe.ingredients.length > 18;
+
+  return (
+    <article className="mx-auto flex w-full max-w-[190mm] flex-col gap-5 rounded-[2rem] border-4 border-[#4A3B32] bg-white p-8 shadow-[8px_8px_0px_#4A3B32] print:rounded-none print:border-0 print:p-0 print:shadow-none break-inside-avoid">
+      <header className="flex flex-col gap-3 border-b-4 border-[#4A3B32] pb-4">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <h1 className="text-3xl font-black leading-tight text-[#4A3B32]">{recipe.title}</h1>
+          <SafetyBadge riskLevel={recipe.riskLevel} />
+        </div>
+        {recipe.description && (
+          <p className="text-base font-bold text-[#4A3B32]/70 leading-snug">{recipe.description}</p>
+        )}
+        <div className="flex flex-wrap gap-3 text-sm font-bold text-[#4A3B32]">
+          {petName && (
+            <span className="flex items-center gap-1.5 rounded-full border-2 border-[#4A3B32] px-3 py-1">
+              <PawPrint className="size-4" strokeWidth={3} />
+              For {petName}
+            </span>
+          )}
+          <span className="flex items-center gap-1.5 rounded-full border-2 border-[#4A3B32] px-3 py-1">
+            <FlameIcon className="size-4" strokeWidth={3} />
+            {recipe.estimatedCalories} kcal
+          </span>
+          {recipe.feedingPortions && (
+            <span className="rounded-full border-2 border-[#4A3B32] px-3 py-1">Portions: {recipe.feedingPortions}</span>
+          )}
+        </div>
+      </header>
+
+      <section className="rounded-2xl border-4 border-[#E88D72] bg-[#E88D72]/10 px-4 py-3">
+        <h2 className="text-sm font-black uppercase tracking-wider text-[#4A3B32]">Allergies</h2>
+        <p className="text-base font-bold text-[#4A3B32]">
+          {allergies.length > 0 ? allergies.join(", ") : "None recorded"}
+        </p>
+      </section>
+
+      <div className="grid grid-cols-[2fr_3fr] gap-6">
+        <section>
+          <h2 className="mb-2 text-lg font-black text-[#4A3B32]">Ingredients</h2>
+          <ul className="flex flex-col divide-y-2 divide-[#4A3B32]/10 text-sm font-bold text-[#4A3B32]">
+            {recipe.ingredients.map((ing, i) => (
+              <li key={i} className="flex items-baseline justify-between gap-3 py-1">
+                <span>{ing.name}</span>
+                <span className="shrink-0 text-[#4A3B32]/70">{ing.amount} {ing.unit}</span>
+              </li>
+            ))}
+          </ul>
+        </section>
+
+        <section>
+          <h2 className="mb-2 text-lg font-black text-[#4A3B32]">Steps</h2>
+          <ol className={`flex flex-col gap-2 font-bold text-[#4A3B32] ${isLong ? "text-xs" : "text-sm"} leading-snug`}>
+            {recipe.steps.map((step, i) => (
+              <li key={i} className="flex gap-2">
+                <span className="flex size-5 shrink-0 items-center justify-center rounded-full border-2 border-[#4A3B32] bg-[#F4D06F] text-[10px] font-black">
+                  {i + 1}
+                </span>
+                <span>{step}</span>
+              </li>
+            ))}
+          </ol>
+        </section>
+      </div>
+
+      {recipe.storageGuidance && (
+        <section>
+          <h2 className="mb-1 text-lg font-black text-[#4A3B32]">Storage</h2>
+          <p className="text-sm font-bold text-[#4A3B32]/80 leading-snug">{recipe.storageGuidance}</p>
+        </section>
+      )}
+
+      {recipe.cautionNotes.length > 0 && (
+        <section className="rounded-2xl border-4 border-[#F4D06F] bg-[#F4D06F]/15 px-4 py-3">
+          <h2 className="mb-1 flex items-center gap-2 text-sm font-black uppercase tracking-wider text-[#4A3B32]">
+            <TriangleAlertIcon className="size-4" strokeWidth={3} />
+            Caution
+          </h2>
+          <ul className="flex list-disc flex-col gap-1 pl-5 text-sm font-bold text-[#4A3B32]">
+            {recipe.cautionNotes.map((note, i) => (
+              <li key={i}>{note}</li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <footer className="border-t-2 border-[#4A3B32]/20 pt-2 text-xs font-bold text-[#4A3B32]/60">
+        Printed from PawfectBite on {formatDisplayDate(new Date())}. Always check with your vet before changing your pet&apos;s diet.
+      </footer>
+    </article>
+  );
+}
@@ -0,0 +1,95 @@
+"use client";
+
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { WandSparkles } from "lucide-react";
+import { useRefineRecipe } from "@/lib/hooks/use-recipes";
+import { ErrorAlert } from "@/components/shared/error-alert";
+import type { Recipe } from "@/lib/types/recipe.types";
+
+const FEEDBACK_EXAMPLES = ["Less rice, add pumpkin", "Make it lower in fat", "Swap chicken for turkey"];
+
+interface RecipeRefineFormProps {
+  recipe: Recipe;
+  onRefined: (refined: Recipe) => void;
+}
+
+export function RecipeRefineForm({ recipe, onRefined }: RecipeRefineFormProps) {
+  const [feedback, setFeedback] = useState("");
+  const refineRecipe = useRefineRecipe();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!feedback.trim()) return;
+    refineRecipe.mutate(
+      { recipeId: recipe.id, data: { feedback: feedback.trim() } },
+      {
+        onSuccess: (refined) => {
+          setFeedback("");
+          onRefined(refined);
+        },
+      }
+    );
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-4 rounded-[2rem] border-4 border-[#4A3B32] bg-[#FFF9F2] p-6 shadow-[6px_6px_0px_#4A3B32]">
+      <div>
+        <label htmlFor={`refine-${recipe.id}`} className="text-xl font-black text-[#4A3B32]">
+          Tweak this recipe
+        </label>
+        <p className="text-sm font-bold text-[#4A3B32]/60">
+          Tell us what to change — we&apos;ll re-run the safety check and save the result as version {recipe.version + 1}.
+        </p>
+      </div>
+
+      <textarea
+        id={`refine-${recipe.id}`}
+        value={feedback}
+        onChange={(e) => setFeedback(e.target.value)}
+        maxLength={1000}
+        rows={3}
+        placeholder="e.g. less rice, add pumpkin"
+        className="w-full px-5 py-4 rounded-2xl border-4 border-[#4A3B32] shadow-[4px_4px_0px_#4A3B32] text-lg font-bold bg-white focus:outline-none focus:shadow-[6px_6px_0px_#4A3B32] transition-all placeholder:text-[#4A3B32]/40 resize-none"
+      />
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex flex-wrap gap-2">
+          {FEEDBACK_EXAMPLES.map((example) => (
+            <button
+              key={example}
+              type="button"
+              onClick={() => setFeedback(example)}
+              className="px-3 py-1 rounded-full border-2 border-[#4A3B32] bg-white text-sm font-bold text-[#4A3B32] hover:bg-[#F4D06F]/40 transition-colors"
+            >
+              {example}
+            </button>
+          ))}
+        </div>
+        <motion.button
+          type="submit"
+          whileHover={refineRecipe.isPending ? {} : { scale: 1.02, y: -2 }}
+          whileTap={refineRecipe.isPending ? {} : { scale: 0.98, y: 0 }}
+          disabled={!feedback.trim() || refineRecipe.isPending}
+          className="flex items-center gap-2 px-6 py-3 rounded-full border-4 border-[#4A3B32] bg-[#B5A4E5] text-white font-black shadow-[4px_4px_0px_#4A3B32] transition-all hover:shadow-[6px_6px_0px_#4A3B32] disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {refineRecipe.isPending ? (
+            <>
+              <div className="w-5 h-5 border-4 border-[#4A3B32] border-t-white rounded-full animate-spin" />
+              Refining...
+            </>
+          ) : (
+            <>
+              <WandSparkles className="w-5 h-5" strokeWidth={3} />
+              Refine
+            </>
+          )}
+        </motion.button>
+      </div>
+
+      {refineRecipe.isError && (
+        <ErrorAlert message={refineRecipe.error.message || "Couldn't refine this recipe. Please try again."} />
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import { useState } from "react";
+import { cn } from "@/lib/utils";
+import type { UnitSystem } from "@/lib/utils/recipe-scaling";
+
+const MULTIPLIER_PRESETS = [
+  { value: 1, label: "1×" },
+  { value: 2, label: "2×" },
+  { value: 3, label: "3×" },
+  { value: 7, label: "Week" },
+];
+
+const UNIT_OPTIONS: { value: UnitSystem | null; label: string }[] = [
+  { value: null, label: "As written" },
+  { value: "metric", label: "Metric" },
+  { value: "imperial", label: "Imperial" },
+];
+
+const MAX_MULTIPLIER = 30;
+
+interface RecipeScaleControlsProps {
+  multiplier: number;
+  unitSystem: UnitSystem | null;
+  onMultiplierChange: (multiplier: number) => void;
+  onUnitSystemChange: (system: UnitSystem | null) => void;
+}
+
+function pillClass(active: boolean) {
+  return cn(
+    "px-4 py-1.5 rounded-full border-2 border-[#4A3B32] text-sm font-black transition-colors",
+    active ? "bg-[#4A3B32] text-white" : "bg-white text-[#4A3B32] hover:bg-[#FFF9F2]"
+  );
+}
+
+export function RecipeScaleControls({
+  multiplier,
+  unitSystem,
+  onMultiplierChange,
+  onUnitSystemChange,
+}: RecipeScaleControlsProps) {
+  // Holds the custom field's text while it's being typed, so it can be briefly empty or "2."
+  const [draft, setDraft] = useState<string | null>(null);
+
+  return (
+    <div className="flex flex-col gap-4 rounded-[2rem] border-4 border-[#4A3B32] bg-[#FFF9F2] p-5 shadow-[4px_4px_0px_#4A3B32] sm:flex-row sm:items-center sm:justify-between">
+      <div className="flex flex-wrap items-center gap-2" role="group" aria-label="Batch size">
+        <span className="mr-1 text-xs font-black uppercase tracking-wider text-[#4A3B32]/60">Batch</span>
+        {MULTIPLIER_PRESETS.map((preset) => (
+          <button
+            key={preset.value}
+            type="button"
+            aria-pressed={multiplier === preset.value}
+            onClick={() => onMultiplierChange(preset.value)}
+            className={pillClass(multiplier === preset.value)}
+          >
+            {preset.label}
+          </button>
+        ))}
+        <label className="flex items-center gap-1 text-sm font-black text-[#4A3B32]">
+          <input
+            type="number"
+            min={0.25}
+            max={MAX_MULTIPLIER}
+            step={0.25}
+            value={draft ?? multiplier}
+            onChange={(e) => {
+              setDraft(e.target.value);
+              const value = Number(e.target.value);
+              if (e.target.value !== "" && Number.isFinite(value) && value > 0) {
+                onMultiplierChange(Math.min(value, MAX_MULTIPLIER));
+              }
+            }}
+            onBlur={() => setDraft(null)}
+            aria-label="Custom multiplier"
+            className="w-20 rounded-full border-2 border-[#4A3B32] bg-white px-3 py-1 text-center font-black focus:outline-none"
+          />
+          ×
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2" role="group" aria-label="Units">
+        {UNIT_OPTIONS.map((option) => (
+          <button
+            key={option.label}
+            type="button"
+            aria-pressed={unitSystem === option.value}
+            onClick={() => onUnitSystemChange(option.value)}
+            className={pillClass(unitSystem === option.value)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { FlameIcon, MessageSquareQuote } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { diffIngredients, diffSteps, type DiffKind } from "@/lib/utils/recipe-diff";
+import type { Recipe, RecipeIngredient } from "@/lib/types/recipe.types";
+
+interface RecipeVersionDiffProps {
+  before: Recipe;
+  after: Recipe;
+}
+
+const CELL_STYLES: Record<DiffKind, { before: string; after: string }> = {
+  unchanged: { before: "bg-white", after: "bg-white" },
+  changed: { before: "bg-[#F4D06F]/25", after: "bg-[#F4D06F]/25" },
+  added: { before: "bg-transparent border-dashed opacity-40", after: "bg-[#98C9A3]/25" },
+  removed: { before: "bg-[#E88D72]/20 line-through", after: "bg-transparent border-dashed opacity-40" },
+};
+
+function formatIngredient(ing: RecipeIngredient | null) {
+  if (!ing) return null;
+  return (
+    <span className="flex items-baseline justify-between gap-3">
+      <span>{ing.name}</span>
+      <span className="text-[#4A3B32]/60 shrink-0">{ing.amount} {ing.unit}</span>
+    </span>
+  );
+}
+
+export function RecipeVersionDiff({ before, after }: RecipeVersionDiffProps) {
+  const ingredientRows = diffIngredients(before.ingredients, after.ingredients);
+  const stepRows = diffSteps(before.steps, after.steps);
+  const changedIngredients = ingredientRows.filter((r) => r.kind !== "unchanged").length;
+  const changedSteps = stepRows.filter((r) => r.kind !== "unchanged").length;
+
+  const header = (
+    <div className="grid grid-cols-2 gap-3 text-xs font-black uppercase tracking-wider text-[#4A3B32]/60">
+      <span>Version {before.version}</span>
+      <span>Version {after.version}</span>
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col gap-6">
+      {after.refinementFeedback && (
+        <div className="flex items-start gap-3 rounded-2xl border-4 border-[#4A3B32] bg-[#B5A4E5]/15 p-4">
+          <MessageSquareQuote className="w-5 h-5 shrink-0 text-[#B5A4E5]" strokeWidth={3} />
+          <p className="font-bold text-[#4A3B32]">&ldquo;{after.refinementFeedback}&rdquo;</p>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-3 text-sm font-bold text-[#4A3B32]/70">
+        <span className="flex items-center gap-2 bg-[#FFF9F2] px-4 py-2 rounded-full border-2 border-[#4A3B32]/10">
+          <FlameIcon className="size-4" strokeWidth={3} />
+          {before.estimatedCalories} → {after.estimatedCalories} kcal
+        </span>
+        <span className="bg-[#FFF9F2] px-4 py-2 rounded-full border-2 border-[#4A3B32]/10">
+          {changedIngredients} ingredient {changedIngredients === 1 ? "change" : "changes"}
+        </span>
+        <span className="bg-[#FFF9F2] px-4 py-2 rounded-full border-2 border-[#4A3B32]/10">
+          {changedSteps} step {changedSteps === 1 ? "change" : "changes"}
+        </span>
+      </div>
+
+      <section className="flex flex-col gap-3">
+        <h4 className="text-xl font-black text-[#4A3B32]">Ingredients</h4>
+        {header}
+        {ingredientRows.map((row, i) => (
+          <div key={i} className="grid grid-cols-2 gap-3 text-base font-bold text-[#4A3B32]">
+            <div className={cn("rounded-xl border-2 border-[#4A3B32] px-3 py-2 min-h-10", CELL_STYLES[row.kind].before)}>
+              {formatIngredient(row.before)}
+            </div>
+            <div className={cn("rounded-xl border-2 border-[#4A3B32] px-3 py-2 min-h-10", CELL_STYLES[row.kind].after)}>
+              {formatIngredient(row.after)}
+            </div>
+          </div>
+        ))}
+      </section>
+
+      <section className="flex flex-col gap-3">
+        <h4 className="text-xl font-black text-[#4A3B32]">Steps</h4>
+        {header}
+        {stepRows.map((row, i) => (
+          <div key={i} className="grid grid-cols-2 gap-3 text-sm font-bold text-[#4A3B32] leading-relaxed">
+            <div className={cn("rounded-xl border-2 border-[#4A3B32] px-3 py-2", CELL_STYLES[row.kind].before)}>
+              {row.before}
+            </div>
+            <div className={cn("rounded-xl border-2 border-[#4A3B32] px-3 py-2", CELL_STYLES[row.kind].after)}>
+              {row.after}
+            </div>
+          </div>
+        ))}
+      </section>
+    </div>
+  );
+}
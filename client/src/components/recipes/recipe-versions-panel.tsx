@@ -0,0 +1,66 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { History, GitCompareArrows } from "lucide-react";
+import { useRecipeVersions } from "@/lib/hooks/use-recipes";
+import { RecipeRefineForm } from "@/components/recipes/recipe-refine-form";
+import { RecipeVersionDiff } from "@/components/recipes/recipe-version-diff";
+import { cn } from "@/lib/utils";
+import type { Recipe } from "@/lib/types/recipe.types";
+
+interface RecipeVersionsPanelProps {
+  recipe: Recipe;
+}
+
+export function RecipeVersionsPanel({ recipe }: RecipeVersionsPanelProps) {
+  const router = useRouter();
+  const { data: versions } = useRecipeVersions(recipe.id);
+  const [showChanges, setShowChanges] = useState(false);
+
+  const parent = versions?.find((v) => v.id === recipe.parentRecipeId);
+
+  return (
+    <div className="flex flex-col gap-6">
+      {versions && versions.length > 1 && (
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="flex items-center gap-2 text-sm font-black uppercase tracking-wider text-[#4A3B32]/60">
+            <History className="size-4" strokeWidth={3} />
+            Versions
+          </span>
+          {versions.map((v) => (
+            <Link
+              key={v.id}
+              href={`/recipes/${v.id}`}
+              aria-current={v.id === recipe.id ? "page" : undefined}
+              title={v.refinementFeedback ?? "Original recipe"}
+              className={cn(
+                "px-4 py-1.5 rounded-full border-2 border-[#4A3B32] text-sm font-black transition-colors",
+                v.id === recipe.id ? "bg-[#4A3B32] text-white" : "bg-white text-[#4A3B32] hover:bg-[#FFF9F2]"
+              )}
+            >
+              v{v.version}
+            </Link>
+          ))}
+        </div>
+      )}
+
+      {parent && (
+        <div className="flex flex-col gap-6">
+          <button
+            onClick={() => setShowChanges((s) => !s)}
+            aria-expanded={showChanges}
+            className="flex items-center gap-2 self-start px-5 py-2 rounded-full border-4 border-[#4A3B32] bg-white text-[#4A3B32] font-black shadow-[3px_3px_0px_#4A3B32] hover:bg-[#FFF9F2] transition-colors"
+          >
+            <GitCompareArrows className="size-5" strokeWidth={3} />
+            {showChanges ? "Hide changes" : `Compare with v${parent.version}`}
+          </button>
+          {showChanges && <RecipeVersionDiff before={parent} after={recipe} />}
+        </div>
+      )}
+
+      <RecipeRefineForm recipe={recipe} onRefined={(refined) => router.push(`/recipes/${refined.id}`)} />
+    </div>
+  );
+}
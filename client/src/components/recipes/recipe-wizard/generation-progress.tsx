@@ -0,0 +1,116 @@
+"use client";
+
+import { CheckIcon, XIcon } from "lucide-react";
+import { motion, AnimatePresence } from "framer-motion";
+import type { GenerationStage, GenerationVariant, RecipeDraft } from "@/lib/types/recipe.types";
+
+interface GenerationProgressProps {
+  stage: GenerationStage | null;
+  variant: GenerationVariant | null;
+  /** The recipe so far for each variant, indexed by variant number - 1. */
+  drafts: RecipeDraft[];
+  onCancel: () => void;
+}
+
+const STAGES: { stage: GenerationStage; label: string }[] = [
+  { stage: "RETRIEVING_KNOWLEDGE", label: "Looking up ingredient & nutrition knowledge" },
+  { stage: "WRITING", label: "Writing the recipe" },
+  { stage: "VALIDATING", label: "Double-checking it against the safety rules" },
+  { stage: "SAVING", label: "Saving your recipe" },
+];
+
+export function GenerationProgress({ stage, variant, drafts, onCancel }: GenerationProgressProps) {
+  // Before the first event arrives the server is still running the safety check
+  const current = stage ? STAGES.findIndex((s) => s.stage === stage) : -1;
+  const variantIndex = variant ? variant.variantNumber - 1 : 0;
+  const draft = drafts[variantIndex] ?? null;
+  const finished = drafts.slice(0, variantIndex).filter((d) => d?.title);
+
+  return (
+    <div className="flex flex-col gap-6" aria-live="polite">
+      {variant && variant.variantCount > 1 && (
+        <div className="flex flex-col gap-3">
+          <span className="text-xl font-black text-[#4A3B32]">
+            Variant {variant.variantNumber} of {variant.variantCount}
+          </span>
+          {finished.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {finished.map((d, i) => (
+                <span
+                  key={i}
+                  className="flex items-center gap-1.5 rounded-full border-2 border-[#4A3B32] bg-[#98C9A3]/30 px-3 py-1 text-sm font-bold text-[#4A3B32]"
+                >
+                  <CheckIcon className="w-3.5 h-3.5" strokeWidth={4} />
+                  {d.title}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <ol className="flex flex-col gap-3">
+        {STAGES.map((s, i) => {
+          const done = i < current;
+          const active = i === current;
+          return (
+            <li
+              key={s.stage}
+              className={`flex items-center gap-4 p-4 rounded-2xl border-4 border-[#4A3B32] transition-colors ${
+                active ? "bg-[#FFD89B] shadow-[4px_4px_0px_#4A3B32]" : done ? "bg-[#98C9A3]/30" : "bg-white opacity-60"
+              }`}
+            >
+              <div className="w-9 h-9 shrink-0 rounded-full border-4 border-[#4A3B32] bg-white flex items-center justify-center">
+                {done ? (
+                  <CheckIcon className="w-4 h-4 text-[#4A3B32]" strokeWidth={4} />
+                ) : active ? (
+                  <div className="w-4 h-4 border-[3px] border-[#4A3B32] border-t-transparent rounded-full animate-spin" />
+                ) : (
+                  <span className="text-sm font-black text-[#4A3B32]">{i + 1}</span>
+                )}
+              </div>
+              <span className="text-lg font-bold text-[#4A3B32]">{s.label}</span>
+            </li>
+          );
+        })}
+      </ol>
+
+      {draft && (draft.title || draft.ingredients.length > 0) && (
+        <div className="flex flex-col gap-3 p-6 rounded-2xl border-4 border-dashed border-[#4A3B32] bg-[#FFF9F2]">
+          <span className="text-xs font-black uppercase tracking-widest text-[#4A3B32]/60">Taking shape…</span>
+          {draft.title && <h3 className="text-2xl font-black text-[#4A3B32]">{draft.title}</h3>}
+          <ul className="flex flex-col gap-2">
+            <AnimatePresence initial={false}>
+              {draft.ingredients.map((ingredient, i) => (
+                <motion.li
+                  key={`${i}-${ingredient.name}`}
+                  initial={{ opacity: 0, x: -10 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  className="flex items-baseline gap-2 font-bold text-[#4A3B32]"
+                >
+                  <span className="w-2 h-2 shrink-0 rounded-full bg-[#E88D72] translate-y-[-2px]" />
+                  <span>{ingredient.name}</span>
+                  <span className="text-[#4A3B32]/60">
+                    {ingredient.amount} {ingredient.unit}
+                  </span>
+                </motion.li>
+              ))}
+            </AnimatePresence>
+          </ul>
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <motion.button
+          whileHover={{ scale: 1.02, y: -2 }}
+          whileTap={{ scale: 0.98, y: 0 }}
+          onClick={onCancel}
+          className="px-6 py-3 rounded-full border-4 border-[#4A3B32] bg-white text-[#4A3B32] font-black shadow-[4px_4px_0px_#4A3B32] transition-all hover:bg-[#F7B2B7] hover:shadow-[6px_6px_0px_#4A3B32] flex items-center gap-2"
+        >
+          <XIcon className="w-5 h-5" strokeWidth={3} />
+          Cancel
+        </motion.button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { HelpCircleIcon, SkullIcon, XIcon } from "lucide-react";
+import { RISK_LEVEL_CONFIG } from "@/components/recipes/safety-badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import type { IngredientMatch } from "@/lib/types/ingredient.types";
+import type { IngredientSafety } from "@/lib/types/recipe.types";
+
+interface IngredientTagProps {
+  name: string;
+  match: IngredientMatch | undefined;
+  /** Live safety hint for ingredients to include; omitted for exclusions. */
+  safety?: IngredientSafety;
+  className: string;
+  onRemove: () => void;
+}
+
+export function matchTitle(match: IngredientMatch | undefined) {
+  if (match?.status === "toxic") return `${match.suggestion?.name} is toxic to pets`;
+  if (match?.status === "unknown") {
+    return match.suggestion
+      ? `Not in our ingredient database. Did you mean “${match.suggestion.name}”?`
+      : "Not in our ingredient database";
+  }
+  return undefined;
+}
+
+function MatchIcon({ match }: { match: IngredientMatch | undefined }) {
+  if (match?.status === "toxic") return <SkullIcon className="w-4 h-4" strokeWidth={3} aria-label="Toxic" />;
+  if (match?.status === "unknown") return <HelpCircleIcon className="w-4 h-4" strokeWidth={3} aria-label="Not recognised" />;
+  return null;
+}
+
+function TagChip({ name, match, className, onRemove, icon }: Omit<IngredientTagProps, "safety"> & { icon?: ReactNode }) {
+  return (
+    <div
+      className={cn(
+        "flex items-center gap-2 rounded-full border-4 border-[#4A3B32] pl-4 pr-1.5 py-1.5 text-base font-black shadow-[2px_2px_0px_#4A3B32] transition-colors",
+        match?.status === "unknown" && "border-dashed",
+        className
+      )}
+    >
+      {icon ?? <MatchIcon match={match} />}
+      {name}
+      <button
+        onClick={onRemove}
+        className="rounded-full p-1 bg-white border-2 border-[#4A3B32] text-[#4A3B32] hover:bg-[#FFF9F2] transition-colors"
+      >
+        <XIcon className="w-4 h-4" strokeWidth={3} />
+      </button>
+    </div>
+  );
+}
+
+/**
+ * A chosen ingredient. Exclusions only flag names we don't recognise; ingredients to
+ * include are also coloured by their live safety check, with the warnings in a tooltip.
+ */
+export function IngredientTag({ name, match, safety, className, onRemove }: IngredientTagProps) {
+  if (safety === undefined) {
+    return (
+      <span title={matchTitle(match)}>
+        <TagChip name={name} match={match} className={className} onRemove={onRemove} />
+      </span>
+    );
+  }
+
+  const { icon: RiskIcon, label, className: riskClass } = RISK_LEVEL_CONFIG[safety.riskLevel];
+  const note = matchTitle(match);
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span tabIndex={0} className="rounded-full focus:outline-none focus-visible:ring-4 focus-visible:ring-[#F4D06F]">
+          <TagChip
+            name={name}
+            match={match}
+            className={riskClass}
+            onRemove={onRemove}
+            icon={match?.status === "toxic" ? undefined : <RiskIcon className="w-4 h-4" strokeWidth={3} aria-label={label} />}
+          />
+        </span>
+      </TooltipTrigger>
+      <TooltipContent side="bottom" sideOffset={6} className="max-w-xs">
+        <div className="flex flex-col gap-1.5">
+          <span className="font-black">{label}</span>
+          {safety.warnings.length === 0 ? (
+            <span className="font-medium">No safety concerns found for this ingredient.</span>
+          ) : (
+            safety.warnings.map((w, i) => (
+              <span key={i} className="font-medium">
+                {w.message}
+              </span>
+            ))
+          )}
+          {note && <span className="font-medium text-[#4A3B32]/60">{note}</span>}
+        </div>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,171 @@
+"use client";
+
+import { useState } from "react";
+import { CheckIcon, FlameIcon } from "lucide-react";
+import { motion } from "framer-motion";
+import { SafetyBadge } from "@/components/recipes/safety-badge";
+import { ErrorAlert } from "@/components/shared/error-alert";
+import { useBulkDeleteRecipes, useSaveRecipe } from "@/lib/hooks/use-recipes";
+import { compareVariants, type IngredientSharing } from "@/lib/utils/recipe-variants";
+import { cn } from "@/lib/utils";
+import type { Recipe } from "@/lib/types/recipe.types";
+
+interface StepCompareVariantsProps {
+  variants: Recipe[];
+  /** Called with the variants that were saved once the others have been dealt with. */
+  onDone: (saved: Recipe[]) => void;
+}
+
+const SHARING_STYLES: Record<IngredientSharing, { label: string; className: string }> = {
+  all: { label: "In every variant", className: "bg-[#FFF9F2] text-[#4A3B32]/50" },
+  some: { label: "Shared", className: "bg-[#F4D06F]/30 text-[#4A3B32]" },
+  unique: { label: "Only here", className: "bg-[#98C9A3]/30 text-[#4A3B32]" },
+};
+
+export function StepCompareVariants({ variants, onDone }: StepCompareVariantsProps) {
+  const saveRecipe = useSaveRecipe();
+  const bulkDelete = useBulkDeleteRecipes();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [deleteOthers, setDeleteOthers] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const comparisons = compareVariants(variants);
+  const error = saveRecipe.error ?? bulkDelete.error;
+
+  const toggle = (recipeId: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(recipeId)) next.delete(recipeId);
+      else next.add(recipeId);
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSubmitting(true);
+    try {
+      const saved = await Promise.all(
+        variants.filter((v) => selected.has(v.id)).map((v) => saveRecipe.mutateAsync(v.id))
+      );
+      const others = variants.filter((v) => !selected.has(v.id)).map((v) => v.id);
+      // Otherwise they stay in the recipe list as drafts
+      if (deleteOthers && others.length > 0) await bulkDelete.mutateAsync(others);
+      onDone(saved);
+    } catch {
+      // Reported below; whatever was saved before the failure stays saved
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-8">
+      <p className="text-lg font-bold text-[#4A3B32]/70">
+        Pick the variants you&apos;d like to keep. Highlighted ingredients are what sets each one apart.
+      </p>
+
+      <div className="grid gap-5 sm:grid-cols-2">
+        {comparisons.map(({ recipe, ingredients, sharedCount }) => {
+          const isSelected = selected.has(recipe.id);
+          return (
+            <button
+              key={recipe.id}
+              type="button"
+              onClick={() => toggle(recipe.id)}
+              aria-pressed={isSelected}
+              className={cn(
+                "relative flex flex-col gap-4 p-5 rounded-3xl border-4 border-[#4A3B32] text-left transition-all",
+                isSelected
+                  ? "bg-[#FFD89B]/40 shadow-[6px_6px_0px_#4A3B32] -translate-y-1"
+                  : "bg-white shadow-[4px_4px_0px_#4A3B32] hover:bg-[#FFF9F2]"
+              )}
+            >
+              <div
+                className={cn(
+                  "absolute top-4 right-4 w-8 h-8 rounded-full border-4 border-[#4A3B32] flex items-center justify-center",
+                  isSelected ? "bg-[#98C9A3]" : "bg-white"
+                )}
+              >
+                {isSelected && <CheckIcon className="w-4 h-4 text-white" strokeWidth={4} />}
+              </div>
+
+              <h3 className="text-xl font-black text-[#4A3B32] pr-10">{recipe.title}</h3>
+
+              <div className="flex flex-wrap items-center gap-2">
+                <SafetyBadge riskLevel={recipe.riskLevel} className="text-sm px-3" />
+                <span className="flex items-center gap-1.5 bg-[#FFF9F2] px-3 py-1 rounded-full border-2 border-[#4A3B32]/10 text-sm font-bold text-[#4A3B32]/70">
+                  <FlameIcon className="size-4" strokeWidth={3} />
+                  {recipe.estimatedCalories} kcal
+                </span>
+                <span className="bg-[#FFF9F2] px-3 py-1 rounded-full border-2 border-[#4A3B32]/10 text-sm font-bold text-[#4A3B32]/70">
+                  {sharedCount}/{ingredients.length} shared
+                </span>
+              </div>
+
+              <ul className="flex flex-col gap-1.5">
+                {ingredients.map((ing, i) => (
+                  <li
+                    key={i}
+                    title={SHARING_STYLES[ing.sharing].label}
+                    className={cn(
+                      "flex items-baseline justify-between gap-3 rounded-xl px-3 py-1.5 text-sm font-bold",
+                      SHARING_STYLES[ing.sharing].className
+                    )}
+                  >
+                    <span>{ing.name}</span>
+                    <span className="shrink-0 opacity-60">
+                      {ing.amount} {ing.unit}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-xs font-black uppercase tracking-wider text-[#4A3B32]/60">
+        {(Object.keys(SHARING_STYLES) as IngredientSharing[]).map((sharing) => (
+          <span key={sharing} className="flex items-center gap-2">
+            <span className={cn("w-4 h-4 rounded border-2 border-[#4A3B32]/20", SHARING_STYLES[sharing].className)} />
+            {SHARING_STYLES[sharing].label}
+          </span>
+        ))}
+      </div>
+
+      {error && <ErrorAlert message={error.message || "Couldn't save your selection."} />}
+
+      {/* Buttons */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 pt-6 border-t-4 border-[#4A3B32]/10">
+        <label className="flex items-center gap-3 font-bold text-[#4A3B32] cursor-pointer">
+          <input
+            type="checkbox"
+            checked={deleteOthers}
+            onChange={(e) => setDeleteOthers(e.target.checked)}
+            className="w-5 h-5 accent-[#E88D72]"
+          />
+          Delete the variants I don&apos;t keep
+        </label>
+        <motion.button
+          whileHover={selected.size === 0 || isSubmitting ? {} : { scale: 1.02, y: -2 }}
+          whileTap={selected.size === 0 || isSubmitting ? {} : { scale: 0.98, y: 0 }}
+          onClick={handleSave}
+          disabled={selected.size === 0 || isSubmitting}
+          className={`px-8 py-4 rounded-full border-4 border-[#4A3B32] font-black text-lg shadow-[4px_4px_0px_#4A3B32] transition-all flex items-center justify-center min-w-[220px] ${
+            selected.size === 0 || isSubmitting
+              ? "bg-gray-200 text-gray-400 cursor-not-allowed shadow-none"
+              : "bg-[#E88D72] text-white hover:shadow-[6px_6px_0px_#4A3B32]"
+          }`}
+        >
+          {isSubmitting ? (
+            <div className="flex items-center gap-3">
+              <div className="w-6 h-6 border-4 border-[#4A3B32] border-t-white rounded-full animate-spin" />
+              Saving...
+            </div>
+          ) : (
+            `Save ${selected.size > 0 ? `${selected.size} ` : ""}Selected`
+          )}
+        </motion.button>
+      </div>
+    </div>
+  );
+}
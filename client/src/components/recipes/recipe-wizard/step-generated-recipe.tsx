@@ -1,17 +1,24 @@
 "use client";
 
+import { useState } from "react";
 import { RecipeDetailView } from "@/components/recipes/recipe-detail-view";
+import { RecipeRefineForm } from "@/components/recipes/recipe-refine-form";
+import { RecipeVersionDiff } from "@/components/recipes/recipe-version-diff";
 import { useSaveRecipe } from "@/lib/hooks/use-recipes";
 import { motion } from "framer-motion";
 import type { Recipe } from "@/lib/types/recipe.types";
 
 interface StepGeneratedRecipeProps {
   recipe: Recipe;
+  /** The version this one was refined from, if any — enables the changes view. */
+  previousRecipe: Recipe | null;
+  onRefined: (refined: Recipe) => void;
   onDone: () => void;
 }
 
-export function StepGeneratedRecipe({ recipe, onDone }: StepGeneratedRecipeProps) {
+export function StepGeneratedRecipe({ recipe, previousRecipe, onRefined, onDone }: StepGeneratedRecipeProps) {
   const saveRecipe = useSaveRecipe();
+  const [showChanges, setShowChanges] = useState(false);
 
   const handleSave = async () => {
     await saveRecipe.mutateAsync(recipe.id);
@@ -20,7 +27,36 @@ export function StepGeneratedRecipe({ recipe, onDone }: StepGeneratedRecipeProps
 
   return (
     <div className="flex flex-col gap-8">
-      <RecipeDetailView recipe={recipe} />
+      {previousRecipe && (
+        <div className="flex rounded-full border-4 border-[#4A3B32] bg-white p-1 shadow-[3px_3px_0px_#4A3B32] self-start">
+          {[false, true].map((value) => (
+            <button
+              key={String(value)}
+              onClick={() => setShowChanges(value)}
+              aria-pressed={showChanges === value}
+              className={`px-4 py-1.5 rounded-full text-sm font-black transition-colors ${
+                showChanges === value ? "bg-[#4A3B32] text-white" : "text-[#4A3B32] hover:bg-[#FFF9F2]"
+              }`}
+            >
+              {value ? `Changes from v${previousRecipe.version}` : `Version ${recipe.version}`}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {previousRecipe && showChanges ? (
+        <RecipeVersionDiff before={previousRecipe} after={recipe} />
+      ) : (
+        <RecipeDetailView recipe={recipe} />
+      )}
+
+      <RecipeRefineForm
+        recipe={recipe}
+        onRefined={(refined) => {
+          setShowChanges(true);
+          onRefined(refined);
+        }}
+      />
 
       {/* Buttons */}
       <div className="flex justify-between pt-6 border-t-4 border-[#4A3B32]/10">
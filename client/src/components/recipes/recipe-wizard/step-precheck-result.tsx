@@ -3,16 +3,34 @@
 import { ShieldAlertIcon } from "lucide-react";
 import { motion } from "framer-motion";
 import { SafetyBadge } from "@/components/recipes/safety-badge";
-import type { PrecheckResult } from "@/lib/types/recipe.types";
+import { GenerationProgress } from "@/components/recipes/recipe-wizard/generation-progress";
+import { ErrorAlert } from "@/components/shared/error-alert";
+import type { GenerationStage, GenerationVariant, PrecheckResult, RecipeDraft } from "@/lib/types/recipe.types";
 
 interface StepPrecheckResultProps {
   result: PrecheckResult;
   onProceed: () => void;
   isGenerating: boolean;
+  stage: GenerationStage | null;
+  variant: GenerationVariant | null;
+  drafts: RecipeDraft[];
+  onCancel: () => void;
+  /** Why the last generation failed; cancelling isn't a failure and leaves this null. */
+  error: string | null;
   onBack: () => void;
 }
 
-export function StepPrecheckResult({ result, onProceed, isGenerating, onBack }: StepPrecheckResultProps) {
+export function StepPrecheckResult({
+  result,
+  onProceed,
+  isGenerating,
+  stage,
+  variant,
+  drafts,
+  onCancel,
+  error,
+  onBack,
+}: StepPrecheckResultProps) {
   return (
     <div className="flex flex-col gap-6">
       <div className="flex items-center gap-4 bg-white p-6 rounded-2xl border-4 border-[#4A3B32] shadow-[4px_4px_0px_#4A3B32]">
@@ -41,39 +59,35 @@ export function StepPrecheckResult({ result, onProceed, isGenerating, onBack }:
         </div>
       )}
 
+      {error && !isGenerating && <ErrorAlert message={error} />}
+
       {/* Buttons */}
-      <div className="flex justify-between pt-6 border-t-4 border-[#4A3B32]/10 mt-2">
-        <motion.button
-          whileHover={{ scale: 1.02, y: -2 }}
-          whileTap={{ scale: 0.98, y: 0 }}
-          onClick={onBack}
-          className="px-8 py-4 rounded-full border-4 border-[#4A3B32] bg-white text-[#4A3B32] font-black text-lg shadow-[4px_4px_0px_#4A3B32] transition-all hover:bg-[#FFF9F2] hover:shadow-[6px_6px_0px_#4A3B32]"
-        >
-          Back
-        </motion.button>
-        {result.canProceed && (
+      {isGenerating ? (
+        <div className="pt-6 border-t-4 border-[#4A3B32]/10 mt-2">
+          <GenerationProgress stage={stage} variant={variant} drafts={drafts} onCancel={onCancel} />
+        </div>
+      ) : (
+        <div className="flex justify-between pt-6 border-t-4 border-[#4A3B32]/10 mt-2">
           <motion.button
-            whileHover={isGenerating ? {} : { scale: 1.02, y: -2 }}
-            whileTap={isGenerating ? {} : { scale: 0.98, y: 0 }}
-            onClick={onProceed}
-            disabled={isGenerating}
-            className={`px-8 py-4 rounded-full border-4 border-[#4A3B32] font-black text-lg shadow-[4px_4px_0px_#4A3B32] transition-all flex items-center justify-center min-w-[220px] ${
-              isGenerating
-                ? "bg-gray-200 text-gray-400 cursor-not-allowed shadow-none"
-                : "bg-[#98C9A3] text-white hover:shadow-[6px_6px_0px_#4A3B32]"
-            }`}
+            whileHover={{ scale: 1.02, y: -2 }}
+            whileTap={{ scale: 0.98, y: 0 }}
+            onClick={onBack}
+            className="px-8 py-4 rounded-full border-4 border-[#4A3B32] bg-white text-[#4A3B32] font-black text-lg shadow-[4px_4px_0px_#4A3B32] transition-all hover:bg-[#FFF9F2] hover:shadow-[6px_6px_0px_#4A3B32]"
           >
-            {isGenerating ? (
-              <div className="flex items-center gap-3">
-                <div className="w-6 h-6 border-4 border-[#4A3B32] border-t-white rounded-full animate-spin" />
-                Generating...
-              </div>
-            ) : (
-              "Generate Recipe"
-            )}
+            Back
           </motion.button>
-        )}
-      </div>
+          {result.canProceed && (
+            <motion.button
+              whileHover={{ scale: 1.02, y: -2 }}
+              whileTap={{ scale: 0.98, y: 0 }}
+              onClick={onProceed}
+              className="px-8 py-4 rounded-full border-4 border-[#4A3B32] font-black text-lg shadow-[4px_4px_0px_#4A3B32] transition-all flex items-center justify-center min-w-[220px] bg-[#98C9A3] text-white hover:shadow-[6px_6px_0px_#4A3B32]"
+            >
+              {error ? "Try Again" : "Generate Recipe"}
+            </motion.button>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -1,25 +1,36 @@
 "use client";
 
 import { useState } from "react";
-import { XIcon } from "lucide-react";
 import { motion } from "framer-motion";
+import { IngredientCombobox } from "@/components/shared/ingredient-combobox";
+import { TooltipProvider } from "@/components/ui/tooltip";
+import { IngredientTag } from "./ingredient-tag";
+import { useIngredientMatches } from "@/lib/hooks/use-ingredients";
+import { useIngredientSafety } from "@/lib/hooks/use-recipes";
+
+export interface RecipePreferences {
+  goal: string;
+  ingredientsToInclude: string[];
+  ingredientsToExclude: string[];
+  variantCount: number;
+}
 
 interface StepPreferencesProps {
-  onSubmit: (prefs: {
-    goal: string;
-    ingredientsToInclude: string[];
-    ingredientsToExclude: string[];
-  }) => void;
+  petId: string;
+  /** Answers already filled in, e.g. from the encyclopedia or a draft resumed after signing in. */
+  initialValues?: Partial<RecipePreferences>;
+  onSubmit: (prefs: RecipePreferences) => void;
   isLoading: boolean;
   onBack: () => void;
 }
 
-export function StepPreferences({ onSubmit, isLoading, onBack }: StepPreferencesProps) {
-  const [goal, setGoal] = useState("");
+export function StepPreferences({ petId, initialValues = {}, onSubmit, isLoading, onBack }: StepPreferencesProps) {
+  const [goal, setGoal] = useState(initialValues.goal ?? "");
   const [includeInput, setIncludeInput] = useState("");
   const [excludeInput, setExcludeInput] = useState("");
-  const [includes, setIncludes] = useState<string[]>([]);
-  const [excludes, setExcludes] = useState<string[]>([]);
+  const [includes, setIncludes] = useState<string[]>(initialValues.ingredientsToInclude ?? []);
+  const [excludes, setExcludes] = useState<string[]>(initialValues.ingredientsToExclude ?? []);
+  const [variantCount, setVariantCount] = useState(initialValues.variantCount ?? 1);
 
   const addTag = (value: string, list: string[], setter: (v: string[]) => void, inputSetter: (v: string) => void) => {
     const trimmed = value.trim();
@@ -33,6 +44,17 @@ export function StepPreferences({ onSubmit, isLoading, onBack }: StepPreferences
     setter(list.filter((_, i) => i !== index));
   };
 
+  const replaceTag = (from: string, to: string, list: string[], setter: (v: string[]) => void) => {
+    setter(list.includes(to) ? list.filter((t) => t !== from) : list.map((t) => (t === from ? to : t)));
+  };
+
+  const matches = useIngredientMatches([...includes, ...excludes]);
+  const safety = useIngredientSafety(petId, includes);
+  const unknown = [
+    ...includes.map((name) => ({ name, list: includes, setter: setIncludes })),
+    ...excludes.map((name) => ({ name, list: excludes, setter: setExcludes })),
+  ].filter(({ name }) => matches[name]?.status === "unknown");
+
   return (
     <div className="flex flex-col gap-8">
       {/* Goal */}
@@ -50,17 +72,12 @@ export function StepPreferences({ onSubmit, isLoading, onBack }: StepPreferences
       <div className="flex flex-col gap-3">
         <label className="text-xl font-black text-[#4A3B32]">Ingredients to Include</label>
         <div className="flex gap-3">
-          <input
+          <IngredientCombobox
             value={includeInput}
-            onChange={(e) => setIncludeInput(e.target.value)}
-            onKeyDown={(e) => {
-              if (e.key === "Enter") {
-                e.preventDefault();
-                addTag(includeInput, includes, setIncludes, setIncludeInput);
-              }
-            }}
+            onChange={setIncludeInput}
+            onCommit={(name) => addTag(name, includes, setIncludes, setIncludeInput)}
             placeholder="e.g. chicken, rice..."
-            className="flex-1 h-14 px-5 rounded-2xl border-4 border-[#4A3B32] shadow-[4px_4px_0px_#4A3B32] text-lg font-bold bg-white focus:outline-none focus:shadow-[6px_6px_0px_#4A3B32] transition-all placeholder:text-[#4A3B32]/40"
+            className="h-14 px-5 rounded-2xl border-4 border-[#4A3B32] shadow-[4px_4px_0px_#4A3B32] text-lg font-bold bg-white focus:outline-none focus:shadow-[6px_6px_0px_#4A3B32] transition-all placeholder:text-[#4A3B32]/40"
           />
           <motion.button
             type="button"
@@ -74,17 +91,19 @@ export function StepPreferences({ onSubmit, isLoading, onBack }: StepPreferences
         </div>
         {includes.length > 0 && (
           <div className="flex flex-wrap gap-3 mt-1">
-            {includes.map((t, i) => (
-              <div key={i} className="flex items-center gap-2 rounded-full border-4 border-[#4A3B32] bg-[#98C9A3] pl-4 pr-1.5 py-1.5 text-base font-black text-white shadow-[2px_2px_0px_#4A3B32]">
-                {t}
-                <button
-                  onClick={() => removeTag(i, includes, setIncludes)}
-                  className="rounded-full p-1 bg-white border-2 border-[#4A3B32] text-[#4A3B32] hover:bg-[#FFF9F2] transition-colors"
-                >
-                  <XIcon className="w-4 h-4" strokeWidth={3} />
-                </button>
-              </div>
-            ))}
+            <TooltipProvider delayDuration={150}>
+              {includes.map((t, i) => (
+                <IngredientTag
+                  key={i}
+                  name={t}
+                  match={matches[t]}
+                  safety={safety[t]}
+                  // Until its safety check has come back
+                  className="bg-[#FFF9F2] text-[#4A3B32]"
+                  onRemove={() => removeTag(i, includes, setIncludes)}
+                />
+              ))}
+            </TooltipProvider>
           </div>
         )}
       </div>
@@ -93,17 +112,12 @@ export function StepPreferences({ onSubmit, isLoading, onBack }: StepPreferences
       <div className="flex flex-col gap-3">
         <label className="text-xl font-black text-[#4A3B32]">Ingredients to Exclude</label>
         <div className="flex gap-3">
-          <input
+          <IngredientCombobox
             value={excludeInput}
-            onChange={(e) => setExcludeInput(e.target.value)}
-            onKeyDown={(e) => {
-              if (e.key === "Enter") {
-                e.preventDefault();
-                addTag(excludeInput, excludes, setExcludes, setExcludeInput);
-              }
-            }}
+            onChange={setExcludeInput}
+            onCommit={(name) => addTag(name, excludes, setExcludes, setExcludeInput)}
             placeholder="e.g. beef, dairy..."
-            className="flex-1 h-14 px-5 rounded-2xl border-4 border-[#4A3B32] shadow-[4px_4px_0px_#4A3B32] text-lg font-bold bg-white focus:outline-none focus:shadow-[6px_6px_0px_#4A3B32] transition-all placeholder:text-[#4A3B32]/40"
+            className="h-14 px-5 rounded-2xl border-4 border-[#4A3B32] shadow-[4px_4px_0px_#4A3B32] text-lg font-bold bg-white focus:outline-none focus:shadow-[6px_6px_0px_#4A3B32] transition-all placeholder:text-[#4A3B32]/40"
           />
           <motion.button
             type="button"
@@ -118,20 +132,70 @@ export function StepPreferences({ onSubmit, isLoading, onBack }: StepPreferences
         {excludes.length > 0 && (
           <div className="flex flex-wrap gap-3 mt-1">
             {excludes.map((t, i) => (
-              <div key={i} className="flex items-center gap-2 rounded-full border-4 border-[#4A3B32] bg-[#F7B2B7] pl-4 pr-1.5 py-1.5 text-base font-black text-[#4A3B32] shadow-[2px_2px_0px_#4A3B32]">
-                {t}
-                <button
-                  onClick={() => removeTag(i, excludes, setExcludes)}
-                  className="rounded-full p-1 bg-white border-2 border-[#4A3B32] text-[#4A3B32] hover:bg-[#FFF9F2] transition-colors"
-                >
-                  <XIcon className="w-4 h-4" strokeWidth={3} />
-                </button>
-              </div>
+              <IngredientTag
+                key={i}
+                name={t}
+                match={matches[t]}
+                className={`text-[#4A3B32] ${matches[t]?.status === "unknown" ? "bg-white" : "bg-[#F7B2B7]"}`}
+                onRemove={() => removeTag(i, excludes, setExcludes)}
+              />
             ))}
           </div>
         )}
       </div>
 
+      {unknown.length > 0 && (
+        <div className="flex flex-col gap-3 p-5 rounded-2xl border-4 border-dashed border-[#4A3B32] bg-[#FFD89B]/30">
+          <span className="font-black text-[#4A3B32]">
+            We don&apos;t recognise {unknown.length === 1 ? "this ingredient" : "these ingredients"}, so the safety check can&apos;t match {unknown.length === 1 ? "it" : "them"} against our database:
+          </span>
+          <ul className="flex flex-col gap-2">
+            {unknown.map(({ name, list, setter }) => {
+              const suggestion = matches[name]?.suggestion;
+              return (
+                <li key={name} className="flex flex-wrap items-center gap-2 font-bold text-[#4A3B32]">
+                  <span className="line-through decoration-2 decoration-[#E88D72]">{name}</span>
+                  {suggestion && (
+                    <button
+                      type="button"
+                      onClick={() => replaceTag(name, suggestion.name, list, setter)}
+                      className="rounded-full border-2 border-[#4A3B32] bg-white px-3 py-0.5 text-sm font-black hover:bg-[#98C9A3] hover:text-white transition-colors"
+                    >
+                      Use “{suggestion.name}”{suggestion.toxic ? " (toxic!)" : ""}
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      {/* Variants */}
+      <div className="flex flex-col gap-3">
+        <label className="text-xl font-black text-[#4A3B32]">How many recipes?</label>
+        <p className="text-base font-bold text-[#4A3B32]/60 -mt-2">
+          Ask for up to 4 variants, e.g. with different proteins, to compare side by side.
+        </p>
+        <div className="flex gap-3">
+          {[1, 2, 3, 4].map((count) => (
+            <button
+              key={count}
+              type="button"
+              onClick={() => setVariantCount(count)}
+              aria-pressed={variantCount === count}
+              className={`w-14 h-14 rounded-2xl border-4 border-[#4A3B32] text-lg font-black transition-all ${
+                variantCount === count
+                  ? "bg-[#FFD89B] text-[#4A3B32] shadow-[4px_4px_0px_#4A3B32]"
+                  : "bg-white text-[#4A3B32]/60 hover:bg-[#FFF9F2]"
+              }`}
+            >
+              {count}
+            </button>
+          ))}
+        </div>
+      </div>
+
       {/* Buttons */}
       <div className="flex justify-between pt-6 border-t-4 border-[#4A3B32]/10 mt-2">
         <motion.button
@@ -145,7 +209,7 @@ export function StepPreferences({ onSubmit, isLoading, onBack }: StepPreferences
         <motion.button
           whileHover={!goal || isLoading ? {} : { scale: 1.02, y: -2 }}
           whileTap={!goal || isLoading ? {} : { scale: 0.98, y: 0 }}
-          onClick={() => onSubmit({ goal, ingredientsToInclude: includes, ingredientsToExclude: excludes })}
+          onClick={() => onSubmit({ goal, ingredientsToInclude: includes, ingredientsToExclude: excludes, variantCount })}
           disabled={!goal || isLoading}
           className={`px-8 py-4 rounded-full border-4 border-[#4A3B32] font-black text-lg shadow-[4px_4px_0px_#4A3B32] transition-all flex items-center justify-center min-w-[220px] ${
             !goal || isLoading
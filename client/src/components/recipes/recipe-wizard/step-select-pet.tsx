@@ -3,7 +3,9 @@
 import { DogIcon, CatIcon } from "lucide-react";
 import { motion } from "framer-motion";
 import Image from "next/image";
+import { useSession } from "next-auth/react";
 import { usePets } from "@/lib/hooks/use-pets";
+import { useGuestPets } from "@/lib/hooks/use-guest";
 import { LoadingSpinner } from "@/components/shared/loading-spinner";
 
 interface StepSelectPetProps {
@@ -11,7 +13,11 @@ interface StepSelectPetProps {
 }
 
 export function StepSelectPet({ onSelect }: StepSelectPetProps) {
-  const { data: pets, isLoading } = usePets();
+  const { status } = useSession();
+  const isGuest = status === "unauthenticated";
+  const accountPets = usePets({ enabled: status === "authenticated" });
+  const guestPets = useGuestPets({ enabled: isGuest });
+  const { data: pets, isLoading } = isGuest ? guestPets : accountPets;
 
   if (isLoading) return <LoadingSpinner message="Loading your pets..." color="yellow" />;
 
@@ -8,7 +8,7 @@ interface SafetyBadgeProps {
   className?: string;
 }
 
-const config: Record<RiskLevel, { icon: typeof ShieldCheckIcon; label: string; className: string }> = {
+export const RISK_LEVEL_CONFIG: Record<RiskLevel, { icon: typeof ShieldCheckIcon; label: string; className: string }> = {
   GREEN: { icon: ShieldCheckIcon, label: "Safe", className: "bg-[#98C9A3] text-white" },
   AMBER: { icon: ShieldAlertIcon, label: "Caution", className: "bg-[#F4D06F] text-[#4A3B32]" },
   RED: { icon: ShieldXIcon, label: "High Risk", className: "bg-[#E88D72] text-white" },
@@ -16,7 +16,7 @@ const config: Record<RiskLevel, { icon: typeof ShieldCheckIcon; label: string; c
 };
 
 export function SafetyBadge({ riskLevel, className }: SafetyBadgeProps) {
-  const { icon: Icon, label, className: colorClass } = config[riskLevel];
+  const { icon: Icon, label, className: colorClass } = RISK_LEVEL_CONFIG[riskLevel];
 
   return (
     <Badge variant="default" className={cn("gap-2 rounded-full font-black text-base px-4 py-1", colorClass, className)}>
@@ -0,0 +1,151 @@
+"use client";
+
+import { useEffect, useId, useState } from "react";
+import { CatIcon, DogIcon, SkullIcon } from "lucide-react";
+import { useIngredientSearch } from "@/lib/hooks/use-ingredients";
+import { cn } from "@/lib/utils";
+import { formatCategory } from "@/lib/utils/ingredient-catalog";
+import type { IngredientSuggestion } from "@/lib/types/ingredient.types";
+import type { Species } from "@/lib/types/pet.types";
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+interface IngredientComboboxProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Called with a picked suggestion's name, or the typed text when Enter is pressed without one. */
+  onCommit: (name: string) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+const SPECIES: { species: Species; icon: typeof DogIcon; label: string }[] = [
+  { species: "DOG", icon: DogIcon, label: "dogs" },
+  { species: "CAT", icon: CatIcon, label: "cats" },
+];
+
+function SuggestionRow({ suggestion }: { suggestion: IngredientSuggestion }) {
+  return (
+    <span className="flex items-center justify-between gap-3 w-full">
+      <span className="flex items-center gap-2 min-w-0">
+        {suggestion.toxic && <SkullIcon className="w-4 h-4 shrink-0 text-[#E88D72]" strokeWidth={3} />}
+        <span className="truncate">{suggestion.name}</span>
+      </span>
+      <span className="flex items-center gap-1.5 shrink-0">
+        {suggestion.category && (
+          <span
+            className={cn(
+              "rounded-full border-2 border-[#4A3B32]/20 px-2 py-0.5 text-[10px] font-black uppercase tracking-wider",
+              suggestion.toxic ? "bg-[#E88D72] text-white" : "bg-[#FFF9F2] text-[#4A3B32]/70"
+            )}
+          >
+            {formatCategory(suggestion.category)}
+          </span>
+        )}
+        {!suggestion.toxic &&
+          SPECIES.map(({ species, icon: Icon, label }) => {
+            const safe = suggestion.speciesSafe.includes(species);
+            return (
+              <Icon
+                key={species}
+                className={cn("w-4 h-4", safe ? "text-[#98C9A3]" : "text-[#4A3B32]/20")}
+                strokeWidth={3}
+                aria-label={safe ? `Safe for ${label}` : `Not marked safe for ${label}`}
+              />
+            );
+          })}
+      </span>
+    </span>
+  );
+}
+
+/**
+ * Free-text ingredient input with suggestions from the knowledge base. Typing
+ * is never restricted; anything that matches nothing can be flagged by the
+ * caller with `useIngredientMatches`.
+ */
+export function IngredientCombobox({ value, onChange, onCommit, placeholder, className }: IngredientComboboxProps) {
+  const listId = useId();
+  const [query, setQuery] = useState(value);
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(value), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [value]);
+
+  const { data: suggestions = [] } = useIngredientSearch(query);
+  const visible = open && value.trim().length > 0 && suggestions.length > 0;
+
+  const commit = (name: string) => {
+    onCommit(name);
+    setOpen(false);
+    setHighlighted(-1);
+  };
+
+  return (
+    <div className="relative flex-1">
+      <input
+        role="combobox"
+        aria-expanded={visible}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={visible && highlighted >= 0 ? `${listId}-${highlighted}` : undefined}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+          setHighlighted(-1);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={(e) => {
+          if (e.key === "ArrowDown" && visible) {
+            e.preventDefault();
+            setHighlighted((i) => (i + 1) % suggestions.length);
+          } else if (e.key === "ArrowUp" && visible) {
+            e.preventDefault();
+            setHighlighted((i) => (i <= 0 ? suggestions.length - 1 : i - 1));
+          } else if (e.key === "Escape") {
+            setOpen(false);
+          } else if (e.key === "Enter") {
+            e.preventDefault();
+            const picked = visible && highlighted >= 0 ? suggestions[highlighted] : null;
+            commit(picked ? picked.name : value);
+          }
+        }}
+        placeholder={placeholder}
+        className={cn("w-full", className)}
+      />
+      {visible && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute left-0 right-0 top-full z-20 mt-2 max-h-72 overflow-y-auto rounded-2xl border-4 border-[#4A3B32] bg-white p-1.5 shadow-[4px_4px_0px_#4A3B32]"
+        >
+          {suggestions.map((suggestion, i) => (
+            <li
+              key={suggestion.id ?? suggestion.name}
+              id={`${listId}-${i}`}
+              role="option"
+              aria-selected={i === highlighted}
+              // Fires before the input's blur would close the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                commit(suggestion.name);
+              }}
+              onMouseEnter={() => setHighlighted(i)}
+              className={cn(
+                "cursor-pointer rounded-xl px-3 py-2 text-sm font-bold text-[#4A3B32]",
+                i === highlighted && "bg-[#FFD89B]/50"
+              )}
+            >
+              <SuggestionRow suggestion={suggestion} />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
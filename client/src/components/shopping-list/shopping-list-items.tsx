@@ -0,0 +1,50 @@
+"use client";
+
+import { motion } from "framer-motion";
+import { Checkbox } from "@/components/ui/checkbox";
+import { cn } from "@/lib/utils";
+import { formatItemQuantity, type ShoppingListItem } from "@/lib/utils/shopping-list";
+
+interface ShoppingListItemsProps {
+  items: ShoppingListItem[];
+  checked: Set<string>;
+  onToggle: (itemKey: string) => void;
+}
+
+export function ShoppingListItems({ items, checked, onToggle }: ShoppingListItemsProps) {
+  return (
+    <ul className="flex flex-col gap-3">
+      {items.map((item, i) => {
+        const isChecked = checked.has(item.key);
+        const id = `shopping-item-${i}`;
+        return (
+          <motion.li
+            key={item.key}
+            initial={{ opacity: 0, y: 8 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: Math.min(i * 0.03, 0.3) }}
+            className={cn(
+              "flex items-start gap-4 rounded-2xl border-4 border-[#4A3B32] p-4 shadow-[4px_4px_0px_#4A3B32] transition-colors",
+              isChecked ? "bg-[#98C9A3]/15" : "bg-white"
+            )}
+          >
+            <Checkbox id={id} checked={isChecked} onCheckedChange={() => onToggle(item.key)} className="mt-0.5" />
+            <label htmlFor={id} className="flex min-w-0 flex-1 cursor-pointer flex-col gap-1">
+              <div className="flex flex-wrap items-baseline justify-between gap-x-4 gap-y-1">
+                <span className={cn("text-lg font-black text-[#4A3B32]", isChecked && "line-through opacity-50")}>
+                  {item.name}
+                </span>
+                <span className={cn("text-base font-black text-[#E88D72]", isChecked && "opacity-50")}>
+                  {formatItemQuantity(item)}
+                </span>
+              </div>
+              <span className="text-xs font-bold text-[#4A3B32]/60">
+                For {item.recipeTitles.join(", ")}
+              </span>
+            </label>
+          </motion.li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,7 @@
+import { apiClient, type RequestOptions } from "./client";
+import type { Breed, Species } from "@/lib/types/pet.types";
+
+export const breedsApi = {
+  list: (species?: Species, options?: RequestOptions) =>
+    apiClient.get<Breed[]>(species ? `/api/breeds?species=${species}` : "/api/breeds", options),
+};
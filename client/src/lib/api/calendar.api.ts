@@ -1,13 +1,15 @@
-import { apiClient } from "./client";
+import { apiClient, type RequestOptions } from "./client";
 import type {
   CalendarEntry,
   CreateCalendarEntryRequest,
+  CreateCalendarSeriesRequest,
   UpdateCalendarEntryRequest,
+  UpdateCalendarSeriesRequest,
 } from "@/lib/types/calendar.types";
 
 export const calendarApi = {
-  getEntries: (petId: string, month: string) =>
-    apiClient.get<CalendarEntry[]>(`/api/calendar?petId=${petId}&month=${month}`),
+  getEntries: (petId: string, month: string, options?: RequestOptions) =>
+    apiClient.get<CalendarEntry[]>(`/api/calendar?petId=${petId}&month=${month}`, options),
 
   create: (data: CreateCalendarEntryRequest) =>
     apiClient.post<CalendarEntry>("/api/calendar/entries", data),
@@ -17,4 +19,13 @@ export const calendarApi = {
 
   delete: (entryId: string) =>
     apiClient.delete<void>(`/api/calendar/entries/${entryId}`),
+
+  createSeries: (data: CreateCalendarSeriesRequest) =>
+    apiClient.post<CalendarEntry[]>("/api/calendar/series", data),
+
+  updateSeries: (seriesId: string, data: UpdateCalendarSeriesRequest) =>
+    apiClient.put<CalendarEntry[]>(`/api/calendar/series/${seriesId}`, data),
+
+  deleteSeries: (seriesId: string) =>
+    apiClient.delete<void>(`/api/calendar/series/${seriesId}`),
 };
@@ -3,107 +3,399 @@ import { type ApiResponse } from "@/lib/types/api.types";
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:8080";
 
+const DEFAULT_TIMEOUT_MS = 15_000;
+const DEFAULT_RETRIES = 2;
+const BACKOFF_BASE_MS = 400;
+const BACKOFF_MAX_MS = 5_000;
+
+/** Only methods that are safe to send twice are retried automatically. */
+const IDEMPOTENT_METHODS = new Set(["GET", "PUT", "DELETE"]);
+const RETRYABLE_STATUSES = new Set([408, 429, 502, 503, 504]);
+
+/**
+ * Codes the client assigns itself, for failures that never produced an
+ * `ApiResponse` from the backend. Backend codes (`NOT_FOUND`,
+ * `VALIDATION_ERROR`, ...) pass through unchanged.
+ */
+export type ClientErrorCode =
+  | "NETWORK"
+  | "TIMEOUT"
+  | "ABORTED"
+  | "UNAUTHORIZED"
+  | "BAD_GATEWAY"
+  | "SERVICE_UNAVAILABLE"
+  | "GATEWAY_TIMEOUT"
+  | "INVALID_RESPONSE"
+  | "UNKNOWN";
+
+export type ApiErrorCode = ClientErrorCode | (string & {});
+
+export interface RequestOptions {
+  /** Cancels the request, e.g. TanStack Query's `signal` when a query is no longer needed. */
+  signal?: AbortSignal;
+  /** Per-attempt limit before the request fails with `TIMEOUT`. */
+  timeoutMs?: number;
+  /** Extra attempts after a network error, timeout or transient status. Defaults to 2 for GET/PUT/DELETE and 0 otherwise. */
+  retries?: number;
+}
+
+export interface UploadOptions extends RequestOptions {
+  /** Called with the fraction of the file sent so far, from 0 to 1. */
+  onProgress?: (progress: number) => void;
+  /** Form fields sent along with the file. */
+  fields?: Record<string, string>;
+}
+
+const STATUS_CODES: Record<number, ClientErrorCode> = {
+  401: "UNAUTHORIZED",
+  502: "BAD_GATEWAY",
+  503: "SERVICE_UNAVAILABLE",
+  504: "GATEWAY_TIMEOUT",
+};
+
+const CLIENT_MESSAGES: Record<ClientErrorCode, string> = {
+  NETWORK: "Couldn't reach PawfectBite. Check your connection and try again.",
+  TIMEOUT: "The server took too long to respond. Please try again.",
+  ABORTED: "The request was cancelled.",
+  UNAUTHORIZED: "Session expired. Please sign in again.",
+  BAD_GATEWAY: "PawfectBite is temporarily unavailable. Please try again in a moment.",
+  SERVICE_UNAVAILABLE: "PawfectBite is temporarily unavailable. Please try again in a moment.",
+  GATEWAY_TIMEOUT: "The server took too long to respond. Please try again.",
+  INVALID_RESPONSE: "The server sent a response we couldn't read.",
+  UNKNOWN: "Something went wrong. Please try again.",
+};
+
+function backoffDelay(attempt: number): number {
+  const exponential = Math.min(BACKOFF_BASE_MS * 2 ** attempt, BACKOFF_MAX_MS);
+  // Full jitter so many clients recovering from the same outage don't retry in lockstep
+  return Math.random() * exponential;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new ApiClientError("ABORTED", CLIENT_MESSAGES.ABORTED, 0));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ApiClientError("ABORTED", CLIENT_MESSAGES.ABORTED, 0));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function parseBody<T>(text: string): ApiResponse<T> | null {
+  if (!text) return { data: null, error: null, meta: { timestamp: "" } };
+  try {
+    return JSON.parse(text) as ApiResponse<T>;
+  } catch {
+    // nginx and load balancers answer with HTML error pages
+    return null;
+  }
+}
+
+/** Why a fetch or body read threw: the caller's signal, our own timeout, or the connection itself. */
+function connectionError(signal: AbortSignal | undefined, controller: AbortController): ApiClientError {
+  if (signal?.aborted) return new ApiClientError("ABORTED", CLIENT_MESSAGES.ABORTED, 0);
+  if (controller.signal.aborted) return new ApiClientError("TIMEOUT", CLIENT_MESSAGES.TIMEOUT, 0);
+  return new ApiClientError("NETWORK", CLIENT_MESSAGES.NETWORK, 0);
+}
+
+function responseError(response: Pick<Response, "status" | "ok">, parsed: ApiResponse<unknown> | null): ApiClientError {
+  if (response.status === 401) {
+    return new ApiClientError("UNAUTHORIZED", CLIENT_MESSAGES.UNAUTHORIZED, 401);
+  }
+  if (!parsed) {
+    const code = response.ok ? "INVALID_RESPONSE" : (STATUS_CODES[response.status] ?? "UNKNOWN");
+    return new ApiClientError(code, CLIENT_MESSAGES[code], response.status);
+  }
+  const code = parsed.error?.code ?? STATUS_CODES[response.status] ?? "UNKNOWN";
+  const message = parsed.error?.message ?? `Request failed with status ${response.status}`;
+  return new ApiClientError(code, message, response.status);
+}
+
+interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+function parseEvent(frame: string): ServerSentEvent | null {
+  let event = "message";
+  const data: string[] = [];
+  for (const line of frame.split(/\r?\n/)) {
+    if (line.startsWith("event:")) event = line.slice(6).trim();
+    else if (line.startsWith("data:")) data.push(line.slice(5).replace(/^ /, ""));
+  }
+  return data.length > 0 ? { event, data: data.join("\n") } : null;
+}
+
+/** Final events of a stream; their data is an `ApiResponse` envelope. */
+const TERMINAL_EVENTS = new Set(["complete", "error"]);
+
+type TokenRefresher = () => Promise<string | null>;
+
 class ApiClient {
   private token: string | null = null;
+  private refresher: TokenRefresher | null = null;
+  private refreshing: Promise<string | null> | null = null;
 
   setToken(token: string | null) {
     this.token = token;
   }
 
-  private async request<T>(path: string, options: RequestInit = {}): Promise<T> {
-    const headers: HeadersInit = {
-      "Content-Type": "application/json",
-      ...options.headers,
-    };
-
-    if (this.token) {
-      (headers as Record<string, string>)["Authorization"] = `Bearer ${this.token}`;
-    }
+  /** Registers how to obtain a new access token after a 401; it should resolve to null if that fails. */
+  setTokenRefresher(refresher: TokenRefresher | null) {
+    this.refresher = refresher;
+  }
 
-    const response = await fetch(`${API_BASE_URL}${path}`, {
-      ...options,
-      headers,
-    });
+  /** Shares one refresh between every request that hit a 401 at the same time. */
+  private refreshToken(): Promise<string | null> {
+    if (!this.refresher) return Promise.resolve(null);
+    this.refreshing ??= this.refresher()
+      .catch(() => null)
+      .finally(() => {
+        this.refreshing = null;
+      });
+    return this.refreshing;
+  }
 
-    if (response.status === 401) {
-      await signOut({ redirectTo: "/sign-in" });
-      throw new ApiClientError("UNAUTHORIZED", "Session expired. Please sign in again.", 401);
-    }
+  private async attempt<T>(method: string, path: string, body: BodyInit | undefined, options: RequestOptions): Promise<T> {
+    const headers: Record<string, string> = {};
+    // FormData sets its own multipart boundary
+    if (!(body instanceof FormData)) headers["Content-Type"] = "application/json";
+    if (this.token) headers["Authorization"] = `Bearer ${this.token}`;
 
-    const text = await response.text();
-    const body: ApiResponse<T> = text ? JSON.parse(text) : { data: null as unknown as T };
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener("abort", onAbort, { once: true });
 
-    if (!response.ok || body.error) {
-      const message = body.error?.message ?? `Request failed with status ${response.status}`;
-      throw new ApiClientError(body.error?.code ?? "UNKNOWN", message, response.status);
+    let response: Response;
+    let text: string;
+    try {
+      response = await fetch(`${API_BASE_URL}${path}`, { method, headers, body, signal: controller.signal });
+      text = await response.text();
+    } catch {
+      throw connectionError(options.signal, controller);
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onAbort);
     }
 
-    return body.data as T;
-  }
+    const parsed = parseBody<T>(text);
+    if (!response.ok || !parsed || parsed.error) throw responseError(response, parsed);
 
-  async get<T>(path: string): Promise<T> {
-    return this.request<T>(path, { method: "GET" });
+    return parsed.data as T;
   }
 
-  async post<T>(path: string, data?: unknown): Promise<T> {
-    return this.request<T>(path, {
-      method: "POST",
-      body: data ? JSON.stringify(data) : undefined,
-    });
+  /** Like `attempt`, but reads the body as server-sent events and resolves with the data of the final one. */
+  private async attemptStream<T>(
+    path: string,
+    body: string,
+    onEvent: (event: string, data: unknown) => void,
+    options: RequestOptions
+  ): Promise<T> {
+    const headers: Record<string, string> = { "Content-Type": "application/json", Accept: "text/event-stream" };
+    if (this.token) headers["Authorization"] = `Bearer ${this.token}`;
+
+    const controller = new AbortController();
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    let timer = setTimeout(() => controller.abort(), timeoutMs);
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      let response: Response;
+      try {
+        response = await fetch(`${API_BASE_URL}${path}`, { method: "POST", headers, body, signal: controller.signal });
+      } catch {
+        throw connectionError(options.signal, controller);
+      }
+
+      if (!response.ok || !response.body) {
+        const text = await response.text().catch(() => "");
+        throw responseError(response, parseBody(text));
+      }
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = "";
+      for (;;) {
+        let chunk: ReadableStreamReadResult<string>;
+        try {
+          chunk = await reader.read();
+        } catch {
+          throw connectionError(options.signal, controller);
+        }
+        if (chunk.done) break;
+
+        // The timeout measures silence, since a healthy stream can run for minutes
+        clearTimeout(timer);
+        timer = setTimeout(() => controller.abort(), timeoutMs);
+
+        buffer += chunk.value;
+        const frames = buffer.split(/\r?\n\r?\n/);
+        buffer = frames.pop() ?? "";
+
+        for (const frame of frames) {
+          const event = parseEvent(frame);
+          if (!event) continue;
+
+          if (TERMINAL_EVENTS.has(event.event)) {
+            await reader.cancel().catch(() => undefined);
+            const parsed = parseBody<T>(event.data);
+            if (!parsed || parsed.error) throw responseError(response, parsed);
+            return parsed.data as T;
+          }
+
+          try {
+            onEvent(event.event, JSON.parse(event.data));
+          } catch {
+            // Progress events are best-effort; a malformed one shouldn't sink the whole stream
+          }
+        }
+      }
+
+      // The connection closed before the server said how it ended
+      throw new ApiClientError("NETWORK", CLIENT_MESSAGES.NETWORK, 0);
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onAbort);
+    }
   }
 
-  async put<T>(path: string, data?: unknown): Promise<T> {
-    return this.request<T>(path, {
-      method: "PUT",
-      body: data ? JSON.stringify(data) : undefined,
+  /** Like `attempt`, but over XMLHttpRequest, since fetch can't report how much of a request body has been sent. */
+  private attemptUpload<T>(path: string, body: FormData, options: UploadOptions): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (options.signal?.aborted) return reject(new ApiClientError("ABORTED", CLIENT_MESSAGES.ABORTED, 0));
+
+      const xhr = new XMLHttpRequest();
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+      const onAbort = () => controller.abort();
+      options.signal?.addEventListener("abort", onAbort, { once: true });
+      controller.signal.addEventListener("abort", () => xhr.abort(), { once: true });
+
+      const cleanup = () => {
+        clearTimeout(timer);
+        options.signal?.removeEventListener("abort", onAbort);
+      };
+      const fail = () => {
+        cleanup();
+        reject(connectionError(options.signal, controller));
+      };
+
+      xhr.open("POST", `${API_BASE_URL}${path}`);
+      if (this.token) xhr.setRequestHeader("Authorization", `Bearer ${this.token}`);
+      xhr.upload.onprogress = (e) => {
+        if (e.lengthComputable) options.onProgress?.(e.loaded / e.total);
+      };
+      xhr.onload = () => {
+        cleanup();
+        const parsed = parseBody<T>(xhr.responseText);
+        const ok = xhr.status >= 200 && xhr.status < 300;
+        if (!ok || !parsed || parsed.error) reject(responseError({ status: xhr.status, ok }, parsed));
+        else resolve(parsed.data as T);
+      };
+      xhr.onerror = fail;
+      xhr.onabort = fail;
+      xhr.send(body);
     });
   }
 
-  async delete<T>(path: string): Promise<T> {
-    return this.request<T>(path, { method: "DELETE" });
+  private async request<T>(method: string, path: string, body?: BodyInit, options: RequestOptions = {}): Promise<T> {
+    return this.withRetries(method, () => this.attempt<T>(method, path, body, options), options);
   }
 
-  async upload<T>(path: string, file: File, fieldName = "file"): Promise<T> {
-    const formData = new FormData();
-    formData.append(fieldName, file);
+  private async withRetries<T>(method: string, send: () => Promise<T>, options: RequestOptions): Promise<T> {
+    const retries = options.retries ?? (IDEMPOTENT_METHODS.has(method) ? DEFAULT_RETRIES : 0);
+    let refreshed = false;
 
-    const headers: Record<string, string> = {};
-    if (this.token) {
-      headers["Authorization"] = `Bearer ${this.token}`;
-    }
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await send();
+      } catch (error) {
+        if (!(error instanceof ApiClientError)) throw error;
 
-    const response = await fetch(`${API_BASE_URL}${path}`, {
-      method: "POST",
-      headers,
-      body: formData,
-    });
+        if (error.status === 401) {
+          // The server never processed the request, so it's safe to send again with a new token
+          const token = refreshed ? null : await this.refreshToken();
+          if (!token) {
+            await signOut({ redirectTo: "/sign-in" });
+            throw error;
+          }
+          refreshed = true;
+          this.token = token;
+          attempt--;
+          continue;
+        }
 
-    if (response.status === 401) {
-      await signOut({ redirectTo: "/sign-in" });
-      throw new ApiClientError("UNAUTHORIZED", "Session expired. Please sign in again.", 401);
+        if (!error.isRetryable || attempt >= retries) throw error;
+        await sleep(backoffDelay(attempt), options.signal);
+      }
     }
+  }
+
+  async get<T>(path: string, options?: RequestOptions): Promise<T> {
+    return this.request<T>("GET", path, undefined, options);
+  }
 
-    const text = await response.text();
-    const body: ApiResponse<T> = text ? JSON.parse(text) : { data: null as unknown as T };
+  async post<T>(path: string, data?: unknown, options?: RequestOptions): Promise<T> {
+    return this.request<T>("POST", path, data ? JSON.stringify(data) : undefined, options);
+  }
 
-    if (!response.ok || body.error) {
-      const message = body.error?.message ?? `Request failed with status ${response.status}`;
-      throw new ApiClientError(body.error?.code ?? "UNKNOWN", message, response.status);
-    }
+  async put<T>(path: string, data?: unknown, options?: RequestOptions): Promise<T> {
+    return this.request<T>("PUT", path, data ? JSON.stringify(data) : undefined, options);
+  }
 
-    return body.data as T;
+  async delete<T>(path: string, options?: RequestOptions): Promise<T> {
+    return this.request<T>("DELETE", path, undefined, options);
+  }
+
+  async upload<T>(path: string, file: File, fieldName = "file", options?: UploadOptions): Promise<T> {
+    const formData = new FormData();
+    formData.append(fieldName, file);
+    for (const [name, value] of Object.entries(options?.fields ?? {})) formData.append(name, value);
+    const uploadOptions = { timeoutMs: 60_000, ...options };
+    return this.withRetries("POST", () => this.attemptUpload<T>(path, formData, uploadOptions), uploadOptions);
+  }
+
+  /**
+   * POSTs `data` and reads the reply as server-sent events. Progress events go to `onEvent`;
+   * the stream ends with a `complete` event carrying the result or an `error` event that
+   * rejects like a failed request. `timeoutMs` limits the silence between events, not the
+   * whole stream, and POSTs are not retried unless `retries` says so.
+   */
+  async stream<T>(
+    path: string,
+    data: unknown,
+    onEvent: (event: string, data: unknown) => void,
+    options: RequestOptions = {}
+  ): Promise<T> {
+    const body = JSON.stringify(data);
+    return this.withRetries("POST", () => this.attemptStream<T>(path, body, onEvent, options), options);
   }
 }
 
 export class ApiClientError extends Error {
   constructor(
-    public readonly code: string,
+    public readonly code: ApiErrorCode,
     message: string,
     public readonly status: number
   ) {
     super(message);
     this.name = "ApiClientError";
   }
+
+  /** The request never got a usable answer, so the server may not have seen it at all. */
+  get isConnectionError(): boolean {
+    return this.code === "NETWORK" || this.code === "TIMEOUT";
+  }
+
+  get isRetryable(): boolean {
+    return this.isConnectionError || RETRYABLE_STATUSES.has(this.status);
+  }
 }
 
 export const apiClient = new ApiClient();
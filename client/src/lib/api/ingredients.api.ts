@@ -0,0 +1,21 @@
+import { apiClient, type RequestOptions } from "./client";
+import type { Ingredient, IngredientSuggestion, NutritionGuidance } from "@/lib/types/ingredient.types";
+
+export const ingredientsApi = {
+  list: (options?: RequestOptions) => apiClient.get<Ingredient[]>("/api/ingredients", options),
+
+  get: (ingredientId: string, options?: RequestOptions) =>
+    apiClient.get<Ingredient>(`/api/ingredients/${ingredientId}`, options),
+
+  search: (q: string, limit?: number, options?: RequestOptions) => {
+    const query = new URLSearchParams({ q });
+    if (limit !== undefined) query.set("limit", String(limit));
+    return apiClient.get<IngredientSuggestion[]>(`/api/ingredients/search?${query}`, options);
+  },
+
+  relatedGuidance: (ingredientId: string, options?: RequestOptions) =>
+    apiClient.get<NutritionGuidance[]>(`/api/ingredients/${ingredientId}/guidance`, options),
+
+  guidance: (guidanceId: string, options?: RequestOptions) =>
+    apiClient.get<NutritionGuidance>(`/api/guidance/${guidanceId}`, options),
+};
@@ -1,10 +1,21 @@
-import { apiClient } from "./client";
-import type { Pet, CreatePetRequest, UpdatePetRequest } from "@/lib/types/pet.types";
+import { apiClient, type RequestOptions, type UploadOptions } from "./client";
+import type {
+  Pet,
+  CreatePetRequest,
+  UpdatePetRequest,
+  WeightEntry,
+  CreateWeightEntryRequest,
+  PetPhoto,
+  PetPhotoDetails,
+  HealthVocabulary,
+  PetHealthReview,
+  HealthCodeMapping,
+} from "@/lib/types/pet.types";
 
 export const petsApi = {
-  list: () => apiClient.get<Pet[]>("/api/pets"),
+  list: (options?: RequestOptions) => apiClient.get<Pet[]>("/api/pets", options),
 
-  getById: (petId: string) => apiClient.get<Pet>(`/api/pets/${petId}`),
+  getById: (petId: string, options?: RequestOptions) => apiClient.get<Pet>(`/api/pets/${petId}`, options),
 
   create: (data: CreatePetRequest) => apiClient.post<Pet>("/api/pets", data),
 
@@ -13,9 +24,48 @@ export const petsApi = {
 
   delete: (petId: string) => apiClient.delete<void>(`/api/pets/${petId}`),
 
-  uploadPhoto: (petId: string, file: File) =>
-    apiClient.upload<Pet>(`/api/pets/${petId}/photo`, file),
+  uploadPhoto: (petId: string, file: File, options?: UploadOptions) =>
+    apiClient.upload<Pet>(`/api/pets/${petId}/photo`, file, "file", options),
 
   deletePhoto: (petId: string) =>
     apiClient.delete<Pet>(`/api/pets/${petId}/photo`),
+
+  listPhotos: (petId: string, options?: RequestOptions) =>
+    apiClient.get<PetPhoto[]>(`/api/pets/${petId}/photos`, options),
+
+  addPhoto: (petId: string, file: File, details: PetPhotoDetails, options?: UploadOptions) =>
+    apiClient.upload<PetPhoto>(`/api/pets/${petId}/photos`, file, "file", {
+      ...options,
+      fields: Object.fromEntries(Object.entries(details).filter(([, value]) => value != null)),
+    }),
+
+  updatePhoto: (petId: string, photoId: string, details: PetPhotoDetails) =>
+    apiClient.put<PetPhoto>(`/api/pets/${petId}/photos/${photoId}`, details),
+
+  reorderPhotos: (petId: string, photoIds: string[]) =>
+    apiClient.put<PetPhoto[]>(`/api/pets/${petId}/photos/order`, { photoIds }),
+
+  setAvatar: (petId: string, photoId: string) =>
+    apiClient.put<Pet>(`/api/pets/${petId}/photos/${photoId}/avatar`),
+
+  deleteGalleryPhoto: (petId: string, photoId: string) =>
+    apiClient.delete<void>(`/api/pets/${petId}/photos/${photoId}`),
+
+  healthVocabulary: (options?: RequestOptions) =>
+    apiClient.get<HealthVocabulary>("/api/health-vocabulary", options),
+
+  healthReview: (options?: RequestOptions) =>
+    apiClient.get<PetHealthReview[]>("/api/pets/health-review", options),
+
+  applyHealthCodes: (petId: string, mappings: HealthCodeMapping[]) =>
+    apiClient.put<Pet>(`/api/pets/${petId}/health-codes`, { mappings }),
+
+  listWeights: (petId: string, options?: RequestOptions) =>
+    apiClient.get<WeightEntry[]>(`/api/pets/${petId}/weights`, options),
+
+  logWeight: (petId: string, data: CreateWeightEntryRequest) =>
+    apiClient.post<WeightEntry>(`/api/pets/${petId}/weights`, data),
+
+  deleteWeight: (petId: string, entryId: string) =>
+    apiClient.delete<void>(`/api/pets/${petId}/weights/${entryId}`),
 };
@@ -1,29 +1,96 @@
-import { apiClient } from "./client";
+import { apiClient, type RequestOptions } from "./client";
+import type { PageResponse } from "@/lib/types/api.types";
 import type {
   Recipe,
   PrecheckResult,
   RecipePrecheckRequest,
+  IngredientSafety,
+  IngredientPrecheckRequest,
   RecipeGenerateRequest,
+  RecipeDraft,
+  GenerationEvent,
+  GenerationStage,
+  GenerationVariant,
+  RefineRecipeRequest,
+  RecipeSearchParams,
 } from "@/lib/types/recipe.types";
 
+// Generation and refinement wait on the AI provider, which regularly takes longer than a normal request
+const GENERATION_OPTIONS: RequestOptions = { timeoutMs: 120_000 };
+// A stream sends events throughout, so this only has to cover the slowest single step
+const GENERATION_STREAM_OPTIONS: RequestOptions = { timeoutMs: 60_000 };
+
 export const recipesApi = {
   precheck: (data: RecipePrecheckRequest) =>
     apiClient.post<PrecheckResult>("/api/recipes/precheck", data),
 
+  precheckIngredients: (data: IngredientPrecheckRequest, options?: RequestOptions) =>
+    apiClient.post<IngredientSafety[]>("/api/recipes/precheck/ingredients", data, options),
+
   generate: (data: RecipeGenerateRequest) =>
-    apiClient.post<Recipe>("/api/recipes/generate", data),
+    apiClient.post<Recipe>("/api/recipes/generate", data, GENERATION_OPTIONS),
+
+  generateStream: (
+    data: RecipeGenerateRequest,
+    onProgress: (event: GenerationEvent) => void,
+    options?: RequestOptions
+  ) =>
+    apiClient.stream<Recipe[]>(
+      "/api/recipes/generate/stream",
+      data,
+      (event, payload) => {
+        if (event === "stage") onProgress({ type: "stage", stage: (payload as { stage: GenerationStage }).stage });
+        if (event === "variant") onProgress({ type: "variant", variant: payload as GenerationVariant });
+        if (event === "draft") onProgress({ type: "draft", draft: payload as RecipeDraft });
+      },
+      { ...GENERATION_STREAM_OPTIONS, ...options }
+    ),
 
-  list: (petId?: string) => {
+  list: (petId?: string, options?: RequestOptions) => {
     const query = petId ? `?petId=${petId}` : "";
-    return apiClient.get<Recipe[]>(`/api/recipes${query}`);
+    return apiClient.get<Recipe[]>(`/api/recipes${query}`, options);
   },
 
-  getById: (recipeId: string) =>
-    apiClient.get<Recipe>(`/api/recipes/${recipeId}`),
+  search: (params: RecipeSearchParams, options?: RequestOptions) => {
+    const query = new URLSearchParams();
+    if (params.q) query.set("q", params.q);
+    if (params.petId) query.set("petId", params.petId);
+    params.riskLevels?.forEach((level) => query.append("riskLevel", level));
+    params.statuses?.forEach((status) => query.append("status", status));
+    if (params.minCalories !== undefined) query.set("minCalories", String(params.minCalories));
+    if (params.maxCalories !== undefined) query.set("maxCalories", String(params.maxCalories));
+    if (params.createdFrom) query.set("createdFrom", params.createdFrom);
+    if (params.createdTo) query.set("createdTo", params.createdTo);
+    if (params.sort) query.set("sort", params.sort);
+    if (params.page !== undefined) query.set("page", String(params.page));
+    if (params.size !== undefined) query.set("size", String(params.size));
+    return apiClient.get<PageResponse<Recipe>>(`/api/recipes/search?${query}`, options);
+  },
+
+  getById: (recipeId: string, options?: RequestOptions) =>
+    apiClient.get<Recipe>(`/api/recipes/${recipeId}`, options),
+
+  refine: (recipeId: string, data: RefineRecipeRequest) =>
+    apiClient.post<Recipe>(`/api/recipes/${recipeId}/refine`, data, GENERATION_OPTIONS),
+
+  versions: (recipeId: string, options?: RequestOptions) =>
+    apiClient.get<Recipe[]>(`/api/recipes/${recipeId}/versions`, options),
 
   save: (recipeId: string) =>
     apiClient.post<Recipe>(`/api/recipes/${recipeId}/save`),
 
+  archive: (recipeId: string) =>
+    apiClient.post<Recipe>(`/api/recipes/${recipeId}/archive`),
+
+  unarchive: (recipeId: string) =>
+    apiClient.post<Recipe>(`/api/recipes/${recipeId}/unarchive`),
+
+  bulkArchive: (recipeIds: string[]) =>
+    apiClient.post<Recipe[]>("/api/recipes/bulk-archive", { recipeIds }),
+
+  bulkDelete: (recipeIds: string[]) =>
+    apiClient.post<void>("/api/recipes/bulk-delete", { recipeIds }),
+
   delete: (recipeId: string) =>
     apiClient.delete<void>(`/api/recipes/${recipeId}`),
 };
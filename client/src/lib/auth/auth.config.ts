@@ -1,6 +1,53 @@
 import type { NextAuthConfig } from "next-auth";
+import type { JWT } from "next-auth/jwt";
 import Google from "next-auth/providers/google";
 
+const API_URL = process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:8080";
+
+/** How long before the access token expires a new one is fetched. */
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+interface BackendAuthResponse {
+  token: string;
+  expiresAt: string;
+  refreshToken: string;
+  user: { id: string };
+}
+
+function withBackendTokens(token: JWT, auth: BackendAuthResponse): JWT {
+  return {
+    ...token,
+    accessToken: auth.token,
+    // Expiry comes from the backend rather than assuming its token lifetime
+    accessTokenExpiresAt: Date.parse(auth.expiresAt),
+    refreshToken: auth.refreshToken,
+    userId: auth.user.id,
+    error: undefined,
+  };
+}
+
+async function refreshAccessToken(token: JWT): Promise<JWT> {
+  try {
+    const res = await fetch(`${API_URL}/api/auth/refresh`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ refreshToken: token.refreshToken }),
+    });
+    if (res.ok) {
+      const body = await res.json();
+      return withBackendTokens(token, body.data);
+    }
+    // The backend rejected the refresh token, so only signing in again will help
+    if (res.status >= 400 && res.status < 500) {
+      return { ...token, error: "RefreshTokenError" };
+    }
+  } catch {
+    console.error("Failed to refresh backend token");
+  }
+  // Backend unreachable: keep the current token and try again on the next session check
+  return token;
+}
+
 export const authConfig: NextAuthConfig = {
   providers: [
     Google({
@@ -19,27 +66,31 @@ export const authConfig: NextAuthConfig = {
     signIn: "/sign-in",
   },
   callbacks: {
-    async jwt({ token, account }) {
+    async jwt({ token, account, trigger, session }) {
       if (account?.id_token) {
-        const apiUrl = process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:8080";
         try {
-          const res = await fetch(`${apiUrl}/api/auth/google`, {
+          const res = await fetch(`${API_URL}/api/auth/google`, {
             method: "POST",
             headers: { "Content-Type": "application/json" },
             body: JSON.stringify({ idToken: account.id_token }),
           });
           if (res.ok) {
             const body = await res.json();
-            token.accessToken = body.data.token;
-            token.userId = body.data.user.id;
-            // Store expiry as Unix ms — backend issues 24h tokens (86400000ms)
-            token.accessTokenExpiresAt = Date.now() + 86_400_000;
+            return withBackendTokens(token, body.data);
           }
         } catch {
           console.error("Failed to exchange token with backend");
         }
+        return token;
+      }
+
+      // The client asks for a forced refresh after a 401; otherwise refresh shortly before expiry
+      const forceRefresh = trigger === "update" && session?.refresh === true;
+      const expiresAt = token.accessTokenExpiresAt ?? 0;
+      if (!token.refreshToken || (!forceRefresh && Date.now() < expiresAt - REFRESH_MARGIN_MS)) {
+        return token;
       }
-      return token;
+      return refreshAccessToken(token);
     },
     async session({ session, token }) {
       if (token.accessToken) {
@@ -51,11 +102,12 @@ export const authConfig: NextAuthConfig = {
       if (token.accessTokenExpiresAt) {
         session.accessTokenExpiresAt = token.accessTokenExpiresAt as number;
       }
+      session.error = token.error;
       return session;
     },
     authorized({ auth, request: { nextUrl } }) {
       const isLoggedIn = !!auth?.user;
-      const isProtected = nextUrl.pathname.startsWith("/calendar");
+      const isProtected = ["/calendar", "/shopping-list", "/batch-cooking", "/ingredients", "/pets/import", "/pets/review-health"].some((path) => nextUrl.pathname.startsWith(path));
 
       if (isProtected && !isLoggedIn) {
         return Response.redirect(new URL("/sign-in", nextUrl));
@@ -5,6 +5,8 @@ declare module "next-auth" {
     accessToken?: string;
     userId?: string;
     accessTokenExpiresAt?: number;
+    /** Set when the backend refused to refresh the access token; the user has to sign in again. */
+    error?: "RefreshTokenError";
   }
 }
 
@@ -13,5 +15,8 @@ declare module "next-auth/jwt" {
     accessToken?: string;
     userId?: string;
     accessTokenExpiresAt?: number;
+    /** Backend refresh token; stays in the encrypted session cookie and is never sent to the browser. */
+    refreshToken?: string;
+    error?: "RefreshTokenError";
   }
 }
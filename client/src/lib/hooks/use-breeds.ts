@@ -0,0 +1,26 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { breedsApi } from "@/lib/api/breeds.api";
+import { findBreed } from "@/lib/utils/breed";
+import type { Species } from "@/lib/types/pet.types";
+
+export const BREEDS_KEY = ["breeds"] as const;
+
+// The catalog only changes with a deploy
+const CATALOG_STALE_TIME = 60 * 60 * 1000;
+
+export function useBreeds(species: Species | undefined) {
+  return useQuery({
+    queryKey: [...BREEDS_KEY, species],
+    queryFn: ({ signal }) => breedsApi.list(species, { signal }),
+    enabled: !!species,
+    staleTime: CATALOG_STALE_TIME,
+  });
+}
+
+/** The catalog entry matching a pet's breed, or null for mixed breeds and names typed in by hand. */
+export function useBreed(species: Species | undefined, name: string | undefined) {
+  const { data: breeds } = useBreeds(species);
+  return breeds && name ? findBreed(breeds, name) : null;
+}
@@ -1,18 +1,26 @@
 "use client";
 
-import { useQuery, useQueries, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useRef } from "react";
+import { useQuery, useQueries, useMutation, useQueryClient, type QueryClient } from "@tanstack/react-query";
 import { calendarApi } from "@/lib/api/calendar.api";
+import { OFFLINE_ID_PREFIX, runOrQueue } from "@/lib/offline/mutation-queue";
+import { getMonthsInRange } from "@/lib/utils/format";
+import type { Pet } from "@/lib/types/pet.types";
+import type { Recipe } from "@/lib/types/recipe.types";
 import type {
+  CalendarEntry,
   CreateCalendarEntryRequest,
+  CreateCalendarSeriesRequest,
   UpdateCalendarEntryRequest,
+  UpdateCalendarSeriesRequest,
 } from "@/lib/types/calendar.types";
 
-const CALENDAR_KEY = ["calendar"] as const;
+export const CALENDAR_KEY = ["calendar"] as const;
 
 export function useCalendarEntries(petId: string, month: string) {
   return useQuery({
     queryKey: [...CALENDAR_KEY, petId, month],
-    queryFn: () => calendarApi.getEntries(petId, month),
+    queryFn: ({ signal }) => calendarApi.getEntries(petId, month, { signal }),
     enabled: !!petId && !!month,
   });
 }
@@ -21,7 +29,7 @@ export function useAllCalendarEntries(petIds: string[], month: string) {
   return useQueries({
     queries: petIds.map((petId) => ({
       queryKey: [...CALENDAR_KEY, petId, month],
-      queryFn: () => calendarApi.getEntries(petId, month),
+      queryFn: ({ signal }) => calendarApi.getEntries(petId, month, { signal }),
       enabled: petIds.length > 0 && !!month,
     })),
     combine: (results) => ({
@@ -31,26 +39,176 @@ export function useAllCalendarEntries(petIds: string[], month: string) {
   });
 }
 
+/** Entries for several pets between two yyyy-MM-dd dates (inclusive), reusing the per-month cache. */
+export function useCalendarEntriesInRange(petIds: string[], from: string, to: string) {
+  const months = getMonthsInRange(from, to);
+  return useQueries({
+    queries: petIds.flatMap((petId) =>
+      months.map((month) => ({
+        queryKey: [...CALENDAR_KEY, petId, month],
+        queryFn: ({ signal }) => calendarApi.getEntries(petId, month, { signal }),
+      }))
+    ),
+    combine: (results) => ({
+      data: results
+        .flatMap((r) => r.data ?? [])
+        .filter((e) => e.date >= from && e.date <= to)
+        .sort((a, b) => a.date.localeCompare(b.date)),
+      isLoading: results.some((r) => r.isLoading),
+      isError: results.some((r) => r.isError),
+    }),
+  });
+}
+
+function findCachedEntry(queryClient: QueryClient, entryId: string): CalendarEntry | undefined {
+  return queryClient
+    .getQueriesData<CalendarEntry[]>({ queryKey: CALENDAR_KEY })
+    .flatMap(([, entries]) => entries ?? [])
+    .find((e) => e.id === entryId);
+}
+
+/** Stand-in for an entry created offline, filled in from whatever pets and recipes are cached. */
+function buildOfflineEntry(queryClient: QueryClient, data: CreateCalendarEntryRequest): CalendarEntry {
+  const pets = queryClient.getQueryData<Pet[]>(["pets"]) ?? [];
+  const recipe =
+    queryClient.getQueryData<Recipe>(["recipes", data.recipeId]) ??
+    queryClient
+      .getQueriesData<Recipe[]>({ queryKey: ["recipes"] })
+      .flatMap(([, recipes]) => (Array.isArray(recipes) ? recipes : []))
+      .find((r) => r.id === data.recipeId);
+
+  return {
+    ...data,
+    id: OFFLINE_ID_PREFIX + crypto.randomUUID(),
+    petName: pets.find((p) => p.id === data.petId)?.name ?? "",
+    recipeTitle: recipe?.title ?? "Saved recipe",
+    recipeArchived: false,
+    seriesId: null,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+// Calendar changes run even while offline (networkMode "always") so they can be
+// queued in IndexedDB and replayed on reconnect, instead of paused in memory.
 export function useCreateCalendarEntry() {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: (data: CreateCalendarEntryRequest) => calendarApi.create(data),
+    networkMode: "always",
+    mutationFn: async (data: CreateCalendarEntryRequest) => {
+      const placeholder = buildOfflineEntry(queryClient, data);
+      const created = await runOrQueue(() => calendarApi.create(data), {
+        kind: "create",
+        entryId: placeholder.id,
+        data,
+      });
+      return { created, placeholder };
+    },
+    onSuccess: ({ created, placeholder }) => {
+      if (created) return queryClient.invalidateQueries({ queryKey: CALENDAR_KEY });
+      const queryKey = [...CALENDAR_KEY, placeholder.petId, placeholder.date.substring(0, 7)];
+      queryClient.setQueryData<CalendarEntry[]>(queryKey, (entries = []) =>
+        [...entries, placeholder].sort((a, b) => a.date.localeCompare(b.date))
+      );
+    },
+  });
+}
+
+export function useUpdateCalendarEntry() {
+  const queryClient = useQueryClient();
+  // onMutate moves the cached entry before mutationFn runs, so keep the original for the offline queue
+  const originals = useRef(new Map<string, CalendarEntry>());
+  return useMutation({
+    networkMode: "always",
+    mutationFn: ({ entryId, data }: { entryId: string; data: UpdateCalendarEntryRequest }) => {
+      const base = originals.current.get(entryId);
+      originals.current.delete(entryId);
+      if (!base) return calendarApi.update(entryId, data);
+      return runOrQueue(() => calendarApi.update(entryId, data), { kind: "update", entryId, data, base });
+    },
+    onMutate: async ({ entryId, data }) => {
+      await queryClient.cancelQueries({ queryKey: CALENDAR_KEY });
+      const snapshot = queryClient.getQueriesData<CalendarEntry[]>({ queryKey: CALENDAR_KEY });
+
+      const existing = snapshot
+        .flatMap(([, entries]) => entries ?? [])
+        .find((e) => e.id === entryId);
+
+      if (existing) {
+        originals.current.set(entryId, existing);
+        const moved: CalendarEntry = {
+          ...existing,
+          recipeId: data.recipeId ?? existing.recipeId,
+          date: data.date ?? existing.date,
+          mealType: data.mealType ?? existing.mealType,
+        };
+        const targetMonth = moved.date.substring(0, 7);
+
+        // Pull the entry out of every cached month, then drop the moved copy
+        // into the cache for its pet and new month (keys are [calendar, petId, month])
+        for (const [queryKey, entries] of snapshot) {
+          if (!entries) continue;
+          const [, petId, month] = queryKey;
+          const next = entries.filter((e) => e.id !== entryId);
+          if (petId === moved.petId && month === targetMonth) {
+            next.push(moved);
+            next.sort((a, b) => a.date.localeCompare(b.date));
+          }
+          queryClient.setQueryData(queryKey, next);
+        }
+      }
+
+      return { snapshot };
+    },
+    onError: (_error, _variables, context) => {
+      context?.snapshot.forEach(([queryKey, entries]) => queryClient.setQueryData(queryKey, entries));
+    },
+    onSettled: (updated) => {
+      // A queued update (null) keeps its optimistic move until the queue replays
+      if (updated !== null) return queryClient.invalidateQueries({ queryKey: CALENDAR_KEY });
+    },
+  });
+}
+
+export function useDeleteCalendarEntry() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    networkMode: "always",
+    mutationFn: async (entryId: string) => {
+      const base = findCachedEntry(queryClient, entryId);
+      if (!base) return calendarApi.delete(entryId).then(() => true);
+      const deleted = await runOrQueue(() => calendarApi.delete(entryId), { kind: "delete", entryId, base });
+      return deleted !== null;
+    },
+    onSuccess: (sent, entryId) => {
+      if (sent) return queryClient.invalidateQueries({ queryKey: CALENDAR_KEY });
+      for (const [queryKey, entries] of queryClient.getQueriesData<CalendarEntry[]>({ queryKey: CALENDAR_KEY })) {
+        if (entries) queryClient.setQueryData(queryKey, entries.filter((e) => e.id !== entryId));
+      }
+    },
+  });
+}
+
+export function useCreateCalendarSeries() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: CreateCalendarSeriesRequest) => calendarApi.createSeries(data),
     onSuccess: () => queryClient.invalidateQueries({ queryKey: CALENDAR_KEY }),
   });
 }
 
-export function useUpdateCalendarEntry(entryId: string) {
+export function useUpdateCalendarSeries() {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: (data: UpdateCalendarEntryRequest) => calendarApi.update(entryId, data),
+    mutationFn: ({ seriesId, data }: { seriesId: string; data: UpdateCalendarSeriesRequest }) =>
+      calendarApi.updateSeries(seriesId, data),
     onSuccess: () => queryClient.invalidateQueries({ queryKey: CALENDAR_KEY }),
   });
 }
 
-export function useDeleteCalendarEntry() {
+export function useDeleteCalendarSeries() {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: (entryId: string) => calendarApi.delete(entryId),
+    mutationFn: (seriesId: string) => calendarApi.deleteSeries(seriesId),
     onSuccess: () => queryClient.invalidateQueries({ queryKey: CALENDAR_KEY }),
   });
 }
@@ -0,0 +1,71 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  deleteGuestPet,
+  getGuestPet,
+  isGuestId,
+  listGuestPets,
+  saveGuestPet,
+  setGuestPhoto,
+  toPet,
+} from "@/lib/offline/guest-store";
+import type { CreatePetRequest } from "@/lib/types/pet.types";
+
+export const GUEST_PETS_KEY = ["guest-pets"] as const;
+
+// Guest data lives in IndexedDB, so it never waits for the network
+const LOCAL = { networkMode: "always" } as const;
+
+export function useGuestPets(options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: GUEST_PETS_KEY,
+    queryFn: async () => Promise.all((await listGuestPets()).map(toPet)),
+    ...LOCAL,
+    ...options,
+  });
+}
+
+export function useGuestPet(petId: string) {
+  return useQuery({
+    queryKey: [...GUEST_PETS_KEY, petId],
+    queryFn: async () => {
+      const guest = await getGuestPet(petId);
+      return guest ? toPet(guest) : null;
+    },
+    enabled: isGuestId(petId),
+    ...LOCAL,
+  });
+}
+
+/** Creates or updates a guest pet; `photo` replaces its photo, or removes it when null. */
+export function useSaveGuestPet() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ data, petId, photo }: { data: CreatePetRequest; petId?: string; photo?: File | null }) => {
+      const pet = await saveGuestPet(data, petId);
+      if (photo !== undefined) await setGuestPhoto(pet.id, photo);
+      return pet;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: GUEST_PETS_KEY }),
+    ...LOCAL,
+  });
+}
+
+export function useSetGuestPhoto(petId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (photo: File | null) => setGuestPhoto(petId, photo),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: GUEST_PETS_KEY }),
+    ...LOCAL,
+  });
+}
+
+export function useDeleteGuestPet() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (petId: string) => deleteGuestPet(petId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: GUEST_PETS_KEY }),
+    ...LOCAL,
+  });
+}
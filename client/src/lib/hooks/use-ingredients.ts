@@ -0,0 +1,83 @@
+"use client";
+
+import { useQuery, useQueries, keepPreviousData } from "@tanstack/react-query";
+import { ingredientsApi } from "@/lib/api/ingredients.api";
+import { matchIngredient } from "@/lib/utils/ingredient-match";
+import type { IngredientMatch } from "@/lib/types/ingredient.types";
+
+export const INGREDIENTS_KEY = ["ingredients"] as const;
+
+// The knowledge base only changes with a deploy
+const KNOWLEDGE_STALE_TIME = 10 * 60 * 1000;
+const MIN_QUERY_LENGTH = 2;
+
+function normalize(query: string) {
+  return query.trim().toLowerCase();
+}
+
+export function useIngredients(options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: INGREDIENTS_KEY,
+    queryFn: ({ signal }) => ingredientsApi.list({ signal }),
+    staleTime: KNOWLEDGE_STALE_TIME,
+    ...options,
+  });
+}
+
+export function useIngredient(ingredientId: string) {
+  return useQuery({
+    queryKey: [...INGREDIENTS_KEY, ingredientId],
+    queryFn: ({ signal }) => ingredientsApi.get(ingredientId, { signal }),
+    enabled: !!ingredientId,
+    staleTime: KNOWLEDGE_STALE_TIME,
+  });
+}
+
+export function useRelatedGuidance(ingredientId: string) {
+  return useQuery({
+    queryKey: [...INGREDIENTS_KEY, ingredientId, "guidance"],
+    queryFn: ({ signal }) => ingredientsApi.relatedGuidance(ingredientId, { signal }),
+    enabled: !!ingredientId,
+    staleTime: KNOWLEDGE_STALE_TIME,
+  });
+}
+
+export function useGuidance(guidanceId: string) {
+  return useQuery({
+    queryKey: ["guidance", guidanceId],
+    queryFn: ({ signal }) => ingredientsApi.guidance(guidanceId, { signal }),
+    enabled: !!guidanceId,
+    staleTime: KNOWLEDGE_STALE_TIME,
+  });
+}
+
+export function useIngredientSearch(query: string) {
+  const q = normalize(query);
+  return useQuery({
+    queryKey: [...INGREDIENTS_KEY, "search", q],
+    queryFn: ({ signal }) => ingredientsApi.search(q, undefined, { signal }),
+    enabled: q.length >= MIN_QUERY_LENGTH,
+    staleTime: KNOWLEDGE_STALE_TIME,
+    placeholderData: keepPreviousData,
+  });
+}
+
+/** Looks up each name and reports whether it is known, toxic, or probably a typo. */
+export function useIngredientMatches(names: string[]) {
+  return useQueries({
+    queries: names.map((name) => ({
+      // Same key as useIngredientSearch, so picking a suggestion reuses its results
+      queryKey: [...INGREDIENTS_KEY, "search", normalize(name)],
+      queryFn: ({ signal }: { signal: AbortSignal }) => ingredientsApi.search(normalize(name), undefined, { signal }),
+      staleTime: KNOWLEDGE_STALE_TIME,
+    })),
+    combine: (results) =>
+      Object.fromEntries(
+        names.map((name, i) => {
+          const data = results[i]?.data;
+          const match: IngredientMatch = data ? matchIngredient(name, data) : { status: "pending", suggestion: null };
+          return [name, match];
+        })
+      ) as Record<string, IngredientMatch>,
+  });
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import { useCallback, useEffect, useState, useSyncExternalStore } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { calendarApi } from "@/lib/api/calendar.api";
+import { petsApi } from "@/lib/api/pets.api";
+import { recipesApi } from "@/lib/api/recipes.api";
+import { CALENDAR_KEY } from "@/lib/hooks/use-calendar";
+import { PETS_KEY } from "@/lib/hooks/use-pets";
+import { RECIPES_KEY } from "@/lib/hooks/use-recipes";
+import {
+  discardQueuedMutation,
+  getQueuedMutations,
+  keepQueuedMutation,
+  replayQueuedMutations,
+  setQueueOwner,
+  subscribeToQueue,
+  type QueuedCalendarMutation,
+} from "@/lib/offline/mutation-queue";
+import { getMonthString } from "@/lib/utils/format";
+
+function subscribeToNetwork(callback: () => void) {
+  window.addEventListener("online", callback);
+  window.addEventListener("offline", callback);
+  return () => {
+    window.removeEventListener("online", callback);
+    window.removeEventListener("offline", callback);
+  };
+}
+
+export function useOnlineStatus() {
+  return useSyncExternalStore(
+    subscribeToNetwork,
+    () => navigator.onLine,
+    () => true
+  );
+}
+
+/**
+ * While online, loads the pets, every recipe and this month's calendar into
+ * the query cache, so they are persisted and readable offline even if those
+ * pages were never opened.
+ */
+export function useOfflineCacheWarmup(userId: string | null) {
+  const queryClient = useQueryClient();
+  const isOnline = useOnlineStatus();
+
+  useEffect(() => {
+    if (!userId || !isOnline) return;
+    const month = getMonthString(new Date());
+
+    const warm = async () => {
+      const pets = await queryClient.fetchQuery({ queryKey: PETS_KEY, queryFn: ({ signal }) => petsApi.list({ signal }) });
+      await Promise.all(
+        pets.map((pet) =>
+          queryClient.prefetchQuery({
+            queryKey: [...CALENDAR_KEY, pet.id, month],
+            queryFn: ({ signal }) => calendarApi.getEntries(pet.id, month, { signal }),
+          })
+        )
+      );
+      const recipes = await queryClient.fetchQuery({
+        queryKey: [...RECIPES_KEY, { petId: undefined }],
+        queryFn: ({ signal }) => recipesApi.list(undefined, { signal }),
+      });
+      // Seed the detail queries too, so recipe pages open offline
+      for (const recipe of recipes) {
+        if (!queryClient.getQueryData([...RECIPES_KEY, recipe.id])) {
+          queryClient.setQueryData([...RECIPES_KEY, recipe.id], recipe);
+        }
+      }
+    };
+    warm().catch(() => {});
+  }, [userId, isOnline, queryClient]);
+}
+
+/**
+ * Calendar changes made offline for `userId`, replayed automatically whenever
+ * the connection comes back. Conflicting changes stay in `conflicts` until
+ * the user keeps or discards them.
+ */
+export function useOfflineQueue(userId: string | null) {
+  const queryClient = useQueryClient();
+  const isOnline = useOnlineStatus();
+  const [queue, setQueue] = useState<QueuedCalendarMutation[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  useEffect(() => {
+    setQueueOwner(userId);
+    const refresh = () => getQueuedMutations().then(setQueue);
+    refresh();
+    return subscribeToQueue(refresh);
+  }, [userId]);
+
+  const sync = useCallback(async () => {
+    setIsSyncing(true);
+    try {
+      const { synced, conflicts } = await replayQueuedMutations();
+      if (synced > 0 || conflicts > 0) await queryClient.invalidateQueries({ queryKey: CALENDAR_KEY });
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [queryClient]);
+
+  useEffect(() => {
+    if (userId && isOnline) sync();
+  }, [userId, isOnline, sync]);
+
+  const keep = useCallback(
+    async (mutation: QueuedCalendarMutation) => {
+      await keepQueuedMutation(mutation);
+      await queryClient.invalidateQueries({ queryKey: CALENDAR_KEY });
+    },
+    [queryClient]
+  );
+
+  const discard = useCallback(
+    async (mutation: QueuedCalendarMutation) => {
+      await discardQueuedMutation(mutation.id);
+      await queryClient.invalidateQueries({ queryKey: CALENDAR_KEY });
+    },
+    [queryClient]
+  );
+
+  return {
+    isOnline,
+    isSyncing,
+    pending: queue.filter((m) => !m.conflict),
+    conflicts: queue.filter((m) => m.conflict),
+    keep,
+    discard,
+  };
+}
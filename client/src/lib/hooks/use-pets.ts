@@ -1,15 +1,28 @@
 "use client";
 
+import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { petsApi } from "@/lib/api/pets.api";
-import type { CreatePetRequest, UpdatePetRequest } from "@/lib/types/pet.types";
+import { isGuestId } from "@/lib/offline/guest-store";
+import type {
+  CreatePetRequest,
+  UpdatePetRequest,
+  CreateWeightEntryRequest,
+  PetPhoto,
+  PetPhotoDetails,
+  HealthCodeMapping,
+} from "@/lib/types/pet.types";
 
-const PETS_KEY = ["pets"] as const;
+export const PETS_KEY = ["pets"] as const;
+export const HEALTH_VOCABULARY_KEY = ["health-vocabulary"] as const;
+
+// The vocabularies only change with a deploy
+const VOCABULARY_STALE_TIME = 60 * 60 * 1000;
 
 export function usePets(options?: { enabled?: boolean }) {
   return useQuery({
     queryKey: PETS_KEY,
-    queryFn: petsApi.list,
+    queryFn: ({ signal }) => petsApi.list({ signal }),
     ...options,
   });
 }
@@ -17,8 +30,9 @@ export function usePets(options?: { enabled?: boolean }) {
 export function usePet(petId: string) {
   return useQuery({
     queryKey: [...PETS_KEY, petId],
-    queryFn: () => petsApi.getById(petId),
-    enabled: !!petId,
+    queryFn: ({ signal }) => petsApi.getById(petId, { signal }),
+    // Guest pets only exist on this device; see useGuestPet
+    enabled: !!petId && !isGuestId(petId),
   });
 }
 
@@ -49,15 +63,22 @@ export function useDeletePet() {
   });
 }
 
+/** `progress` is the fraction of the photo sent so far while an upload is running, otherwise null. */
 export function useUploadPetPhoto(petId: string) {
   const queryClient = useQueryClient();
-  return useMutation({
-    mutationFn: (file: File) => petsApi.uploadPhoto(petId, file),
+  const [progress, setProgress] = useState<number | null>(null);
+  const mutation = useMutation({
+    mutationFn: (file: File) => {
+      setProgress(0);
+      return petsApi.uploadPhoto(petId, file, { onProgress: setProgress });
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: PETS_KEY });
       queryClient.invalidateQueries({ queryKey: [...PETS_KEY, petId] });
     },
+    onSettled: () => setProgress(null),
   });
+  return { ...mutation, progress };
 }
 
 export function useDeletePetPhoto(petId: string) {
@@ -70,3 +91,130 @@ export function useDeletePetPhoto(petId: string) {
     },
   });
 }
+
+export function usePetPhotos(petId: string) {
+  return useQuery({
+    queryKey: [...PETS_KEY, petId, "photos"],
+    queryFn: ({ signal }) => petsApi.listPhotos(petId, { signal }),
+    enabled: !!petId,
+  });
+}
+
+// A pet's first photo becomes its avatar, so the pet queries are refreshed along with the gallery
+export function useAddPetPhoto(petId: string) {
+  const queryClient = useQueryClient();
+  const [progress, setProgress] = useState<number | null>(null);
+  const mutation = useMutation({
+    mutationFn: ({ file, details }: { file: File; details: PetPhotoDetails }) => {
+      setProgress(0);
+      return petsApi.addPhoto(petId, file, details, { onProgress: setProgress });
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: PETS_KEY }),
+    onSettled: () => setProgress(null),
+  });
+  return { ...mutation, progress };
+}
+
+export function useUpdatePetPhoto(petId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ photoId, details }: { photoId: string; details: PetPhotoDetails }) =>
+      petsApi.updatePhoto(petId, photoId, details),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [...PETS_KEY, petId, "photos"] }),
+  });
+}
+
+/** Shows the new order straight away and puts the old one back if the server refuses it. */
+export function useReorderPetPhotos(petId: string) {
+  const queryClient = useQueryClient();
+  const key = [...PETS_KEY, petId, "photos"];
+  return useMutation({
+    mutationFn: (photoIds: string[]) => petsApi.reorderPhotos(petId, photoIds),
+    onMutate: async (photoIds) => {
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<PetPhoto[]>(key);
+      if (previous) {
+        const byId = new Map(previous.map((photo) => [photo.id, photo]));
+        queryClient.setQueryData(
+          key,
+          photoIds.flatMap((id, position) => {
+            const photo = byId.get(id);
+            return photo ? [{ ...photo, position }] : [];
+          })
+        );
+      }
+      return { previous };
+    },
+    onError: (_error, _photoIds, context) => {
+      if (context?.previous) queryClient.setQueryData(key, context.previous);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: key }),
+  });
+}
+
+export function useSetPetAvatar(petId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (photoId: string) => petsApi.setAvatar(petId, photoId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: PETS_KEY }),
+  });
+}
+
+export function useDeleteGalleryPhoto(petId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (photoId: string) => petsApi.deleteGalleryPhoto(petId, photoId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: PETS_KEY }),
+  });
+}
+
+export function useWeightLog(petId: string) {
+  return useQuery({
+    queryKey: [...PETS_KEY, petId, "weights"],
+    queryFn: ({ signal }) => petsApi.listWeights(petId, { signal }),
+    enabled: !!petId,
+  });
+}
+
+// Weigh-ins also move the pet's current weight, so the pet queries are refreshed too
+export function useLogWeight(petId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: CreateWeightEntryRequest) => petsApi.logWeight(petId, data),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: PETS_KEY }),
+  });
+}
+
+export function useDeleteWeightEntry(petId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (entryId: string) => petsApi.deleteWeight(petId, entryId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: PETS_KEY }),
+  });
+}
+
+export function useHealthVocabulary() {
+  return useQuery({
+    queryKey: HEALTH_VOCABULARY_KEY,
+    queryFn: ({ signal }) => petsApi.healthVocabulary({ signal }),
+    staleTime: VOCABULARY_STALE_TIME,
+  });
+}
+
+/** Pets still holding health values typed in before the vocabularies existed. */
+export function useHealthReview(options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: [...PETS_KEY, "health-review"],
+    queryFn: ({ signal }) => petsApi.healthReview({ signal }),
+    ...options,
+  });
+}
+
+export function useApplyHealthCodes() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ petId, mappings }: { petId: string; mappings: HealthCodeMapping[] }) =>
+      petsApi.applyHealthCodes(petId, mappings),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: PETS_KEY }),
+  });
+}
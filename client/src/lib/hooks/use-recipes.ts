@@ -1,15 +1,40 @@
 "use client";
 
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useQuery, useQueries, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
 import { recipesApi } from "@/lib/api/recipes.api";
-import type { RecipePrecheckRequest, RecipeGenerateRequest } from "@/lib/types/recipe.types";
+import { CALENDAR_KEY } from "@/lib/hooks/use-calendar";
+import { PETS_KEY } from "@/lib/hooks/use-pets";
+import { isGuestId } from "@/lib/offline/guest-store";
+import type {
+  Recipe,
+  IngredientSafety,
+  RecipePrecheckRequest,
+  RecipeGenerateRequest,
+  RecipeDraft,
+  GenerationStage,
+  GenerationVariant,
+  RefineRecipeRequest,
+  RecipeSearchParams,
+} from "@/lib/types/recipe.types";
 
-const RECIPES_KEY = ["recipes"] as const;
+export const RECIPES_KEY = ["recipes"] as const;
+
+const INGREDIENT_SAFETY_DEBOUNCE_MS = 400;
 
 export function useRecipes(petId?: string, options?: { enabled?: boolean }) {
   return useQuery({
     queryKey: [...RECIPES_KEY, { petId }],
-    queryFn: () => recipesApi.list(petId),
+    queryFn: ({ signal }) => recipesApi.list(petId, { signal }),
+    ...options,
+  });
+}
+
+export function useRecipeSearch(params: RecipeSearchParams, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: [...RECIPES_KEY, "search", params],
+    queryFn: ({ signal }) => recipesApi.search(params, { signal }),
+    placeholderData: keepPreviousData,
     ...options,
   });
 }
@@ -17,21 +42,130 @@ export function useRecipes(petId?: string, options?: { enabled?: boolean }) {
 export function useRecipe(recipeId: string) {
   return useQuery({
     queryKey: [...RECIPES_KEY, recipeId],
-    queryFn: () => recipesApi.getById(recipeId),
+    queryFn: ({ signal }) => recipesApi.getById(recipeId, { signal }),
     enabled: !!recipeId,
   });
 }
 
+export function useRecipesByIds(recipeIds: string[]) {
+  return useQueries({
+    queries: recipeIds.map((recipeId) => ({
+      queryKey: [...RECIPES_KEY, recipeId],
+      queryFn: ({ signal }) => recipesApi.getById(recipeId, { signal }),
+    })),
+    combine: (results) => ({
+      data: Object.fromEntries(
+        results.flatMap((r) => (r.data ? [[r.data.id, r.data]] : []))
+      ) as Record<string, Recipe>,
+      isLoading: results.some((r) => r.isLoading),
+      isError: results.some((r) => r.isError),
+    }),
+  });
+}
+
 export function useRecipePrecheck() {
   return useMutation({
     mutationFn: (data: RecipePrecheckRequest) => recipesApi.precheck(data),
   });
 }
 
+/**
+ * Safety hints for ingredients that are still being chosen, by name; `undefined` until
+ * checked. Each ingredient is checked on its own once the list has settled, and cached under
+ * the pet so editing its allergies brings fresh results.
+ */
+export function useIngredientSafety(petId: string, ingredients: string[]) {
+  const [settled, setSettled] = useState(ingredients);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSettled(ingredients), INGREDIENT_SAFETY_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [ingredients]);
+
+  return useQueries({
+    queries: settled.map((ingredient) => ({
+      queryKey: [...PETS_KEY, petId, "ingredient-safety", ingredient.trim().toLowerCase()],
+      queryFn: async ({ signal }: { signal: AbortSignal }) => {
+        const [result] = await recipesApi.precheckIngredients({ petId, ingredients: [ingredient] }, { signal });
+        return result;
+      },
+      // Guest pets aren't on the server to check against until they have been imported
+      enabled: !!petId && !isGuestId(petId),
+    })),
+    combine: (results) =>
+      Object.fromEntries(settled.map((ingredient, i) => [ingredient, results[i]?.data])) as Record<
+        string,
+        IngredientSafety | undefined
+      >,
+  });
+}
+
+/**
+ * Streams a generation, exposing the current pipeline stage, which variant is being
+ * written, and each variant's recipe so far (`drafts[variantNumber - 1]`).
+ * `cancel` (or unmounting) closes the stream, which stops generation on the server and
+ * rejects the mutation with an `ABORTED` error.
+ */
 export function useGenerateRecipe() {
+  const queryClient = useQueryClient();
+  const [stage, setStage] = useState<GenerationStage | null>(null);
+  const [variant, setVariant] = useState<GenerationVariant | null>(null);
+  const [drafts, setDrafts] = useState<RecipeDraft[]>([]);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const mutation = useMutation({
+    mutationFn: (data: RecipeGenerateRequest) => {
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      setStage(null);
+      setVariant(null);
+      setDrafts([]);
+
+      let index = 0;
+      return recipesApi.generateStream(
+        data,
+        (event) => {
+          if (event.type === "stage") setStage(event.stage);
+          if (event.type === "variant") {
+            index = event.variant.variantNumber - 1;
+            setVariant(event.variant);
+          }
+          if (event.type === "draft") {
+            const draft = event.draft;
+            setDrafts((prev) => {
+              const next = [...prev];
+              next[index] = draft;
+              return next;
+            });
+          }
+        },
+        { signal: controller.signal }
+      );
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: RECIPES_KEY }),
+  });
+
+  const cancel = useCallback(() => controllerRef.current?.abort(), []);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return { ...mutation, stage, variant, drafts, cancel };
+}
+
+export function useRecipeVersions(recipeId: string) {
+  return useQuery({
+    queryKey: [...RECIPES_KEY, recipeId, "versions"],
+    queryFn: ({ signal }) => recipesApi.versions(recipeId, { signal }),
+    enabled: !!recipeId,
+  });
+}
+
+export function useRefineRecipe() {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: (data: RecipeGenerateRequest) => recipesApi.generate(data),
+    mutationFn: ({ recipeId, data }: { recipeId: string; data: RefineRecipeRequest }) =>
+      recipesApi.refine(recipeId, data),
     onSuccess: () => queryClient.invalidateQueries({ queryKey: RECIPES_KEY }),
   });
 }
@@ -44,6 +178,41 @@ export function useSaveRecipe() {
   });
 }
 
+// Calendar entries carry the recipe's archived flag, so they need refreshing too
+export function useArchiveRecipe() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ recipeId, archived }: { recipeId: string; archived: boolean }) =>
+      archived ? recipesApi.archive(recipeId) : recipesApi.unarchive(recipeId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: RECIPES_KEY });
+      queryClient.invalidateQueries({ queryKey: CALENDAR_KEY });
+    },
+  });
+}
+
+export function useBulkArchiveRecipes() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (recipeIds: string[]) => recipesApi.bulkArchive(recipeIds),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: RECIPES_KEY });
+      queryClient.invalidateQueries({ queryKey: CALENDAR_KEY });
+    },
+  });
+}
+
+export function useBulkDeleteRecipes() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (recipeIds: string[]) => recipesApi.bulkDelete(recipeIds),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: RECIPES_KEY });
+      queryClient.invalidateQueries({ queryKey: CALENDAR_KEY });
+    },
+  });
+}
+
 export function useDeleteRecipe() {
   const queryClient = useQueryClient();
   return useMutation({
@@ -0,0 +1,53 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+const STORAGE_PREFIX = "pawfectbite:shopping-list:";
+
+/**
+ * Check-off state for one shopping list, persisted in localStorage so ticking
+ * items off survives a reload. `listId` should change whenever the range or
+ * pet selection does, giving every list its own set of checks.
+ */
+export function useShoppingListChecks(listId: string) {
+  const storageKey = STORAGE_PREFIX + listId;
+  const [checked, setChecked] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(storageKey);
+      setChecked(new Set(stored ? (JSON.parse(stored) as string[]) : []));
+    } catch {
+      setChecked(new Set());
+    }
+  }, [storageKey]);
+
+  const persist = useCallback(
+    (next: Set<string>) => {
+      setChecked(next);
+      if (next.size === 0) {
+        localStorage.removeItem(storageKey);
+      } else {
+        localStorage.setItem(storageKey, JSON.stringify([...next]));
+      }
+    },
+    [storageKey]
+  );
+
+  const toggle = useCallback(
+    (itemKey: string) => {
+      const next = new Set(checked);
+      if (next.has(itemKey)) {
+        next.delete(itemKey);
+      } else {
+        next.add(itemKey);
+      }
+      persist(next);
+    },
+    [checked, persist]
+  );
+
+  const clear = useCallback(() => persist(new Set()), [persist]);
+
+  return { checked, toggle, clear };
+}
@@ -0,0 +1,98 @@
+import { petsApi } from "@/lib/api/pets.api";
+import {
+  clearDraft,
+  deleteGuestPet,
+  getDraft,
+  getGuestPet,
+  getGuestPhoto,
+  isGuestId,
+  saveDraft,
+  type GuestPet,
+} from "@/lib/offline/guest-store";
+import type { CreatePetRequest, Pet } from "@/lib/types/pet.types";
+
+/** `import` adds the guest pet to the account, `replace` writes it over the conflicting pet, `skip` drops it. */
+export type GuestPetResolution = "import" | "replace" | "skip";
+
+export interface GuestPetPlan {
+  /** The guest pet as `useGuestPets` shows it. */
+  guest: Pet;
+  /** An account pet with the same name and species, which the guest pet is probably a copy of. */
+  conflict: Pet | null;
+}
+
+function sameName(a: string, b: string) {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function toRequest(guest: GuestPet): CreatePetRequest {
+  return {
+    name: guest.name,
+    species: guest.species,
+    breed: guest.breed,
+    ageYears: guest.ageYears,
+    ageMonths: guest.ageMonths,
+    sex: guest.sex,
+    isNeutered: guest.isNeutered,
+    weightKg: guest.weightKg,
+    targetWeightKg: guest.targetWeightKg,
+    activityLevel: guest.activityLevel,
+    livingEnvironment: guest.livingEnvironment,
+    allergies: guest.allergies,
+    medicalConditions: guest.medicalConditions,
+    medications: guest.medications,
+    healthGoal: guest.healthGoal,
+    currentDiet: guest.currentDiet,
+    feedingFrequency: guest.feedingFrequency,
+  };
+}
+
+export function planGuestMigration(guests: Pet[], accountPets: Pet[]): GuestPetPlan[] {
+  return guests.map((guest) => ({
+    guest,
+    conflict: accountPets.find((p) => p.species === guest.species && sameName(p.name, guest.name)) ?? null,
+  }));
+}
+
+/**
+ * Moves one guest pet, with its photo, into the account and removes it from this
+ * device. Returns the id of the account pet it became, or null when it was dropped.
+ */
+export async function migrateGuestPet({ guest, conflict }: GuestPetPlan, resolution: GuestPetResolution): Promise<string | null> {
+  let petId: string | null = null;
+  const stored = await getGuestPet(guest.id);
+
+  if (stored && (resolution === "import" || (resolution === "replace" && conflict))) {
+    const pet = conflict && resolution === "replace"
+      ? await petsApi.update(conflict.id, toRequest(stored))
+      : await petsApi.create(toRequest(stored));
+    petId = pet.id;
+
+    const photo = await getGuestPhoto(guest.id);
+    if (photo) {
+      try {
+        await petsApi.uploadPhoto(petId, new File([photo], "photo", { type: photo.type }));
+      } catch {
+        // The pet itself made it; a photo can be added again from the edit page
+      }
+    }
+  } else {
+    // Skipping a copy of an account pet still leaves that pet to carry on with
+    petId = conflict?.id ?? null;
+  }
+
+  await deleteGuestPet(guest.id);
+  return petId;
+}
+
+/** Points a recipe wizard draft for a guest pet at the account pet it became, or drops it. */
+export async function migrateRecipeDraft(petIds: Map<string, string | null>): Promise<void> {
+  const draft = await getDraft("recipe-wizard");
+  if (!draft || !isGuestId(draft.petId)) return;
+
+  // Its pet hasn't been dealt with yet
+  if (!petIds.has(draft.petId)) return;
+  const petId = petIds.get(draft.petId);
+  if (petId) await saveDraft("recipe-wizard", { ...draft, petId });
+  else await clearDraft("recipe-wizard");
+}
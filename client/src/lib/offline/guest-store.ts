@@ -0,0 +1,115 @@
+import { idbDelete, idbGet, idbGetAll, idbPut } from "@/lib/offline/idb";
+import type { PetFormValues } from "@/lib/schemas/pet.schema";
+import type { CreatePetRequest, Pet } from "@/lib/types/pet.types";
+
+/** Prefix for ids of pets kept on this device before signing in. */
+export const GUEST_ID_PREFIX = "guest-";
+
+export interface GuestPet extends CreatePetRequest {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** The recipe wizard as a guest left it, resumed once they have signed in. */
+export interface RecipeWizardDraft {
+  petId: string;
+  goal: string;
+  ingredientsToInclude: string[];
+  ingredientsToExclude: string[];
+  variantCount: number;
+}
+
+interface Drafts {
+  "pet-wizard": Partial<PetFormValues>;
+  "recipe-wizard": RecipeWizardDraft;
+}
+
+export type DraftKey = keyof Drafts;
+
+// One object URL per stored photo, so re-reading the pets doesn't leak a new one each time
+const photoUrls = new Map<string, { blob: Blob; url: string }>();
+
+export function isGuestId(petId: string): boolean {
+  return petId.startsWith(GUEST_ID_PREFIX);
+}
+
+function revokePhotoUrl(petId: string) {
+  const cached = photoUrls.get(petId);
+  if (cached) URL.revokeObjectURL(cached.url);
+  photoUrls.delete(petId);
+}
+
+function photoUrl(petId: string, blob: Blob | undefined): string | null {
+  if (!blob) return null;
+  const cached = photoUrls.get(petId);
+  if (cached?.blob === blob) return cached.url;
+  revokePhotoUrl(petId);
+  const url = URL.createObjectURL(blob);
+  photoUrls.set(petId, { blob, url });
+  return url;
+}
+
+/** A guest pet in the shape the pet components expect; it has no owner yet. */
+export async function toPet(guest: GuestPet): Promise<Pet> {
+  const photo = await getGuestPhoto(guest.id);
+  return {
+    ...guest,
+    userId: "",
+    targetWeightKg: guest.targetWeightKg ?? null,
+    healthGoal: guest.healthGoal ?? null,
+    currentDiet: guest.currentDiet ?? null,
+    photoUrl: photoUrl(guest.id, photo),
+  };
+}
+
+export async function listGuestPets(): Promise<GuestPet[]> {
+  const pets = await idbGetAll<GuestPet>("guest-pets");
+  return pets.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export function getGuestPet(petId: string): Promise<GuestPet | undefined> {
+  return idbGet<GuestPet>("guest-pets", petId);
+}
+
+/** Creates a guest pet, or replaces one when `petId` is given. */
+export async function saveGuestPet(data: CreatePetRequest, petId?: string): Promise<GuestPet> {
+  const now = new Date().toISOString();
+  const existing = petId ? await getGuestPet(petId) : undefined;
+  const pet: GuestPet = {
+    ...data,
+    id: existing?.id ?? `${GUEST_ID_PREFIX}${crypto.randomUUID()}`,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  await idbPut("guest-pets", pet);
+  return pet;
+}
+
+export async function deleteGuestPet(petId: string): Promise<void> {
+  await idbDelete("guest-pets", petId);
+  await setGuestPhoto(petId, null);
+}
+
+export function getGuestPhoto(petId: string): Promise<Blob | undefined> {
+  return idbGet<Blob>("guest-photos", petId);
+}
+
+/** Stores the photo as a blob, or removes it when `photo` is null. */
+export async function setGuestPhoto(petId: string, photo: Blob | null): Promise<void> {
+  revokePhotoUrl(petId);
+  if (photo) await idbPut("guest-photos", photo, petId);
+  else await idbDelete("guest-photos", petId);
+}
+
+export function getDraft<K extends DraftKey>(key: K): Promise<Drafts[K] | undefined> {
+  return idbGet<Drafts[K]>("guest-drafts", key);
+}
+
+export async function saveDraft<K extends DraftKey>(key: K, value: Drafts[K]): Promise<void> {
+  await idbPut("guest-drafts", value, key);
+}
+
+export function clearDraft(key: DraftKey): Promise<void> {
+  return idbDelete("guest-drafts", key);
+}
@@ -0,0 +1,59 @@
+const DB_NAME = "pawfectbite";
+const DB_VERSION = 2;
+
+export type StoreName = "query-cache" | "mutation-queue" | "guest-pets" | "guest-photos" | "guest-drafts";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains("query-cache")) db.createObjectStore("query-cache");
+        if (!db.objectStoreNames.contains("mutation-queue")) db.createObjectStore("mutation-queue", { keyPath: "id" });
+        // Version 2: guest mode
+        if (!db.objectStoreNames.contains("guest-pets")) db.createObjectStore("guest-pets", { keyPath: "id" });
+        if (!db.objectStoreNames.contains("guest-photos")) db.createObjectStore("guest-photos");
+        if (!db.objectStoreNames.contains("guest-drafts")) db.createObjectStore("guest-drafts");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(store: StoreName, mode: IDBTransactionMode, action: (s: IDBObjectStore) => IDBRequest): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function idbGet<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return run(store, "readonly", (s) => s.get(key));
+}
+
+export function idbGetAll<T>(store: StoreName): Promise<T[]> {
+  return run(store, "readonly", (s) => s.getAll());
+}
+
+/** Writes `value`; pass `key` only for stores without a keyPath. */
+export function idbPut(store: StoreName, value: unknown, key?: IDBValidKey): Promise<IDBValidKey> {
+  return run(store, "readwrite", (s) => (key === undefined ? s.put(value) : s.put(value, key)));
+}
+
+export function idbDelete(store: StoreName, key: IDBValidKey): Promise<void> {
+  return run(store, "readwrite", (s) => s.delete(key));
+}
+
+export function idbClear(store: StoreName): Promise<void> {
+  return run(store, "readwrite", (s) => s.clear());
+}
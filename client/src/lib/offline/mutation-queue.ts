@@ -0,0 +1,218 @@
+import { calendarApi } from "@/lib/api/calendar.api";
+import { ApiClientError } from "@/lib/api/client";
+import { idbDelete, idbGetAll, idbPut } from "@/lib/offline/idb";
+import type {
+  CalendarEntry,
+  CreateCalendarEntryRequest,
+  UpdateCalendarEntryRequest,
+} from "@/lib/types/calendar.types";
+
+/** Prefix for ids given to entries created offline, until the server assigns a real one. */
+export const OFFLINE_ID_PREFIX = "offline-";
+
+interface QueuedBase {
+  id: string;
+  userId: string;
+  queuedAt: number;
+  /** Set once replaying hit a conflict; the mutation then waits for the user to keep or discard it. */
+  conflict?: string;
+}
+
+/** A calendar change as the hooks describe it; `base` is the entry as it looked before the change. */
+export type NewQueuedMutation =
+  | { kind: "create"; entryId: string; data: CreateCalendarEntryRequest }
+  | { kind: "update"; entryId: string; data: UpdateCalendarEntryRequest; base: CalendarEntry }
+  | { kind: "delete"; entryId: string; base: CalendarEntry };
+
+export type QueuedCalendarMutation = QueuedBase & NewQueuedMutation;
+
+export interface ReplayResult {
+  synced: number;
+  conflicts: number;
+}
+
+// Statuses that mean the server understood the request and refused it, so retrying won't help
+const CONFLICT_STATUSES = new Set([400, 403, 404, 409, 422]);
+
+let ownerId: string | null = null;
+const listeners = new Set<() => void>();
+
+/** Sets whose changes get queued; the queue only ever replays mutations made by the signed-in user. */
+export function setQueueOwner(userId: string | null) {
+  ownerId = userId;
+}
+
+export function subscribeToQueue(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+export function isOfflineId(entryId: string): boolean {
+  return entryId.startsWith(OFFLINE_ID_PREFIX);
+}
+
+/** A request that never reached the server, as opposed to one the server answered with an error. */
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof ApiClientError && error.code === "NETWORK";
+}
+
+export async function getQueuedMutations(): Promise<QueuedCalendarMutation[]> {
+  if (!ownerId) return [];
+  try {
+    const all = await idbGetAll<QueuedCalendarMutation>("mutation-queue");
+    return all.filter((m) => m.userId === ownerId).sort((a, b) => a.queuedAt - b.queuedAt);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Adds a calendar change to the offline queue. Changes to an entry that was
+ * itself created offline are folded into its queued create, so the server
+ * only ever sees ids it handed out.
+ */
+export async function enqueueMutation(mutation: NewQueuedMutation): Promise<void> {
+  if (!ownerId) throw new Error("Sign in to plan meals while offline.");
+
+  if (mutation.kind !== "create" && isOfflineId(mutation.entryId)) {
+    const queued = await getQueuedMutations();
+    const create = queued.find((m) => m.kind === "create" && m.entryId === mutation.entryId);
+    if (create?.kind === "create") {
+      if (mutation.kind === "delete") {
+        await idbDelete("mutation-queue", create.id);
+      } else {
+        const { recipeId, date, mealType } = mutation.data;
+        await idbPut("mutation-queue", {
+          ...create,
+          data: {
+            ...create.data,
+            recipeId: recipeId ?? create.data.recipeId,
+            date: date ?? create.data.date,
+            mealType: mealType ?? create.data.mealType,
+          },
+        });
+      }
+      notify();
+      return;
+    }
+  }
+
+  await idbPut("mutation-queue", {
+    ...mutation,
+    id: crypto.randomUUID(),
+    userId: ownerId,
+    queuedAt: Date.now(),
+  } satisfies QueuedCalendarMutation);
+  notify();
+}
+
+/**
+ * Runs `request` when online. When the device is offline, or the request
+ * can't reach the server, the mutation is queued instead and `null` is returned.
+ * Changes to entries still waiting in the queue are always queued.
+ */
+export async function runOrQueue<T>(request: () => Promise<T>, mutation: NewQueuedMutation): Promise<T | null> {
+  const isPendingEntry = mutation.kind !== "create" && isOfflineId(mutation.entryId);
+  if (isPendingEntry || (typeof navigator !== "undefined" && !navigator.onLine)) {
+    await enqueueMutation(mutation);
+    return null;
+  }
+  try {
+    return await request();
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    await enqueueMutation(mutation);
+    return null;
+  }
+}
+
+class ReplayConflict extends Error {}
+
+function sameSlot(a: CalendarEntry, b: CalendarEntry): boolean {
+  return a.recipeId === b.recipeId && a.date === b.date && a.mealType === b.mealType;
+}
+
+/** Checks the entry still looks the way it did when the change was made offline. */
+async function findCurrent(base: CalendarEntry): Promise<CalendarEntry | null> {
+  const entries = await calendarApi.getEntries(base.petId, base.date.substring(0, 7));
+  const current = entries.find((e) => e.id === base.id) ?? null;
+  if (current && !sameSlot(current, base)) {
+    throw new ReplayConflict("This meal was changed on another device while you were offline.");
+  }
+  return current;
+}
+
+async function apply(mutation: QueuedCalendarMutation, force: boolean): Promise<void> {
+  switch (mutation.kind) {
+    case "create":
+      await calendarApi.create(mutation.data);
+      return;
+    case "update": {
+      const current = force ? mutation.base : await findCurrent(mutation.base);
+      if (!current) throw new ReplayConflict("This meal was removed on another device while you were offline.");
+      await calendarApi.update(mutation.entryId, mutation.data);
+      return;
+    }
+    case "delete": {
+      // Already gone is as good as deleted
+      if (!force && !(await findCurrent(mutation.base))) return;
+      await calendarApi.delete(mutation.entryId);
+      return;
+    }
+  }
+}
+
+async function replayOne(mutation: QueuedCalendarMutation, force: boolean): Promise<"synced" | "conflict"> {
+  try {
+    await apply(mutation, force);
+    await idbDelete("mutation-queue", mutation.id);
+    return "synced";
+  } catch (error) {
+    const isConflict =
+      error instanceof ReplayConflict ||
+      (error instanceof ApiClientError && CONFLICT_STATUSES.has(error.status));
+    if (!isConflict) throw error;
+    await idbPut("mutation-queue", { ...mutation, conflict: (error as Error).message });
+    return "conflict";
+  }
+}
+
+/**
+ * Sends queued changes to the server in the order they were made. Stops at
+ * the first network or server failure so the rest can be retried on the
+ * next reconnect; refusals are recorded as conflicts and skipped.
+ */
+export async function replayQueuedMutations(): Promise<ReplayResult> {
+  const result: ReplayResult = { synced: 0, conflicts: 0 };
+  const pending = (await getQueuedMutations()).filter((m) => !m.conflict);
+
+  try {
+    for (const mutation of pending) {
+      const outcome = await replayOne(mutation, false);
+      result[outcome === "synced" ? "synced" : "conflicts"]++;
+    }
+  } catch {
+    // Offline again or the server is down; what's left stays queued
+  } finally {
+    notify();
+  }
+  return result;
+}
+
+/** Applies a conflicting change anyway, overwriting whatever changed on the server. */
+export async function keepQueuedMutation(mutation: QueuedCalendarMutation): Promise<boolean> {
+  try {
+    return (await replayOne(mutation, true)) === "synced";
+  } finally {
+    notify();
+  }
+}
+
+export async function discardQueuedMutation(mutationId: string): Promise<void> {
+  await idbDelete("mutation-queue", mutationId);
+  notify();
+}
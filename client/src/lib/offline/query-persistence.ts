@@ -0,0 +1,67 @@
+import { dehydrate, hydrate, type DehydratedState, type QueryClient } from "@tanstack/react-query";
+import { idbClear, idbGet, idbPut } from "@/lib/offline/idb";
+
+const CACHE_KEY = "snapshot";
+// Bump when cached response shapes change so old snapshots aren't hydrated into new code
+const CACHE_VERSION = 1;
+export const PERSIST_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+const PERSIST_THROTTLE_MS = 1000;
+
+/** Query key roots worth keeping for offline reads. */
+const PERSISTED_ROOTS = new Set(["pets", "recipes", "calendar"]);
+
+interface PersistedCache {
+  version: number;
+  userId: string;
+  savedAt: number;
+  state: DehydratedState;
+}
+
+/**
+ * Loads the last saved query cache into `queryClient`. Snapshots belonging to
+ * another user, written by an older build, or older than a week are dropped.
+ */
+export async function restoreQueryCache(queryClient: QueryClient, userId: string): Promise<void> {
+  try {
+    const cached = await idbGet<PersistedCache>("query-cache", CACHE_KEY);
+    if (!cached) return;
+    if (cached.version !== CACHE_VERSION || cached.userId !== userId || Date.now() - cached.savedAt > PERSIST_MAX_AGE) {
+      await idbClear("query-cache");
+      return;
+    }
+    hydrate(queryClient, cached.state);
+  } catch {
+    // Private browsing and blocked storage just mean no offline cache
+  }
+}
+
+/** Saves the cache to IndexedDB whenever it changes, at most once a second. Returns an unsubscribe function. */
+export function persistQueryCache(queryClient: QueryClient, userId: string): () => void {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const save = () => {
+    timer = null;
+    const state = dehydrate(queryClient, {
+      shouldDehydrateQuery: (query) =>
+        query.state.status === "success" &&
+        typeof query.queryKey[0] === "string" &&
+        PERSISTED_ROOTS.has(query.queryKey[0]),
+    });
+    const snapshot: PersistedCache = { version: CACHE_VERSION, userId, savedAt: Date.now(), state };
+    idbPut("query-cache", snapshot, CACHE_KEY).catch(() => {});
+  };
+
+  const unsubscribe = queryClient.getQueryCache().subscribe((event) => {
+    if (event.type !== "updated" && event.type !== "removed") return;
+    timer ??= setTimeout(save, PERSIST_THROTTLE_MS);
+  });
+
+  return () => {
+    unsubscribe();
+    if (timer) clearTimeout(timer);
+  };
+}
+
+export function clearPersistedQueryCache(): Promise<void> {
+  return idbClear("query-cache").catch(() => {});
+}
@@ -0,0 +1,14 @@
+import { clearPersistedQueryCache } from "@/lib/offline/query-persistence";
+
+export function registerServiceWorker() {
+  if (!("serviceWorker" in navigator)) return;
+  navigator.serviceWorker.register("/sw.js").catch(() => {
+    // The app works without it, just not offline
+  });
+}
+
+/** Drops cached pages and query data so the next person on this device starts clean. */
+export async function clearOfflineData(): Promise<void> {
+  navigator.serviceWorker?.controller?.postMessage("clear-pages");
+  await clearPersistedQueryCache();
+}
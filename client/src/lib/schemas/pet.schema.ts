@@ -1,5 +1,8 @@
 import { z } from "zod";
 
+// Codes from the vocabularies, or text the owner added as typed for anything the lists don't cover
+const healthValues = z.array(z.string().trim().min(1).max(255)).default([]);
+
 export const petFormSchema = z.object({
   name: z.string().min(1, "Name is required").max(100),
   species: z.enum(["DOG", "CAT"], { required_error: "Species is required" }),
@@ -16,9 +19,9 @@ export const petFormSchema = z.object({
   livingEnvironment: z.enum(["INDOOR", "OUTDOOR", "BOTH"], {
     required_error: "Living environment is required",
   }),
-  allergies: z.array(z.string()).default([]),
-  medicalConditions: z.array(z.string()).default([]),
-  medications: z.array(z.string()).default([]),
+  allergies: healthValues,
+  medicalConditions: healthValues,
+  medications: healthValues,
   healthGoal: z.string().max(500).nullable().optional(),
   currentDiet: z.string().max(500).nullable().optional(),
   feedingFrequency: z.coerce.number().int().min(1).max(6),
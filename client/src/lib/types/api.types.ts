@@ -8,3 +8,11 @@ export interface ApiError {
   code: string;
   message: string;
 }
+
+export interface PageResponse<T> {
+  items: T[];
+  page: number;
+  size: number;
+  totalItems: number;
+  totalPages: number;
+}
@@ -4,8 +4,10 @@ export interface CalendarEntry {
   petName: string;
   recipeId: string;
   recipeTitle: string;
+  recipeArchived: boolean;
   date: string;
   mealType: string;
+  seriesId: string | null;
   createdAt: string;
 }
 
@@ -21,3 +23,31 @@ export interface UpdateCalendarEntryRequest {
   date?: string;
   mealType?: string;
 }
+
+export type RecurrenceFrequency = "DAILY" | "WEEKDAYS" | "EVERY_N_DAYS" | "CUSTOM_DAYS";
+
+export type DayOfWeek =
+  | "MONDAY"
+  | "TUESDAY"
+  | "WEDNESDAY"
+  | "THURSDAY"
+  | "FRIDAY"
+  | "SATURDAY"
+  | "SUNDAY";
+
+export interface CreateCalendarSeriesRequest {
+  petId: string;
+  recipeId: string;
+  mealType: string;
+  startDate: string;
+  frequency: RecurrenceFrequency;
+  intervalDays?: number;
+  daysOfWeek?: DayOfWeek[];
+  endDate?: string;
+  occurrences?: number;
+}
+
+export interface UpdateCalendarSeriesRequest {
+  recipeId?: string;
+  mealType?: string;
+}
@@ -0,0 +1,43 @@
+import type { Species } from "@/lib/types/pet.types";
+
+/** A knowledge base entry, as shown in the ingredient encyclopedia. */
+export interface Ingredient {
+  id: string;
+  name: string;
+  category: string | null;
+  speciesSafe: Species[];
+  safetyNotes: string | null;
+  nutritionInfo: string | null;
+  contentText: string;
+}
+
+export interface NutritionGuidance {
+  id: string;
+  title: string;
+  category: string | null;
+  /** Null when the guidance applies to both species. */
+  species: Species | null;
+  contentText: string;
+  source: string | null;
+}
+
+export interface IngredientSuggestion {
+  /** Null for entries from the toxic list, which aren't in the knowledge base. */
+  id: string | null;
+  name: string;
+  category: string | null;
+  speciesSafe: Species[];
+  toxic: boolean;
+}
+
+/**
+ * How a free-text ingredient relates to the knowledge base: `known` matches an
+ * entry, `toxic` names a toxic ingredient, `unknown` matches nothing (probably a
+ * typo; `suggestion` is the closest entry), `pending` is still being looked up.
+ */
+export type IngredientMatchStatus = "known" | "toxic" | "unknown" | "pending";
+
+export interface IngredientMatch {
+  status: IngredientMatchStatus;
+  suggestion: IngredientSuggestion | null;
+}
@@ -2,6 +2,7 @@ export type Species = "DOG" | "CAT";
 export type Sex = "MALE" | "FEMALE";
 export type ActivityLevel = "LOW" | "MODERATE" | "HIGH" | "VERY_HIGH";
 export type LivingEnvironment = "INDOOR" | "OUTDOOR" | "BOTH";
+export type SizeClass = "TOY" | "SMALL" | "MEDIUM" | "LARGE" | "GIANT";
 
 export interface Pet {
   id: string;
@@ -49,3 +50,85 @@ export interface CreatePetRequest {
 }
 
 export type UpdatePetRequest = CreatePetRequest;
+
+export interface Breed {
+  id: string;
+  species: Species;
+  name: string;
+  sizeClass: SizeClass;
+  /** Typical healthy adult weight range. */
+  minWeightKg: number;
+  maxWeightKg: number;
+  dietarySensitivities: string[];
+}
+
+/** The profile lists that take coded health terms. */
+export type HealthField = "ALLERGIES" | "MEDICAL_CONDITIONS" | "MEDICATIONS";
+
+export interface HealthTerm {
+  /** What gets stored on the pet, e.g. `CKD`. */
+  code: string;
+  label: string;
+  synonyms: string[];
+}
+
+export interface HealthVocabulary {
+  allergies: HealthTerm[];
+  medicalConditions: HealthTerm[];
+  medications: HealthTerm[];
+}
+
+export interface HealthReviewEntry {
+  field: HealthField;
+  /** The free text typed in before the vocabularies existed. */
+  value: string;
+  suggestedCode: string | null;
+}
+
+export interface PetHealthReview {
+  petId: string;
+  petName: string;
+  species: Species;
+  entries: HealthReviewEntry[];
+}
+
+export interface HealthCodeMapping {
+  field: HealthField;
+  value: string;
+  /** Null drops the value from the pet. */
+  code: string | null;
+  /** Keeps the value as free text, or swaps in `code` as typed, and stops the review asking about it. */
+  keepAsTyped?: boolean;
+}
+
+export interface WeightEntry {
+  id: string;
+  petId: string;
+  weightKg: number;
+  recordedOn: string;
+  note: string | null;
+  createdAt: string;
+}
+
+export interface PetPhoto {
+  id: string;
+  petId: string;
+  url: string;
+  caption: string | null;
+  takenOn: string | null;
+  position: number;
+  /** Whether this is the photo shown as the pet's `photoUrl`. */
+  isAvatar: boolean;
+  createdAt: string;
+}
+
+export interface PetPhotoDetails {
+  caption?: string | null;
+  takenOn?: string | null;
+}
+
+export interface CreateWeightEntryRequest {
+  weightKg: number;
+  recordedOn: string;
+  note?: string | null;
+}
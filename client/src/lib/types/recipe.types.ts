@@ -13,6 +13,13 @@ export interface PrecheckResult {
   canProceed: boolean;
 }
 
+/** One ingredient checked on its own, without the warnings that apply to the pet as a whole. */
+export interface IngredientSafety {
+  ingredient: string;
+  riskLevel: RiskLevel;
+  warnings: SafetyWarning[];
+}
+
 export interface RecipeIngredient {
   name: string;
   amount: string;
@@ -36,6 +43,12 @@ export interface Recipe {
   riskLevel: RiskLevel;
   warnings: SafetyWarning[];
   status: RecipeStatus;
+  /** First version of this recipe; null when this is the original. */
+  originalRecipeId: string | null;
+  /** Version this one was refined from. */
+  parentRecipeId: string | null;
+  version: number;
+  refinementFeedback: string | null;
   createdAt: string;
 }
 
@@ -46,9 +59,55 @@ export interface RecipePrecheckRequest {
   goal: string;
 }
 
+export interface IngredientPrecheckRequest {
+  petId: string;
+  ingredients: string[];
+}
+
 export interface RecipeGenerateRequest {
   petId: string;
   goal: string;
   ingredientsToInclude: string[];
   ingredientsToExclude: string[];
+  /** How many alternative recipes to write (1–4); only the streaming endpoint honours it. */
+  variantCount?: number;
+}
+
+/** Pipeline stages reported while a recipe is streamed, in the order they run. */
+export type GenerationStage = "RETRIEVING_KNOWLEDGE" | "WRITING" | "VALIDATING" | "SAVING";
+
+/** The parts of a recipe the AI has finished writing so far. */
+export interface RecipeDraft {
+  title: string | null;
+  ingredients: RecipeIngredient[];
+}
+
+export interface GenerationVariant {
+  variantNumber: number;
+  variantCount: number;
+}
+
+export type GenerationEvent =
+  | { type: "stage"; stage: GenerationStage }
+  | { type: "variant"; variant: GenerationVariant }
+  | { type: "draft"; draft: RecipeDraft };
+
+export interface RefineRecipeRequest {
+  feedback: string;
+}
+
+export type RecipeSort = "NEWEST" | "OLDEST" | "TITLE" | "CALORIES_LOW" | "CALORIES_HIGH";
+
+export interface RecipeSearchParams {
+  q?: string;
+  petId?: string;
+  riskLevels?: RiskLevel[];
+  statuses?: RecipeStatus[];
+  minCalories?: number;
+  maxCalories?: number;
+  createdFrom?: string;
+  createdTo?: string;
+  sort?: RecipeSort;
+  page?: number;
+  size?: number;
 }
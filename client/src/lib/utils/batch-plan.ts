@@ -0,0 +1,220 @@
+import { addDays, differenceInCalendarDays } from "date-fns";
+import { buildShoppingList, type ShoppingListItem } from "@/lib/utils/shopping-list";
+import { formatDate } from "@/lib/utils/format";
+import type { CalendarEntry } from "@/lib/types/calendar.types";
+import type { Recipe } from "@/lib/types/recipe.types";
+
+export interface StorageWindow {
+  /** Whole days the food keeps in the fridge, or null if the guidance doesn't say. */
+  fridgeDays: number | null;
+  freezerDays: number | null;
+}
+
+/** Where a cooked portion should wait until the day it's served. */
+export type PortionStorage = "fridge" | "freezer" | "too-late" | "before-cook-day";
+
+export interface PlannedPortion {
+  entry: CalendarEntry;
+  storage: PortionStorage;
+  /** Days between cooking and serving. */
+  daysAfterCooking: number;
+}
+
+export interface StorageLabel {
+  location: "fridge" | "freezer";
+  count: number;
+  useBy: string;
+}
+
+export interface RecipeBatch {
+  recipe: Recipe;
+  /** One batch per meal that can be cooked on cook day and stored safely until served. */
+  batches: number;
+  window: StorageWindow;
+  portions: PlannedPortion[];
+  labels: StorageLabel[];
+  warnings: string[];
+}
+
+export type PrepPhase = "prep" | "cook" | "finish" | "store";
+
+export interface PrepStep {
+  phase: PrepPhase;
+  text: string;
+  recipeTitle: string;
+  batches: number;
+}
+
+export interface BatchPlan {
+  cookDate: string;
+  recipes: RecipeBatch[];
+  prepSteps: PrepStep[];
+  ingredients: ShoppingListItem[];
+  warningCount: number;
+}
+
+export const DEFAULT_FRIDGE_DAYS = 3;
+
+const UNIT_DAYS: Record<string, number> = { day: 1, week: 7, month: 30 };
+
+// "3 days", "2-3 days", "up to 3 months", "1 week"
+const DURATION = /(\d+)(?:\s*(?:-|–|to)\s*\d+)?\s*(day|week|month)s?/i;
+
+// "freeze", "freezer", "frozen"
+const FREEZER = /freez|frozen/i;
+
+/**
+ * Reads fridge and freezer lifetimes out of free-text storage guidance such as
+ * "Keeps 3 days refrigerated; freeze portions for up to 2 months". Ranges use
+ * their lower bound so the plan errs on the safe side.
+ */
+export function parseStorageWindow(guidance: string | null | undefined): StorageWindow {
+  const window: StorageWindow = { fridgeDays: null, freezerDays: null };
+  if (!guidance) return window;
+
+  // "Refrigerate up to 3 days or freeze for 2 months" holds both, so split on clauses
+  for (const clause of guidance.split(/[.;,\n]|\bor\b|\band\b/i)) {
+    const duration = clause.match(DURATION);
+    if (!duration) continue;
+    const days = Number(duration[1]) * UNIT_DAYS[duration[2].toLowerCase()];
+
+    // A freezer word wins, so "Frozen portions keep 2 months" isn't read as fridge life
+    if (FREEZER.test(clause)) {
+      window.freezerDays ??= days;
+    } else if (/fridge|refrigerat|chill|store|keep/i.test(clause)) {
+      window.fridgeDays ??= days;
+    }
+  }
+  return window;
+}
+
+const PHASE_PATTERNS: [PrepPhase, RegExp][] = [
+  ["store", /\b(store|portion|divide|refrigerat|freez|label|container)/i],
+  ["cook", /\b(boil|simmer|bake|roast|steam|cook|fry|brown|poach|heat|microwave|saut)/i],
+  ["finish", /\b(cool|mash|mix|combine|blend|stir|puree|purée|toss|shred|serve)/i],
+  ["prep", /\b(wash|rinse|chop|dice|peel|trim|cut|slice|grate|measure|soak|debone|remove)/i],
+];
+
+const PHASE_ORDER: PrepPhase[] = ["prep", "cook", "finish", "store"];
+
+function classifyStep(step: string, index: number, total: number): PrepPhase {
+  const match = PHASE_PATTERNS.find(([, pattern]) => pattern.test(step));
+  if (match) return match[0];
+  // Unrecognised steps keep their rough place in the recipe
+  if (index === 0) return "prep";
+  return index === total - 1 ? "finish" : "cook";
+}
+
+function toDate(date: string): Date {
+  return new Date(date + "T00:00:00");
+}
+
+function planPortion(entry: CalendarEntry, cookDate: string, window: StorageWindow): PlannedPortion {
+  const daysAfterCooking = differenceInCalendarDays(toDate(entry.date), toDate(cookDate));
+  if (daysAfterCooking < 0) return { entry, storage: "before-cook-day", daysAfterCooking };
+  // Without guidance, assume the common 3-day fridge rule rather than guess a freezer life
+  if (daysAfterCooking <= (window.fridgeDays ?? DEFAULT_FRIDGE_DAYS)) {
+    return { entry, storage: "fridge", daysAfterCooking };
+  }
+  if (window.freezerDays !== null && daysAfterCooking <= window.freezerDays) {
+    return { entry, storage: "freezer", daysAfterCooking };
+  }
+  return { entry, storage: "too-late", daysAfterCooking };
+}
+
+function buildLabels(portions: PlannedPortion[], cookDate: string, window: StorageWindow): StorageLabel[] {
+  const labels: StorageLabel[] = [];
+  const cooked = toDate(cookDate);
+  const fridgeCount = portions.filter((p) => p.storage === "fridge").length;
+  const freezerCount = portions.filter((p) => p.storage === "freezer").length;
+
+  if (fridgeCount > 0) {
+    labels.push({
+      location: "fridge",
+      count: fridgeCount,
+      useBy: formatDate(addDays(cooked, window.fridgeDays ?? DEFAULT_FRIDGE_DAYS)),
+    });
+  }
+  if (freezerCount > 0 && window.freezerDays !== null) {
+    labels.push({ location: "freezer", count: freezerCount, useBy: formatDate(addDays(cooked, window.freezerDays)) });
+  }
+  return labels;
+}
+
+function buildWarnings(recipe: Recipe, portions: PlannedPortion[], window: StorageWindow): string[] {
+  const warnings: string[] = [];
+  if (window.fridgeDays === null && window.freezerDays === null) {
+    warnings.push(
+      `No storage times found for ${recipe.title}; assuming ${DEFAULT_FRIDGE_DAYS} days in the fridge and nothing frozen.`
+    );
+  }
+  for (const portion of portions) {
+    if (portion.storage === "too-late") {
+      warnings.push(
+        `${recipe.title} for ${portion.entry.petName || "your pet"} on ${portion.entry.date} is ${portion.daysAfterCooking} days after cook day, past its safe storage window. It's left out of this batch, so cook it fresh closer to the day.`
+      );
+    } else if (portion.storage === "before-cook-day") {
+      warnings.push(
+        `${recipe.title} on ${portion.entry.date} is scheduled before cook day and isn't covered by this batch.`
+      );
+    }
+  }
+  return warnings;
+}
+
+/**
+ * Works out a single cook-day plan for every meal in `entries`: how many
+ * batches of each recipe to make, one combined prep order, the scaled
+ * ingredient totals, and which portions go in the fridge or freezer.
+ */
+export function buildBatchPlan(
+  entries: CalendarEntry[],
+  recipesById: Record<string, Recipe>,
+  cookDate: string
+): BatchPlan {
+  const entriesByRecipe = new Map<string, CalendarEntry[]>();
+  for (const entry of entries) {
+    if (!recipesById[entry.recipeId]) continue;
+    entriesByRecipe.set(entry.recipeId, [...(entriesByRecipe.get(entry.recipeId) ?? []), entry]);
+  }
+
+  const recipes: RecipeBatch[] = [...entriesByRecipe.entries()].map(([recipeId, recipeEntries]) => {
+    const recipe = recipesById[recipeId];
+    const window = parseStorageWindow(recipe.storageGuidance);
+    const portions = recipeEntries
+      .map((entry) => planPortion(entry, cookDate, window))
+      .sort((a, b) => a.entry.date.localeCompare(b.entry.date));
+    return {
+      recipe,
+      batches: portions.filter((p) => p.storage === "fridge" || p.storage === "freezer").length,
+      window,
+      portions,
+      labels: buildLabels(portions, cookDate, window),
+      warnings: buildWarnings(recipe, portions, window),
+    };
+  });
+  recipes.sort((a, b) => b.batches - a.batches || a.recipe.title.localeCompare(b.recipe.title));
+
+  const cooking = recipes.filter((r) => r.batches > 0);
+  const prepSteps = PHASE_ORDER.flatMap((phase) =>
+    cooking.flatMap(({ recipe, batches }) =>
+      recipe.steps
+        .map((text, i) => ({ text, phase: classifyStep(text, i, recipe.steps.length) }))
+        .filter((step) => step.phase === phase)
+        .map((step) => ({ ...step, recipeTitle: recipe.title, batches }))
+    )
+  );
+
+  // Only portions that are actually cooked today need shopping for
+  const cookedEntries = cooking.flatMap((r) =>
+    r.portions.filter((p) => p.storage === "fridge" || p.storage === "freezer").map((p) => p.entry)
+  );
+
+  return {
+    cookDate,
+    recipes,
+    prepSteps,
+    ingredients: buildShoppingList(cookedEntries, recipesById),
+    warningCount: recipes.reduce((sum, r) => sum + r.warnings.length, 0),
+  };
+}
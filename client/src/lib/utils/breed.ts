@@ -0,0 +1,57 @@
+import type { Breed, Pet, SizeClass } from "@/lib/types/pet.types";
+
+/** Stored as the breed for pets that don't match anything in the catalog. */
+export const MIXED_BREED = "Mixed / Other";
+
+// Catalog ranges cover typical healthy adults, so only weights clearly beyond them are flagged
+const WEIGHT_TOLERANCE = 0.15;
+
+const SIZE_CLASS_LABELS: Record<SizeClass, string> = {
+  TOY: "Toy",
+  SMALL: "Small",
+  MEDIUM: "Medium",
+  LARGE: "Large",
+  GIANT: "Giant",
+};
+
+export function formatSizeClass(sizeClass: SizeClass): string {
+  return SIZE_CLASS_LABELS[sizeClass];
+}
+
+export function formatWeightRange(breed: Breed): string {
+  return `${breed.minWeightKg}–${breed.maxWeightKg} kg`;
+}
+
+export function findBreed(breeds: Breed[], name: string): Breed | null {
+  const needle = name.trim().toLowerCase();
+  return breeds.find((b) => b.name.toLowerCase() === needle) ?? null;
+}
+
+/** Breeds containing the query, with those starting with it first. */
+export function filterBreeds(breeds: Breed[], query: string): Breed[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return breeds;
+  const matches = breeds.filter((b) => b.name.toLowerCase().includes(needle));
+  return [
+    ...matches.filter((b) => b.name.toLowerCase().startsWith(needle)),
+    ...matches.filter((b) => !b.name.toLowerCase().startsWith(needle)),
+  ];
+}
+
+/**
+ * Whether a pet weighs well under or over its breed's typical adult range.
+ * Puppies and kittens are still growing into it, so they are never flagged.
+ */
+export function breedWeightStatus(
+  breed: Breed,
+  pet: Pick<Pet, "weightKg" | "ageYears" | "ageMonths">
+): "under" | "over" | null {
+  const ageMonths = pet.ageYears * 12 + pet.ageMonths;
+  // Large and giant dogs keep filling out until about a year and a half
+  const adultAt = breed.sizeClass === "LARGE" || breed.sizeClass === "GIANT" ? 18 : 12;
+  if (ageMonths < adultAt) return null;
+
+  if (pet.weightKg < breed.minWeightKg * (1 - WEIGHT_TOLERANCE)) return "under";
+  if (pet.weightKg > breed.maxWeightKg * (1 + WEIGHT_TOLERANCE)) return "over";
+  return null;
+}
@@ -1,4 +1,17 @@
-import { format, startOfMonth, endOfMonth, eachDayOfInterval, getDay, addMonths, subMonths } from "date-fns";
+import {
+  format,
+  startOfMonth,
+  endOfMonth,
+  startOfWeek,
+  endOfWeek,
+  eachDayOfInterval,
+  eachMonthOfInterval,
+  getDay,
+  addMonths,
+  subMonths,
+  addWeeks,
+  subWeeks,
+} from "date-fns";
 
 export function getMonthString(date: Date): string {
   return format(date, "yyyy-MM");
@@ -26,6 +39,35 @@ export function prevMonth(date: Date): Date {
   return subMonths(date, 1);
 }
 
+/** Every "yyyy-MM" month touched by an inclusive yyyy-MM-dd date range. */
+export function getMonthsInRange(from: string, to: string): string[] {
+  if (!from || !to || from > to) return [];
+  const start = new Date(from + "T00:00:00");
+  const end = new Date(to + "T00:00:00");
+  return eachMonthOfInterval({ start, end }).map(getMonthString);
+}
+
+export function getWeekDays(date: Date): Date[] {
+  return eachDayOfInterval({ start: startOfWeek(date), end: endOfWeek(date) });
+}
+
+export function getWeekLabel(date: Date): string {
+  const start = startOfWeek(date);
+  const end = endOfWeek(date);
+  if (start.getFullYear() !== end.getFullYear()) {
+    return `${format(start, "MMM d, yyyy")} – ${format(end, "MMM d, yyyy")}`;
+  }
+  return `${format(start, "MMM d")} – ${format(end, "MMM d, yyyy")}`;
+}
+
+export function nextWeek(date: Date): Date {
+  return addWeeks(date, 1);
+}
+
+export function prevWeek(date: Date): Date {
+  return subWeeks(date, 1);
+}
+
 export function formatDate(date: Date): string {
   return format(date, "yyyy-MM-dd");
 }
@@ -0,0 +1,51 @@
+import type { HealthField, HealthTerm, HealthVocabulary } from "@/lib/types/pet.types";
+
+export type HealthListKey = keyof HealthVocabulary;
+
+/** The pet profile list each coded field is stored in. */
+export const HEALTH_FIELD_KEYS: Record<HealthField, HealthListKey> = {
+  ALLERGIES: "allergies",
+  MEDICAL_CONDITIONS: "medicalConditions",
+  MEDICATIONS: "medications",
+};
+
+export const HEALTH_FIELD_LABELS: Record<HealthField, string> = {
+  ALLERGIES: "Allergies",
+  MEDICAL_CONDITIONS: "Medical Conditions",
+  MEDICATIONS: "Medications",
+};
+
+// Mirrors the server's enum constant names
+export const HEALTH_CODE_PATTERN = /^[A-Z][A-Z0-9_]*$/;
+
+/** Whether a stored value is a code rather than free text from before the vocabularies existed. */
+export function isHealthCode(value: string): boolean {
+  return HEALTH_CODE_PATTERN.test(value);
+}
+
+export function findTerm(terms: HealthTerm[], code: string): HealthTerm | null {
+  return terms.find((t) => t.code === code) ?? null;
+}
+
+/** The label for a stored code, or the value itself for legacy free text and codes not loaded yet. */
+export function termLabel(terms: HealthTerm[] | undefined, value: string): string {
+  return (terms && findTerm(terms, value)?.label) ?? value;
+}
+
+/** Terms whose label or a synonym contains the query, with label matches first. */
+export function filterTerms(terms: HealthTerm[], query: string): HealthTerm[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return terms;
+  const byLabel = terms.filter((t) => t.label.toLowerCase().includes(needle));
+  const bySynonym = terms.filter(
+    (t) => !byLabel.includes(t) && t.synonyms.some((s) => s.toLowerCase().includes(needle))
+  );
+  return [...byLabel, ...bySynonym];
+}
+
+/** The synonym that made a term match the query, to show why it was listed. */
+export function matchedSynonym(term: HealthTerm, query: string): string | null {
+  const needle = query.trim().toLowerCase();
+  if (!needle || term.label.toLowerCase().includes(needle)) return null;
+  return term.synonyms.find((s) => s.toLowerCase().includes(needle)) ?? null;
+}
@@ -0,0 +1,46 @@
+import type { Ingredient } from "@/lib/types/ingredient.types";
+import type { Species } from "@/lib/types/pet.types";
+
+export interface IngredientGroup {
+  category: string;
+  ingredients: Ingredient[];
+}
+
+const UNCATEGORISED = "other";
+
+export function formatCategory(category: string) {
+  return category.replace(/_/g, " / ");
+}
+
+/**
+ * Splits a knowledge base name into the ingredient and its preparation notes:
+ * "chicken breast (cooked, skinless)" becomes "chicken breast" and "cooked, skinless".
+ */
+export function splitIngredientName(name: string): { base: string; notes: string | null } {
+  const match = name.match(/^([^(]*)\((.*)\)\s*$/);
+  if (!match) return { base: name.trim(), notes: null };
+  return { base: match[1].trim(), notes: match[2].trim() || null };
+}
+
+/**
+ * Ingredients whose name or category contains `query` and that are safe for every
+ * species in `species`, grouped by category in alphabetical order.
+ */
+export function groupIngredients(ingredients: Ingredient[], query: string, species: Species[]): IngredientGroup[] {
+  const q = query.trim().toLowerCase();
+  const groups = new Map<string, Ingredient[]>();
+
+  for (const ingredient of ingredients) {
+    const category = ingredient.category ?? UNCATEGORISED;
+    if (q && !ingredient.name.toLowerCase().includes(q) && !formatCategory(category).toLowerCase().includes(q)) continue;
+    if (!species.every((s) => ingredient.speciesSafe.includes(s))) continue;
+    groups.set(category, [...(groups.get(category) ?? []), ingredient]);
+  }
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([category, items]) => ({
+      category,
+      ingredients: items.sort((a, b) => a.name.localeCompare(b.name)),
+    }));
+}
@@ -0,0 +1,26 @@
+import { ingredientKey } from "@/lib/utils/shopping-list";
+import type { IngredientMatch, IngredientSuggestion } from "@/lib/types/ingredient.types";
+
+/** Knowledge base names carry preparation notes, e.g. "chicken breast (cooked, skinless)". */
+function baseKey(name: string): string {
+  return ingredientKey(name.replace(/\(.*$/, ""));
+}
+
+/**
+ * Classifies a free-text ingredient against its search results. A name counts as
+ * known when it is an entry's name, or the start of one ("chicken" for "chicken
+ * breast"), so only text that matches nothing, usually a typo, is flagged.
+ */
+export function matchIngredient(name: string, suggestions: IngredientSuggestion[]): IngredientMatch {
+  const key = ingredientKey(name);
+  const toxic = suggestions.find((s) => s.toxic && ` ${key} `.includes(` ${ingredientKey(s.name)} `));
+  if (toxic) return { status: "toxic", suggestion: toxic };
+
+  const known = suggestions.find((s) => {
+    const candidate = baseKey(s.name);
+    return !s.toxic && (candidate === key || candidate.startsWith(`${key} `));
+  });
+  if (known) return { status: "known", suggestion: known };
+
+  return { status: "unknown", suggestion: suggestions[0] ?? null };
+}
@@ -0,0 +1,106 @@
+import type { ActivityLevel, Pet } from "@/lib/types/pet.types";
+
+export type LifeStage = "GROWTH" | "ADULT" | "SENIOR";
+export type WeightGoal = "MAINTAIN" | "LOSE" | "GAIN";
+
+export interface EnergyRequirement {
+  /** Resting energy requirement in kcal/day. */
+  rer: number;
+  /** Maintenance (daily target) energy requirement in kcal/day. */
+  mer: number;
+  /** Multiplier applied to RER to get MER. */
+  factor: number;
+  /** Weight the RER was calculated from — the target weight when losing or gaining. */
+  basisWeightKg: number;
+  lifeStage: LifeStage;
+  weightGoal: WeightGoal;
+}
+
+/** Default band around the MER inside which a day counts as on target. */
+export const CALORIE_TOLERANCE = 0.1;
+
+// Treat anything within 3% of the current weight as "at target"
+const WEIGHT_GOAL_THRESHOLD = 0.03;
+
+const ACTIVITY_ADJUSTMENT: Record<ActivityLevel, number> = {
+  LOW: 0.85,
+  MODERATE: 1,
+  HIGH: 1.2,
+  VERY_HIGH: 1.5,
+};
+
+/** RER = 70 × bodyweight(kg)^0.75 */
+export function calculateRer(weightKg: number): number {
+  return 70 * Math.pow(weightKg, 0.75);
+}
+
+/** Same age cut-offs the backend prompt builder uses. */
+export function getLifeStage(pet: Pet): LifeStage {
+  const totalMonths = pet.ageYears * 12 + pet.ageMonths;
+  if (totalMonths < 12) return "GROWTH";
+  if (pet.species === "CAT" && totalMonths >= 132) return "SENIOR";
+  if (pet.species === "DOG" && totalMonths >= 96) return "SENIOR";
+  return "ADULT";
+}
+
+export function getWeightGoal(pet: Pet): WeightGoal {
+  if (!pet.targetWeightKg) return "MAINTAIN";
+  const delta = (pet.targetWeightKg - pet.weightKg) / pet.weightKg;
+  if (delta < -WEIGHT_GOAL_THRESHOLD) return "LOSE";
+  if (delta > WEIGHT_GOAL_THRESHOLD) return "GAIN";
+  return "MAINTAIN";
+}
+
+function maintenanceFactor(pet: Pet, lifeStage: LifeStage): number {
+  const totalMonths = pet.ageYears * 12 + pet.ageMonths;
+  if (pet.species === "DOG") {
+    if (lifeStage === "GROWTH") return totalMonths < 4 ? 3.0 : 2.0;
+    if (lifeStage === "SENIOR") return 1.4;
+    return pet.isNeutered ? 1.6 : 1.8;
+  }
+  if (lifeStage === "GROWTH") return 2.5;
+  if (lifeStage === "SENIOR") return 1.1;
+  return pet.isNeutered ? 1.2 : 1.4;
+}
+
+/**
+ * Estimates daily energy needs using the standard RER × factor approach.
+ * Growing pets are always fed for growth; adults with a target weight are fed
+ * at the target weight's RER (weight loss uses a reduced factor).
+ */
+export function calculateEnergyRequirement(pet: Pet): EnergyRequirement {
+  const lifeStage = getLifeStage(pet);
+  const weightGoal = lifeStage === "GROWTH" ? "MAINTAIN" : getWeightGoal(pet);
+  const basisWeightKg = weightGoal === "MAINTAIN" ? pet.weightKg : pet.targetWeightKg!;
+
+  let factor: number;
+  if (weightGoal === "LOSE") {
+    factor = pet.species === "DOG" ? 1.0 : 0.8;
+  } else {
+    factor = maintenanceFactor(pet, lifeStage) * ACTIVITY_ADJUSTMENT[pet.activityLevel];
+  }
+
+  const rer = calculateRer(basisWeightKg);
+  return {
+    rer: Math.round(rer),
+    mer: Math.round(rer * factor),
+    factor: Math.round(factor * 100) / 100,
+    basisWeightKg,
+    lifeStage,
+    weightGoal,
+  };
+}
+
+export type CalorieStatus = "UNPLANNED" | "UNDER" | "ON_TARGET" | "OVER";
+
+export function getCalorieStatus(
+  calories: number,
+  mealCount: number,
+  target: number,
+  tolerance = CALORIE_TOLERANCE
+): CalorieStatus {
+  if (mealCount === 0) return "UNPLANNED";
+  if (calories < target * (1 - tolerance)) return "UNDER";
+  if (calories > target * (1 + tolerance)) return "OVER";
+  return "ON_TARGET";
+}
@@ -0,0 +1,119 @@
+/** Quarter turns clockwise. */
+export type Rotation = 0 | 1 | 2 | 3;
+
+export interface PhotoCrop {
+  rotation: Rotation;
+  /** 1 fits the shorter side of the photo to the square; larger values zoom in. */
+  zoom: number;
+  /** Offset of the photo's centre from the square's, as a fraction of the square's side. */
+  panX: number;
+  panY: number;
+}
+
+export const DEFAULT_CROP: PhotoCrop = { rotation: 0, zoom: 1, panX: 0, panY: 0 };
+export const MAX_ZOOM = 4;
+
+// Pet photos are shown at most ~300px wide, so this leaves room for high-density screens
+const OUTPUT_SIZE = 1024;
+const MIN_OUTPUT_SIZE = 320;
+// Well under the server's 5MB limit, so uploads stay quick on mobile connections
+export const PHOTO_SIZE_BUDGET = 1024 * 1024;
+const QUALITY_STEPS = [0.9, 0.8, 0.7, 0.6, 0.5];
+
+export const ACCEPTED_PHOTO_TYPES = ["image/jpeg", "image/png", "image/webp"];
+// Photos are shrunk well below the upload limit before sending; this only guards against decoding huge files
+const MAX_SOURCE_SIZE = 40 * 1024 * 1024; // 40MB
+
+/** Why a picked file can't be used as a photo, or null if it can. */
+export function validatePhotoFile(file: File): string | null {
+  if (!ACCEPTED_PHOTO_TYPES.includes(file.type)) return "Please upload a JPG, PNG, or WebP image.";
+  if (file.size > MAX_SOURCE_SIZE) return "Image must be under 40MB.";
+  return null;
+}
+
+/**
+ * Decodes a photo with its EXIF orientation applied, so phone pictures taken
+ * sideways come out upright before any rotation the user adds.
+ */
+export function decodePhoto(file: Blob): Promise<ImageBitmap> {
+  return createImageBitmap(file, { imageOrientation: "from-image" });
+}
+
+function rotatedSize(image: ImageBitmap, rotation: Rotation) {
+  return rotation % 2 === 0
+    ? { width: image.width, height: image.height }
+    : { width: image.height, height: image.width };
+}
+
+/** Keeps the photo covering the whole square, however far it has been dragged. */
+export function clampCrop(image: ImageBitmap, crop: PhotoCrop): PhotoCrop {
+  const { width, height } = rotatedSize(image, crop.rotation);
+  const zoom = Math.min(Math.max(crop.zoom, 1), MAX_ZOOM);
+  const shorter = Math.min(width, height);
+  const maxX = ((width / shorter) * zoom - 1) / 2;
+  const maxY = ((height / shorter) * zoom - 1) / 2;
+  return {
+    rotation: crop.rotation,
+    zoom,
+    panX: Math.min(Math.max(crop.panX, -maxX), maxX),
+    panY: Math.min(Math.max(crop.panY, -maxY), maxY),
+  };
+}
+
+/** Draws the cropped square onto a `size`×`size` canvas; used for both the preview and the export. */
+export function drawCrop(canvas: HTMLCanvasElement, image: ImageBitmap, crop: PhotoCrop, size: number) {
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+
+  const { width, height } = rotatedSize(image, crop.rotation);
+  const scale = (size / Math.min(width, height)) * crop.zoom;
+
+  ctx.imageSmoothingQuality = "high";
+  ctx.clearRect(0, 0, size, size);
+  ctx.save();
+  ctx.translate(size / 2 + crop.panX * size, size / 2 + crop.panY * size);
+  ctx.rotate((crop.rotation * Math.PI) / 2);
+  ctx.scale(scale, scale);
+  ctx.drawImage(image, -image.width / 2, -image.height / 2);
+  ctx.restore();
+}
+
+function toBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob | null> {
+  return new Promise((resolve) => canvas.toBlob(resolve, type, quality));
+}
+
+/**
+ * Renders the crop as a WebP image within `PHOTO_SIZE_BUDGET`, lowering the
+ * quality and then the resolution until it fits. Browsers that can't encode
+ * WebP get a JPEG instead.
+ */
+export async function exportPhoto(image: ImageBitmap, crop: PhotoCrop): Promise<File> {
+  const canvas = document.createElement("canvas");
+  const sourceSize = Math.min(image.width, image.height) / crop.zoom;
+  let size = Math.round(Math.min(OUTPUT_SIZE, sourceSize));
+  let smallest: Blob | null = null;
+
+  for (;;) {
+    drawCrop(canvas, image, crop, size);
+    for (const quality of QUALITY_STEPS) {
+      let blob = await toBlob(canvas, "image/webp", quality);
+      // Unsupported types silently fall back to PNG, which would never fit the budget
+      if (blob?.type !== "image/webp") blob = await toBlob(canvas, "image/jpeg", quality);
+      if (!blob) continue;
+      if (!smallest || blob.size < smallest.size) smallest = blob;
+      if (blob.size <= PHOTO_SIZE_BUDGET) return toFile(blob);
+    }
+    if (size <= MIN_OUTPUT_SIZE) break;
+    size = Math.max(MIN_OUTPUT_SIZE, Math.round(size * 0.75));
+  }
+
+  if (!smallest) throw new Error("This photo couldn't be processed.");
+  return toFile(smallest);
+}
+
+function toFile(blob: Blob): File {
+  const extension = blob.type === "image/webp" ? "webp" : "jpg";
+  return new File([blob], `photo.${extension}`, { type: blob.type });
+}
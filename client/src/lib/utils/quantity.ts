@@ -0,0 +1,134 @@
+const UNICODE_FRACTIONS: Record<string, number> = {
+  "½": 0.5,
+  "⅓": 1 / 3,
+  "⅔": 2 / 3,
+  "¼": 0.25,
+  "¾": 0.75,
+  "⅛": 0.125,
+};
+
+const NUMBER_SOURCE = String.raw`\d+\s+\d+\/\d+|\d+\s*[½⅓⅔¼¾⅛]|\d+\/\d+|\d+(?:\.\d+)?|\.\d+|[½⅓⅔¼¾⅛]`;
+
+/** Matches a single amount or a range such as "1-2" or "1 to 1 1/2". */
+export const QUANTITY_SOURCE = `(?:${NUMBER_SOURCE})(?:\\s*(?:-|–|to)\\s*(?:${NUMBER_SOURCE}))?`;
+
+export interface ParsedQuantity {
+  value: number;
+  /** Upper bound when the amount was written as a range. */
+  max?: number;
+}
+
+function parseNumber(text: string): number | null {
+  const trimmed = text.trim();
+
+  const mixed = trimmed.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) {
+    const denominator = Number(mixed[3]);
+    return denominator === 0 ? null : Number(mixed[1]) + Number(mixed[2]) / denominator;
+  }
+
+  const mixedUnicode = trimmed.match(/^(\d+)\s*([½⅓⅔¼¾⅛])$/);
+  if (mixedUnicode) return Number(mixedUnicode[1]) + UNICODE_FRACTIONS[mixedUnicode[2]];
+
+  const fraction = trimmed.match(/^(\d+)\/(\d+)$/);
+  if (fraction) {
+    const denominator = Number(fraction[2]);
+    return denominator === 0 ? null : Number(fraction[1]) / denominator;
+  }
+
+  if (trimmed in UNICODE_FRACTIONS) return UNICODE_FRACTIONS[trimmed];
+
+  const value = Number(trimmed);
+  return trimmed !== "" && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Parses amounts written the way recipes write them: "2", "0.5", "1/2",
+ * "1 1/2", "½" and ranges like "1-2". Returns null for anything else.
+ */
+export function parseQuantity(text: string): ParsedQuantity | null {
+  const trimmed = text.trim();
+  if (!new RegExp(`^${QUANTITY_SOURCE}$`).test(trimmed)) return null;
+
+  const [low, high] = trimmed.split(/\s*(?:-|–|to)\s*/);
+  const value = parseNumber(low);
+  if (value === null) return null;
+  if (high === undefined) return { value };
+
+  const max = parseNumber(high);
+  return max === null ? null : { value, max };
+}
+
+/** Rounds to at most two decimals and drops trailing zeros. */
+export function formatQuantity(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+export type UnitKind = "mass" | "volume" | "count";
+
+export interface CanonicalUnit {
+  /** Unit that amounts are converted into before adding them up. */
+  base: string;
+  kind: UnitKind;
+  /** Multiplier from the written unit into {@link base}. */
+  factor: number;
+}
+
+function unit(base: string, kind: UnitKind, factor = 1): CanonicalUnit {
+  return { base, kind, factor };
+}
+
+// Metric units collapse into g / ml; kitchen and imperial units are kept as
+// written so a list never turns "2 tsp" into "9.86 ml".
+const UNIT_ALIASES: Record<string, CanonicalUnit> = {
+  mg: unit("g", "mass", 0.001),
+  g: unit("g", "mass"),
+  gram: unit("g", "mass"),
+  grams: unit("g", "mass"),
+  kg: unit("g", "mass", 1000),
+  kilogram: unit("g", "mass", 1000),
+  kilograms: unit("g", "mass", 1000),
+  oz: unit("oz", "mass"),
+  ounce: unit("oz", "mass"),
+  ounces: unit("oz", "mass"),
+  lb: unit("lb", "mass"),
+  lbs: unit("lb", "mass"),
+  pound: unit("lb", "mass"),
+  pounds: unit("lb", "mass"),
+  ml: unit("ml", "volume"),
+  l: unit("ml", "volume", 1000),
+  liter: unit("ml", "volume", 1000),
+  liters: unit("ml", "volume", 1000),
+  litre: unit("ml", "volume", 1000),
+  litres: unit("ml", "volume", 1000),
+  tsp: unit("tsp", "volume"),
+  teaspoon: unit("tsp", "volume"),
+  teaspoons: unit("tsp", "volume"),
+  tbsp: unit("tbsp", "volume"),
+  tablespoon: unit("tbsp", "volume"),
+  tablespoons: unit("tbsp", "volume"),
+  cup: unit("cup", "volume"),
+  cups: unit("cup", "volume"),
+  piece: unit("pcs", "count"),
+  pieces: unit("pcs", "count"),
+  pc: unit("pcs", "count"),
+  pcs: unit("pcs", "count"),
+};
+
+/** Unit words recognised by {@link normalizeUnit}, longest first for regex alternation. */
+export const UNIT_SOURCE = Object.keys(UNIT_ALIASES)
+  .sort((a, b) => b.length - a.length)
+  .join("|");
+
+export function normalizeUnit(text: string): CanonicalUnit | null {
+  return UNIT_ALIASES[text.trim().toLowerCase().replace(/\.$/, "")] ?? null;
+}
+
+/** Formats an amount held in a base unit, switching to kg / L once it gets large. */
+export function formatBaseAmount(value: number, base: string): string {
+  if (base === "g" && value >= 1000) return `${formatQuantity(value / 1000)} kg`;
+  if (base === "ml" && value >= 1000) return `${formatQuantity(value / 1000)} L`;
+  if (base === "pcs" || base === "") return formatQuantity(value);
+  if (base === "cup" && value !== 1) return `${formatQuantity(value)} cups`;
+  return `${formatQuantity(value)} ${base}`;
+}
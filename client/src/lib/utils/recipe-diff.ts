@@ -0,0 +1,96 @@
+import { ingredientKey } from "@/lib/utils/shopping-list";
+import type { RecipeIngredient } from "@/lib/types/recipe.types";
+
+export type DiffKind = "unchanged" | "changed" | "added" | "removed";
+
+export interface IngredientDiffRow {
+  kind: DiffKind;
+  before: RecipeIngredient | null;
+  after: RecipeIngredient | null;
+}
+
+export interface StepDiffRow {
+  kind: DiffKind;
+  before: string | null;
+  after: string | null;
+}
+
+function sameQuantity(a: RecipeIngredient, b: RecipeIngredient): boolean {
+  return a.amount.trim() === b.amount.trim() && a.unit.trim().toLowerCase() === b.unit.trim().toLowerCase();
+}
+
+/**
+ * Matches ingredients by name (ignoring case and plurals) and reports what was
+ * added, dropped, or had its amount changed. Rows follow the new recipe's
+ * order, with removed ingredients listed last.
+ */
+export function diffIngredients(before: RecipeIngredient[], after: RecipeIngredient[]): IngredientDiffRow[] {
+  const remaining = new Map<string, RecipeIngredient>();
+  for (const ing of before) remaining.set(ingredientKey(ing.name), ing);
+
+  const rows: IngredientDiffRow[] = after.map((ing) => {
+    const key = ingredientKey(ing.name);
+    const match = remaining.get(key);
+    if (!match) return { kind: "added", before: null, after: ing };
+    remaining.delete(key);
+    return { kind: sameQuantity(match, ing) ? "unchanged" : "changed", before: match, after: ing };
+  });
+
+  for (const ing of remaining.values()) {
+    rows.push({ kind: "removed", before: ing, after: null });
+  }
+  return rows;
+}
+
+function normalizeStep(step: string): string {
+  return step.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Line diff over the two step lists using their longest common subsequence.
+ * Within each run of differences, removed and added steps are paired up
+ * side by side as "changed" so rewrites of one step line up with each other.
+ */
+export function diffSteps(before: string[], after: string[]): StepDiffRow[] {
+  const a = before.map(normalizeStep);
+  const b = after.map(normalizeStep);
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: StepDiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) rows.push({ kind: "changed", before: removed[k], after: added[k] });
+    for (const step of removed.slice(paired)) rows.push({ kind: "removed", before: step, after: null });
+    for (const step of added.slice(paired)) rows.push({ kind: "added", before: null, after: step });
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush();
+      rows.push({ kind: "unchanged", before: before[i], after: after[j] });
+      i++;
+      j++;
+    } else if (j >= b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      removed.push(before[i]);
+      i++;
+    } else {
+      added.push(after[j]);
+      j++;
+    }
+  }
+  flush();
+  return rows;
+}
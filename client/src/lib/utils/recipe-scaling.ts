@@ -0,0 +1,154 @@
+import {
+  QUANTITY_SOURCE,
+  UNIT_SOURCE,
+  formatQuantity,
+  normalizeUnit,
+  parseQuantity,
+  type CanonicalUnit,
+} from "@/lib/utils/quantity";
+import { parseShoppingItem } from "@/lib/utils/shopping-list";
+import type { RecipeIngredient } from "@/lib/types/recipe.types";
+
+export type UnitSystem = "metric" | "imperial";
+
+export interface ScaledIngredient {
+  name: string;
+  amount: string;
+  unit: string;
+  /** False when the amount couldn't be read, so it is shown exactly as written. */
+  scaled: boolean;
+}
+
+export interface ScaledLine {
+  text: string;
+  scaled: boolean;
+}
+
+// Everything is converted through grams or millilitres. Teaspoons and
+// tablespoons are left alone: both systems measure small amounts with spoons.
+const GRAMS_PER_UNIT: Record<string, number> = { g: 1, oz: 28.3495, lb: 453.592 };
+const ML_PER_UNIT: Record<string, number> = { ml: 1, cup: 236.588 };
+
+interface DisplayUnit {
+  unit: string;
+  /** How many grams or millilitres one of {@link unit} holds. */
+  size: number;
+}
+
+function pickMassUnit(grams: number, system: UnitSystem): DisplayUnit {
+  if (system === "metric") return grams >= 1000 ? { unit: "kg", size: 1000 } : { unit: "g", size: 1 };
+  return grams >= GRAMS_PER_UNIT.lb ? { unit: "lb", size: GRAMS_PER_UNIT.lb } : { unit: "oz", size: GRAMS_PER_UNIT.oz };
+}
+
+function pickVolumeUnit(ml: number, system: UnitSystem): DisplayUnit {
+  if (system === "metric") return ml >= 1000 ? { unit: "L", size: 1000 } : { unit: "ml", size: 1 };
+  // A quarter cup is the smallest amount worth measuring in cups
+  if (ml >= ML_PER_UNIT.cup / 4) return { unit: "cup", size: ML_PER_UNIT.cup };
+  if (ml >= 14.787) return { unit: "tbsp", size: 14.787 };
+  return { unit: "tsp", size: 4.929 };
+}
+
+function pluralize(unit: string, values: number[]): string {
+  return unit === "cup" && values.some((v) => Math.round(v * 100) !== 100) ? "cups" : unit;
+}
+
+function formatRange(values: number[]): string {
+  return values.map(formatQuantity).join("–");
+}
+
+/** Converted amounts carry false precision ("236.59 ml"), so round them to what a kitchen can measure. */
+function roundConverted(value: number): number {
+  if (value >= 100) return Math.round(value);
+  if (value >= 10) return Math.round(value * 10) / 10;
+  return value;
+}
+
+/**
+ * Scales the amounts (one value, or both ends of a range) and, when a unit
+ * system is chosen, re-expresses them in it. Units we don't recognise, such
+ * as "cloves" or "handful", are scaled but keep their wording.
+ */
+function renderMeasure(
+  values: number[],
+  unitText: string,
+  canonical: CanonicalUnit | null,
+  system: UnitSystem | null
+): { amount: string; unit: string } {
+  if (!system || !canonical) return { amount: formatRange(values), unit: unitText };
+
+  const inBase = values.map((v) => v * canonical.factor);
+  const top = Math.max(...inBase);
+
+  let display: DisplayUnit | null = null;
+  let inSmallest = inBase;
+  if (canonical.base in GRAMS_PER_UNIT) {
+    inSmallest = inBase.map((v) => v * GRAMS_PER_UNIT[canonical.base]);
+    display = pickMassUnit(top * GRAMS_PER_UNIT[canonical.base], system);
+  } else if (canonical.base in ML_PER_UNIT) {
+    inSmallest = inBase.map((v) => v * ML_PER_UNIT[canonical.base]);
+    display = pickVolumeUnit(top * ML_PER_UNIT[canonical.base], system);
+  }
+
+  if (!display) return { amount: formatRange(values), unit: unitText };
+
+  const converted = inSmallest.map((v) => roundConverted(v / display.size));
+  return { amount: formatRange(converted), unit: pluralize(display.unit, converted) };
+}
+
+// Some recipes put the unit inside the amount ("200g") and leave `unit` empty
+const AMOUNT_WITH_UNIT = new RegExp(`^(${QUANTITY_SOURCE})\\s*(${UNIT_SOURCE})\\.?$`, "i");
+
+/**
+ * Multiplies an ingredient's amount by `factor` and optionally converts it to
+ * metric or imperial. Amounts like "a pinch" are returned unchanged with
+ * `scaled: false` whenever they would have needed changing.
+ */
+export function scaleIngredient(
+  ingredient: RecipeIngredient,
+  factor: number,
+  system: UnitSystem | null
+): ScaledIngredient {
+  let amountText = ingredient.amount.trim();
+  let unitText = ingredient.unit.trim();
+
+  if (!unitText) {
+    const combined = amountText.match(AMOUNT_WITH_UNIT);
+    if (combined) {
+      amountText = combined[1];
+      unitText = combined[2];
+    }
+  }
+
+  const parsed = parseQuantity(amountText);
+  if (!parsed) {
+    return { name: ingredient.name, amount: ingredient.amount, unit: ingredient.unit, scaled: factor === 1 };
+  }
+
+  const values = parsed.max === undefined ? [parsed.value] : [parsed.value, parsed.max];
+  const { amount, unit } = renderMeasure(
+    values.map((v) => v * factor),
+    unitText,
+    unitText ? normalizeUnit(unitText) : null,
+    system
+  );
+  return { name: ingredient.name, amount, unit, scaled: true };
+}
+
+/** Same as {@link scaleIngredient} for a free-text shopping list line. */
+export function scaleShoppingLine(line: string, factor: number, system: UnitSystem | null): ScaledLine {
+  if (factor === 1 && !system) return { text: line, scaled: true };
+
+  const parsed = parseShoppingItem(line);
+  if (parsed.amount === null) return { text: line, scaled: factor === 1 };
+
+  // Parsed amounts are already in base units ("g", "ml", "tsp", "" for counts),
+  // so grams and millilitres need the metric pass to come back as kg / L
+  const writtenMetric = parsed.unit === "g" || parsed.unit === "ml";
+  const { amount, unit } = renderMeasure(
+    [parsed.amount * factor],
+    parsed.unit,
+    normalizeUnit(parsed.unit),
+    system ?? (writtenMetric ? "metric" : null)
+  );
+  return { text: [amount, unit, parsed.name].filter(Boolean).join(" "), scaled: true };
+}
@@ -0,0 +1,101 @@
+import type { RecipeSearchParams, RecipeSort, RecipeStatus, RiskLevel } from "@/lib/types/recipe.types";
+
+export const RECIPE_PAGE_SIZE = 12;
+
+export const RECIPE_SORT_OPTIONS: { value: RecipeSort; label: string }[] = [
+  { value: "NEWEST", label: "Newest first" },
+  { value: "OLDEST", label: "Oldest first" },
+  { value: "TITLE", label: "Title A–Z" },
+  { value: "CALORIES_LOW", label: "Fewest calories" },
+  { value: "CALORIES_HIGH", label: "Most calories" },
+];
+
+export const RISK_LEVEL_FILTERS: RiskLevel[] = ["GREEN", "AMBER", "RED"];
+export const STATUS_FILTERS: RecipeStatus[] = ["DRAFT", "SAVED"];
+
+/** What the recipes page keeps in its URL: the search itself plus which tab is open. */
+export interface RecipeSearchState extends RecipeSearchParams {
+  archived?: boolean;
+}
+
+const SORT_VALUES = new Set<string>(RECIPE_SORT_OPTIONS.map((o) => o.value));
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function readList<T extends string>(value: string | null, allowed: readonly T[]): T[] | undefined {
+  const items = (value ?? "").split(",").filter((v): v is T => (allowed as readonly string[]).includes(v));
+  return items.length > 0 ? items : undefined;
+}
+
+function readNumber(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? Math.floor(n) : undefined;
+}
+
+function readDate(value: string | null): string | undefined {
+  return value && DATE_PATTERN.test(value) ? value : undefined;
+}
+
+/**
+ * Reads the recipe filters out of the page's query string. Unknown or
+ * malformed values are dropped, and `page` is 1-based as it appears in the URL.
+ */
+export function parseRecipeSearch(query: URLSearchParams): RecipeSearchState {
+  const sort = query.get("sort");
+  return {
+    archived: query.get("view") === "archived" || undefined,
+    q: query.get("q")?.trim() || undefined,
+    petId: query.get("petId") || undefined,
+    riskLevels: readList(query.get("risk"), RISK_LEVEL_FILTERS),
+    statuses: readList(query.get("status"), STATUS_FILTERS),
+    minCalories: readNumber(query.get("minCalories")),
+    maxCalories: readNumber(query.get("maxCalories")),
+    createdFrom: readDate(query.get("from")),
+    createdTo: readDate(query.get("to")),
+    sort: sort && SORT_VALUES.has(sort) ? (sort as RecipeSort) : undefined,
+    page: Math.max(readNumber(query.get("page")) ?? 1, 1),
+  };
+}
+
+/** Inverse of {@link parseRecipeSearch}; defaults are left out to keep URLs short. */
+export function toRecipeSearchQuery(params: RecipeSearchState): string {
+  const query = new URLSearchParams();
+  if (params.archived) query.set("view", "archived");
+  if (params.q) query.set("q", params.q);
+  if (params.petId) query.set("petId", params.petId);
+  if (params.riskLevels?.length) query.set("risk", params.riskLevels.join(","));
+  if (params.statuses?.length) query.set("status", params.statuses.join(","));
+  if (params.minCalories !== undefined) query.set("minCalories", String(params.minCalories));
+  if (params.maxCalories !== undefined) query.set("maxCalories", String(params.maxCalories));
+  if (params.createdFrom) query.set("from", params.createdFrom);
+  if (params.createdTo) query.set("to", params.createdTo);
+  if (params.sort && params.sort !== "NEWEST") query.set("sort", params.sort);
+  if (params.page && params.page > 1) query.set("page", String(params.page));
+  return query.toString();
+}
+
+export function hasActiveFilters(params: RecipeSearchParams): boolean {
+  return Boolean(
+    params.q ||
+      params.riskLevels?.length ||
+      params.statuses?.length ||
+      params.minCalories !== undefined ||
+      params.maxCalories !== undefined ||
+      params.createdFrom ||
+      params.createdTo
+  );
+}
+
+/**
+ * Turns the page state into the API request. Archived recipes only appear on
+ * the Archived tab, so the main list always narrows to the active statuses.
+ */
+export function toRecipeSearchRequest(state: RecipeSearchState): RecipeSearchParams {
+  const { archived, ...params } = state;
+  return {
+    ...params,
+    statuses: archived ? ["ARCHIVED"] : (params.statuses ?? STATUS_FILTERS),
+    page: (state.page ?? 1) - 1,
+    size: RECIPE_PAGE_SIZE,
+  };
+}
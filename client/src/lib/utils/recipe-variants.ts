@@ -0,0 +1,37 @@
+import { ingredientKey } from "@/lib/utils/shopping-list";
+import type { Recipe } from "@/lib/types/recipe.types";
+
+export type IngredientSharing = "all" | "some" | "unique";
+
+export interface VariantComparison {
+  recipe: Recipe;
+  /** How widely each of this recipe's ingredients (in its own order) is used across the variants. */
+  ingredients: { name: string; amount: string; unit: string; sharing: IngredientSharing }[];
+  /** Ingredients this variant has in common with at least one other variant. */
+  sharedCount: number;
+}
+
+/**
+ * Compares variants written from the same request by ingredient name (ignoring
+ * case and plurals), so they can be told apart at a glance.
+ */
+export function compareVariants(recipes: Recipe[]): VariantComparison[] {
+  const keysByRecipe = recipes.map((r) => new Set(r.ingredients.map((ing) => ingredientKey(ing.name))));
+  const usage = new Map<string, number>();
+  for (const keys of keysByRecipe) {
+    for (const key of keys) usage.set(key, (usage.get(key) ?? 0) + 1);
+  }
+
+  return recipes.map((recipe) => {
+    const ingredients = recipe.ingredients.map((ing) => {
+      const count = usage.get(ingredientKey(ing.name)) ?? 1;
+      const sharing: IngredientSharing = count === recipes.length ? "all" : count > 1 ? "some" : "unique";
+      return { name: ing.name, amount: ing.amount, unit: ing.unit, sharing };
+    });
+    return {
+      recipe,
+      ingredients,
+      sharedCount: ingredients.filter((ing) => ing.sharing !== "unique").length,
+    };
+  });
+}
@@ -0,0 +1,8 @@
+/**
+ * The `next` path to return to after a flow, or `fallback` unless it is a path on
+ * this site. `//host` and `/\host` are read as other origins, so they fall back too.
+ */
+export function safeNextPath(next: string | null, fallback = "/pets"): string {
+  if (!next || !next.startsWith("/") || next.startsWith("//") || next.startsWith("/\\")) return fallback;
+  return next;
+}
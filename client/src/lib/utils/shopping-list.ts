@@ -0,0 +1,149 @@
+import type { CalendarEntry } from "@/lib/types/calendar.types";
+import type { Recipe } from "@/lib/types/recipe.types";
+import {
+  QUANTITY_SOURCE,
+  UNIT_SOURCE,
+  formatBaseAmount,
+  normalizeUnit,
+  parseQuantity,
+} from "@/lib/utils/quantity";
+
+export interface ParsedShoppingItem {
+  name: string;
+  amount: number | null;
+  /** Base unit after normalisation ("g", "ml", "tsp", ...); "" for plain counts. */
+  unit: string;
+}
+
+export interface ShoppingListItem {
+  key: string;
+  name: string;
+  /** Summed amounts per base unit, e.g. { g: 1500, tsp: 4 }. */
+  totals: Record<string, number>;
+  /** True when at least one contributing line had no usable amount. */
+  hasUnquantified: boolean;
+  recipeTitles: string[];
+}
+
+const AMOUNT = `(${QUANTITY_SOURCE})\\s*(?:(${UNIT_SOURCE})\\.?(?![a-z]))?`;
+
+// "500 g chicken breast", "2 eggs", "1/2 cup of pumpkin"
+const LEADING_AMOUNT = new RegExp(`^${AMOUNT}\\s*(?:of\\s+)?(.+)$`, "i");
+// "Chicken breast (500 g)", "Chicken breast - 500g", "Chicken breast: 1.5 kg"
+const TRAILING_AMOUNT = new RegExp(`^(.+?)\\s*(?:\\(|[-–:,]\\s*)${AMOUNT}\\s*\\)?$`, "i");
+// "Turkey mince 250g" (only trusted when a unit is present)
+const TRAILING_MEASURE = new RegExp(`^(.+?)\\s+(${QUANTITY_SOURCE})\\s*(${UNIT_SOURCE})\\.?$`, "i");
+
+function toParsed(name: string, quantity: string, unitText: string | undefined): ParsedShoppingItem {
+  const parsed = parseQuantity(quantity);
+  if (!parsed) return { name: name.trim(), amount: null, unit: "" };
+
+  // Shop for the top of a range so there is always enough
+  const amount = parsed.max ?? parsed.value;
+  const canonical = unitText ? normalizeUnit(unitText) : null;
+  return {
+    name: name.trim(),
+    amount: canonical ? amount * canonical.factor : amount,
+    unit: canonical?.base ?? "",
+  };
+}
+
+/** Splits a free-text shopping line into ingredient name, amount and unit. */
+export function parseShoppingItem(line: string): ParsedShoppingItem {
+  const text = line.trim().replace(/\s+/g, " ");
+
+  const trailing = text.match(TRAILING_AMOUNT);
+  if (trailing) return toParsed(trailing[1], trailing[2], trailing[3]);
+
+  const measure = text.match(TRAILING_MEASURE);
+  if (measure) return toParsed(measure[1], measure[2], measure[3]);
+
+  const leading = text.match(LEADING_AMOUNT);
+  if (leading) return toParsed(leading[3], leading[1], leading[2]);
+
+  return { name: text, amount: null, unit: "" };
+}
+
+/** Grouping key so "Chicken Breast" and "chicken breasts" land on one line. */
+export function ingredientKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, " ")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => (word.length > 3 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word))
+    .join(" ");
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Merges the shopping lists of every recipe scheduled in `entries`, scaling each
+ * recipe's items by the number of times it appears.
+ */
+export function buildShoppingList(
+  entries: CalendarEntry[],
+  recipesById: Record<string, Recipe>
+): ShoppingListItem[] {
+  const timesScheduled = new Map<string, number>();
+  for (const entry of entries) {
+    timesScheduled.set(entry.recipeId, (timesScheduled.get(entry.recipeId) ?? 0) + 1);
+  }
+
+  const items = new Map<string, ShoppingListItem>();
+  for (const [recipeId, count] of timesScheduled) {
+    const recipe = recipesById[recipeId];
+    if (!recipe) continue;
+
+    for (const line of recipe.shoppingList) {
+      const parsed = parseShoppingItem(line);
+      const key = ingredientKey(parsed.name);
+      if (!key) continue;
+
+      const item = items.get(key) ?? {
+        key,
+        name: capitalize(parsed.name),
+        totals: {},
+        hasUnquantified: false,
+        recipeTitles: [],
+      };
+
+      if (parsed.amount === null) {
+        item.hasUnquantified = true;
+      } else {
+        item.totals[parsed.unit] = (item.totals[parsed.unit] ?? 0) + parsed.amount * count;
+      }
+      if (!item.recipeTitles.includes(recipe.title)) item.recipeTitles.push(recipe.title);
+      items.set(key, item);
+    }
+  }
+
+  return [...items.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Human-readable quantity for an item, e.g. "1.5 kg + 2 tsp" or "as needed". */
+export function formatItemQuantity(item: ShoppingListItem): string {
+  const parts = Object.entries(item.totals).map(([unit, value]) => formatBaseAmount(value, unit));
+  if (item.hasUnquantified) parts.push(parts.length > 0 ? "extra as needed" : "as needed");
+  return parts.join(" + ");
+}
+
+function itemLine(item: ShoppingListItem): string {
+  return `${item.name} — ${formatItemQuantity(item)}`;
+}
+
+export function shoppingListToText(title: string, items: ShoppingListItem[], checked: Set<string>): string {
+  const lines = items.map((item) => `${checked.has(item.key) ? "[x]" : "[ ]"} ${itemLine(item)}`);
+  return [title, "", ...lines].join("\n") + "\n";
+}
+
+export function shoppingListToMarkdown(title: string, items: ShoppingListItem[], checked: Set<string>): string {
+  const lines = items.map((item) => {
+    const recipes = item.recipeTitles.length > 0 ? ` _(${item.recipeTitles.join(", ")})_` : "";
+    return `- [${checked.has(item.key) ? "x" : " "}] **${item.name}** — ${formatItemQuantity(item)}${recipes}`;
+  });
+  return [`# ${title}`, "", ...lines].join("\n") + "\n";
+}
@@ -0,0 +1,82 @@
+import { addDays, differenceInCalendarDays, subDays } from "date-fns";
+import type { WeightEntry } from "@/lib/types/pet.types";
+
+export type TrendDirection = "TOWARD" | "AWAY" | "STEADY" | "AT_TARGET" | "NO_TARGET";
+
+export interface WeightTrend {
+  /** Least-squares slope over the trend window, in kg per week. */
+  kgPerWeek: number;
+  latestKg: number;
+  latestDate: Date;
+  /** Earliest weigh-in the line was fitted through. */
+  fittedFrom: Date;
+  direction: TrendDirection;
+  /** When the trend line crosses the target — null if it never will (or not within a year). */
+  projectedDate: Date | null;
+  /** Value of the fitted line at a given date, for drawing it. */
+  fitAt: (date: Date) => number;
+}
+
+// Only recent weigh-ins say anything about where things are heading
+const TREND_WINDOW_DAYS = 56;
+// Within 3% of target counts as reached — same threshold the nutrition targets use
+const AT_TARGET_THRESHOLD = 0.03;
+// Changes under 0.25% of body weight per week are noise, not a trend
+const STEADY_THRESHOLD = 0.0025;
+const MAX_PROJECTION_DAYS = 365;
+
+export function parseEntryDate(entry: WeightEntry): Date {
+  return new Date(entry.recordedOn + "T00:00:00");
+}
+
+/**
+ * Fits a straight line through the last eight weeks of weigh-ins and compares
+ * its direction with the target weight. Needs at least two weigh-ins on
+ * different days; returns null otherwise.
+ */
+export function calculateWeightTrend(entries: WeightEntry[], targetWeightKg: number | null): WeightTrend | null {
+  if (entries.length < 2) return null;
+
+  const sorted = [...entries].sort((a, b) => a.recordedOn.localeCompare(b.recordedOn));
+  const latest = sorted[sorted.length - 1];
+  const latestDate = parseEntryDate(latest);
+  const windowStart = subDays(latestDate, TREND_WINDOW_DAYS);
+  const recent = sorted.filter((e) => parseEntryDate(e) >= windowStart);
+  // Fall back to the last two weigh-ins when the window only holds one
+  const fitted = recent.length >= 2 ? recent : sorted.slice(-2);
+  const points = fitted.map((e) => ({
+    x: differenceInCalendarDays(parseEntryDate(e), latestDate),
+    y: e.weightKg,
+  }));
+
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  const sxx = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+  if (sxx === 0) return null;
+  const kgPerDay = points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0) / sxx;
+  const intercept = meanY - kgPerDay * meanX;
+  const fitAt = (date: Date) => intercept + kgPerDay * differenceInCalendarDays(date, latestDate);
+
+  const kgPerWeek = kgPerDay * 7;
+  const base = { kgPerWeek, latestKg: latest.weightKg, latestDate, fittedFrom: parseEntryDate(fitted[0]), fitAt };
+
+  if (!targetWeightKg) return { ...base, direction: "NO_TARGET", projectedDate: null };
+
+  const remaining = targetWeightKg - latest.weightKg;
+  if (Math.abs(remaining) / targetWeightKg <= AT_TARGET_THRESHOLD) {
+    return { ...base, direction: "AT_TARGET", projectedDate: null };
+  }
+  if (Math.abs(kgPerWeek) < latest.weightKg * STEADY_THRESHOLD) {
+    return { ...base, direction: "STEADY", projectedDate: null };
+  }
+  if (Math.sign(kgPerWeek) !== Math.sign(remaining)) {
+    return { ...base, direction: "AWAY", projectedDate: null };
+  }
+
+  const daysToTarget = Math.ceil(remaining / kgPerDay);
+  return {
+    ...base,
+    direction: "TOWARD",
+    projectedDate: daysToTarget <= MAX_PROJECTION_DAYS ? addDays(latestDate, daysToTarget) : null,
+  };
+}
@@ -1,22 +1,44 @@
 "use client";
 
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { useState, type ReactNode } from "react";
+import { useSession } from "next-auth/react";
+import { useEffect, useState, type ReactNode } from "react";
+import { PERSIST_MAX_AGE, persistQueryCache, restoreQueryCache } from "@/lib/offline/query-persistence";
 
 export function QueryProvider({ children }: { children: ReactNode }) {
+  const { data: session } = useSession();
+  const userId = session?.userId ?? null;
   const [queryClient] = useState(
     () =>
       new QueryClient({
         defaultOptions: {
           queries: {
             staleTime: 60 * 1000,
-            retry: 1,
+            // Unused data has to outlive a reload to be read offline, so keep it as long as the persisted copy
+            gcTime: PERSIST_MAX_AGE,
+            // ApiClient already retries network errors and transient 5xx with backoff
+            retry: false,
             refetchOnWindowFocus: false,
           },
         },
       })
   );
 
+  useEffect(() => {
+    if (!userId) return;
+    let unsubscribe: (() => void) | null = null;
+    let cancelled = false;
+
+    restoreQueryCache(queryClient, userId).then(() => {
+      if (!cancelled) unsubscribe = persistQueryCache(queryClient, userId);
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [queryClient, userId]);
+
   return (
     <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
   );
@@ -1,6 +1,7 @@
 package com.pawfectbite.server.ai.application;
 
 import com.fasterxml.jackson.databind.ObjectMapper;
+import com.pawfectbite.server.ai.domain.RecipeDraft;
 import com.pawfectbite.server.ai.domain.StructuredRecipeOutput;
 import com.pawfectbite.server.common.exception.AppException;
 import com.pawfectbite.server.infrastructure.openai.OpenAIClient;
@@ -9,6 +10,8 @@ import org.slf4j.Logger;
 import org.slf4j.LoggerFactory;
 import org.springframework.stereotype.Service;
 
+import java.util.function.Consumer;
+
 @Service
 public class LLMRecipeWriter {
 
@@ -16,11 +19,18 @@ public class LLMRecipeWriter {
 
     private final OpenAIClient openAIClient;
     private final PromptBuilder promptBuilder;
+    private final RecipeDraftParser draftParser;
     private final ObjectMapper objectMapper;
 
-    public LLMRecipeWriter(OpenAIClient openAIClient, PromptBuilder promptBuilder, ObjectMapper objectMapper) {
+    public LLMRecipeWriter(
+            OpenAIClient openAIClient,
+            PromptBuilder promptBuilder,
+            RecipeDraftParser draftParser,
+            ObjectMapper objectMapper
+    ) {
         this.openAIClient = openAIClient;
         this.promptBuilder = promptBuilder;
+        this.draftParser = draftParser;
         this.objectMapper = objectMapper;
     }
 
@@ -31,7 +41,33 @@ public class LLMRecipeWriter {
         log.info("Sending recipe generation request to LLM for pet={}", plan.pet().name());
 
         String rawResponse = openAIClient.chatCompletion(systemPrompt, userPrompt);
+        return parse(rawResponse);
+    }
+
+    /**
+     * Streams the recipe from the LLM, calling {@code onDraft} whenever another part of it
+     * (the title or an ingredient) has been fully written.
+     */
+    public StructuredRecipeOutput streamRecipe(RecipePlan plan, Consumer<RecipeDraft> onDraft) {
+        String systemPrompt = promptBuilder.buildSystemPrompt();
+        String userPrompt = promptBuilder.buildUserPrompt(plan);
+
+        log.info("Streaming recipe generation request to LLM for pet={}", plan.pet().name());
+
+        StringBuilder written = new StringBuilder();
+        RecipeDraft[] lastDraft = {RecipeDraft.EMPTY};
+        String rawResponse = openAIClient.streamChatCompletion(systemPrompt, userPrompt, delta -> {
+            written.append(delta);
+            RecipeDraft draft = draftParser.parse(written);
+            if (!draft.equals(lastDraft[0])) {
+                lastDraft[0] = draft;
+                onDraft.accept(draft);
+            }
+        });
+        return parse(rawResponse);
+    }
 
+    private StructuredRecipeOutput parse(String rawResponse) {
         try {
             StructuredRecipeOutput output = objectMapper.readValue(rawResponse, StructuredRecipeOutput.class);
             log.info("Successfully parsed LLM recipe output: title={}", output.title());
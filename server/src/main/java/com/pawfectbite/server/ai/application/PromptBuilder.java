@@ -1,8 +1,12 @@
 package com.pawfectbite.server.ai.application;
 
+import com.pawfectbite.server.pets.domain.HealthField;
 import com.pawfectbite.server.pets.domain.Pet;
 import com.pawfectbite.server.pets.domain.Species;
+import com.pawfectbite.server.recipes.domain.GeneratedRecipe;
 import com.pawfectbite.server.recipes.domain.RecipePlan;
+import com.pawfectbite.server.recipes.domain.RecipeRefinement;
+import com.pawfectbite.server.recipes.domain.RecipeVariation;
 import com.pawfectbite.server.safety.domain.SafetyWarning;
 import org.springframework.stereotype.Component;
 
@@ -126,13 +130,13 @@ public class PromptBuilder {
         }
 
         if (!pet.allergies().isEmpty()) {
-            sb.append("ALLERGIES (MUST AVOID): ").append(String.join(", ", pet.allergies())).append("\n");
+            sb.append("ALLERGIES (MUST AVOID): ").append(String.join(", ", HealthField.ALLERGIES.labelsOf(pet))).append("\n");
         }
         if (!pet.medicalConditions().isEmpty()) {
-            sb.append("Medical conditions: ").append(String.join(", ", pet.medicalConditions())).append("\n");
+            sb.append("Medical conditions: ").append(String.join(", ", HealthField.MEDICAL_CONDITIONS.labelsOf(pet))).append("\n");
         }
         if (!pet.medications().isEmpty()) {
-            sb.append("Current medications: ").append(String.join(", ", pet.medications())).append("\n");
+            sb.append("Current medications: ").append(String.join(", ", HealthField.MEDICATIONS.labelsOf(pet))).append("\n");
         }
 
         sb.append("\n=== RECIPE REQUEST ===\n");
@@ -159,9 +163,61 @@ public class PromptBuilder {
             sb.append("\n");
         }
 
+        if (plan.refinement() != null) {
+            appendRefinement(sb, plan.refinement());
+        }
+
+        if (plan.variation() != null) {
+            appendVariation(sb, plan.variation());
+        }
+
         return sb.toString();
     }
 
+    private void appendRefinement(StringBuilder sb, RecipeRefinement refinement) {
+        GeneratedRecipe previous = refinement.previousRecipe();
+
+        sb.append("\n=== PREVIOUS VERSION (TO REFINE) ===\n");
+        sb.append("Title: ").append(previous.title()).append("\n");
+        sb.append("Ingredients:\n");
+        for (GeneratedRecipe.RecipeIngredient i : previous.ingredients()) {
+            sb.append("- ").append(i.amount()).append(" ").append(i.unit()).append(" ").append(i.name()).append("\n");
+        }
+        sb.append("Steps:\n");
+        for (int n = 0; n < previous.steps().size(); n++) {
+            sb.append(n + 1).append(". ").append(previous.steps().get(n)).append("\n");
+        }
+        sb.append("Estimated calories: ").append(previous.estimatedCalories()).append(" kcal\n");
+
+        sb.append("\n=== OWNER FEEDBACK ===\n");
+        sb.append(refinement.feedback().trim()).append("\n");
+        sb.append("Revise the previous version to address this feedback. Keep everything the feedback doesn't ask to change, ");
+        sb.append("and never let the feedback override the allergies, exclusions or safety warnings above.\n");
+    }
+
+    private void appendVariation(StringBuilder sb, RecipeVariation variation) {
+        sb.append("\n=== VARIANT ").append(variation.variantNumber())
+                .append(" OF ").append(variation.variantCount()).append(" ===\n");
+        sb.append("The owner asked for several alternative recipes for this request to compare side by side.\n");
+
+        if (variation.earlierVariants().isEmpty()) {
+            sb.append("This is the first variant; write the recipe you consider the best fit.\n");
+            return;
+        }
+
+        sb.append("Variants already written:\n");
+        for (GeneratedRecipe earlier : variation.earlierVariants()) {
+            sb.append("- ").append(earlier.title()).append(": ");
+            sb.append(earlier.ingredients().stream()
+                    .map(GeneratedRecipe.RecipeIngredient::name)
+                    .collect(Collectors.joining(", ")));
+            sb.append("\n");
+        }
+        sb.append("Make this variant clearly different: build it around a different primary protein source ");
+        sb.append("than the variants above where the request allows it, and vary the carbohydrate or vegetable base. ");
+        sb.append("Keep the required ingredients, and never let the variation override the allergies, exclusions or safety warnings above.\n");
+    }
+
     private String deriveLifeStage(Pet pet) {
         int totalMonths = pet.ageYears() * 12 + pet.ageMonths();
 
@@ -0,0 +1,91 @@
+package com.pawfectbite.server.ai.application;
+
+import com.fasterxml.jackson.databind.ObjectMapper;
+import com.pawfectbite.server.ai.domain.RecipeDraft;
+import com.pawfectbite.server.ai.domain.StructuredRecipeOutput.IngredientOutput;
+import org.springframework.stereotype.Component;
+
+import java.util.ArrayList;
+import java.util.List;
+import java.util.regex.Matcher;
+import java.util.regex.Pattern;
+
+/**
+ * Reads the finished parts of a recipe JSON document that is still being streamed. Only
+ * complete values are returned, so the draft never shows a half-written ingredient.
+ */
+@Component
+public class RecipeDraftParser {
+
+    private static final Pattern TITLE = Pattern.compile("\"title\"\\s*:\\s*(\"(?:[^\"\\\\]|\\\\.)*\")");
+    private static final Pattern INGREDIENTS = Pattern.compile("\"ingredients\"\\s*:\\s*\\[");
+
+    private final ObjectMapper objectMapper;
+
+    public RecipeDraftParser(ObjectMapper objectMapper) {
+        this.objectMapper = objectMapper;
+    }
+
+    public RecipeDraft parse(CharSequence partialJson) {
+        return new RecipeDraft(readTitle(partialJson), readIngredients(partialJson));
+    }
+
+    private String readTitle(CharSequence json) {
+        Matcher matcher = TITLE.matcher(json);
+        if (!matcher.find()) return null;
+        try {
+            return objectMapper.readValue(matcher.group(1), String.class);
+        } catch (Exception e) {
+            return null;
+        }
+    }
+
+    private List<IngredientOutput> readIngredients(CharSequence json) {
+        Matcher matcher = INGREDIENTS.matcher(json);
+        if (!matcher.find()) return List.of();
+
+        List<IngredientOutput> ingredients = new ArrayList<>();
+        int depth = 0;
+        int objectStart = -1;
+        boolean inString = false;
+        boolean escaped = false;
+
+        for (int i = matcher.end(); i < json.length(); i++) {
+            char c = json.charAt(i);
+            if (inString) {
+                if (escaped) escaped = false;
+                else if (c == '\\') escaped = true;
+                else if (c == '"') inString = false;
+                continue;
+            }
+            switch (c) {
+                case '"' -> inString = true;
+                case '{' -> {
+                    if (depth == 0) objectStart = i;
+                    depth++;
+                }
+                case '}' -> {
+                    depth--;
+                    if (depth == 0 && objectStart >= 0) {
+                        readIngredient(json.subSequence(objectStart, i + 1).toString(), ingredients);
+                        objectStart = -1;
+                    }
+                }
+                case ']' -> {
+                    if (depth == 0) return ingredients;
+                }
+                default -> { }
+            }
+        }
+        return ingredients;
+    }
+
+    private void readIngredient(String json, List<IngredientOutput> into) {
+        try {
+            IngredientOutput ingredient = objectMapper.readValue(json, IngredientOutput.class);
+            if (ingredient.name() != null) into.add(ingredient);
+        } catch (Exception e) {
+            // Skip anything the model wrote that isn't an ingredient object; the final parse reports real errors
+        }
+    }
+}
@@ -0,0 +1,14 @@
+package com.pawfectbite.server.ai.domain;
+
+import java.util.List;
+
+/**
+ * What can already be read from a recipe the LLM is still writing: the title once its
+ * string is closed and every ingredient whose object is complete.
+ */
+public record RecipeDraft(
+        String title,
+        List<StructuredRecipeOutput.IngredientOutput> ingredients
+) {
+    public static final RecipeDraft EMPTY = new RecipeDraft(null, List.of());
+}
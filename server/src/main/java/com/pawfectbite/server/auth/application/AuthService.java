@@ -4,6 +4,7 @@ import com.pawfectbite.server.auth.dto.AuthResponse;
 import com.pawfectbite.server.common.exception.AppException;
 import com.pawfectbite.server.infrastructure.security.GoogleTokenVerifier;
 import com.pawfectbite.server.infrastructure.security.GoogleTokenVerifier.GoogleUserInfo;
+import com.pawfectbite.server.infrastructure.security.IssuedToken;
 import com.pawfectbite.server.infrastructure.security.JwtService;
 import com.pawfectbite.server.users.application.UserService;
 import com.pawfectbite.server.users.domain.User;
@@ -13,6 +14,8 @@ import org.slf4j.LoggerFactory;
 import org.springframework.stereotype.Service;
 import org.springframework.transaction.annotation.Transactional;
 
+import java.util.UUID;
+
 @Service
 public class AuthService {
 
@@ -42,10 +45,32 @@ public class AuthService {
                 googleUser.googleId()
         );
 
-        // 3. Generate a custom JWT specifically for the PawfectBite backend
-        String jwt = jwtService.generateToken(user.id(), user.email(), user.name());
+        // 3. Generate custom JWTs (access + refresh) specifically for the PawfectBite backend
+        AuthResponse response = issueTokens(user);
 
         log.info("User authenticated: email={}", user.email());
-        return new AuthResponse(jwt, UserResponse.from(user));
+        return response;
+    }
+
+    @Transactional(readOnly = true)
+    public AuthResponse refresh(String refreshToken) {
+        UUID userId = jwtService.parseRefreshToken(refreshToken)
+                .orElseThrow(() -> new AppException("AUTH_FAILED", "Invalid or expired refresh token"));
+
+        // The account may have been removed since the refresh token was issued
+        User user = userService.getUserById(userId);
+        return issueTokens(user);
+    }
+
+    private AuthResponse issueTokens(User user) {
+        IssuedToken accessToken = jwtService.generateToken(user.id(), user.email(), user.name());
+        IssuedToken refreshToken = jwtService.generateRefreshToken(user.id());
+        return new AuthResponse(
+                accessToken.token(),
+                accessToken.expiresAt(),
+                refreshToken.token(),
+                refreshToken.expiresAt(),
+                UserResponse.from(user)
+        );
     }
 }
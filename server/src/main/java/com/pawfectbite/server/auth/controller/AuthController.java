@@ -3,6 +3,7 @@ package com.pawfectbite.server.auth.controller;
 import com.pawfectbite.server.auth.application.AuthService;
 import com.pawfectbite.server.auth.dto.AuthResponse;
 import com.pawfectbite.server.auth.dto.GoogleAuthRequest;
+import com.pawfectbite.server.auth.dto.RefreshTokenRequest;
 import com.pawfectbite.server.common.response.ApiResponse;
 import jakarta.validation.Valid;
 import org.springframework.web.bind.annotation.PostMapping;
@@ -25,4 +26,10 @@ public class AuthController {
         AuthResponse response = authService.authenticateWithGoogle(request.idToken());
         return ApiResponse.ok(response);
     }
+
+    @PostMapping("/refresh")
+    public ApiResponse<AuthResponse> refresh(@Valid @RequestBody RefreshTokenRequest request) {
+        AuthResponse response = authService.refresh(request.refreshToken());
+        return ApiResponse.ok(response);
+    }
 }
@@ -2,7 +2,12 @@ package com.pawfectbite.server.auth.dto;
 
 import com.pawfectbite.server.users.dto.UserResponse;
 
+import java.time.Instant;
+
 public record AuthResponse(
         String token,
+        Instant expiresAt,
+        String refreshToken,
+        Instant refreshExpiresAt,
         UserResponse user
 ) {}
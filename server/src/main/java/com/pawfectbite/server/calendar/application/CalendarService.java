@@ -2,7 +2,9 @@ package com.pawfectbite.server.calendar.application;
 
 import com.pawfectbite.server.calendar.domain.CalendarEntry;
 import com.pawfectbite.server.calendar.dto.CreateCalendarEntryRequest;
+import com.pawfectbite.server.calendar.dto.CreateCalendarSeriesRequest;
 import com.pawfectbite.server.calendar.dto.UpdateCalendarEntryRequest;
+import com.pawfectbite.server.calendar.dto.UpdateCalendarSeriesRequest;
 import com.pawfectbite.server.calendar.repository.CalendarEntryRepository;
 import com.pawfectbite.server.common.exception.ResourceNotFoundException;
 import org.springframework.stereotype.Service;
@@ -34,6 +36,30 @@ public class CalendarService {
         return repository.save(userId, request.petId(), request.recipeId(), request.date(), request.mealType());
     }
 
+    @Transactional
+    public List<CalendarEntry> createSeries(UUID userId, CreateCalendarSeriesRequest request) {
+        List<LocalDate> dates = request.toRule().expand(request.startDate());
+        return repository.saveSeries(userId, request.petId(), request.recipeId(), request.mealType(), dates);
+    }
+
+    public List<CalendarEntry> getSeries(UUID seriesId) {
+        List<CalendarEntry> entries = repository.findBySeriesId(seriesId);
+        if (entries.isEmpty()) {
+            throw new ResourceNotFoundException("CalendarSeries", seriesId);
+        }
+        return entries;
+    }
+
+    @Transactional
+    public List<CalendarEntry> updateSeries(UUID seriesId, UpdateCalendarSeriesRequest request) {
+        return repository.updateSeries(seriesId, request.recipeId(), request.mealType());
+    }
+
+    @Transactional
+    public void deleteSeries(UUID seriesId) {
+        repository.deleteSeries(seriesId);
+    }
+
     @Transactional
     public CalendarEntry updateEntry(UUID entryId, UpdateCalendarEntryRequest request) {
         return repository.update(entryId, request.recipeId(), request.date(), request.mealType());
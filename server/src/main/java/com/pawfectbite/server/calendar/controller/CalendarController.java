@@ -48,6 +48,43 @@ public class CalendarController {
         return ApiResponse.ok(CalendarEntryResponse.from(entry));
     }
 
+    @PostMapping("/series")
+    @ResponseStatus(HttpStatus.CREATED)
+    public ApiResponse<List<CalendarEntryResponse>> createSeries(
+            @Valid @RequestBody CreateCalendarSeriesRequest request,
+            @AuthenticationPrincipal AuthenticatedUser principal
+    ) {
+        List<CalendarEntryResponse> entries = calendarService
+                .createSeries(principal.userId(), request)
+                .stream().map(CalendarEntryResponse::from).toList();
+        return ApiResponse.ok(entries);
+    }
+
+    @PutMapping("/series/{seriesId}")
+    public ApiResponse<List<CalendarEntryResponse>> updateSeries(
+            @PathVariable UUID seriesId,
+            @Valid @RequestBody UpdateCalendarSeriesRequest request,
+            @AuthenticationPrincipal AuthenticatedUser principal
+    ) {
+        List<CalendarEntry> existing = calendarService.getSeries(seriesId);
+        ownershipEnforcer.enforce(existing.getFirst().userId());
+        List<CalendarEntryResponse> entries = calendarService
+                .updateSeries(seriesId, request)
+                .stream().map(CalendarEntryResponse::from).toList();
+        return ApiResponse.ok(entries);
+    }
+
+    @DeleteMapping("/series/{seriesId}")
+    @ResponseStatus(HttpStatus.NO_CONTENT)
+    public void deleteSeries(
+            @PathVariable UUID seriesId,
+            @AuthenticationPrincipal AuthenticatedUser principal
+    ) {
+        List<CalendarEntry> existing = calendarService.getSeries(seriesId);
+        ownershipEnforcer.enforce(existing.getFirst().userId());
+        calendarService.deleteSeries(seriesId);
+    }
+
     @PutMapping("/entries/{entryId}")
     public ApiResponse<CalendarEntryResponse> updateEntry(
             @PathVariable UUID entryId,
@@ -29,6 +29,9 @@ public class CalendarEntryEntity extends AuditableEntity {
     @Column(name = "meal_type", nullable = false, length = 50)
     private String mealType;
 
+    @Column(name = "series_id")
+    private UUID seriesId;
+
     public CalendarEntryEntity() {}
 
     public UUID getId() { return id; }
@@ -37,10 +40,12 @@ public class CalendarEntryEntity extends AuditableEntity {
     public UUID getRecipeId() { return recipeId; }
     public LocalDate getEntryDate() { return entryDate; }
     public String getMealType() { return mealType; }
+    public UUID getSeriesId() { return seriesId; }
 
     public void setUserId(UUID userId) { this.userId = userId; }
     public void setPetId(UUID petId) { this.petId = petId; }
     public void setRecipeId(UUID recipeId) { this.recipeId = recipeId; }
     public void setEntryDate(LocalDate entryDate) { this.entryDate = entryDate; }
     public void setMealType(String mealType) { this.mealType = mealType; }
+    public void setSeriesId(UUID seriesId) { this.seriesId = seriesId; }
 }
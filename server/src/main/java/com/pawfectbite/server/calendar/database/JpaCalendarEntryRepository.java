@@ -9,4 +9,8 @@ import java.util.UUID;
 public interface JpaCalendarEntryRepository extends JpaRepository<CalendarEntryEntity, UUID> {
     List<CalendarEntryEntity> findByUserIdAndPetIdAndEntryDateBetweenOrderByEntryDate(
             UUID userId, UUID petId, LocalDate start, LocalDate end);
+
+    List<CalendarEntryEntity> findBySeriesIdOrderByEntryDate(UUID seriesId);
+
+    void deleteBySeriesId(UUID seriesId);
 }
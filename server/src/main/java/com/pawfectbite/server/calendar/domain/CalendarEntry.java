@@ -11,7 +11,9 @@ public record CalendarEntry(
         String petName,
         UUID recipeId,
         String recipeTitle,
+        boolean recipeArchived,
         LocalDate date,
         String mealType,
+        UUID seriesId,
         Instant createdAt
 ) {}
@@ -0,0 +1,8 @@
+package com.pawfectbite.server.calendar.domain;
+
+public enum RecurrenceFrequency {
+    DAILY,
+    WEEKDAYS,
+    EVERY_N_DAYS,
+    CUSTOM_DAYS
+}
@@ -0,0 +1,86 @@
+package com.pawfectbite.server.calendar.domain;
+
+import com.pawfectbite.server.common.exception.AppException;
+
+import java.time.DayOfWeek;
+import java.time.LocalDate;
+import java.util.ArrayList;
+import java.util.List;
+import java.util.Set;
+
+/**
+ * Describes how a meal repeats. A rule ends either on an end date or after a
+ * number of occurrences; either way it may not produce more than {@link #MAX_OCCURRENCES}
+ * meals, so a bad request cannot flood the calendar.
+ */
+public record RecurrenceRule(
+        RecurrenceFrequency frequency,
+        Integer intervalDays,
+        Set<DayOfWeek> daysOfWeek,
+        LocalDate endDate,
+        Integer occurrences
+) {
+    public static final int MAX_OCCURRENCES = 366;
+
+    private static final Set<DayOfWeek> WEEKDAYS = Set.of(
+            DayOfWeek.MONDAY, DayOfWeek.TUESDAY, DayOfWeek.WEDNESDAY,
+            DayOfWeek.THURSDAY, DayOfWeek.FRIDAY
+    );
+
+    public List<LocalDate> expand(LocalDate startDate) {
+        validate(startDate);
+
+        List<LocalDate> dates = new ArrayList<>();
+        LocalDate date = startDate;
+        // One past the cap is enough to tell an end date that goes too far from one that fits
+        while (dates.size() <= MAX_OCCURRENCES) {
+            if (endDate != null && date.isAfter(endDate)) break;
+            if (occurrences != null && dates.size() >= occurrences) break;
+
+            if (matches(startDate, date)) {
+                dates.add(date);
+            }
+            date = date.plusDays(1);
+        }
+
+        if (dates.size() > MAX_OCCURRENCES) {
+            throw new AppException("INVALID_RECURRENCE",
+                    "Repeat end date gives more than " + MAX_OCCURRENCES + " meals; pick an earlier date");
+        }
+        if (dates.isEmpty()) {
+            throw new AppException("INVALID_RECURRENCE", "Repeat settings do not produce any meals");
+        }
+        return dates;
+    }
+
+    private boolean matches(LocalDate startDate, LocalDate date) {
+        return switch (frequency) {
+            case DAILY -> true;
+            case WEEKDAYS -> WEEKDAYS.contains(date.getDayOfWeek());
+            case EVERY_N_DAYS -> (date.toEpochDay() - startDate.toEpochDay()) % intervalDays == 0;
+            case CUSTOM_DAYS -> daysOfWeek.contains(date.getDayOfWeek());
+        };
+    }
+
+    private void validate(LocalDate startDate) {
+        if (frequency == null) {
+            throw new AppException("INVALID_RECURRENCE", "Repeat frequency is required");
+        }
+        if (endDate == null && occurrences == null) {
+            throw new AppException("INVALID_RECURRENCE", "Repeat needs an end date or a number of occurrences");
+        }
+        if (endDate != null && endDate.isBefore(startDate)) {
+            throw new AppException("INVALID_RECURRENCE", "Repeat end date must be on or after the start date");
+        }
+        if (occurrences != null && (occurrences < 1 || occurrences > MAX_OCCURRENCES)) {
+            throw new AppException("INVALID_RECURRENCE",
+                    "Occurrences must be between 1 and " + MAX_OCCURRENCES);
+        }
+        if (frequency == RecurrenceFrequency.EVERY_N_DAYS && (intervalDays == null || intervalDays < 1)) {
+            throw new AppException("INVALID_RECURRENCE", "Every N days needs an interval of at least 1");
+        }
+        if (frequency == RecurrenceFrequency.CUSTOM_DAYS && (daysOfWeek == null || daysOfWeek.isEmpty())) {
+            throw new AppException("INVALID_RECURRENCE", "Pick at least one day of the week to repeat on");
+        }
+    }
+}
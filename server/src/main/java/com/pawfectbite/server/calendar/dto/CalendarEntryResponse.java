@@ -12,15 +12,17 @@ public record CalendarEntryResponse(
         String petName,
         UUID recipeId,
         String recipeTitle,
+        boolean recipeArchived,
         LocalDate date,
         String mealType,
+        UUID seriesId,
         Instant createdAt
 ) {
     public static CalendarEntryResponse from(CalendarEntry entry) {
         return new CalendarEntryResponse(
                 entry.id(), entry.petId(), entry.petName(),
-                entry.recipeId(), entry.recipeTitle(),
-                entry.date(), entry.mealType(), entry.createdAt()
+                entry.recipeId(), entry.recipeTitle(), entry.recipeArchived(),
+                entry.date(), entry.mealType(), entry.seriesId(), entry.createdAt()
         );
     }
 }
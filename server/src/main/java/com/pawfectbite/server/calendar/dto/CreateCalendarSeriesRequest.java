@@ -0,0 +1,29 @@
+package com.pawfectbite.server.calendar.dto;
+
+import com.pawfectbite.server.calendar.domain.RecurrenceFrequency;
+import com.pawfectbite.server.calendar.domain.RecurrenceRule;
+import jakarta.validation.constraints.Max;
+import jakarta.validation.constraints.Min;
+import jakarta.validation.constraints.NotBlank;
+import jakarta.validation.constraints.NotNull;
+
+import java.time.DayOfWeek;
+import java.time.LocalDate;
+import java.util.Set;
+import java.util.UUID;
+
+public record CreateCalendarSeriesRequest(
+        @NotNull UUID petId,
+        @NotNull UUID recipeId,
+        @NotBlank String mealType,
+        @NotNull LocalDate startDate,
+        @NotNull RecurrenceFrequency frequency,
+        @Min(1) @Max(365) Integer intervalDays,
+        Set<DayOfWeek> daysOfWeek,
+        LocalDate endDate,
+        @Min(1) @Max(RecurrenceRule.MAX_OCCURRENCES) Integer occurrences
+) {
+    public RecurrenceRule toRule() {
+        return new RecurrenceRule(frequency, intervalDays, daysOfWeek, endDate, occurrences);
+    }
+}
@@ -0,0 +1,8 @@
+package com.pawfectbite.server.calendar.dto;
+
+import java.util.UUID;
+
+public record UpdateCalendarSeriesRequest(
+        UUID recipeId,
+        String mealType
+) {}
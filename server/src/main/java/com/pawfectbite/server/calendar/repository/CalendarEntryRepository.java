@@ -11,6 +11,10 @@ public interface CalendarEntryRepository {
     List<CalendarEntry> findByUserPetAndMonth(UUID userId, UUID petId, LocalDate start, LocalDate end);
     Optional<CalendarEntry> findById(UUID id);
     CalendarEntry save(UUID userId, UUID petId, UUID recipeId, LocalDate date, String mealType);
+    List<CalendarEntry> findBySeriesId(UUID seriesId);
+    List<CalendarEntry> saveSeries(UUID userId, UUID petId, UUID recipeId, String mealType, List<LocalDate> dates);
+    List<CalendarEntry> updateSeries(UUID seriesId, UUID recipeId, String mealType);
     CalendarEntry update(UUID id, UUID recipeId, LocalDate date, String mealType);
     void delete(UUID id);
+    void deleteSeries(UUID seriesId);
 }
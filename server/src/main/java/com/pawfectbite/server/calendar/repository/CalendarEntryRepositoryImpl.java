@@ -6,6 +6,8 @@ import com.pawfectbite.server.calendar.domain.CalendarEntry;
 import com.pawfectbite.server.common.exception.ResourceNotFoundException;
 import com.pawfectbite.server.pets.database.JpaPetRepository;
 import com.pawfectbite.server.recipes.database.JpaRecipeRepository;
+import com.pawfectbite.server.recipes.database.RecipeEntity;
+import com.pawfectbite.server.recipes.domain.RecipeStatus;
 import org.springframework.stereotype.Repository;
 
 import java.time.LocalDate;
@@ -33,30 +35,15 @@ public class CalendarEntryRepositoryImpl implements CalendarEntryRepository {
 
     @Override
     public List<CalendarEntry> findByUserPetAndMonth(UUID userId, UUID petId, LocalDate start, LocalDate end) {
-        List<CalendarEntryEntity> entities =
-                jpa.findByUserIdAndPetIdAndEntryDateBetweenOrderByEntryDate(userId, petId, start, end);
-
-        Set<UUID> recipeIds = entities.stream().map(CalendarEntryEntity::getRecipeId).collect(Collectors.toSet());
-        Set<UUID> petIds = entities.stream().map(CalendarEntryEntity::getPetId).collect(Collectors.toSet());
-
-        Map<UUID, String> recipeTitles = jpaRecipes.findAllById(recipeIds).stream()
-                .collect(Collectors.toMap(r -> r.getId(), r -> r.getTitle()));
-        Map<UUID, String> petNames = jpaPets.findAllById(petIds).stream()
-                .collect(Collectors.toMap(p -> p.getId(), p -> p.getName()));
-
-        return entities.stream()
-                .map(e -> toDomain(e,
-                        recipeTitles.getOrDefault(e.getRecipeId(), ""),
-                        petNames.getOrDefault(e.getPetId(), "")))
-                .toList();
+        return toDomainList(jpa.findByUserIdAndPetIdAndEntryDateBetweenOrderByEntryDate(userId, petId, start, end));
     }
 
     @Override
     public Optional<CalendarEntry> findById(UUID id) {
         return jpa.findById(id).map(e -> {
-            String recipeTitle = jpaRecipes.findById(e.getRecipeId()).map(r -> r.getTitle()).orElse("");
+            RecipeEntity recipe = jpaRecipes.findById(e.getRecipeId()).orElse(null);
             String petName = jpaPets.findById(e.getPetId()).map(p -> p.getName()).orElse("");
-            return toDomain(e, recipeTitle, petName);
+            return toDomain(e, recipe, petName);
         });
     }
 
@@ -69,9 +56,40 @@ public class CalendarEntryRepositoryImpl implements CalendarEntryRepository {
         entity.setEntryDate(date);
         entity.setMealType(mealType);
         CalendarEntryEntity saved = jpa.save(entity);
-        String recipeTitle = jpaRecipes.findById(recipeId).map(r -> r.getTitle()).orElse("");
+        RecipeEntity recipe = jpaRecipes.findById(recipeId).orElse(null);
         String petName = jpaPets.findById(petId).map(p -> p.getName()).orElse("");
-        return toDomain(saved, recipeTitle, petName);
+        return toDomain(saved, recipe, petName);
+    }
+
+    @Override
+    public List<CalendarEntry> findBySeriesId(UUID seriesId) {
+        return toDomainList(jpa.findBySeriesIdOrderByEntryDate(seriesId));
+    }
+
+    @Override
+    public List<CalendarEntry> saveSeries(UUID userId, UUID petId, UUID recipeId, String mealType, List<LocalDate> dates) {
+        UUID seriesId = UUID.randomUUID();
+        List<CalendarEntryEntity> entities = dates.stream().map(date -> {
+            CalendarEntryEntity entity = new CalendarEntryEntity();
+            entity.setUserId(userId);
+            entity.setPetId(petId);
+            entity.setRecipeId(recipeId);
+            entity.setEntryDate(date);
+            entity.setMealType(mealType);
+            entity.setSeriesId(seriesId);
+            return entity;
+        }).toList();
+        return toDomainList(jpa.saveAll(entities));
+    }
+
+    @Override
+    public List<CalendarEntry> updateSeries(UUID seriesId, UUID recipeId, String mealType) {
+        List<CalendarEntryEntity> entities = jpa.findBySeriesIdOrderByEntryDate(seriesId);
+        for (CalendarEntryEntity entity : entities) {
+            if (recipeId != null) entity.setRecipeId(recipeId);
+            if (mealType != null) entity.setMealType(mealType);
+        }
+        return toDomainList(jpa.saveAll(entities));
     }
 
     @Override
@@ -82,9 +100,9 @@ public class CalendarEntryRepositoryImpl implements CalendarEntryRepository {
         if (date != null) entity.setEntryDate(date);
         if (mealType != null) entity.setMealType(mealType);
         CalendarEntryEntity saved = jpa.save(entity);
-        String recipeTitle = jpaRecipes.findById(saved.getRecipeId()).map(r -> r.getTitle()).orElse("");
+        RecipeEntity recipe = jpaRecipes.findById(saved.getRecipeId()).orElse(null);
         String petName = jpaPets.findById(saved.getPetId()).map(p -> p.getName()).orElse("");
-        return toDomain(saved, recipeTitle, petName);
+        return toDomain(saved, recipe, petName);
     }
 
     @Override
@@ -92,11 +110,34 @@ public class CalendarEntryRepositoryImpl implements CalendarEntryRepository {
         jpa.deleteById(id);
     }
 
-    private CalendarEntry toDomain(CalendarEntryEntity e, String recipeTitle, String petName) {
+    @Override
+    public void deleteSeries(UUID seriesId) {
+        jpa.deleteBySeriesId(seriesId);
+    }
+
+    private List<CalendarEntry> toDomainList(List<CalendarEntryEntity> entities) {
+        Set<UUID> recipeIds = entities.stream().map(CalendarEntryEntity::getRecipeId).collect(Collectors.toSet());
+        Set<UUID> petIds = entities.stream().map(CalendarEntryEntity::getPetId).collect(Collectors.toSet());
+
+        Map<UUID, RecipeEntity> recipes = jpaRecipes.findAllById(recipeIds).stream()
+                .collect(Collectors.toMap(r -> r.getId(), r -> r));
+        Map<UUID, String> petNames = jpaPets.findAllById(petIds).stream()
+                .collect(Collectors.toMap(p -> p.getId(), p -> p.getName()));
+
+        return entities.stream()
+                .map(e -> toDomain(e,
+                        recipes.get(e.getRecipeId()),
+                        petNames.getOrDefault(e.getPetId(), "")))
+                .toList();
+    }
+
+    private CalendarEntry toDomain(CalendarEntryEntity e, RecipeEntity recipe, String petName) {
+        String recipeTitle = recipe != null ? recipe.getTitle() : "";
+        boolean recipeArchived = recipe != null && recipe.getStatus() == RecipeStatus.ARCHIVED;
         return new CalendarEntry(
                 e.getId(), e.getUserId(), e.getPetId(), petName,
-                e.getRecipeId(), recipeTitle, e.getEntryDate(), e.getMealType(),
-                e.getCreatedAt()
+                e.getRecipeId(), recipeTitle, recipeArchived, e.getEntryDate(), e.getMealType(),
+                e.getSeriesId(), e.getCreatedAt()
         );
     }
 }
@@ -13,8 +13,11 @@ import java.net.URI;
 import java.net.http.HttpClient;
 import java.net.http.HttpRequest;
 import java.net.http.HttpResponse;
+import java.util.Iterator;
 import java.util.List;
 import java.util.Map;
+import java.util.function.Consumer;
+import java.util.stream.Stream;
 
 @Component
 @EnableConfigurationProperties(OpenAIProperties.class)
@@ -69,6 +72,72 @@ public class OpenAIClient {
         }
     }
 
+    /**
+     * Same request as {@link #chatCompletion} but streamed: each content delta is passed to
+     * {@code onDelta} as it arrives and the full content is returned at the end. An exception
+     * thrown by {@code onDelta} stops reading and closes the connection to OpenAI.
+     */
+    public String streamChatCompletion(String systemPrompt, String userPrompt, Consumer<String> onDelta) {
+        HttpResponse<Stream<String>> response;
+        try {
+            Map<String, Object> body = Map.of(
+                    "model", properties.model(),
+                    "max_tokens", properties.maxTokens(),
+                    "stream", true,
+                    "response_format", Map.of("type", "json_object"),
+                    "messages", List.of(
+                            Map.of("role", "system", "content", systemPrompt),
+                            Map.of("role", "user", "content", userPrompt)
+                    )
+            );
+
+            HttpRequest request = HttpRequest.newBuilder()
+                    .uri(URI.create(CHAT_API_URL))
+                    .header(HttpHeaders.AUTHORIZATION, "Bearer " + properties.apiKey())
+                    .header(HttpHeaders.CONTENT_TYPE, MediaType.APPLICATION_JSON_VALUE)
+                    .POST(HttpRequest.BodyPublishers.ofString(objectMapper.writeValueAsString(body)))
+                    .build();
+
+            response = httpClient.send(request, HttpResponse.BodyHandlers.ofLines());
+        } catch (Exception e) {
+            log.error("Failed to call OpenAI API", e);
+            throw new RuntimeException("LLM call failed", e);
+        }
+
+        try (Stream<String> lines = response.body()) {
+            if (response.statusCode() != 200) {
+                log.error("OpenAI API error: status={}, body={}", response.statusCode(), String.join("\n", lines.toList()));
+                throw new RuntimeException("OpenAI API returned status " + response.statusCode());
+            }
+
+            StringBuilder content = new StringBuilder();
+            Iterator<String> it = lines.iterator();
+            while (it.hasNext()) {
+                String line = it.next();
+                // Server-sent events: "data: {chunk}" lines, blank separators, and a final "data: [DONE]"
+                if (!line.startsWith("data:")) continue;
+                String data = line.substring(5).trim();
+                if (data.equals("[DONE]")) break;
+
+                String delta = readDelta(data);
+                if (delta.isEmpty()) continue;
+                content.append(delta);
+                onDelta.accept(delta);
+            }
+            return content.toString();
+        }
+    }
+
+    private String readDelta(String chunk) {
+        try {
+            JsonNode choices = objectMapper.readTree(chunk).path("choices");
+            return choices.isEmpty() ? "" : choices.get(0).path("delta").path("content").asText("");
+        } catch (Exception e) {
+            log.error("Failed to read OpenAI stream chunk: {}", chunk, e);
+            throw new RuntimeException("LLM stream could not be read", e);
+        }
+    }
+
     public float[] generateEmbedding(String text) {
         try {
             Map<String, Object> body = Map.of(
@@ -0,0 +1,8 @@
+package com.pawfectbite.server.infrastructure.security;
+
+import java.time.Instant;
+
+public record IssuedToken(
+        String token,
+        Instant expiresAt
+) {}
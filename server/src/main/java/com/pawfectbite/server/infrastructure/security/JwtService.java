@@ -9,32 +9,73 @@ import org.springframework.stereotype.Service;
 import javax.crypto.SecretKey;
 import java.nio.charset.StandardCharsets;
 import java.util.Date;
+import java.util.Optional;
 import java.util.UUID;
 
 @Service
 public class JwtService {
 
+    private static final String TYPE_CLAIM = "type";
+    private static final String ACCESS_TYPE = "access";
+    private static final String REFRESH_TYPE = "refresh";
+
     private final SecretKey signingKey;
     private final long expirationMs;
+    private final long refreshExpirationMs;
 
     public JwtService(
             @Value("${app.jwt.secret}") String secret,
-            @Value("${app.jwt.expiration-ms}") long expirationMs
+            @Value("${app.jwt.expiration-ms}") long expirationMs,
+            @Value("${app.jwt.refresh-expiration-ms}") long refreshExpirationMs
     ) {
         this.signingKey = Keys.hmacShaKeyFor(secret.getBytes(StandardCharsets.UTF_8));
         this.expirationMs = expirationMs;
+        this.refreshExpirationMs = refreshExpirationMs;
     }
 
-    public String generateToken(UUID userId, String email, String name) {
+    public IssuedToken generateToken(UUID userId, String email, String name) {
         Date now = new Date();
-        return Jwts.builder()
+        Date expiresAt = new Date(now.getTime() + expirationMs);
+        String token = Jwts.builder()
                 .subject(userId.toString())
+                .claim(TYPE_CLAIM, ACCESS_TYPE)
                 .claim("email", email)
                 .claim("name", name)
                 .issuedAt(now)
-                .expiration(new Date(now.getTime() + expirationMs))
+                .expiration(expiresAt)
                 .signWith(signingKey)
                 .compact();
+        return new IssuedToken(token, expiresAt.toInstant());
+    }
+
+    /**
+     * Long-lived token that can only be exchanged for a new access token.
+     * It carries no profile claims and is rejected by {@link #isTokenValid}.
+     */
+    public IssuedToken generateRefreshToken(UUID userId) {
+        Date now = new Date();
+        Date expiresAt = new Date(now.getTime() + refreshExpirationMs);
+        String token = Jwts.builder()
+                .subject(userId.toString())
+                .claim(TYPE_CLAIM, REFRESH_TYPE)
+                .issuedAt(now)
+                .expiration(expiresAt)
+                .signWith(signingKey)
+                .compact();
+        return new IssuedToken(token, expiresAt.toInstant());
+    }
+
+    /** Returns the user a refresh token was issued to, or empty if it is invalid, expired or not a refresh token. */
+    public Optional<UUID> parseRefreshToken(String token) {
+        try {
+            Claims claims = Jwts.parser().verifyWith(signingKey).build().parseSignedClaims(token).getPayload();
+            if (!REFRESH_TYPE.equals(claims.get(TYPE_CLAIM, String.class))) {
+                return Optional.empty();
+            }
+            return Optional.of(UUID.fromString(claims.getSubject()));
+        } catch (Exception e) {
+            return Optional.empty();
+        }
     }
 
     public AuthenticatedUser parseToken(String token) {
@@ -53,8 +94,9 @@ public class JwtService {
 
     public boolean isTokenValid(String token) {
         try {
-            Jwts.parser().verifyWith(signingKey).build().parseSignedClaims(token);
-            return true;
+            Claims claims = Jwts.parser().verifyWith(signingKey).build().parseSignedClaims(token).getPayload();
+            // Tokens issued before the type claim existed are access tokens
+            return !REFRESH_TYPE.equals(claims.get(TYPE_CLAIM, String.class));
         } catch (Exception e) {
             return false;
         }
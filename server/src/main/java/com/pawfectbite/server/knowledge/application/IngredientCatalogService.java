@@ -0,0 +1,50 @@
+package com.pawfectbite.server.knowledge.application;
+
+import com.pawfectbite.server.common.exception.ResourceNotFoundException;
+import com.pawfectbite.server.knowledge.domain.IngredientKnowledge;
+import com.pawfectbite.server.knowledge.domain.NutritionGuidance;
+import com.pawfectbite.server.knowledge.repository.IngredientKnowledgeRepository;
+import com.pawfectbite.server.knowledge.repository.NutritionGuidanceRepository;
+import org.springframework.stereotype.Service;
+import org.springframework.transaction.annotation.Transactional;
+
+import java.util.List;
+import java.util.UUID;
+
+/** Read-only access to the knowledge base for the ingredient encyclopedia. */
+@Service
+public class IngredientCatalogService {
+
+    private static final int RELATED_GUIDANCE_LIMIT = 4;
+
+    private final IngredientKnowledgeRepository ingredientRepo;
+    private final NutritionGuidanceRepository guidanceRepo;
+
+    public IngredientCatalogService(IngredientKnowledgeRepository ingredientRepo, NutritionGuidanceRepository guidanceRepo) {
+        this.ingredientRepo = ingredientRepo;
+        this.guidanceRepo = guidanceRepo;
+    }
+
+    @Transactional(readOnly = true)
+    public List<IngredientKnowledge> listIngredients() {
+        return ingredientRepo.findAll();
+    }
+
+    @Transactional(readOnly = true)
+    public IngredientKnowledge getIngredient(UUID ingredientId) {
+        return ingredientRepo.findById(ingredientId)
+                .orElseThrow(() -> new ResourceNotFoundException("Ingredient", ingredientId));
+    }
+
+    @Transactional(readOnly = true)
+    public List<NutritionGuidance> getRelatedGuidance(UUID ingredientId) {
+        getIngredient(ingredientId);
+        return guidanceRepo.findRelatedToIngredient(ingredientId, RELATED_GUIDANCE_LIMIT);
+    }
+
+    @Transactional(readOnly = true)
+    public NutritionGuidance getGuidance(UUID guidanceId) {
+        return guidanceRepo.findById(guidanceId)
+                .orElseThrow(() -> new ResourceNotFoundException("Guidance", guidanceId));
+    }
+}
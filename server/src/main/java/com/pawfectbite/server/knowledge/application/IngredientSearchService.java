@@ -0,0 +1,82 @@
+package com.pawfectbite.server.knowledge.application;
+
+import com.pawfectbite.server.knowledge.domain.IngredientSuggestion;
+import com.pawfectbite.server.knowledge.repository.IngredientKnowledgeRepository;
+import com.pawfectbite.server.safety.domain.rules.ToxicIngredientRule;
+import org.springframework.stereotype.Service;
+import org.springframework.transaction.annotation.Transactional;
+
+import java.util.ArrayList;
+import java.util.Comparator;
+import java.util.List;
+import java.util.regex.Pattern;
+
+@Service
+public class IngredientSearchService {
+
+    private final IngredientKnowledgeRepository ingredientRepo;
+
+    public IngredientSearchService(IngredientKnowledgeRepository ingredientRepo) {
+        this.ingredientRepo = ingredientRepo;
+    }
+
+    /**
+     * Fuzzy-matches {@code query} against the knowledge base. Close matches from the toxic list
+     * are put first so a misspelt "choclate" is still recognised; the knowledge base's own entry
+     * for the same food (e.g. "garlic (all forms)") is then left out rather than listed twice.
+     */
+    @Transactional(readOnly = true)
+    public List<IngredientSuggestion> search(String query, int limit) {
+        String normalized = query.trim().toLowerCase();
+        if (normalized.isEmpty()) return List.of();
+
+        List<String> toxicHits = ToxicIngredientRule.TOXIC_INGREDIENTS.stream()
+                .filter(name -> resembles(normalized, name))
+                .sorted(Comparator.comparing((String name) -> !name.startsWith(normalized)).thenComparing(name -> name))
+                .toList();
+
+        List<IngredientSuggestion> suggestions = new ArrayList<>();
+        toxicHits.stream()
+                .map(IngredientSuggestion::toxic)
+                .forEach(suggestions::add);
+
+        ingredientRepo.searchByName(normalized, limit).stream()
+                .filter(knowledge -> !toxicHits.contains(baseName(knowledge.name())))
+                .map(IngredientSuggestion::from)
+                .forEach(suggestions::add);
+
+        return suggestions.stream().limit(limit).toList();
+    }
+
+    /** The name without its parenthesised detail: "garlic (all forms)" is "garlic". */
+    static String baseName(String name) {
+        int detail = name.indexOf('(');
+        return (detail >= 0 ? name.substring(0, detail) : name).trim().toLowerCase();
+    }
+
+    /** Either contains the other (as whole words, for "garlic powder"), or a typo: at most one edit per four characters. */
+    static boolean resembles(String query, String name) {
+        if (name.contains(query)) return true;
+        if (Pattern.compile("\\b" + Pattern.quote(name) + "\\b").matcher(query).find()) return true;
+        if (query.length() < 4) return false;
+        return editDistance(query, name) <= query.length() / 4;
+    }
+
+    static int editDistance(String a, String b) {
+        int[] previous = new int[b.length() + 1];
+        int[] current = new int[b.length() + 1];
+        for (int j = 0; j <= b.length(); j++) previous[j] = j;
+
+        for (int i = 1; i <= a.length(); i++) {
+            current[0] = i;
+            for (int j = 1; j <= b.length(); j++) {
+                int substitution = previous[j - 1] + (a.charAt(i - 1) == b.charAt(j - 1) ? 0 : 1);
+                current[j] = Math.min(substitution, Math.min(previous[j], current[j - 1]) + 1);
+            }
+            int[] swap = previous;
+            previous = current;
+            current = swap;
+        }
+        return previous[b.length()];
+    }
+}
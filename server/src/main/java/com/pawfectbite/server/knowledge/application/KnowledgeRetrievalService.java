@@ -5,6 +5,7 @@ import com.pawfectbite.server.knowledge.domain.IngredientKnowledge;
 import com.pawfectbite.server.knowledge.domain.NutritionGuidance;
 import com.pawfectbite.server.knowledge.repository.IngredientKnowledgeRepository;
 import com.pawfectbite.server.knowledge.repository.NutritionGuidanceRepository;
+import com.pawfectbite.server.pets.domain.HealthField;
 import com.pawfectbite.server.pets.domain.Pet;
 import org.slf4j.Logger;
 import org.slf4j.LoggerFactory;
@@ -83,10 +84,10 @@ public class KnowledgeRetrievalService {
             sb.append("using ").append(String.join(", ", ingredients)).append(" ");
         }
         if (!pet.allergies().isEmpty()) {
-            sb.append("allergies: ").append(String.join(", ", pet.allergies())).append(" ");
+            sb.append("allergies: ").append(String.join(", ", HealthField.ALLERGIES.labelsOf(pet))).append(" ");
         }
         if (!pet.medicalConditions().isEmpty()) {
-            sb.append("conditions: ").append(String.join(", ", pet.medicalConditions()));
+            sb.append("conditions: ").append(String.join(", ", HealthField.MEDICAL_CONDITIONS.labelsOf(pet)));
         }
         return sb.toString().trim();
     }
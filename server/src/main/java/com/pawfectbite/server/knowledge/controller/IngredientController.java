@@ -0,0 +1,57 @@
+package com.pawfectbite.server.knowledge.controller;
+
+import com.pawfectbite.server.common.response.ApiResponse;
+import com.pawfectbite.server.knowledge.application.IngredientCatalogService;
+import com.pawfectbite.server.knowledge.application.IngredientSearchService;
+import com.pawfectbite.server.knowledge.dto.IngredientResponse;
+import com.pawfectbite.server.knowledge.dto.IngredientSearchRequest;
+import com.pawfectbite.server.knowledge.dto.IngredientSuggestionResponse;
+import com.pawfectbite.server.knowledge.dto.NutritionGuidanceResponse;
+import jakarta.validation.Valid;
+import org.springframework.web.bind.annotation.GetMapping;
+import org.springframework.web.bind.annotation.ModelAttribute;
+import org.springframework.web.bind.annotation.PathVariable;
+import org.springframework.web.bind.annotation.RequestMapping;
+import org.springframework.web.bind.annotation.RestController;
+
+import java.util.List;
+import java.util.UUID;
+
+@RestController
+@RequestMapping("/api/ingredients")
+public class IngredientController {
+
+    private final IngredientSearchService searchService;
+    private final IngredientCatalogService catalogService;
+
+    public IngredientController(IngredientSearchService searchService, IngredientCatalogService catalogService) {
+        this.searchService = searchService;
+        this.catalogService = catalogService;
+    }
+
+    @GetMapping
+    public ApiResponse<List<IngredientResponse>> list() {
+        return ApiResponse.ok(catalogService.listIngredients().stream()
+                .map(IngredientResponse::from)
+                .toList());
+    }
+
+    @GetMapping("/search")
+    public ApiResponse<List<IngredientSuggestionResponse>> search(@Valid @ModelAttribute IngredientSearchRequest request) {
+        return ApiResponse.ok(searchService.search(request.q(), request.limitOrDefault()).stream()
+                .map(IngredientSuggestionResponse::from)
+                .toList());
+    }
+
+    @GetMapping("/{ingredientId}")
+    public ApiResponse<IngredientResponse> get(@PathVariable UUID ingredientId) {
+        return ApiResponse.ok(IngredientResponse.from(catalogService.getIngredient(ingredientId)));
+    }
+
+    @GetMapping("/{ingredientId}/guidance")
+    public ApiResponse<List<NutritionGuidanceResponse>> relatedGuidance(@PathVariable UUID ingredientId) {
+        return ApiResponse.ok(catalogService.getRelatedGuidance(ingredientId).stream()
+                .map(NutritionGuidanceResponse::from)
+                .toList());
+    }
+}
@@ -0,0 +1,27 @@
+package com.pawfectbite.server.knowledge.controller;
+
+import com.pawfectbite.server.common.response.ApiResponse;
+import com.pawfectbite.server.knowledge.application.IngredientCatalogService;
+import com.pawfectbite.server.knowledge.dto.NutritionGuidanceResponse;
+import org.springframework.web.bind.annotation.GetMapping;
+import org.springframework.web.bind.annotation.PathVariable;
+import org.springframework.web.bind.annotation.RequestMapping;
+import org.springframework.web.bind.annotation.RestController;
+
+import java.util.UUID;
+
+@RestController
+@RequestMapping("/api/guidance")
+public class NutritionGuidanceController {
+
+    private final IngredientCatalogService catalogService;
+
+    public NutritionGuidanceController(IngredientCatalogService catalogService) {
+        this.catalogService = catalogService;
+    }
+
+    @GetMapping("/{guidanceId}")
+    public ApiResponse<NutritionGuidanceResponse> get(@PathVariable UUID guidanceId) {
+        return ApiResponse.ok(NutritionGuidanceResponse.from(catalogService.getGuidance(guidanceId)));
+    }
+}
@@ -3,6 +3,8 @@ package com.pawfectbite.server.knowledge.database;
 import com.pawfectbite.server.infrastructure.persistence.AuditableEntity;
 import com.pawfectbite.server.knowledge.domain.IngredientKnowledge;
 import jakarta.persistence.*;
+import org.hibernate.annotations.JdbcTypeCode;
+import org.hibernate.type.SqlTypes;
 
 import java.util.List;
 import java.util.UUID;
@@ -20,6 +22,10 @@ public class IngredientKnowledgeEntity extends AuditableEntity {
 
     private String category;
 
+    @JdbcTypeCode(SqlTypes.ARRAY)
+    @Column(name = "species_safe", nullable = false, columnDefinition = "varchar(10)[]")
+    private List<String> speciesSafe = List.of();
+
     @Column(name = "safety_notes", columnDefinition = "TEXT")
     private String safetyNotes;
 
@@ -35,7 +41,7 @@ public class IngredientKnowledgeEntity extends AuditableEntity {
     public IngredientKnowledgeEntity() {}
 
     public IngredientKnowledge toDomain() {
-        return new IngredientKnowledge(id, name, category, List.of(), safetyNotes, nutritionInfo, contentText);
+        return new IngredientKnowledge(id, name, category, speciesSafe, safetyNotes, nutritionInfo, contentText);
     }
 
     public UUID getId() { return id; }
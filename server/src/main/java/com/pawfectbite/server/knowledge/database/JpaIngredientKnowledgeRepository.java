@@ -12,6 +12,7 @@ import java.util.UUID;
 public interface JpaIngredientKnowledgeRepository extends JpaRepository<IngredientKnowledgeEntity, UUID> {
     Optional<IngredientKnowledgeEntity> findByNameIgnoreCase(String name);
     List<IngredientKnowledgeEntity> findByNameIgnoreCaseIn(List<String> names);
+    List<IngredientKnowledgeEntity> findAllByOrderByCategoryAscNameAsc();
 
     List<IngredientKnowledgeEntity> findByEmbeddingIsNull();
 
@@ -19,6 +20,27 @@ public interface JpaIngredientKnowledgeRepository extends JpaRepository<Ingredie
     @Query(value = "UPDATE ingredient_knowledge SET embedding = cast(:embedding as vector) WHERE id = :id", nativeQuery = true)
     void updateEmbedding(@Param("id") UUID id, @Param("embedding") String embedding);
 
+    /**
+     * Fuzzy name search using pg_trgm: substring matches first, then by how closely the query
+     * matches a word run in the name, so "chiken" still finds "chicken breast (...)".
+     * {@code pattern} is the query already escaped for ILIKE.
+     */
+    @Query(value = """
+            SELECT * FROM ingredient_knowledge
+            WHERE name ILIKE '%' || :pattern || '%'
+               OR word_similarity(:query, name) >= :minSimilarity
+            ORDER BY (name ILIKE :pattern || '%') DESC,
+                     (name ILIKE '%' || :pattern || '%') DESC,
+                     word_similarity(:query, name) DESC,
+                     name
+            LIMIT :limit
+            """, nativeQuery = true)
+    List<IngredientKnowledgeEntity> searchByName(
+            @Param("query") String query,
+            @Param("pattern") String pattern,
+            @Param("minSimilarity") double minSimilarity,
+            @Param("limit") int limit);
+
     @Query(value = """
             SELECT * FROM ingredient_knowledge
             WHERE embedding IS NOT NULL
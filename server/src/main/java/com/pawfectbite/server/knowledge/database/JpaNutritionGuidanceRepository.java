@@ -26,4 +26,21 @@ public interface JpaNutritionGuidanceRepository extends JpaRepository<NutritionG
     List<NutritionGuidanceEntity> findNearestByEmbedding(
             @Param("queryEmbedding") String queryEmbedding,
             @Param("limit") int limit);
+
+    /**
+     * Guidance closest in meaning to an ingredient, limited to the species it is safe for.
+     * Relies on both sides having been embedded; returns nothing until they have.
+     */
+    @Query(value = """
+            SELECT g.* FROM nutrition_guidance g
+            JOIN ingredient_knowledge i ON i.id = :ingredientId
+            WHERE g.embedding IS NOT NULL
+              AND i.embedding IS NOT NULL
+              AND (g.species IS NULL OR g.species = ANY(i.species_safe))
+            ORDER BY g.embedding <=> i.embedding
+            LIMIT :limit
+            """, nativeQuery = true)
+    List<NutritionGuidanceEntity> findNearestToIngredient(
+            @Param("ingredientId") UUID ingredientId,
+            @Param("limit") int limit);
 }
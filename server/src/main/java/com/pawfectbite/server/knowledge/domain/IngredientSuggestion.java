@@ -0,0 +1,32 @@
+package com.pawfectbite.server.knowledge.domain;
+
+import java.util.List;
+import java.util.UUID;
+
+/**
+ * An autocomplete match: a knowledge base ingredient, or a name from the toxic list
+ * (no id, no species marked safe). Knowledge base entries in the toxic/hazard category,
+ * which no species is marked safe for, are flagged toxic too.
+ */
+public record IngredientSuggestion(
+        UUID id,
+        String name,
+        String category,
+        List<String> speciesSafe,
+        boolean toxic
+) {
+    public static IngredientSuggestion from(IngredientKnowledge knowledge) {
+        return new IngredientSuggestion(
+                knowledge.id(), knowledge.name(), knowledge.category(), knowledge.speciesSafe(), isToxic(knowledge)
+        );
+    }
+
+    private static boolean isToxic(IngredientKnowledge knowledge) {
+        boolean toxicCategory = knowledge.category() != null && knowledge.category().toLowerCase().startsWith("toxic");
+        return toxicCategory || knowledge.speciesSafe() == null || knowledge.speciesSafe().isEmpty();
+    }
+
+    public static IngredientSuggestion toxic(String name) {
+        return new IngredientSuggestion(null, name, "toxic", List.of(), true);
+    }
+}
@@ -0,0 +1,23 @@
+package com.pawfectbite.server.knowledge.dto;
+
+import com.pawfectbite.server.knowledge.domain.IngredientKnowledge;
+
+import java.util.List;
+import java.util.UUID;
+
+public record IngredientResponse(
+        UUID id,
+        String name,
+        String category,
+        List<String> speciesSafe,
+        String safetyNotes,
+        String nutritionInfo,
+        String contentText
+) {
+    public static IngredientResponse from(IngredientKnowledge i) {
+        return new IngredientResponse(
+                i.id(), i.name(), i.category(), i.speciesSafe(),
+                i.safetyNotes(), i.nutritionInfo(), i.contentText()
+        );
+    }
+}
@@ -0,0 +1,20 @@
+package com.pawfectbite.server.knowledge.dto;
+
+import jakarta.validation.constraints.Max;
+import jakarta.validation.constraints.Min;
+import jakarta.validation.constraints.NotBlank;
+import jakarta.validation.constraints.Size;
+
+public record IngredientSearchRequest(
+        @NotBlank @Size(max = 100)
+        String q,
+
+        @Min(1) @Max(20)
+        Integer limit
+) {
+    public static final int DEFAULT_LIMIT = 8;
+
+    public int limitOrDefault() {
+        return limit != null ? limit : DEFAULT_LIMIT;
+    }
+}
@@ -0,0 +1,18 @@
+package com.pawfectbite.server.knowledge.dto;
+
+import com.pawfectbite.server.knowledge.domain.IngredientSuggestion;
+
+import java.util.List;
+import java.util.UUID;
+
+public record IngredientSuggestionResponse(
+        UUID id,
+        String name,
+        String category,
+        List<String> speciesSafe,
+        boolean toxic
+) {
+    public static IngredientSuggestionResponse from(IngredientSuggestion s) {
+        return new IngredientSuggestionResponse(s.id(), s.name(), s.category(), s.speciesSafe(), s.toxic());
+    }
+}
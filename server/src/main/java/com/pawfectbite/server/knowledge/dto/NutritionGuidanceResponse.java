@@ -0,0 +1,18 @@
+package com.pawfectbite.server.knowledge.dto;
+
+import com.pawfectbite.server.knowledge.domain.NutritionGuidance;
+
+import java.util.UUID;
+
+public record NutritionGuidanceResponse(
+        UUID id,
+        String title,
+        String category,
+        String species,
+        String contentText,
+        String source
+) {
+    public static NutritionGuidanceResponse from(NutritionGuidance g) {
+        return new NutritionGuidanceResponse(g.id(), g.title(), g.category(), g.species(), g.contentText(), g.source());
+    }
+}
@@ -4,9 +4,13 @@ import com.pawfectbite.server.knowledge.domain.IngredientKnowledge;
 
 import java.util.List;
 import java.util.Optional;
+import java.util.UUID;
 
 public interface IngredientKnowledgeRepository {
+    List<IngredientKnowledge> findAll();
+    Optional<IngredientKnowledge> findById(UUID id);
     Optional<IngredientKnowledge> findByName(String name);
     List<IngredientKnowledge> findByNames(List<String> names);
     List<IngredientKnowledge> searchByEmbedding(float[] embedding, int limit);
+    List<IngredientKnowledge> searchByName(String query, int limit);
 }
@@ -7,16 +7,32 @@ import org.springframework.stereotype.Repository;
 
 import java.util.List;
 import java.util.Optional;
+import java.util.UUID;
 
 @Repository
 public class IngredientKnowledgeRepositoryImpl implements IngredientKnowledgeRepository {
 
+    /** pg_trgm word similarity below this is noise rather than a typo. */
+    private static final double MIN_NAME_SIMILARITY = 0.3;
+
     private final JpaIngredientKnowledgeRepository jpa;
 
     public IngredientKnowledgeRepositoryImpl(JpaIngredientKnowledgeRepository jpa) {
         this.jpa = jpa;
     }
 
+    @Override
+    public List<IngredientKnowledge> findAll() {
+        return jpa.findAllByOrderByCategoryAscNameAsc().stream()
+                .map(IngredientKnowledgeEntity::toDomain)
+                .toList();
+    }
+
+    @Override
+    public Optional<IngredientKnowledge> findById(UUID id) {
+        return jpa.findById(id).map(IngredientKnowledgeEntity::toDomain);
+    }
+
     @Override
     public Optional<IngredientKnowledge> findByName(String name) {
         return jpa.findByNameIgnoreCase(name).map(IngredientKnowledgeEntity::toDomain);
@@ -38,6 +54,14 @@ public class IngredientKnowledgeRepositoryImpl implements IngredientKnowledgeRep
                 .toList();
     }
 
+    @Override
+    public List<IngredientKnowledge> searchByName(String query, int limit) {
+        String pattern = query.replace("\\", "\\\\").replace("%", "\\%").replace("_", "\\_");
+        return jpa.searchByName(query, pattern, MIN_NAME_SIMILARITY, limit).stream()
+                .map(IngredientKnowledgeEntity::toDomain)
+                .toList();
+    }
+
     private String toVectorString(float[] embedding) {
         StringBuilder sb = new StringBuilder("[");
         for (int i = 0; i < embedding.length; i++) {
@@ -3,8 +3,12 @@ package com.pawfectbite.server.knowledge.repository;
 import com.pawfectbite.server.knowledge.domain.NutritionGuidance;
 
 import java.util.List;
+import java.util.Optional;
+import java.util.UUID;
 
 public interface NutritionGuidanceRepository {
+    Optional<NutritionGuidance> findById(UUID id);
     List<NutritionGuidance> findBySpecies(String species);
     List<NutritionGuidance> searchByEmbedding(float[] embedding, int limit);
+    List<NutritionGuidance> findRelatedToIngredient(UUID ingredientId, int limit);
 }
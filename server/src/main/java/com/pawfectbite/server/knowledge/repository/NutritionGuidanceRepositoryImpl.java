@@ -6,6 +6,8 @@ import com.pawfectbite.server.knowledge.domain.NutritionGuidance;
 import org.springframework.stereotype.Repository;
 
 import java.util.List;
+import java.util.Optional;
+import java.util.UUID;
 
 @Repository
 public class NutritionGuidanceRepositoryImpl implements NutritionGuidanceRepository {
@@ -16,6 +18,11 @@ public class NutritionGuidanceRepositoryImpl implements NutritionGuidanceReposit
         this.jpa = jpa;
     }
 
+    @Override
+    public Optional<NutritionGuidance> findById(UUID id) {
+        return jpa.findById(id).map(NutritionGuidanceEntity::toDomain);
+    }
+
     @Override
     public List<NutritionGuidance> findBySpecies(String species) {
         return jpa.findBySpeciesIgnoreCase(species).stream()
@@ -31,6 +38,13 @@ public class NutritionGuidanceRepositoryImpl implements NutritionGuidanceReposit
                 .toList();
     }
 
+    @Override
+    public List<NutritionGuidance> findRelatedToIngredient(UUID ingredientId, int limit) {
+        return jpa.findNearestToIngredient(ingredientId, limit).stream()
+                .map(NutritionGuidanceEntity::toDomain)
+                .toList();
+    }
+
     private String toVectorString(float[] embedding) {
         StringBuilder sb = new StringBuilder("[");
         for (int i = 0; i < embedding.length; i++) {
@@ -0,0 +1,33 @@
+package com.pawfectbite.server.pets.application;
+
+import com.pawfectbite.server.pets.domain.Breed;
+import com.pawfectbite.server.pets.domain.Pet;
+import com.pawfectbite.server.pets.domain.Species;
+import com.pawfectbite.server.pets.repository.BreedRepository;
+import org.springframework.stereotype.Service;
+import org.springframework.transaction.annotation.Transactional;
+
+import java.util.List;
+import java.util.Optional;
+
+@Service
+public class BreedService {
+
+    private final BreedRepository breedRepo;
+
+    public BreedService(BreedRepository breedRepo) {
+        this.breedRepo = breedRepo;
+    }
+
+    @Transactional(readOnly = true)
+    public List<Breed> listBreeds(Species species) {
+        return species != null ? breedRepo.findBySpecies(species) : breedRepo.findAll();
+    }
+
+    /** The catalog entry for a pet's breed; empty for mixed breeds and anything typed in by hand. */
+    @Transactional(readOnly = true)
+    public Optional<Breed> findForPet(Pet pet) {
+        if (pet.breed() == null || pet.breed().isBlank()) return Optional.empty();
+        return breedRepo.findBySpeciesAndName(pet.species(), pet.breed());
+    }
+}
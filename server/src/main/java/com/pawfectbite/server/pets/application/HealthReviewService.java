@@ -0,0 +1,118 @@
+package com.pawfectbite.server.pets.application;
+
+import com.pawfectbite.server.common.exception.AppException;
+import com.pawfectbite.server.pets.domain.HealthField;
+import com.pawfectbite.server.pets.domain.HealthTerm;
+import com.pawfectbite.server.pets.domain.KeptHealthValue;
+import com.pawfectbite.server.pets.domain.Pet;
+import com.pawfectbite.server.pets.dto.MapHealthCodesRequest;
+import com.pawfectbite.server.pets.repository.KeptHealthValueRepository;
+import com.pawfectbite.server.pets.repository.PetRepository;
+import org.springframework.stereotype.Service;
+import org.springframework.transaction.annotation.Transactional;
+
+import java.util.ArrayList;
+import java.util.EnumMap;
+import java.util.HashMap;
+import java.util.HashSet;
+import java.util.LinkedHashSet;
+import java.util.List;
+import java.util.Map;
+import java.util.Set;
+import java.util.UUID;
+
+/**
+ * Moves allergies, conditions and medications typed in before the health
+ * vocabularies existed over to codes, as the owner confirms each one. Values
+ * the owner keeps as typed, such as allergens outside the vocabulary, are
+ * recorded so the review doesn't ask about them again.
+ */
+@Service
+public class HealthReviewService {
+
+    private final PetRepository petRepository;
+    private final KeptHealthValueRepository keptHealthValueRepository;
+
+    public HealthReviewService(PetRepository petRepository,
+                               KeptHealthValueRepository keptHealthValueRepository) {
+        this.petRepository = petRepository;
+        this.keptHealthValueRepository = keptHealthValueRepository;
+    }
+
+    public record LegacyEntry(HealthField field, String value, String suggestedCode) {}
+
+    public record PetHealthReview(Pet pet, List<LegacyEntry> entries) {}
+
+    @Transactional(readOnly = true)
+    public List<PetHealthReview> getPendingReviews(UUID userId) {
+        return petRepository.findByUserId(userId).stream()
+                .map(pet -> new PetHealthReview(pet, legacyEntries(pet)))
+                .filter(review -> !review.entries().isEmpty())
+                .toList();
+    }
+
+    @Transactional
+    public Pet applyCodes(Pet pet, MapHealthCodesRequest request) {
+        Map<HealthField, Map<String, String>> codesByField = new EnumMap<>(HealthField.class);
+        for (MapHealthCodesRequest.Mapping mapping : request.mappings()) {
+            String code = mapping.code();
+            if (mapping.keepAsTyped()) {
+                code = code == null || code.isBlank() ? mapping.value() : code.trim();
+                keptHealthValueRepository.save(pet.id(), mapping.field(), code);
+            } else if (code != null && HealthTerm.fromCode(mapping.field().terms(), code).isEmpty()) {
+                throw new AppException("UNKNOWN_HEALTH_CODE",
+                        "'" + code + "' is not a known code for " + mapping.field());
+            }
+            // A null code removes the value, so this can't be a map built by a collector
+            codesByField.computeIfAbsent(mapping.field(), f -> new HashMap<>()).put(mapping.value(), code);
+        }
+
+        Map<HealthField, List<String>> updated = new EnumMap<>(HealthField.class);
+        for (HealthField field : HealthField.values()) {
+            Map<String, String> codes = codesByField.getOrDefault(field, Map.of());
+            Set<String> values = new LinkedHashSet<>();
+            for (String value : field.valuesOf(pet)) {
+                if (!codes.containsKey(value)) {
+                    values.add(value);
+                } else if (codes.get(value) != null) {
+                    values.add(codes.get(value));
+                }
+            }
+            updated.put(field, new ArrayList<>(values));
+        }
+
+        return petRepository.updateHealth(
+                pet.id(),
+                updated.get(HealthField.ALLERGIES),
+                updated.get(HealthField.MEDICAL_CONDITIONS),
+                updated.get(HealthField.MEDICATIONS)
+        );
+    }
+
+    /** Records every typed-in value on the pet as kept, for profiles the owner saved with them in place. */
+    @Transactional
+    public void keepTypedValues(Pet pet) {
+        for (HealthField field : HealthField.values()) {
+            for (String value : field.legacyValuesOf(pet)) {
+                keptHealthValueRepository.save(pet.id(), field, value);
+            }
+        }
+    }
+
+    private List<LegacyEntry> legacyEntries(Pet pet) {
+        Set<KeptHealthValue> kept = new HashSet<>(keptHealthValueRepository.findByPetId(pet.id()));
+        List<LegacyEntry> entries = new ArrayList<>();
+        for (HealthField field : HealthField.values()) {
+            for (String value : field.legacyValuesOf(pet)) {
+                if (kept.contains(new KeptHealthValue(pet.id(), field, value))) {
+                    continue;
+                }
+                String suggestion = HealthTerm.resolve(field.terms(), value)
+                        .map(HealthTerm::name)
+                        .orElse(null);
+                entries.add(new LegacyEntry(field, value, suggestion));
+            }
+        }
+        return entries;
+    }
+}
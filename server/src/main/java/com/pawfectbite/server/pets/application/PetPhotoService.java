@@ -0,0 +1,105 @@
+package com.pawfectbite.server.pets.application;
+
+import com.pawfectbite.server.common.exception.AppException;
+import com.pawfectbite.server.common.exception.ResourceNotFoundException;
+import com.pawfectbite.server.infrastructure.cloudinary.CloudinaryService;
+import com.pawfectbite.server.pets.domain.Pet;
+import com.pawfectbite.server.pets.domain.PetPhoto;
+import com.pawfectbite.server.pets.dto.PetPhotoDetailsRequest;
+import com.pawfectbite.server.pets.repository.PetPhotoRepository;
+import com.pawfectbite.server.pets.repository.PetRepository;
+import org.springframework.stereotype.Service;
+import org.springframework.transaction.annotation.Transactional;
+import org.springframework.web.multipart.MultipartFile;
+
+import java.time.LocalDate;
+import java.util.HashSet;
+import java.util.List;
+import java.util.UUID;
+
+/**
+ * A pet's photo gallery. The avatar is whichever gallery photo's URL is in
+ * {@link Pet#photoUrl()}, so pet cards and profiles keep reading a single field.
+ */
+@Service
+public class PetPhotoService {
+
+    private final PetPhotoRepository petPhotoRepository;
+    private final PetRepository petRepository;
+    private final CloudinaryService cloudinaryService;
+
+    public PetPhotoService(PetPhotoRepository petPhotoRepository,
+                           PetRepository petRepository,
+                           CloudinaryService cloudinaryService) {
+        this.petPhotoRepository = petPhotoRepository;
+        this.petRepository = petRepository;
+        this.cloudinaryService = cloudinaryService;
+    }
+
+    public List<PetPhoto> getPhotos(UUID petId) {
+        return petPhotoRepository.findByPetId(petId);
+    }
+
+    /** Adds a photo to the end of the gallery; a pet's first photo also becomes its avatar. */
+    @Transactional
+    public PetPhoto addPhoto(Pet pet, MultipartFile file, String caption, LocalDate takenOn) {
+        String publicId = "pet-" + pet.id() + "-" + UUID.randomUUID();
+        String url = cloudinaryService.uploadPetPhoto(file, publicId);
+        PetPhoto photo = petPhotoRepository.save(pet.id(), url, publicId, caption, takenOn);
+        if (pet.photoUrl() == null) {
+            petRepository.updatePhotoUrl(pet.id(), url);
+        }
+        return photo;
+    }
+
+    @Transactional
+    public PetPhoto updatePhoto(UUID petId, UUID photoId, PetPhotoDetailsRequest request) {
+        getPhoto(petId, photoId);
+        return petPhotoRepository.update(photoId, request.caption(), request.takenOn());
+    }
+
+    /** Puts the gallery in the given order, which must list every one of the pet's photos. */
+    @Transactional
+    public List<PetPhoto> reorderPhotos(UUID petId, List<UUID> photoIds) {
+        List<UUID> existing = petPhotoRepository.findByPetId(petId).stream().map(PetPhoto::id).toList();
+        if (photoIds.size() != existing.size() || !new HashSet<>(photoIds).equals(new HashSet<>(existing))) {
+            throw new AppException("INVALID_PHOTO_ORDER", "The new order must list each of the pet's photos once");
+        }
+        petPhotoRepository.updatePositions(photoIds);
+        return petPhotoRepository.findByPetId(petId);
+    }
+
+    @Transactional
+    public Pet setAvatar(UUID petId, UUID photoId) {
+        PetPhoto photo = getPhoto(petId, photoId);
+        return petRepository.updatePhotoUrl(petId, photo.url());
+    }
+
+    /** Deleting the avatar hands that role to the first remaining photo, if there is one. */
+    @Transactional
+    public void deletePhoto(Pet pet, UUID photoId) {
+        PetPhoto photo = getPhoto(pet.id(), photoId);
+        cloudinaryService.deletePetPhoto(photo.publicId());
+        petPhotoRepository.delete(photoId);
+
+        if (photo.url().equals(pet.photoUrl())) {
+            String nextAvatar = petPhotoRepository.findByPetId(pet.id()).stream()
+                    .findFirst()
+                    .map(PetPhoto::url)
+                    .orElse(null);
+            petRepository.updatePhotoUrl(pet.id(), nextAvatar);
+        }
+    }
+
+    /** Removes every photo from Cloudinary; the rows go with the pet. */
+    public void deleteAllPhotos(UUID petId) {
+        petPhotoRepository.findByPetId(petId)
+                .forEach(photo -> cloudinaryService.deletePetPhoto(photo.publicId()));
+    }
+
+    private PetPhoto getPhoto(UUID petId, UUID photoId) {
+        return petPhotoRepository.findById(photoId)
+                .filter(p -> p.petId().equals(petId))
+                .orElseThrow(() -> new ResourceNotFoundException("PetPhoto", photoId));
+    }
+}
@@ -1,15 +1,18 @@
 package com.pawfectbite.server.pets.application;
 
 import com.pawfectbite.server.common.exception.ResourceNotFoundException;
-import com.pawfectbite.server.infrastructure.cloudinary.CloudinaryService;
 import com.pawfectbite.server.pets.domain.Pet;
+import com.pawfectbite.server.pets.domain.PetPhoto;
+import com.pawfectbite.server.pets.domain.WeightEntry;
 import com.pawfectbite.server.pets.dto.CreatePetRequest;
 import com.pawfectbite.server.pets.dto.UpdatePetRequest;
 import com.pawfectbite.server.pets.repository.PetRepository;
+import com.pawfectbite.server.pets.repository.WeightEntryRepository;
 import org.springframework.stereotype.Service;
 import org.springframework.transaction.annotation.Transactional;
 import org.springframework.web.multipart.MultipartFile;
 
+import java.time.LocalDate;
 import java.util.Collections;
 import java.util.List;
 import java.util.UUID;
@@ -18,11 +21,18 @@ import java.util.UUID;
 public class PetService {
 
     private final PetRepository petRepository;
-    private final CloudinaryService cloudinaryService;
+    private final WeightEntryRepository weightEntryRepository;
+    private final PetPhotoService petPhotoService;
+    private final HealthReviewService healthReviewService;
 
-    public PetService(PetRepository petRepository, CloudinaryService cloudinaryService) {
+    public PetService(PetRepository petRepository,
+                      WeightEntryRepository weightEntryRepository,
+                      PetPhotoService petPhotoService,
+                      HealthReviewService healthReviewService) {
         this.petRepository = petRepository;
-        this.cloudinaryService = cloudinaryService;
+        this.weightEntryRepository = weightEntryRepository;
+        this.petPhotoService = petPhotoService;
+        this.healthReviewService = healthReviewService;
     }
 
     public List<Pet> getPetsByUser(UUID userId) {
@@ -47,7 +57,11 @@ public class PetService {
                 request.healthGoal(), request.currentDiet(), request.feedingFrequency(),
                 null, null, null
         );
-        return petRepository.save(pet);
+        Pet saved = petRepository.save(pet);
+        weightEntryRepository.save(saved.id(), saved.weightKg(), LocalDate.now(), null);
+        // The pickers let owners add entries as typed, so those are already confirmed
+        healthReviewService.keepTypedValues(saved);
+        return saved;
     }
 
     @Transactional
@@ -64,51 +78,44 @@ public class PetService {
                 request.healthGoal(), request.currentDiet(), request.feedingFrequency(),
                 existing.photoUrl(), existing.createdAt(), null
         );
-        return petRepository.update(petId, updated);
+        // Editing the weight on the profile counts as today's weigh-in so history isn't lost
+        if (existing.weightKg().compareTo(request.weightKg()) != 0) {
+            LocalDate today = LocalDate.now();
+            // Keep any note already logged with today's weigh-in; only the weight changes
+            String note = weightEntryRepository.findLatest(petId)
+                    .filter(entry -> entry.recordedOn().equals(today))
+                    .map(WeightEntry::note)
+                    .orElse(null);
+            weightEntryRepository.save(petId, request.weightKg(), today, note);
+        }
+        Pet saved = petRepository.update(petId, updated);
+        healthReviewService.keepTypedValues(saved);
+        return saved;
     }
 
+    /** Adds the photo to the pet's gallery and makes it the avatar. */
     @Transactional
-    public Pet uploadPhoto(UUID petId, UUID userId, MultipartFile file) {
+    public Pet uploadPhoto(UUID petId, MultipartFile file) {
         Pet existing = getPetById(petId);
-        String publicId = "pet-" + petId;
-        String photoUrl = cloudinaryService.uploadPetPhoto(file, publicId);
-
-        Pet updated = new Pet(
-                existing.id(), existing.userId(), existing.name(), existing.species(),
-                existing.breed(), existing.ageYears(), existing.ageMonths(), existing.sex(),
-                existing.isNeutered(), existing.weightKg(), existing.targetWeightKg(),
-                existing.activityLevel(), existing.livingEnvironment(), existing.allergies(),
-                existing.medicalConditions(), existing.medications(), existing.healthGoal(),
-                existing.currentDiet(), existing.feedingFrequency(), photoUrl,
-                existing.createdAt(), null
-        );
-        return petRepository.update(petId, updated);
+        PetPhoto photo = petPhotoService.addPhoto(existing, file, null, LocalDate.now());
+        return petPhotoService.setAvatar(petId, photo.id());
     }
 
+    /** Deletes the avatar photo from the gallery; the next photo, if any, takes its place. */
     @Transactional
     public Pet deletePhoto(UUID petId) {
         Pet existing = getPetById(petId);
-        if (existing.photoUrl() != null) {
-            cloudinaryService.deletePetPhoto("pet-" + petId);
-        }
-        Pet updated = new Pet(
-                existing.id(), existing.userId(), existing.name(), existing.species(),
-                existing.breed(), existing.ageYears(), existing.ageMonths(), existing.sex(),
-                existing.isNeutered(), existing.weightKg(), existing.targetWeightKg(),
-                existing.activityLevel(), existing.livingEnvironment(), existing.allergies(),
-                existing.medicalConditions(), existing.medications(), existing.healthGoal(),
-                existing.currentDiet(), existing.feedingFrequency(), null,
-                existing.createdAt(), null
-        );
-        return petRepository.update(petId, updated);
+        petPhotoService.getPhotos(petId).stream()
+                .filter(photo -> photo.url().equals(existing.photoUrl()))
+                .findFirst()
+                .ifPresent(photo -> petPhotoService.deletePhoto(existing, photo.id()));
+        return getPetById(petId);
     }
 
     @Transactional
     public void deletePet(UUID petId) {
-        Pet pet = getPetById(petId);
-        if (pet.photoUrl() != null) {
-            cloudinaryService.deletePetPhoto("pet-" + petId);
-        }
+        getPetById(petId);
+        petPhotoService.deleteAllPhotos(petId);
         petRepository.delete(petId);
     }
 
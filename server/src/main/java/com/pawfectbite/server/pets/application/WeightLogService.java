@@ -0,0 +1,51 @@
+package com.pawfectbite.server.pets.application;
+
+import com.pawfectbite.server.common.exception.ResourceNotFoundException;
+import com.pawfectbite.server.pets.domain.WeightEntry;
+import com.pawfectbite.server.pets.dto.CreateWeightEntryRequest;
+import com.pawfectbite.server.pets.repository.PetRepository;
+import com.pawfectbite.server.pets.repository.WeightEntryRepository;
+import org.springframework.stereotype.Service;
+import org.springframework.transaction.annotation.Transactional;
+
+import java.util.List;
+import java.util.UUID;
+
+@Service
+public class WeightLogService {
+
+    private final WeightEntryRepository weightEntryRepository;
+    private final PetRepository petRepository;
+
+    public WeightLogService(WeightEntryRepository weightEntryRepository, PetRepository petRepository) {
+        this.weightEntryRepository = weightEntryRepository;
+        this.petRepository = petRepository;
+    }
+
+    public List<WeightEntry> getWeightLog(UUID petId) {
+        return weightEntryRepository.findByPetId(petId);
+    }
+
+    @Transactional
+    public WeightEntry logWeight(UUID petId, CreateWeightEntryRequest request) {
+        WeightEntry entry = weightEntryRepository.save(
+                petId, request.weightKg(), request.recordedOn(), request.note());
+        syncCurrentWeight(petId);
+        return entry;
+    }
+
+    @Transactional
+    public void deleteEntry(UUID petId, UUID entryId) {
+        WeightEntry entry = weightEntryRepository.findById(entryId)
+                .filter(e -> e.petId().equals(petId))
+                .orElseThrow(() -> new ResourceNotFoundException("WeightEntry", entryId));
+        weightEntryRepository.delete(entry.id());
+        syncCurrentWeight(petId);
+    }
+
+    /** Keeps the profile's weight in step with the most recent weigh-in. */
+    private void syncCurrentWeight(UUID petId) {
+        weightEntryRepository.findLatest(petId)
+                .ifPresent(latest -> petRepository.updateWeight(petId, latest.weightKg()));
+    }
+}
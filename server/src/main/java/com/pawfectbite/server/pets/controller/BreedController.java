@@ -0,0 +1,30 @@
+package com.pawfectbite.server.pets.controller;
+
+import com.pawfectbite.server.common.response.ApiResponse;
+import com.pawfectbite.server.pets.application.BreedService;
+import com.pawfectbite.server.pets.domain.Species;
+import com.pawfectbite.server.pets.dto.BreedResponse;
+import org.springframework.web.bind.annotation.GetMapping;
+import org.springframework.web.bind.annotation.RequestMapping;
+import org.springframework.web.bind.annotation.RequestParam;
+import org.springframework.web.bind.annotation.RestController;
+
+import java.util.List;
+
+@RestController
+@RequestMapping("/api/breeds")
+public class BreedController {
+
+    private final BreedService breedService;
+
+    public BreedController(BreedService breedService) {
+        this.breedService = breedService;
+    }
+
+    @GetMapping
+    public ApiResponse<List<BreedResponse>> list(@RequestParam(required = false) Species species) {
+        return ApiResponse.ok(breedService.listBreeds(species).stream()
+                .map(BreedResponse::from)
+                .toList());
+    }
+}
@@ -0,0 +1,53 @@
+package com.pawfectbite.server.pets.controller;
+
+import com.pawfectbite.server.common.response.ApiResponse;
+import com.pawfectbite.server.infrastructure.security.AuthenticatedUser;
+import com.pawfectbite.server.infrastructure.security.OwnershipEnforcer;
+import com.pawfectbite.server.pets.application.HealthReviewService;
+import com.pawfectbite.server.pets.application.PetService;
+import com.pawfectbite.server.pets.domain.Pet;
+import com.pawfectbite.server.pets.dto.MapHealthCodesRequest;
+import com.pawfectbite.server.pets.dto.PetHealthReviewResponse;
+import com.pawfectbite.server.pets.dto.PetResponse;
+import jakarta.validation.Valid;
+import org.springframework.security.core.annotation.AuthenticationPrincipal;
+import org.springframework.web.bind.annotation.*;
+
+import java.util.List;
+import java.util.UUID;
+
+@RestController
+@RequestMapping("/api/pets")
+public class HealthReviewController {
+
+    private final HealthReviewService healthReviewService;
+    private final PetService petService;
+    private final OwnershipEnforcer ownershipEnforcer;
+
+    public HealthReviewController(HealthReviewService healthReviewService,
+                                  PetService petService,
+                                  OwnershipEnforcer ownershipEnforcer) {
+        this.healthReviewService = healthReviewService;
+        this.petService = petService;
+        this.ownershipEnforcer = ownershipEnforcer;
+    }
+
+    @GetMapping("/health-review")
+    public ApiResponse<List<PetHealthReviewResponse>> getPendingReviews(
+            @AuthenticationPrincipal AuthenticatedUser principal
+    ) {
+        return ApiResponse.ok(healthReviewService.getPendingReviews(principal.userId()).stream()
+                .map(PetHealthReviewResponse::from)
+                .toList());
+    }
+
+    @PutMapping("/{petId}/health-codes")
+    public ApiResponse<PetResponse> applyCodes(
+            @PathVariable UUID petId,
+            @Valid @RequestBody MapHealthCodesRequest request
+    ) {
+        Pet pet = petService.getPetById(petId);
+        ownershipEnforcer.enforce(pet.userId());
+        return ApiResponse.ok(PetResponse.from(healthReviewService.applyCodes(pet, request)));
+    }
+}
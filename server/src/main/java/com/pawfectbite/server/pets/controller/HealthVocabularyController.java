@@ -0,0 +1,17 @@
+package com.pawfectbite.server.pets.controller;
+
+import com.pawfectbite.server.common.response.ApiResponse;
+import com.pawfectbite.server.pets.dto.HealthVocabularyResponse;
+import org.springframework.web.bind.annotation.GetMapping;
+import org.springframework.web.bind.annotation.RequestMapping;
+import org.springframework.web.bind.annotation.RestController;
+
+@RestController
+@RequestMapping("/api/health-vocabulary")
+public class HealthVocabularyController {
+
+    @GetMapping
+    public ApiResponse<HealthVocabularyResponse> get() {
+        return ApiResponse.ok(HealthVocabularyResponse.current());
+    }
+}
@@ -77,7 +77,7 @@ public class PetController {
     ) {
         Pet existing = petService.getPetById(petId);
         ownershipEnforcer.enforce(existing.userId());
-        Pet updated = petService.uploadPhoto(petId, principal.userId(), file);
+        Pet updated = petService.uploadPhoto(petId, file);
         return ApiResponse.ok(PetResponse.from(updated));
     }
 
@@ -0,0 +1,106 @@
+package com.pawfectbite.server.pets.controller;
+
+import com.pawfectbite.server.common.response.ApiResponse;
+import com.pawfectbite.server.infrastructure.security.OwnershipEnforcer;
+import com.pawfectbite.server.pets.application.PetPhotoService;
+import com.pawfectbite.server.pets.application.PetService;
+import com.pawfectbite.server.pets.domain.Pet;
+import com.pawfectbite.server.pets.domain.PetPhoto;
+import com.pawfectbite.server.pets.dto.PetPhotoResponse;
+import com.pawfectbite.server.pets.dto.PetResponse;
+import com.pawfectbite.server.pets.dto.ReorderPetPhotosRequest;
+import com.pawfectbite.server.pets.dto.PetPhotoDetailsRequest;
+import jakarta.validation.Valid;
+import org.springframework.http.HttpStatus;
+import org.springframework.web.bind.annotation.*;
+import org.springframework.web.multipart.MultipartFile;
+
+import java.util.List;
+import java.util.UUID;
+
+@RestController
+@RequestMapping("/api/pets/{petId}/photos")
+public class PetPhotoController {
+
+    private final PetPhotoService petPhotoService;
+    private final PetService petService;
+    private final OwnershipEnforcer ownershipEnforcer;
+
+    public PetPhotoController(PetPhotoService petPhotoService,
+                              PetService petService,
+                              OwnershipEnforcer ownershipEnforcer) {
+        this.petPhotoService = petPhotoService;
+        this.petService = petService;
+        this.ownershipEnforcer = ownershipEnforcer;
+    }
+
+    @GetMapping
+    public ApiResponse<List<PetPhotoResponse>> getPhotos(@PathVariable UUID petId) {
+        Pet pet = ownedPet(petId);
+        return ApiResponse.ok(toResponses(petPhotoService.getPhotos(petId), pet));
+    }
+
+    @PostMapping
+    @ResponseStatus(HttpStatus.CREATED)
+    public ApiResponse<PetPhotoResponse> addPhoto(
+            @PathVariable UUID petId,
+            @RequestParam("file") MultipartFile file,
+            @Valid @ModelAttribute PetPhotoDetailsRequest details
+    ) {
+        Pet pet = ownedPet(petId);
+        PetPhoto photo = petPhotoService.addPhoto(pet, file, details.caption(), details.takenOn());
+        // A first photo has just become the avatar
+        return ApiResponse.ok(PetPhotoResponse.from(photo, petService.getPetById(petId).photoUrl()));
+    }
+
+    @PutMapping("/{photoId}")
+    public ApiResponse<PetPhotoResponse> updatePhoto(
+            @PathVariable UUID petId,
+            @PathVariable UUID photoId,
+            @Valid @RequestBody PetPhotoDetailsRequest request
+    ) {
+        Pet pet = ownedPet(petId);
+        PetPhoto photo = petPhotoService.updatePhoto(petId, photoId, request);
+        return ApiResponse.ok(PetPhotoResponse.from(photo, pet.photoUrl()));
+    }
+
+    @PutMapping("/order")
+    public ApiResponse<List<PetPhotoResponse>> reorderPhotos(
+            @PathVariable UUID petId,
+            @Valid @RequestBody ReorderPetPhotosRequest request
+    ) {
+        Pet pet = ownedPet(petId);
+        return ApiResponse.ok(toResponses(petPhotoService.reorderPhotos(petId, request.photoIds()), pet));
+    }
+
+    @PutMapping("/{photoId}/avatar")
+    public ApiResponse<PetResponse> setAvatar(
+            @PathVariable UUID petId,
+            @PathVariable UUID photoId
+    ) {
+        ownedPet(petId);
+        return ApiResponse.ok(PetResponse.from(petPhotoService.setAvatar(petId, photoId)));
+    }
+
+    @DeleteMapping("/{photoId}")
+    @ResponseStatus(HttpStatus.NO_CONTENT)
+    public void deletePhoto(
+            @PathVariable UUID petId,
+            @PathVariable UUID photoId
+    ) {
+        Pet pet = ownedPet(petId);
+        petPhotoService.deletePhoto(pet, photoId);
+    }
+
+    private Pet ownedPet(UUID petId) {
+        Pet pet = petService.getPetById(petId);
+        ownershipEnforcer.enforce(pet.userId());
+        return pet;
+    }
+
+    private List<PetPhotoResponse> toResponses(List<PetPhoto> photos, Pet pet) {
+        return photos.stream()
+                .map(photo -> PetPhotoResponse.from(photo, pet.photoUrl()))
+                .toList();
+    }
+}
@@ -0,0 +1,66 @@
+package com.pawfectbite.server.pets.controller;
+
+import com.pawfectbite.server.common.response.ApiResponse;
+import com.pawfectbite.server.infrastructure.security.OwnershipEnforcer;
+import com.pawfectbite.server.pets.application.PetService;
+import com.pawfectbite.server.pets.application.WeightLogService;
+import com.pawfectbite.server.pets.domain.Pet;
+import com.pawfectbite.server.pets.domain.WeightEntry;
+import com.pawfectbite.server.pets.dto.CreateWeightEntryRequest;
+import com.pawfectbite.server.pets.dto.WeightEntryResponse;
+import jakarta.validation.Valid;
+import org.springframework.http.HttpStatus;
+import org.springframework.web.bind.annotation.*;
+
+import java.util.List;
+import java.util.UUID;
+
+@RestController
+@RequestMapping("/api/pets/{petId}/weights")
+public class WeightLogController {
+
+    private final WeightLogService weightLogService;
+    private final PetService petService;
+    private final OwnershipEnforcer ownershipEnforcer;
+
+    public WeightLogController(WeightLogService weightLogService,
+                               PetService petService,
+                               OwnershipEnforcer ownershipEnforcer) {
+        this.weightLogService = weightLogService;
+        this.petService = petService;
+        this.ownershipEnforcer = ownershipEnforcer;
+    }
+
+    @GetMapping
+    public ApiResponse<List<WeightEntryResponse>> getWeightLog(@PathVariable UUID petId) {
+        Pet pet = petService.getPetById(petId);
+        ownershipEnforcer.enforce(pet.userId());
+        List<WeightEntryResponse> entries = weightLogService.getWeightLog(petId).stream()
+                .map(WeightEntryResponse::from)
+                .toList();
+        return ApiResponse.ok(entries);
+    }
+
+    @PostMapping
+    @ResponseStatus(HttpStatus.CREATED)
+    public ApiResponse<WeightEntryResponse> logWeight(
+            @PathVariable UUID petId,
+            @Valid @RequestBody CreateWeightEntryRequest request
+    ) {
+        Pet pet = petService.getPetById(petId);
+        ownershipEnforcer.enforce(pet.userId());
+        WeightEntry entry = weightLogService.logWeight(petId, request);
+        return ApiResponse.ok(WeightEntryResponse.from(entry));
+    }
+
+    @DeleteMapping("/{entryId}")
+    @ResponseStatus(HttpStatus.NO_CONTENT)
+    public void deleteEntry(
+            @PathVariable UUID petId,
+            @PathVariable UUID entryId
+    ) {
+        Pet pet = petService.getPetById(petId);
+        ownershipEnforcer.enforce(pet.userId());
+        weightLogService.deleteEntry(petId, entryId);
+    }
+}
@@ -0,0 +1,49 @@
+package com.pawfectbite.server.pets.database;
+
+import com.pawfectbite.server.infrastructure.persistence.AuditableEntity;
+import com.pawfectbite.server.pets.domain.Breed;
+import com.pawfectbite.server.pets.domain.SizeClass;
+import com.pawfectbite.server.pets.domain.Species;
+import jakarta.persistence.*;
+import org.hibernate.annotations.JdbcTypeCode;
+import org.hibernate.type.SqlTypes;
+
+import java.math.BigDecimal;
+import java.util.List;
+import java.util.UUID;
+
+@Entity
+@Table(name = "breeds")
+public class BreedEntity extends AuditableEntity {
+
+    @Id
+    @GeneratedValue(strategy = GenerationType.UUID)
+    private UUID id;
+
+    @Enumerated(EnumType.STRING)
+    @Column(nullable = false, length = 10)
+    private Species species;
+
+    @Column(nullable = false, length = 100)
+    private String name;
+
+    @Enumerated(EnumType.STRING)
+    @Column(name = "size_class", nullable = false, length = 10)
+    private SizeClass sizeClass;
+
+    @Column(name = "min_weight_kg", nullable = false, precision = 6, scale = 2)
+    private BigDecimal minWeightKg;
+
+    @Column(name = "max_weight_kg", nullable = false, precision = 6, scale = 2)
+    private BigDecimal maxWeightKg;
+
+    @JdbcTypeCode(SqlTypes.ARRAY)
+    @Column(name = "dietary_sensitivities", nullable = false, columnDefinition = "text[]")
+    private List<String> dietarySensitivities = List.of();
+
+    public BreedEntity() {}
+
+    public Breed toDomain() {
+        return new Breed(id, species, name, sizeClass, minWeightKg, maxWeightKg, dietarySensitivities);
+    }
+}
@@ -0,0 +1,16 @@
+package com.pawfectbite.server.pets.database;
+
+import com.pawfectbite.server.pets.domain.Species;
+import org.springframework.data.jpa.repository.JpaRepository;
+
+import java.util.List;
+import java.util.Optional;
+import java.util.UUID;
+
+public interface JpaBreedRepository extends JpaRepository<BreedEntity, UUID> {
+    List<BreedEntity> findAllByOrderByName();
+
+    List<BreedEntity> findBySpeciesOrderByName(Species species);
+
+    Optional<BreedEntity> findFirstBySpeciesAndNameIgnoreCase(Species species, String name);
+}
@@ -0,0 +1,13 @@
+package com.pawfectbite.server.pets.database;
+
+import com.pawfectbite.server.pets.domain.HealthField;
+import org.springframework.data.jpa.repository.JpaRepository;
+
+import java.util.List;
+import java.util.UUID;
+
+public interface JpaKeptHealthValueRepository extends JpaRepository<KeptHealthValueEntity, UUID> {
+    List<KeptHealthValueEntity> findByPetId(UUID petId);
+
+    boolean existsByPetIdAndFieldAndValue(UUID petId, HealthField field, String value);
+}
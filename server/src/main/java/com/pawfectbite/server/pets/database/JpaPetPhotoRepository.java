@@ -0,0 +1,13 @@
+package com.pawfectbite.server.pets.database;
+
+import org.springframework.data.jpa.repository.JpaRepository;
+
+import java.util.List;
+import java.util.Optional;
+import java.util.UUID;
+
+public interface JpaPetPhotoRepository extends JpaRepository<PetPhotoEntity, UUID> {
+    List<PetPhotoEntity> findByPetIdOrderByPosition(UUID petId);
+
+    Optional<PetPhotoEntity> findFirstByPetIdOrderByPositionDesc(UUID petId);
+}
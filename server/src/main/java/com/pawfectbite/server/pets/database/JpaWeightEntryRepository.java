@@ -0,0 +1,16 @@
+package com.pawfectbite.server.pets.database;
+
+import org.springframework.data.jpa.repository.JpaRepository;
+
+import java.time.LocalDate;
+import java.util.List;
+import java.util.Optional;
+import java.util.UUID;
+
+public interface JpaWeightEntryRepository extends JpaRepository<WeightEntryEntity, UUID> {
+    List<WeightEntryEntity> findByPetIdOrderByRecordedOn(UUID petId);
+
+    Optional<WeightEntryEntity> findByPetIdAndRecordedOn(UUID petId, LocalDate recordedOn);
+
+    Optional<WeightEntryEntity> findFirstByPetIdOrderByRecordedOnDesc(UUID petId);
+}
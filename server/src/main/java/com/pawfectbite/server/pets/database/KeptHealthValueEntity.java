@@ -0,0 +1,42 @@
+package com.pawfectbite.server.pets.database;
+
+import com.pawfectbite.server.infrastructure.persistence.AuditableEntity;
+import com.pawfectbite.server.pets.domain.HealthField;
+import com.pawfectbite.server.pets.domain.KeptHealthValue;
+import jakarta.persistence.*;
+
+import java.util.UUID;
+
+@Entity
+@Table(name = "pet_kept_health_values")
+public class KeptHealthValueEntity extends AuditableEntity {
+
+    @Id
+    @GeneratedValue(strategy = GenerationType.UUID)
+    private UUID id;
+
+    @Column(name = "pet_id", nullable = false)
+    private UUID petId;
+
+    @Enumerated(EnumType.STRING)
+    @Column(nullable = false, length = 30)
+    private HealthField field;
+
+    @Column(nullable = false)
+    private String value;
+
+    public KeptHealthValueEntity() {}
+
+    public KeptHealthValue toDomain() {
+        return new KeptHealthValue(petId, field, value);
+    }
+
+    public UUID getId() { return id; }
+    public UUID getPetId() { return petId; }
+    public HealthField getField() { return field; }
+    public String getValue() { return value; }
+
+    public void setPetId(UUID petId) { this.petId = petId; }
+    public void setField(HealthField field) { this.field = field; }
+    public void setValue(String value) { this.value = value; }
+}
@@ -0,0 +1,56 @@
+package com.pawfectbite.server.pets.database;
+
+import com.pawfectbite.server.infrastructure.persistence.AuditableEntity;
+import com.pawfectbite.server.pets.domain.PetPhoto;
+import jakarta.persistence.*;
+
+import java.time.LocalDate;
+import java.util.UUID;
+
+@Entity
+@Table(name = "pet_photos")
+public class PetPhotoEntity extends AuditableEntity {
+
+    @Id
+    @GeneratedValue(strategy = GenerationType.UUID)
+    private UUID id;
+
+    @Column(name = "pet_id", nullable = false)
+    private UUID petId;
+
+    @Column(nullable = false, length = 1000)
+    private String url;
+
+    @Column(name = "public_id", nullable = false)
+    private String publicId;
+
+    @Column(length = 300)
+    private String caption;
+
+    @Column(name = "taken_on")
+    private LocalDate takenOn;
+
+    @Column(nullable = false)
+    private int position;
+
+    public PetPhotoEntity() {}
+
+    public PetPhoto toDomain() {
+        return new PetPhoto(id, petId, url, publicId, caption, takenOn, position, getCreatedAt());
+    }
+
+    public UUID getId() { return id; }
+    public UUID getPetId() { return petId; }
+    public String getUrl() { return url; }
+    public String getPublicId() { return publicId; }
+    public String getCaption() { return caption; }
+    public LocalDate getTakenOn() { return takenOn; }
+    public int getPosition() { return position; }
+
+    public void setPetId(UUID petId) { this.petId = petId; }
+    public void setUrl(String url) { this.url = url; }
+    public void setPublicId(String publicId) { this.publicId = publicId; }
+    public void setCaption(String caption) { this.caption = caption; }
+    public void setTakenOn(LocalDate takenOn) { this.takenOn = takenOn; }
+    public void setPosition(int position) { this.position = position; }
+}
@@ -0,0 +1,47 @@
+package com.pawfectbite.server.pets.database;
+
+import com.pawfectbite.server.infrastructure.persistence.AuditableEntity;
+import com.pawfectbite.server.pets.domain.WeightEntry;
+import jakarta.persistence.*;
+
+import java.math.BigDecimal;
+import java.time.LocalDate;
+import java.util.UUID;
+
+@Entity
+@Table(name = "pet_weight_entries")
+public class WeightEntryEntity extends AuditableEntity {
+
+    @Id
+    @GeneratedValue(strategy = GenerationType.UUID)
+    private UUID id;
+
+    @Column(name = "pet_id", nullable = false)
+    private UUID petId;
+
+    @Column(name = "weight_kg", nullable = false, precision = 6, scale = 2)
+    private BigDecimal weightKg;
+
+    @Column(name = "recorded_on", nullable = false)
+    private LocalDate recordedOn;
+
+    @Column(length = 500)
+    private String note;
+
+    public WeightEntryEntity() {}
+
+    public WeightEntry toDomain() {
+        return new WeightEntry(id, petId, weightKg, recordedOn, note, getCreatedAt());
+    }
+
+    public UUID getId() { return id; }
+    public UUID getPetId() { return petId; }
+    public BigDecimal getWeightKg() { return weightKg; }
+    public LocalDate getRecordedOn() { return recordedOn; }
+    public String getNote() { return note; }
+
+    public void setPetId(UUID petId) { this.petId = petId; }
+    public void setWeightKg(BigDecimal weightKg) { this.weightKg = weightKg; }
+    public void setRecordedOn(LocalDate recordedOn) { this.recordedOn = recordedOn; }
+    public void setNote(String note) { this.note = note; }
+}
@@ -0,0 +1,46 @@
+package com.pawfectbite.server.pets.domain;
+
+import java.util.List;
+
+/**
+ * Allergen groups. The synonyms double as the ingredient words that contain the
+ * allergen, so "cottage cheese" is caught by a dairy allergy.
+ */
+public enum Allergen implements HealthTerm {
+    BEEF("Beef", "veal", "steak", "ox"),
+    CHICKEN("Chicken"),
+    CORN("Corn", "maize", "cornmeal", "polenta"),
+    DAIRY("Dairy", "milk", "cheese", "yogurt", "yoghurt", "kefir", "cream", "lactose"),
+    DUCK("Duck"),
+    EGG("Egg", "eggs"),
+    FISH("Fish", "salmon", "tuna", "cod", "sardine", "sardines", "mackerel", "trout", "whitefish", "pollock", "herring"),
+    LAMB("Lamb", "mutton"),
+    PORK("Pork", "ham", "bacon"),
+    POTATO("Potato", "potatoes"),
+    RABBIT("Rabbit"),
+    RICE("Rice"),
+    SHELLFISH("Shellfish", "shrimp", "prawn", "prawns", "crab", "lobster", "mussels", "clams"),
+    SOY("Soy", "soya", "soybean", "soybeans", "tofu", "edamame"),
+    TURKEY("Turkey"),
+    VENISON("Venison", "deer"),
+    WHEAT("Wheat", "gluten", "pasta", "bread", "couscous", "semolina");
+
+    private final String label;
+    private final List<String> synonyms;
+
+    Allergen(String label, String... synonyms) {
+        this.label = label;
+        this.synonyms = List.of(synonyms);
+    }
+
+    @Override
+    public String label() { return label; }
+
+    @Override
+    public List<String> synonyms() { return synonyms; }
+
+    public boolean isPresentIn(String ingredient) {
+        String normalized = HealthTerm.normalize(ingredient);
+        return names().stream().anyMatch(name -> HealthTerm.containsWords(normalized, name));
+    }
+}
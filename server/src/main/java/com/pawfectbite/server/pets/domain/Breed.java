@@ -0,0 +1,16 @@
+package com.pawfectbite.server.pets.domain;
+
+import java.math.BigDecimal;
+import java.util.List;
+import java.util.UUID;
+
+/** A catalog breed with the typical adult weight range and the dietary issues it is known for. */
+public record Breed(
+        UUID id,
+        Species species,
+        String name,
+        SizeClass sizeClass,
+        BigDecimal minWeightKg,
+        BigDecimal maxWeightKg,
+        List<String> dietarySensitivities
+) {}
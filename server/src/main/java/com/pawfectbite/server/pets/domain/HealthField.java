@@ -0,0 +1,42 @@
+package com.pawfectbite.server.pets.domain;
+
+import java.util.List;
+
+/** The pet profile lists that hold codes from a health vocabulary. */
+public enum HealthField {
+    ALLERGIES(Allergen.values()),
+    MEDICAL_CONDITIONS(MedicalCondition.values()),
+    MEDICATIONS(Medication.values());
+
+    private final HealthTerm[] terms;
+
+    HealthField(HealthTerm[] terms) {
+        this.terms = terms;
+    }
+
+    public HealthTerm[] terms() {
+        return terms.clone();
+    }
+
+    public List<String> valuesOf(Pet pet) {
+        return switch (this) {
+            case ALLERGIES -> pet.allergies();
+            case MEDICAL_CONDITIONS -> pet.medicalConditions();
+            case MEDICATIONS -> pet.medications();
+        };
+    }
+
+    /** The values as readable labels, for prompts and search queries. */
+    public List<String> labelsOf(Pet pet) {
+        return valuesOf(pet).stream()
+                .map(value -> HealthTerm.describe(terms, value))
+                .toList();
+    }
+
+    /** The values still holding free text from before the vocabularies. */
+    public List<String> legacyValuesOf(Pet pet) {
+        return valuesOf(pet).stream()
+                .filter(value -> HealthTerm.fromCode(terms, value).isEmpty())
+                .toList();
+    }
+}
@@ -0,0 +1,73 @@
+package com.pawfectbite.server.pets.domain;
+
+import java.util.ArrayList;
+import java.util.List;
+import java.util.Locale;
+import java.util.Optional;
+
+/**
+ * An entry in one of the coded health vocabularies. Pets store the enum name
+ * as the code; profiles written before the vocabularies existed may still hold
+ * free text, which {@link #resolve} maps onto the closest entry.
+ */
+public interface HealthTerm {
+
+    String name();
+
+    String label();
+
+    List<String> synonyms();
+
+    /** The code, label and synonyms, normalized for matching. */
+    default List<String> names() {
+        List<String> names = new ArrayList<>();
+        names.add(normalize(name()));
+        names.add(normalize(label()));
+        synonyms().forEach(s -> names.add(normalize(s)));
+        return names;
+    }
+
+    static <T extends HealthTerm> Optional<T> fromCode(T[] terms, String code) {
+        for (T term : terms) {
+            if (term.name().equals(code)) return Optional.of(term);
+        }
+        return Optional.empty();
+    }
+
+    /**
+     * Finds the entry a code or a hand-typed value refers to: an exact match on any
+     * of its names first, then the longest name appearing as whole words in the value,
+     * so "chronic kidney disease stage 2" still resolves.
+     */
+    static <T extends HealthTerm> Optional<T> resolve(T[] terms, String value) {
+        String normalized = normalize(value);
+        if (normalized.isEmpty()) return Optional.empty();
+
+        T best = null;
+        int bestLength = 0;
+        for (T term : terms) {
+            for (String name : term.names()) {
+                if (name.equals(normalized)) return Optional.of(term);
+                if (name.length() > bestLength && containsWords(normalized, name)) {
+                    best = term;
+                    bestLength = name.length();
+                }
+            }
+        }
+        return Optional.ofNullable(best);
+    }
+
+    /** The label for a code, or the value itself when it isn't one. */
+    static <T extends HealthTerm> String describe(T[] terms, String value) {
+        return fromCode(terms, value).map(HealthTerm::label).orElse(value);
+    }
+
+    static String normalize(String value) {
+        return value.toLowerCase(Locale.ROOT).replaceAll("[^a-z0-9]+", " ").trim();
+    }
+
+    static boolean containsWords(String normalizedText, String normalizedWords) {
+        return !normalizedWords.isEmpty()
+                && (" " + normalizedText + " ").contains(" " + normalizedWords + " ");
+    }
+}
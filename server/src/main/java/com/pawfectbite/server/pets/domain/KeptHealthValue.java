@@ -0,0 +1,6 @@
+package com.pawfectbite.server.pets.domain;
+
+import java.util.UUID;
+
+/** A typed-in health value the owner confirmed, so the health review no longer asks about it. */
+public record KeptHealthValue(UUID petId, HealthField field, String value) {}
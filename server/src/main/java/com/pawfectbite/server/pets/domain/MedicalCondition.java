@@ -0,0 +1,43 @@
+package com.pawfectbite.server.pets.domain;
+
+import java.util.List;
+
+public enum MedicalCondition implements HealthTerm {
+    ADDISONS_DISEASE("Addison's disease", "hypoadrenocorticism", "addisons"),
+    ARTHRITIS("Arthritis", "osteoarthritis", "joint disease", "hip dysplasia", "elbow dysplasia"),
+    CANCER("Cancer", "tumour", "tumor", "lymphoma", "neoplasia"),
+    CKD("Chronic kidney disease", "kidney disease", "renal disease", "renal failure", "chronic renal failure", "renal insufficiency"),
+    CUSHINGS_DISEASE("Cushing's disease", "hyperadrenocorticism", "cushings"),
+    DENTAL_DISEASE("Dental disease", "periodontal disease", "gingivitis"),
+    DIABETES("Diabetes mellitus", "diabetes", "diabetic", "sugar diabetes"),
+    EPILEPSY("Epilepsy", "seizures", "seizure disorder"),
+    EXOCRINE_PANCREATIC_INSUFFICIENCY("Exocrine pancreatic insufficiency", "epi"),
+    FOOD_INTOLERANCE("Food intolerance", "food sensitivity", "sensitive stomach"),
+    HEART_DISEASE("Heart disease", "cardiac disease", "heart failure", "congestive heart failure", "chf",
+            "cardiomyopathy", "dilated cardiomyopathy", "dcm", "hypertrophic cardiomyopathy", "hcm",
+            "mitral valve disease", "heart murmur"),
+    HEPATIC_LIPIDOSIS("Hepatic lipidosis", "fatty liver", "fatty liver disease"),
+    HYPERTHYROIDISM("Hyperthyroidism", "overactive thyroid"),
+    HYPOTHYROIDISM("Hypothyroidism", "underactive thyroid"),
+    INFLAMMATORY_BOWEL_DISEASE("Inflammatory bowel disease", "ibd", "chronic enteropathy", "colitis"),
+    LIVER_DISEASE("Liver disease", "hepatic disease", "hepatitis", "hepatopathy", "liver failure"),
+    OBESITY("Obesity", "overweight", "obese"),
+    PANCREATITIS("Pancreatitis"),
+    SKIN_ALLERGIES("Skin allergies", "atopic dermatitis", "atopy", "allergic dermatitis", "itchy skin"),
+    URINARY_STONES("Urinary crystals or stones", "urinary crystals", "bladder stones", "urolithiasis",
+            "struvite", "calcium oxalate", "crystals", "flutd", "feline lower urinary tract disease", "cystitis");
+
+    private final String label;
+    private final List<String> synonyms;
+
+    MedicalCondition(String label, String... synonyms) {
+        this.label = label;
+        this.synonyms = List.of(synonyms);
+    }
+
+    @Override
+    public String label() { return label; }
+
+    @Override
+    public List<String> synonyms() { return synonyms; }
+}
@@ -0,0 +1,65 @@
+package com.pawfectbite.server.pets.domain;
+
+import java.util.List;
+
+/** Generic drug names, with common brand names as synonyms. */
+public enum Medication implements HealthTerm {
+    AMLODIPINE("Amlodipine"),
+    AMOXICILLIN_CLAVULANATE("Amoxicillin-clavulanate", "amoxicillin", "clavamox", "synulox", "augmentin"),
+    BENAZEPRIL("Benazepril", "fortekor"),
+    CARPROFEN("Carprofen", "rimadyl"),
+    CEFALEXIN("Cefalexin", "cephalexin"),
+    CHEMOTHERAPY("Chemotherapy", "chemo"),
+    CICLOSPORIN("Ciclosporin", "cyclosporine", "atopica"),
+    DESOXYCORTICOSTERONE("Desoxycorticosterone", "docp", "percorten", "zycortal"),
+    DOXYCYCLINE("Doxycycline"),
+    ENALAPRIL("Enalapril"),
+    FAMOTIDINE("Famotidine", "pepcid"),
+    FLEA_TICK_PREVENTIVE("Flea and tick preventive", "nexgard", "bravecto", "simparica", "credelio", "frontline",
+            "afoxolaner", "fluralaner"),
+    FLUDROCORTISONE("Fludrocortisone", "florinef"),
+    FLUOXETINE("Fluoxetine", "reconcile", "prozac"),
+    FUROSEMIDE("Furosemide", "frusemide", "lasix", "salix"),
+    GABAPENTIN("Gabapentin", "neurontin"),
+    GRAPIPRANT("Grapiprant", "galliprant"),
+    HEARTWORM_PREVENTIVE("Heartworm preventive", "ivermectin", "heartgard", "milbemycin", "selamectin", "revolution"),
+    INSULIN("Insulin", "caninsulin", "vetsulin", "prozinc", "lantus", "glargine"),
+    LEVETIRACETAM("Levetiracetam", "keppra"),
+    LEVOTHYROXINE("Levothyroxine", "thyroxine", "soloxine", "thyforon", "leventa"),
+    LOKIVETMAB("Lokivetmab", "cytopoint"),
+    MAROPITANT("Maropitant", "cerenia"),
+    MELOXICAM("Meloxicam", "metacam"),
+    METHIMAZOLE("Methimazole", "thiamazole", "felimazole", "tapazole", "carbimazole", "vidalta"),
+    METRONIDAZOLE("Metronidazole", "flagyl"),
+    MIRTAZAPINE("Mirtazapine", "mirataz"),
+    OCLACITINIB("Oclacitinib", "apoquel"),
+    OMEPRAZOLE("Omeprazole"),
+    PANCREATIC_ENZYMES("Pancreatic enzyme supplement", "pancrelipase", "viokase", "enzyme powder"),
+    PHENOBARBITAL("Phenobarbital", "phenobarbitone", "epiphen"),
+    PHOSPHATE_BINDER("Phosphate binder", "aluminium hydroxide", "aluminum hydroxide", "ipakitine", "pronefra", "lanthanum"),
+    PIMOBENDAN("Pimobendan", "vetmedin"),
+    POTASSIUM_BROMIDE("Potassium bromide", "kbr", "libromide"),
+    POTASSIUM_SUPPLEMENT("Potassium supplement", "potassium gluconate", "potassium citrate"),
+    PREDNISOLONE("Prednisolone", "prednisone", "pred"),
+    S_ADENOSYLMETHIONINE("SAMe (S-adenosylmethionine)", "denamarin"),
+    SPIRONOLACTONE("Spironolactone", "prilactone"),
+    SUCRALFATE("Sucralfate"),
+    TELMISARTAN("Telmisartan", "semintra"),
+    TRAMADOL("Tramadol"),
+    TRILOSTANE("Trilostane", "vetoryl"),
+    URSODIOL("Ursodiol", "ursodeoxycholic acid");
+
+    private final String label;
+    private final List<String> synonyms;
+
+    Medication(String label, String... synonyms) {
+        this.label = label;
+        this.synonyms = List.of(synonyms);
+    }
+
+    @Override
+    public String label() { return label; }
+
+    @Override
+    public List<String> synonyms() { return synonyms; }
+}
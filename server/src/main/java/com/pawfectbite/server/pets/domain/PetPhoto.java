@@ -0,0 +1,16 @@
+package com.pawfectbite.server.pets.domain;
+
+import java.time.Instant;
+import java.time.LocalDate;
+import java.util.UUID;
+
+public record PetPhoto(
+        UUID id,
+        UUID petId,
+        String url,
+        String publicId,
+        String caption,
+        LocalDate takenOn,
+        int position,
+        Instant createdAt
+) {}
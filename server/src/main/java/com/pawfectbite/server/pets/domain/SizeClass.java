@@ -0,0 +1,5 @@
+package com.pawfectbite.server.pets.domain;
+
+public enum SizeClass {
+    TOY, SMALL, MEDIUM, LARGE, GIANT
+}
@@ -0,0 +1,15 @@
+package com.pawfectbite.server.pets.domain;
+
+import java.math.BigDecimal;
+import java.time.Instant;
+import java.time.LocalDate;
+import java.util.UUID;
+
+public record WeightEntry(
+        UUID id,
+        UUID petId,
+        BigDecimal weightKg,
+        LocalDate recordedOn,
+        String note,
+        Instant createdAt
+) {}
@@ -0,0 +1,26 @@
+package com.pawfectbite.server.pets.dto;
+
+import com.pawfectbite.server.pets.domain.Breed;
+import com.pawfectbite.server.pets.domain.SizeClass;
+import com.pawfectbite.server.pets.domain.Species;
+
+import java.math.BigDecimal;
+import java.util.List;
+import java.util.UUID;
+
+public record BreedResponse(
+        UUID id,
+        Species species,
+        String name,
+        SizeClass sizeClass,
+        BigDecimal minWeightKg,
+        BigDecimal maxWeightKg,
+        List<String> dietarySensitivities
+) {
+    public static BreedResponse from(Breed b) {
+        return new BreedResponse(
+                b.id(), b.species(), b.name(), b.sizeClass(),
+                b.minWeightKg(), b.maxWeightKg(), b.dietarySensitivities()
+        );
+    }
+}
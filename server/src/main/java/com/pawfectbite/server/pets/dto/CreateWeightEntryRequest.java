@@ -0,0 +1,18 @@
+package com.pawfectbite.server.pets.dto;
+
+import jakarta.validation.constraints.*;
+
+import java.math.BigDecimal;
+import java.time.LocalDate;
+
+public record CreateWeightEntryRequest(
+        @NotNull @DecimalMin("0.1") @DecimalMax("200")
+        BigDecimal weightKg,
+
+        @NotNull(message = "Date is required")
+        @PastOrPresent(message = "Weigh-ins can't be in the future")
+        LocalDate recordedOn,
+
+        @Size(max = 500)
+        String note
+) {}
@@ -0,0 +1,15 @@
+package com.pawfectbite.server.pets.dto;
+
+import com.pawfectbite.server.pets.domain.HealthTerm;
+
+import java.util.List;
+
+public record HealthTermResponse(
+        String code,
+        String label,
+        List<String> synonyms
+) {
+    public static HealthTermResponse from(HealthTerm term) {
+        return new HealthTermResponse(term.name(), term.label(), term.synonyms());
+    }
+}
@@ -0,0 +1,29 @@
+package com.pawfectbite.server.pets.dto;
+
+import com.pawfectbite.server.pets.domain.HealthField;
+import com.pawfectbite.server.pets.domain.HealthTerm;
+
+import java.util.Arrays;
+import java.util.List;
+
+/** Every vocabulary, keyed like the pet profile lists that use it. */
+public record HealthVocabularyResponse(
+        List<HealthTermResponse> allergies,
+        List<HealthTermResponse> medicalConditions,
+        List<HealthTermResponse> medications
+) {
+    public static HealthVocabularyResponse current() {
+        return new HealthVocabularyResponse(
+                termsOf(HealthField.ALLERGIES),
+                termsOf(HealthField.MEDICAL_CONDITIONS),
+                termsOf(HealthField.MEDICATIONS)
+        );
+    }
+
+    private static List<HealthTermResponse> termsOf(HealthField field) {
+        return Arrays.stream(field.terms())
+                .sorted((a, b) -> a.label().compareToIgnoreCase(b.label()))
+                .map(HealthTermResponse::from)
+                .toList();
+    }
+}
@@ -0,0 +1,26 @@
+package com.pawfectbite.server.pets.dto;
+
+import com.pawfectbite.server.pets.domain.HealthField;
+import jakarta.validation.Valid;
+import jakarta.validation.constraints.NotBlank;
+import jakarta.validation.constraints.NotNull;
+import jakarta.validation.constraints.Size;
+
+import java.util.List;
+
+public record MapHealthCodesRequest(
+        @NotNull
+        List<@Valid Mapping> mappings
+) {
+    /**
+     * Replaces a typed-in value with a code, or removes it when `code` is null.
+     * With `keepAsTyped`, the value stays as free text instead (or `code` replaces
+     * it, as the owner typed it) and the review stops asking about it.
+     */
+    public record Mapping(
+            @NotNull HealthField field,
+            @NotBlank String value,
+            @Size(max = 255) String code,
+            boolean keepAsTyped
+    ) {}
+}
@@ -0,0 +1,25 @@
+package com.pawfectbite.server.pets.dto;
+
+import com.pawfectbite.server.pets.application.HealthReviewService.PetHealthReview;
+import com.pawfectbite.server.pets.domain.HealthField;
+import com.pawfectbite.server.pets.domain.Species;
+
+import java.util.List;
+import java.util.UUID;
+
+public record PetHealthReviewResponse(
+        UUID petId,
+        String petName,
+        Species species,
+        List<EntryDto> entries
+) {
+    /** A typed-in value, with the code it most likely means, if any. */
+    public record EntryDto(HealthField field, String value, String suggestedCode) {}
+
+    public static PetHealthReviewResponse from(PetHealthReview review) {
+        List<EntryDto> entries = review.entries().stream()
+                .map(e -> new EntryDto(e.field(), e.value(), e.suggestedCode()))
+                .toList();
+        return new PetHealthReviewResponse(review.pet().id(), review.pet().name(), review.pet().species(), entries);
+    }
+}
@@ -0,0 +1,17 @@
+package com.pawfectbite.server.pets.dto;
+
+import jakarta.validation.constraints.PastOrPresent;
+import jakarta.validation.constraints.Size;
+import org.springframework.format.annotation.DateTimeFormat;
+
+import java.time.LocalDate;
+
+/** Caption and date of a gallery photo; sent as form fields alongside an upload, or as JSON when editing. */
+public record PetPhotoDetailsRequest(
+        @Size(max = 300)
+        String caption,
+
+        @PastOrPresent(message = "Photos can't be taken in the future")
+        @DateTimeFormat(iso = DateTimeFormat.ISO.DATE)
+        LocalDate takenOn
+) {}
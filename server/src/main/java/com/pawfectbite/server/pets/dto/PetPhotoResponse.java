@@ -0,0 +1,25 @@
+package com.pawfectbite.server.pets.dto;
+
+import com.pawfectbite.server.pets.domain.PetPhoto;
+
+import java.time.Instant;
+import java.time.LocalDate;
+import java.util.UUID;
+
+public record PetPhotoResponse(
+        UUID id,
+        UUID petId,
+        String url,
+        String caption,
+        LocalDate takenOn,
+        int position,
+        boolean isAvatar,
+        Instant createdAt
+) {
+    public static PetPhotoResponse from(PetPhoto photo, String avatarUrl) {
+        return new PetPhotoResponse(
+                photo.id(), photo.petId(), photo.url(), photo.caption(), photo.takenOn(),
+                photo.position(), photo.url().equals(avatarUrl), photo.createdAt()
+        );
+    }
+}
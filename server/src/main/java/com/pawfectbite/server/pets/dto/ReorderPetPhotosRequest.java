@@ -0,0 +1,11 @@
+package com.pawfectbite.server.pets.dto;
+
+import jakarta.validation.constraints.NotNull;
+
+import java.util.List;
+import java.util.UUID;
+
+public record ReorderPetPhotosRequest(
+        @NotNull
+        List<UUID> photoIds
+) {}
@@ -0,0 +1,24 @@
+package com.pawfectbite.server.pets.dto;
+
+import com.pawfectbite.server.pets.domain.WeightEntry;
+
+import java.math.BigDecimal;
+import java.time.Instant;
+import java.time.LocalDate;
+import java.util.UUID;
+
+public record WeightEntryResponse(
+        UUID id,
+        UUID petId,
+        BigDecimal weightKg,
+        LocalDate recordedOn,
+        String note,
+        Instant createdAt
+) {
+    public static WeightEntryResponse from(WeightEntry entry) {
+        return new WeightEntryResponse(
+                entry.id(), entry.petId(), entry.weightKg(),
+                entry.recordedOn(), entry.note(), entry.createdAt()
+        );
+    }
+}
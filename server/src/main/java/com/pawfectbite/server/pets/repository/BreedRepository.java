@@ -0,0 +1,13 @@
+package com.pawfectbite.server.pets.repository;
+
+import com.pawfectbite.server.pets.domain.Breed;
+import com.pawfectbite.server.pets.domain.Species;
+
+import java.util.List;
+import java.util.Optional;
+
+public interface BreedRepository {
+    List<Breed> findAll();
+    List<Breed> findBySpecies(Species species);
+    Optional<Breed> findBySpeciesAndName(Species species, String name);
+}
@@ -0,0 +1,39 @@
+package com.pawfectbite.server.pets.repository;
+
+import com.pawfectbite.server.pets.database.BreedEntity;
+import com.pawfectbite.server.pets.database.JpaBreedRepository;
+import com.pawfectbite.server.pets.domain.Breed;
+import com.pawfectbite.server.pets.domain.Species;
+import org.springframework.stereotype.Repository;
+
+import java.util.List;
+import java.util.Optional;
+
+@Repository
+public class BreedRepositoryImpl implements BreedRepository {
+
+    private final JpaBreedRepository jpa;
+
+    public BreedRepositoryImpl(JpaBreedRepository jpa) {
+        this.jpa = jpa;
+    }
+
+    @Override
+    public List<Breed> findAll() {
+        return jpa.findAllByOrderByName().stream()
+                .map(BreedEntity::toDomain)
+                .toList();
+    }
+
+    @Override
+    public List<Breed> findBySpecies(Species species) {
+        return jpa.findBySpeciesOrderByName(species).stream()
+                .map(BreedEntity::toDomain)
+                .toList();
+    }
+
+    @Override
+    public Optional<Breed> findBySpeciesAndName(Species species, String name) {
+        return jpa.findFirstBySpeciesAndNameIgnoreCase(species, name.trim()).map(BreedEntity::toDomain);
+    }
+}
@@ -0,0 +1,12 @@
+package com.pawfectbite.server.pets.repository;
+
+import com.pawfectbite.server.pets.domain.HealthField;
+import com.pawfectbite.server.pets.domain.KeptHealthValue;
+
+import java.util.List;
+import java.util.UUID;
+
+public interface KeptHealthValueRepository {
+    List<KeptHealthValue> findByPetId(UUID petId);
+    void save(UUID petId, HealthField field, String value);
+}
@@ -0,0 +1,40 @@
+package com.pawfectbite.server.pets.repository;
+
+import com.pawfectbite.server.pets.database.JpaKeptHealthValueRepository;
+import com.pawfectbite.server.pets.database.KeptHealthValueEntity;
+import com.pawfectbite.server.pets.domain.HealthField;
+import com.pawfectbite.server.pets.domain.KeptHealthValue;
+import org.springframework.stereotype.Repository;
+
+import java.util.List;
+import java.util.UUID;
+
+@Repository
+public class KeptHealthValueRepositoryImpl implements KeptHealthValueRepository {
+
+    private final JpaKeptHealthValueRepository jpa;
+
+    public KeptHealthValueRepositoryImpl(JpaKeptHealthValueRepository jpa) {
+        this.jpa = jpa;
+    }
+
+    @Override
+    public List<KeptHealthValue> findByPetId(UUID petId) {
+        return jpa.findByPetId(petId).stream()
+                .map(KeptHealthValueEntity::toDomain)
+                .toList();
+    }
+
+    /** Keeping a value that is already kept does nothing. */
+    @Override
+    public void save(UUID petId, HealthField field, String value) {
+        if (jpa.existsByPetIdAndFieldAndValue(petId, field, value)) {
+            return;
+        }
+        KeptHealthValueEntity entity = new KeptHealthValueEntity();
+        entity.setPetId(petId);
+        entity.setField(field);
+        entity.setValue(value);
+        jpa.save(entity);
+    }
+}
@@ -0,0 +1,17 @@
+package com.pawfectbite.server.pets.repository;
+
+import com.pawfectbite.server.pets.domain.PetPhoto;
+
+import java.time.LocalDate;
+import java.util.List;
+import java.util.Optional;
+import java.util.UUID;
+
+public interface PetPhotoRepository {
+    List<PetPhoto> findByPetId(UUID petId);
+    Optional<PetPhoto> findById(UUID id);
+    PetPhoto save(UUID petId, String url, String publicId, String caption, LocalDate takenOn);
+    PetPhoto update(UUID id, String caption, LocalDate takenOn);
+    void updatePositions(List<UUID> orderedIds);
+    void delete(UUID id);
+}
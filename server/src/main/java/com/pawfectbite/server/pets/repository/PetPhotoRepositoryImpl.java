@@ -0,0 +1,78 @@
+package com.pawfectbite.server.pets.repository;
+
+import com.pawfectbite.server.common.exception.ResourceNotFoundException;
+import com.pawfectbite.server.pets.database.JpaPetPhotoRepository;
+import com.pawfectbite.server.pets.database.PetPhotoEntity;
+import com.pawfectbite.server.pets.domain.PetPhoto;
+import org.springframework.stereotype.Repository;
+
+import java.time.LocalDate;
+import java.util.List;
+import java.util.Map;
+import java.util.Optional;
+import java.util.UUID;
+import java.util.function.Function;
+import java.util.stream.Collectors;
+
+@Repository
+public class PetPhotoRepositoryImpl implements PetPhotoRepository {
+
+    private final JpaPetPhotoRepository jpa;
+
+    public PetPhotoRepositoryImpl(JpaPetPhotoRepository jpa) {
+        this.jpa = jpa;
+    }
+
+    @Override
+    public List<PetPhoto> findByPetId(UUID petId) {
+        return jpa.findByPetIdOrderByPosition(petId).stream()
+                .map(PetPhotoEntity::toDomain)
+                .toList();
+    }
+
+    @Override
+    public Optional<PetPhoto> findById(UUID id) {
+        return jpa.findById(id).map(PetPhotoEntity::toDomain);
+    }
+
+    /** New photos go to the end of the gallery. */
+    @Override
+    public PetPhoto save(UUID petId, String url, String publicId, String caption, LocalDate takenOn) {
+        int position = jpa.findFirstByPetIdOrderByPositionDesc(petId)
+                .map(last -> last.getPosition() + 1)
+                .orElse(0);
+        PetPhotoEntity entity = new PetPhotoEntity();
+        entity.setPetId(petId);
+        entity.setUrl(url);
+        entity.setPublicId(publicId);
+        entity.setCaption(caption);
+        entity.setTakenOn(takenOn);
+        entity.setPosition(position);
+        return jpa.save(entity).toDomain();
+    }
+
+    @Override
+    public PetPhoto update(UUID id, String caption, LocalDate takenOn) {
+        PetPhotoEntity entity = jpa.findById(id)
+                .orElseThrow(() -> new ResourceNotFoundException("PetPhoto", id));
+        entity.setCaption(caption);
+        entity.setTakenOn(takenOn);
+        return jpa.save(entity).toDomain();
+    }
+
+    @Override
+    public void updatePositions(List<UUID> orderedIds) {
+        Map<UUID, PetPhotoEntity> entities = jpa.findAllById(orderedIds).stream()
+                .collect(Collectors.toMap(PetPhotoEntity::getId, Function.identity()));
+        for (int i = 0; i < orderedIds.size(); i++) {
+            PetPhotoEntity entity = entities.get(orderedIds.get(i));
+            if (entity != null) entity.setPosition(i);
+        }
+        jpa.saveAll(entities.values());
+    }
+
+    @Override
+    public void delete(UUID id) {
+        jpa.deleteById(id);
+    }
+}
@@ -2,6 +2,7 @@ package com.pawfectbite.server.pets.repository;
 
 import com.pawfectbite.server.pets.domain.Pet;
 
+import java.math.BigDecimal;
 import java.util.List;
 import java.util.Optional;
 import java.util.UUID;
@@ -11,5 +12,8 @@ public interface PetRepository {
     Optional<Pet> findById(UUID id);
     Pet save(Pet pet);
     Pet update(UUID id, Pet pet);
+    void updateWeight(UUID id, BigDecimal weightKg);
+    Pet updatePhotoUrl(UUID id, String photoUrl);
+    Pet updateHealth(UUID id, List<String> allergies, List<String> medicalConditions, List<String> medications);
     void delete(UUID id);
 }
@@ -6,6 +6,7 @@ import com.pawfectbite.server.pets.database.PetEntity;
 import com.pawfectbite.server.pets.domain.Pet;
 import org.springframework.stereotype.Repository;
 
+import java.math.BigDecimal;
 import java.util.List;
 import java.util.Optional;
 import java.util.UUID;
@@ -47,6 +48,32 @@ public class PetRepositoryImpl implements PetRepository {
         return jpa.save(entity).toDomain();
     }
 
+    @Override
+    public void updateWeight(UUID id, BigDecimal weightKg) {
+        PetEntity entity = jpa.findById(id)
+                .orElseThrow(() -> new ResourceNotFoundException("Pet", id));
+        entity.setWeightKg(weightKg);
+        jpa.save(entity);
+    }
+
+    @Override
+    public Pet updatePhotoUrl(UUID id, String photoUrl) {
+        PetEntity entity = jpa.findById(id)
+                .orElseThrow(() -> new ResourceNotFoundException("Pet", id));
+        entity.setPhotoUrl(photoUrl);
+        return jpa.save(entity).toDomain();
+    }
+
+    @Override
+    public Pet updateHealth(UUID id, List<String> allergies, List<String> medicalConditions, List<String> medications) {
+        PetEntity entity = jpa.findById(id)
+                .orElseThrow(() -> new ResourceNotFoundException("Pet", id));
+        entity.setAllergies(allergies);
+        entity.setMedicalConditions(medicalConditions);
+        entity.setMedications(medications);
+        return jpa.save(entity).toDomain();
+    }
+
     @Override
     public void delete(UUID id) {
         jpa.deleteById(id);
@@ -0,0 +1,17 @@
+package com.pawfectbite.server.pets.repository;
+
+import com.pawfectbite.server.pets.domain.WeightEntry;
+
+import java.math.BigDecimal;
+import java.time.LocalDate;
+import java.util.List;
+import java.util.Optional;
+import java.util.UUID;
+
+public interface WeightEntryRepository {
+    List<WeightEntry> findByPetId(UUID petId);
+    Optional<WeightEntry> findById(UUID id);
+    Optional<WeightEntry> findLatest(UUID petId);
+    WeightEntry save(UUID petId, BigDecimal weightKg, LocalDate recordedOn, String note);
+    void delete(UUID id);
+}
@@ -0,0 +1,56 @@
+package com.pawfectbite.server.pets.repository;
+
+import com.pawfectbite.server.pets.database.JpaWeightEntryRepository;
+import com.pawfectbite.server.pets.database.WeightEntryEntity;
+import com.pawfectbite.server.pets.domain.WeightEntry;
+import org.springframework.stereotype.Repository;
+
+import java.math.BigDecimal;
+import java.time.LocalDate;
+import java.util.List;
+import java.util.Optional;
+import java.util.UUID;
+
+@Repository
+public class WeightEntryRepositoryImpl implements WeightEntryRepository {
+
+    private final JpaWeightEntryRepository jpa;
+
+    public WeightEntryRepositoryImpl(JpaWeightEntryRepository jpa) {
+        this.jpa = jpa;
+    }
+
+    @Override
+    public List<WeightEntry> findByPetId(UUID petId) {
+        return jpa.findByPetIdOrderByRecordedOn(petId).stream()
+                .map(WeightEntryEntity::toDomain)
+                .toList();
+    }
+
+    @Override
+    public Optional<WeightEntry> findById(UUID id) {
+        return jpa.findById(id).map(WeightEntryEntity::toDomain);
+    }
+
+    @Override
+    public Optional<WeightEntry> findLatest(UUID petId) {
+        return jpa.findFirstByPetIdOrderByRecordedOnDesc(petId).map(WeightEntryEntity::toDomain);
+    }
+
+    /** One weigh-in per pet per day; logging the same date again replaces it. */
+    @Override
+    public WeightEntry save(UUID petId, BigDecimal weightKg, LocalDate recordedOn, String note) {
+        WeightEntryEntity entity = jpa.findByPetIdAndRecordedOn(petId, recordedOn)
+                .orElseGet(WeightEntryEntity::new);
+        entity.setPetId(petId);
+        entity.setWeightKg(weightKg);
+        entity.setRecordedOn(recordedOn);
+        entity.setNote(note);
+        return jpa.save(entity).toDomain();
+    }
+
+    @Override
+    public void delete(UUID id) {
+        jpa.deleteById(id);
+    }
+}
@@ -0,0 +1,29 @@
+package com.pawfectbite.server.recipes.application;
+
+import com.pawfectbite.server.ai.domain.RecipeDraft;
+import com.pawfectbite.server.recipes.domain.GenerationStage;
+
+/**
+ * Receives progress from {@link RecipeGenerationService#generate}. Throwing from either
+ * callback aborts the pipeline and rolls back anything it has written.
+ */
+public interface GenerationListener {
+
+    GenerationListener NONE = new GenerationListener() {
+        @Override
+        public void onStage(GenerationStage stage) {}
+
+        @Override
+        public void onVariant(int variantNumber, int variantCount) {}
+
+        @Override
+        public void onDraft(RecipeDraft draft) {}
+    };
+
+    void onStage(GenerationStage stage);
+
+    /** Called before each variant is written; stages and drafts that follow belong to it. */
+    void onVariant(int variantNumber, int variantCount);
+
+    void onDraft(RecipeDraft draft);
+}
@@ -2,12 +2,16 @@ package com.pawfectbite.server.recipes.application;
 
 import com.pawfectbite.server.ai.application.LLMRecipeWriter;
 import com.pawfectbite.server.ai.domain.StructuredRecipeOutput;
+import com.pawfectbite.server.common.exception.AppException;
+import com.pawfectbite.server.common.exception.ResourceNotFoundException;
 import com.pawfectbite.server.common.exception.SafetyBlockedException;
 import com.pawfectbite.server.pets.application.PetService;
 import com.pawfectbite.server.pets.domain.Pet;
 import com.pawfectbite.server.recipes.domain.*;
+import com.pawfectbite.server.recipes.dto.IngredientPrecheckRequest;
 import com.pawfectbite.server.recipes.dto.RecipeGenerateRequest;
 import com.pawfectbite.server.recipes.dto.RecipePrecheckRequest;
+import com.pawfectbite.server.recipes.dto.RefineRecipeRequest;
 import com.pawfectbite.server.recipes.repository.RecipeRepository;
 import com.pawfectbite.server.recipes.repository.RecipeRequestRepository;
 import com.pawfectbite.server.safety.application.SafetyService;
@@ -20,6 +24,7 @@ import org.springframework.transaction.annotation.Transactional;
 import java.util.ArrayList;
 import java.util.Collections;
 import java.util.List;
+import java.util.Map;
 import java.util.UUID;
 
 @Service
@@ -62,9 +67,35 @@ public class RecipeGenerationService {
         return safetyService.evaluate(pet, allIngredients);
     }
 
+    public Map<String, SafetyResult> precheckIngredients(Pet pet, IngredientPrecheckRequest request) {
+        List<String> ingredients = request.ingredients().stream()
+                .map(String::trim)
+                .filter(i -> !i.isEmpty())
+                .distinct()
+                .toList();
+
+        return safetyService.evaluateEach(pet, ingredients);
+    }
+
     @Transactional
     public GeneratedRecipe generate(UUID userId, RecipeGenerateRequest request) {
-        log.info("Starting recipe generation pipeline for user={}, pet={}", userId, request.petId());
+        return generate(userId, request, 1, GenerationListener.NONE).getFirst();
+    }
+
+    /**
+     * Runs the generation pipeline, writing {@code variantCount} alternative recipes from the
+     * one request and reporting each stage and the partially written recipe to {@code listener}.
+     * Safety and knowledge retrieval run once; each variant is told what the earlier ones used.
+     */
+    @Transactional
+    public List<GeneratedRecipe> generate(
+            UUID userId,
+            RecipeGenerateRequest request,
+            int variantCount,
+            GenerationListener listener
+    ) {
+        log.info("Starting recipe generation pipeline for user={}, pet={}, variants={}",
+                userId, request.petId(), variantCount);
 
         // Step 1: Load pet
         Pet pet = petService.getPetById(request.petId());
@@ -73,15 +104,8 @@ public class RecipeGenerationService {
         List<String> ingredientsToInclude = nullSafe(request.ingredientsToInclude());
         List<String> ingredientsToExclude = nullSafe(request.ingredientsToExclude());
 
-        // Step 3: Safety evaluation
-        SafetyResult safetyResult = safetyService.evaluate(pet, ingredientsToInclude);
-
-        // Step 4: Block if unsafe
-        if (!safetyResult.canProceed()) {
-            List<String> reasons = safetyResult.warnings().stream().map(w -> w.message()).toList();
-            log.warn("Recipe generation BLOCKED for pet={}: {}", pet.name(), reasons);
-            throw new SafetyBlockedException(reasons);
-        }
+        // Step 3-4: Safety evaluation, blocking if unsafe
+        SafetyResult safetyResult = evaluateOrBlock(pet, ingredientsToInclude);
 
         // Step 5: Log the request
         RecipeRequest recipeRequest = recipeRequestRepository.save(new RecipeRequest(
@@ -92,31 +116,47 @@ public class RecipeGenerationService {
         log.info("Recipe request logged: id={}", recipeRequest.id());
 
         // Step 6: Build recipe plan (includes knowledge retrieval)
+        listener.onStage(GenerationStage.RETRIEVING_KNOWLEDGE);
         RecipePlan plan = planBuilder.build(
                 pet, request.goal(), ingredientsToInclude, ingredientsToExclude,
                 safetyResult
         );
 
+        // Steps 7-9 run once per variant
+        List<GeneratedRecipe> variants = new ArrayList<>();
+        for (int n = 1; n <= variantCount; n++) {
+            RecipePlan variantPlan = variantCount > 1
+                    ? plan.withVariation(new RecipeVariation(n, variantCount, List.copyOf(variants)))
+                    : plan;
+            listener.onVariant(n, variantCount);
+            variants.add(writeRecipe(userId, pet, recipeRequest, variantPlan, safetyResult, listener));
+        }
+        return variants;
+    }
+
+    private GeneratedRecipe writeRecipe(
+            UUID userId,
+            Pet pet,
+            RecipeRequest recipeRequest,
+            RecipePlan plan,
+            SafetyResult safetyResult,
+            GenerationListener listener
+    ) {
         // Step 7: LLM generation
-        StructuredRecipeOutput llmOutput = llmWriter.generateRecipe(plan);
+        listener.onStage(GenerationStage.WRITING);
+        StructuredRecipeOutput llmOutput = llmWriter.streamRecipe(plan, listener::onDraft);
 
         // Step 8: Map to domain and validate
-        GeneratedRecipe recipe = new GeneratedRecipe(
-                null, userId, pet.id(), pet.name(), recipeRequest.id(),
-                llmOutput.title(), llmOutput.description(),
-                llmOutput.ingredients().stream()
-                        .map(i -> new GeneratedRecipe.RecipeIngredient(i.name(), i.amount(), i.unit(), i.notes()))
-                        .toList(),
-                llmOutput.steps(), llmOutput.estimatedCalories(),
-                llmOutput.feedingPortions(), llmOutput.shoppingList(),
-                llmOutput.storageGuidance(),
-                llmOutput.cautionNotes(), safetyResult.riskLevel(),
-                safetyResult.warnings(), RecipeStatus.DRAFT, null
+        listener.onStage(GenerationStage.VALIDATING);
+        GeneratedRecipe recipe = toRecipe(
+                userId, pet, recipeRequest.id(), llmOutput, safetyResult,
+                null, null, 1, null
         );
 
         recipeValidator.validate(recipe);
 
         // Step 9: Persist
+        listener.onStage(GenerationStage.SAVING);
         GeneratedRecipe saved = recipeRepository.save(recipe);
         log.info("Recipe generated and saved: id={}, title={}, requestId={}",
                 saved.id(), saved.title(), recipeRequest.id());
@@ -124,6 +164,94 @@ public class RecipeGenerationService {
         return saved;
     }
 
+    /**
+     * Regenerates a recipe from its original request plus the owner's feedback,
+     * storing the result as a new version of the same recipe family. Safety is
+     * re-evaluated against the pet's current profile, before writing and again
+     * on the refined ingredients.
+     */
+    @Transactional
+    public GeneratedRecipe refine(UUID userId, UUID recipeId, RefineRecipeRequest request) {
+        GeneratedRecipe previous = recipeRepository.findById(recipeId)
+                .orElseThrow(() -> new ResourceNotFoundException("Recipe", recipeId));
+        if (previous.requestId() == null) {
+            throw new AppException("REFINE_UNAVAILABLE", "This recipe has no original request to refine from");
+        }
+        RecipeRequest originalRequest = recipeRequestRepository.findById(previous.requestId())
+                .orElseThrow(() -> new ResourceNotFoundException("RecipeRequest", previous.requestId()));
+
+        log.info("Refining recipe={} (v{}) for user={}", recipeId, previous.version(), userId);
+
+        Pet pet = petService.getPetById(originalRequest.petId());
+        SafetyResult safetyResult = evaluateOrBlock(pet, originalRequest.ingredientsToInclude());
+
+        RecipePlan plan = planBuilder.build(
+                pet, originalRequest.goal(),
+                originalRequest.ingredientsToInclude(), originalRequest.ingredientsToExclude(),
+                safetyResult, new RecipeRefinement(previous, request.feedback())
+        );
+        StructuredRecipeOutput llmOutput = llmWriter.generateRecipe(plan);
+
+        // Feedback can ask for anything, so the refined ingredients are checked before saving
+        List<String> refinedIngredients = new ArrayList<>(originalRequest.ingredientsToInclude());
+        llmOutput.ingredients().forEach(i -> refinedIngredients.add(i.name()));
+        SafetyResult refinedSafety = evaluateOrBlock(pet, refinedIngredients.stream().distinct().toList());
+
+        UUID originalRecipeId = previous.originalRecipeId() != null ? previous.originalRecipeId() : previous.id();
+        int nextVersion = recipeRepository.findVersions(originalRecipeId).stream()
+                .mapToInt(GeneratedRecipe::version)
+                .max()
+                .orElse(previous.version()) + 1;
+
+        GeneratedRecipe recipe = toRecipe(
+                userId, pet, originalRequest.id(), llmOutput, refinedSafety,
+                originalRecipeId, previous.id(), nextVersion, request.feedback().trim()
+        );
+        recipeValidator.validate(recipe);
+
+        GeneratedRecipe saved = recipeRepository.save(recipe);
+        log.info("Recipe refined and saved: id={}, version={}, originalId={}",
+                saved.id(), saved.version(), originalRecipeId);
+
+        return saved;
+    }
+
+    private SafetyResult evaluateOrBlock(Pet pet, List<String> ingredientsToInclude) {
+        SafetyResult safetyResult = safetyService.evaluate(pet, ingredientsToInclude);
+        if (!safetyResult.canProceed()) {
+            List<String> reasons = safetyResult.warnings().stream().map(w -> w.message()).toList();
+            log.warn("Recipe generation BLOCKED for pet={}: {}", pet.name(), reasons);
+            throw new SafetyBlockedException(reasons);
+        }
+        return safetyResult;
+    }
+
+    private GeneratedRecipe toRecipe(
+            UUID userId,
+            Pet pet,
+            UUID requestId,
+            StructuredRecipeOutput llmOutput,
+            SafetyResult safetyResult,
+            UUID originalRecipeId,
+            UUID parentRecipeId,
+            int version,
+            String refinementFeedback
+    ) {
+        return new GeneratedRecipe(
+                null, userId, pet.id(), pet.name(), requestId,
+                llmOutput.title(), llmOutput.description(),
+                llmOutput.ingredients().stream()
+                        .map(i -> new GeneratedRecipe.RecipeIngredient(i.name(), i.amount(), i.unit(), i.notes()))
+                        .toList(),
+                llmOutput.steps(), llmOutput.estimatedCalories(),
+                llmOutput.feedingPortions(), llmOutput.shoppingList(),
+                llmOutput.storageGuidance(),
+                llmOutput.cautionNotes(), safetyResult.riskLevel(),
+                safetyResult.warnings(), RecipeStatus.DRAFT,
+                originalRecipeId, parentRecipeId, version, refinementFeedback, null
+        );
+    }
+
     private <T> List<T> nullSafe(List<T> list) {
         return list != null ? list : Collections.emptyList();
     }
@@ -2,8 +2,11 @@ package com.pawfectbite.server.recipes.application;
 
 import com.pawfectbite.server.common.exception.ResourceNotFoundException;
 import com.pawfectbite.server.recipes.domain.GeneratedRecipe;
+import com.pawfectbite.server.recipes.domain.RecipeSearchCriteria;
+import com.pawfectbite.server.recipes.domain.RecipeSort;
 import com.pawfectbite.server.recipes.domain.RecipeStatus;
 import com.pawfectbite.server.recipes.repository.RecipeRepository;
+import org.springframework.data.domain.Page;
 import org.springframework.stereotype.Service;
 import org.springframework.transaction.annotation.Transactional;
 
@@ -27,18 +30,48 @@ public class RecipeHistoryService {
         return recipeRepository.findByUserIdAndPetId(userId, petId);
     }
 
+    public Page<GeneratedRecipe> searchRecipes(RecipeSearchCriteria criteria, RecipeSort sort, int page, int size) {
+        return recipeRepository.search(criteria, sort, page, size);
+    }
+
     public GeneratedRecipe getRecipeById(UUID recipeId) {
         return recipeRepository.findById(recipeId)
                 .orElseThrow(() -> new ResourceNotFoundException("Recipe", recipeId));
     }
 
+    public List<GeneratedRecipe> getVersions(GeneratedRecipe recipe) {
+        UUID originalRecipeId = recipe.originalRecipeId() != null ? recipe.originalRecipeId() : recipe.id();
+        return recipeRepository.findVersions(originalRecipeId);
+    }
+
     @Transactional
     public GeneratedRecipe saveRecipe(UUID recipeId) {
         return recipeRepository.updateStatus(recipeId, RecipeStatus.SAVED);
     }
 
+    @Transactional
+    public GeneratedRecipe archiveRecipe(UUID recipeId) {
+        return recipeRepository.updateStatus(recipeId, RecipeStatus.ARCHIVED);
+    }
+
+    /** Restored recipes go back to being drafts or saved, whichever they were when archived. */
+    @Transactional
+    public GeneratedRecipe unarchiveRecipe(UUID recipeId) {
+        return recipeRepository.unarchive(recipeId);
+    }
+
+    @Transactional
+    public List<GeneratedRecipe> archiveRecipes(List<UUID> recipeIds) {
+        return recipeIds.stream().map(this::archiveRecipe).toList();
+    }
+
     @Transactional
     public void deleteRecipe(UUID recipeId) {
         recipeRepository.delete(recipeId);
     }
+
+    @Transactional
+    public void deleteRecipes(List<UUID> recipeIds) {
+        recipeIds.forEach(recipeRepository::delete);
+    }
 }
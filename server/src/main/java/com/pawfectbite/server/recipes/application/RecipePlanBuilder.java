@@ -4,8 +4,10 @@ import com.pawfectbite.server.knowledge.application.KnowledgeRetrievalService;
 import com.pawfectbite.server.knowledge.application.KnowledgeRetrievalService.RetrievedKnowledge;
 import com.pawfectbite.server.knowledge.domain.IngredientKnowledge;
 import com.pawfectbite.server.knowledge.domain.NutritionGuidance;
+import com.pawfectbite.server.pets.application.BreedService;
 import com.pawfectbite.server.pets.domain.Pet;
 import com.pawfectbite.server.recipes.domain.RecipePlan;
+import com.pawfectbite.server.recipes.domain.RecipeRefinement;
 import com.pawfectbite.server.safety.domain.SafetyResult;
 import org.springframework.stereotype.Component;
 
@@ -16,9 +18,11 @@ import java.util.List;
 public class RecipePlanBuilder {
 
     private final KnowledgeRetrievalService knowledgeService;
+    private final BreedService breedService;
 
-    public RecipePlanBuilder(KnowledgeRetrievalService knowledgeService) {
+    public RecipePlanBuilder(KnowledgeRetrievalService knowledgeService, BreedService breedService) {
         this.knowledgeService = knowledgeService;
+        this.breedService = breedService;
     }
 
     public RecipePlan build(
@@ -27,10 +31,29 @@ public class RecipePlanBuilder {
             List<String> ingredientsToInclude,
             List<String> ingredientsToExclude,
             SafetyResult safetyResult
+    ) {
+        return build(pet, goal, ingredientsToInclude, ingredientsToExclude, safetyResult, null);
+    }
+
+    public RecipePlan build(
+            Pet pet,
+            String goal,
+            List<String> ingredientsToInclude,
+            List<String> ingredientsToExclude,
+            SafetyResult safetyResult,
+            RecipeRefinement refinement
     ) {
         RetrievedKnowledge knowledge = knowledgeService.retrieve(pet, ingredientsToInclude, goal);
 
         List<String> knowledgeContext = new ArrayList<>();
+        breedService.findForPet(pet).ifPresent(breed -> {
+            String context = "Breed: " + breed.name() + " (" + breed.sizeClass() + ", typical adult weight "
+                    + breed.minWeightKg() + "-" + breed.maxWeightKg() + " kg)";
+            if (!breed.dietarySensitivities().isEmpty()) {
+                context += "\nKnown dietary sensitivities: " + String.join("; ", breed.dietarySensitivities());
+            }
+            knowledgeContext.add(context);
+        });
         for (IngredientKnowledge ik : knowledge.ingredients()) {
             knowledgeContext.add("Ingredient: " + ik.name() + "\n" + ik.contentText());
         }
@@ -40,7 +63,7 @@ public class RecipePlanBuilder {
 
         return new RecipePlan(
                 pet, goal, ingredientsToInclude, ingredientsToExclude,
-                safetyResult, knowledgeContext
+                safetyResult, knowledgeContext, refinement, null
         );
     }
 }
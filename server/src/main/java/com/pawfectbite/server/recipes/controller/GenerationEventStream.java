@@ -0,0 +1,103 @@
+package com.pawfectbite.server.recipes.controller;
+
+import com.pawfectbite.server.ai.domain.RecipeDraft;
+import com.pawfectbite.server.common.exception.AppException;
+import com.pawfectbite.server.common.response.ApiResponse;
+import com.pawfectbite.server.recipes.application.GenerationListener;
+import com.pawfectbite.server.recipes.domain.GeneratedRecipe;
+import com.pawfectbite.server.recipes.domain.GenerationStage;
+import com.pawfectbite.server.recipes.dto.GenerationStageEvent;
+import com.pawfectbite.server.recipes.dto.GenerationVariantEvent;
+import com.pawfectbite.server.recipes.dto.RecipeDraftEvent;
+import com.pawfectbite.server.recipes.dto.RecipeResponse;
+import org.slf4j.Logger;
+import org.slf4j.LoggerFactory;
+import org.springframework.http.MediaType;
+import org.springframework.web.servlet.mvc.method.annotation.SseEmitter;
+
+import java.io.IOException;
+import java.util.List;
+
+/**
+ * Sends generation progress to the client as server-sent events: {@code stage},
+ * {@code variant} and {@code draft} while the pipeline runs, then one {@code complete} event
+ * with every variant or an {@code error} event, both in the usual {@link ApiResponse} envelope.
+ *
+ * <p>Once the client disconnects, the next callback throws {@link GenerationCancelledException}
+ * so the pipeline stops and its transaction rolls back.
+ */
+class GenerationEventStream implements GenerationListener {
+
+    private static final Logger log = LoggerFactory.getLogger(GenerationEventStream.class);
+    // Four variants can each take a couple of minutes to write
+    private static final long TIMEOUT_MS = 600_000;
+
+    static class GenerationCancelledException extends RuntimeException {
+        GenerationCancelledException(Throwable cause) {
+            super("Client cancelled recipe generation", cause);
+        }
+    }
+
+    private final SseEmitter emitter = new SseEmitter(TIMEOUT_MS);
+    private volatile boolean closed;
+
+    GenerationEventStream() {
+        emitter.onCompletion(() -> closed = true);
+        emitter.onTimeout(() -> closed = true);
+        emitter.onError(e -> closed = true);
+    }
+
+    SseEmitter emitter() {
+        return emitter;
+    }
+
+    @Override
+    public void onStage(GenerationStage stage) {
+        send("stage", new GenerationStageEvent(stage));
+    }
+
+    @Override
+    public void onVariant(int variantNumber, int variantCount) {
+        send("variant", new GenerationVariantEvent(variantNumber, variantCount));
+    }
+
+    @Override
+    public void onDraft(RecipeDraft draft) {
+        send("draft", RecipeDraftEvent.from(draft));
+    }
+
+    void complete(List<GeneratedRecipe> variants) {
+        send("complete", ApiResponse.ok(variants.stream().map(RecipeResponse::from).toList()));
+        emitter.complete();
+    }
+
+    void fail(Exception e) {
+        if (e instanceof GenerationCancelledException) {
+            log.info("Recipe generation cancelled by client");
+            return;
+        }
+        ApiResponse<Void> error;
+        if (e instanceof AppException app) {
+            error = ApiResponse.error(app.getCode(), app.getMessage());
+        } else {
+            log.error("Unexpected error during streamed recipe generation", e);
+            error = ApiResponse.error("INTERNAL_ERROR", "An unexpected error occurred");
+        }
+        try {
+            send("error", error);
+            emitter.complete();
+        } catch (GenerationCancelledException ignored) {
+            // Nobody is listening any more
+        }
+    }
+
+    private void send(String event, Object data) {
+        if (closed) throw new GenerationCancelledException(null);
+        try {
+            emitter.send(SseEmitter.event().name(event).data(data, MediaType.APPLICATION_JSON));
+        } catch (IOException | IllegalStateException e) {
+            closed = true;
+            throw new GenerationCancelledException(e);
+        }
+    }
+}
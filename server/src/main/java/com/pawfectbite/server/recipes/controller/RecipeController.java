@@ -1,19 +1,27 @@
 package com.pawfectbite.server.recipes.controller;
 
 import com.pawfectbite.server.common.response.ApiResponse;
+import com.pawfectbite.server.common.response.PageResponse;
 import com.pawfectbite.server.infrastructure.security.AuthenticatedUser;
 import com.pawfectbite.server.infrastructure.security.OwnershipEnforcer;
+import com.pawfectbite.server.pets.application.PetService;
+import com.pawfectbite.server.pets.domain.Pet;
 import com.pawfectbite.server.recipes.application.RecipeGenerationService;
 import com.pawfectbite.server.recipes.application.RecipeHistoryService;
 import com.pawfectbite.server.recipes.domain.GeneratedRecipe;
 import com.pawfectbite.server.recipes.dto.*;
 import com.pawfectbite.server.safety.domain.SafetyResult;
 import jakarta.validation.Valid;
+import org.springframework.core.task.AsyncTaskExecutor;
+import org.springframework.data.domain.Page;
 import org.springframework.http.HttpStatus;
+import org.springframework.http.MediaType;
 import org.springframework.security.core.annotation.AuthenticationPrincipal;
 import org.springframework.web.bind.annotation.*;
+import org.springframework.web.servlet.mvc.method.annotation.SseEmitter;
 
 import java.util.List;
+import java.util.Map;
 import java.util.UUID;
 
 @RestController
@@ -22,16 +30,22 @@ public class RecipeController {
 
     private final RecipeGenerationService generationService;
     private final RecipeHistoryService historyService;
+    private final PetService petService;
     private final OwnershipEnforcer ownershipEnforcer;
+    private final AsyncTaskExecutor taskExecutor;
 
     public RecipeController(
             RecipeGenerationService generationService,
             RecipeHistoryService historyService,
-            OwnershipEnforcer ownershipEnforcer
+            PetService petService,
+            OwnershipEnforcer ownershipEnforcer,
+            AsyncTaskExecutor taskExecutor
     ) {
         this.generationService = generationService;
         this.historyService = historyService;
+        this.petService = petService;
         this.ownershipEnforcer = ownershipEnforcer;
+        this.taskExecutor = taskExecutor;
     }
 
     @PostMapping("/precheck")
@@ -43,6 +57,19 @@ public class RecipeController {
         return ApiResponse.ok(RecipePrecheckResponse.from(result));
     }
 
+    /** Checks each ingredient on its own, for hints while the request is still being chosen. */
+    @PostMapping("/precheck/ingredients")
+    public ApiResponse<List<IngredientPrecheckResponse>> precheckIngredients(
+            @Valid @RequestBody IngredientPrecheckRequest request
+    ) {
+        Pet pet = petService.getPetById(request.petId());
+        ownershipEnforcer.enforce(pet.userId());
+        Map<String, SafetyResult> results = generationService.precheckIngredients(pet, request);
+        return ApiResponse.ok(results.entrySet().stream()
+                .map(e -> IngredientPrecheckResponse.from(e.getKey(), e.getValue()))
+                .toList());
+    }
+
     @PostMapping("/generate")
     public ApiResponse<RecipeResponse> generate(
             @Valid @RequestBody RecipeGenerateRequest request,
@@ -52,6 +79,30 @@ public class RecipeController {
         return ApiResponse.ok(RecipeResponse.from(recipe));
     }
 
+    /**
+     * Same pipeline as {@link #generate}, streamed as server-sent events so the client can show
+     * each stage and the recipe as it is written, and able to write several variants of the
+     * request. Closing the connection cancels generation.
+     */
+    @PostMapping(value = "/generate/stream", produces = MediaType.TEXT_EVENT_STREAM_VALUE)
+    public SseEmitter generateStream(
+            @Valid @RequestBody RecipeGenerateRequest request,
+            @AuthenticationPrincipal AuthenticatedUser principal
+    ) {
+        GenerationEventStream stream = new GenerationEventStream();
+        UUID userId = principal.userId();
+        taskExecutor.execute(() -> {
+            try {
+                stream.complete(generationService.generate(
+                        userId, request, request.variantCountOrDefault(), stream
+                ));
+            } catch (Exception e) {
+                stream.fail(e);
+            }
+        });
+        return stream.emitter();
+    }
+
     @GetMapping
     public ApiResponse<List<RecipeResponse>> listRecipes(
             @RequestParam(required = false) UUID petId,
@@ -63,6 +114,18 @@ public class RecipeController {
         return ApiResponse.ok(recipes.stream().map(RecipeResponse::from).toList());
     }
 
+    @GetMapping("/search")
+    public ApiResponse<PageResponse<RecipeResponse>> searchRecipes(
+            @Valid @ModelAttribute RecipeSearchRequest request,
+            @AuthenticationPrincipal AuthenticatedUser principal
+    ) {
+        Page<GeneratedRecipe> results = historyService.searchRecipes(
+                request.toCriteria(principal.userId()), request.sortOrDefault(),
+                request.pageOrDefault(), request.sizeOrDefault()
+        );
+        return ApiResponse.ok(PageResponse.from(results, RecipeResponse::from));
+    }
+
     @GetMapping("/{recipeId}")
     public ApiResponse<RecipeResponse> getRecipe(
             @PathVariable UUID recipeId,
@@ -84,6 +147,71 @@ public class RecipeController {
         return ApiResponse.ok(RecipeResponse.from(saved));
     }
 
+    @PostMapping("/{recipeId}/archive")
+    public ApiResponse<RecipeResponse> archiveRecipe(
+            @PathVariable UUID recipeId,
+            @AuthenticationPrincipal AuthenticatedUser principal
+    ) {
+        GeneratedRecipe existing = historyService.getRecipeById(recipeId);
+        ownershipEnforcer.enforce(existing.userId());
+        GeneratedRecipe archived = historyService.archiveRecipe(recipeId);
+        return ApiResponse.ok(RecipeResponse.from(archived));
+    }
+
+    @PostMapping("/{recipeId}/unarchive")
+    public ApiResponse<RecipeResponse> unarchiveRecipe(
+            @PathVariable UUID recipeId,
+            @AuthenticationPrincipal AuthenticatedUser principal
+    ) {
+        GeneratedRecipe existing = historyService.getRecipeById(recipeId);
+        ownershipEnforcer.enforce(existing.userId());
+        GeneratedRecipe restored = historyService.unarchiveRecipe(recipeId);
+        return ApiResponse.ok(RecipeResponse.from(restored));
+    }
+
+    @PostMapping("/bulk-archive")
+    public ApiResponse<List<RecipeResponse>> archiveRecipes(
+            @Valid @RequestBody BulkRecipeRequest request,
+            @AuthenticationPrincipal AuthenticatedUser principal
+    ) {
+        enforceOwnership(request.recipeIds());
+        List<GeneratedRecipe> archived = historyService.archiveRecipes(request.recipeIds());
+        return ApiResponse.ok(archived.stream().map(RecipeResponse::from).toList());
+    }
+
+    @PostMapping("/bulk-delete")
+    @ResponseStatus(HttpStatus.NO_CONTENT)
+    public void deleteRecipes(
+            @Valid @RequestBody BulkRecipeRequest request,
+            @AuthenticationPrincipal AuthenticatedUser principal
+    ) {
+        enforceOwnership(request.recipeIds());
+        historyService.deleteRecipes(request.recipeIds());
+    }
+
+    @PostMapping("/{recipeId}/refine")
+    public ApiResponse<RecipeResponse> refineRecipe(
+            @PathVariable UUID recipeId,
+            @Valid @RequestBody RefineRecipeRequest request,
+            @AuthenticationPrincipal AuthenticatedUser principal
+    ) {
+        GeneratedRecipe existing = historyService.getRecipeById(recipeId);
+        ownershipEnforcer.enforce(existing.userId());
+        GeneratedRecipe refined = generationService.refine(principal.userId(), recipeId, request);
+        return ApiResponse.ok(RecipeResponse.from(refined));
+    }
+
+    @GetMapping("/{recipeId}/versions")
+    public ApiResponse<List<RecipeResponse>> getVersions(
+            @PathVariable UUID recipeId,
+            @AuthenticationPrincipal AuthenticatedUser principal
+    ) {
+        GeneratedRecipe recipe = historyService.getRecipeById(recipeId);
+        ownershipEnforcer.enforce(recipe.userId());
+        List<GeneratedRecipe> versions = historyService.getVersions(recipe);
+        return ApiResponse.ok(versions.stream().map(RecipeResponse::from).toList());
+    }
+
     @DeleteMapping("/{recipeId}")
     @ResponseStatus(HttpStatus.NO_CONTENT)
     public void deleteRecipe(
@@ -94,4 +222,10 @@ public class RecipeController {
         ownershipEnforcer.enforce(recipe.userId());
         historyService.deleteRecipe(recipeId);
     }
+
+    private void enforceOwnership(List<UUID> recipeIds) {
+        for (UUID recipeId : recipeIds) {
+            ownershipEnforcer.enforce(historyService.getRecipeById(recipeId).userId());
+        }
+    }
 }
@@ -1,11 +1,14 @@
 package com.pawfectbite.server.recipes.database;
 
 import org.springframework.data.jpa.repository.JpaRepository;
+import org.springframework.data.jpa.repository.JpaSpecificationExecutor;
 
 import java.util.List;
 import java.util.UUID;
 
-public interface JpaRecipeRepository extends JpaRepository<RecipeEntity, UUID> {
+public interface JpaRecipeRepository extends JpaRepository<RecipeEntity, UUID>,
+        JpaSpecificationExecutor<RecipeEntity> {
     List<RecipeEntity> findByUserIdOrderByCreatedAtDesc(UUID userId);
     List<RecipeEntity> findByUserIdAndPetIdOrderByCreatedAtDesc(UUID userId, UUID petId);
+    List<RecipeEntity> findByOriginalRecipeIdOrderByVersion(UUID originalRecipeId);
 }
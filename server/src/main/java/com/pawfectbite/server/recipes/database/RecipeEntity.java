@@ -42,6 +42,10 @@ public class RecipeEntity extends AuditableEntity {
     @Column(name = "ingredients", columnDefinition = "JSONB", nullable = false)
     private String ingredientsJson;
 
+    // Generated by the database from the ingredients' names; see V20
+    @Column(name = "ingredient_names", columnDefinition = "TEXT", insertable = false, updatable = false)
+    private String ingredientNames;
+
     @JdbcTypeCode(SqlTypes.JSON)
     @Column(name = "steps", columnDefinition = "JSONB", nullable = false)
     private String stepsJson;
@@ -75,6 +79,22 @@ public class RecipeEntity extends AuditableEntity {
     @Column(nullable = false, length = 20)
     private RecipeStatus status;
 
+    @Enumerated(EnumType.STRING)
+    @Column(name = "status_before_archive", length = 20)
+    private RecipeStatus statusBeforeArchive;
+
+    @Column(name = "original_recipe_id")
+    private UUID originalRecipeId;
+
+    @Column(name = "parent_recipe_id")
+    private UUID parentRecipeId;
+
+    @Column(nullable = false)
+    private int version = 1;
+
+    @Column(name = "refinement_feedback", columnDefinition = "TEXT")
+    private String refinementFeedback;
+
     public RecipeEntity() {}
 
     public UUID getId() { return id; }
@@ -82,6 +102,7 @@ public class RecipeEntity extends AuditableEntity {
     public UUID getPetId() { return petId; }
     public String getTitle() { return title; }
     public RecipeStatus getStatus() { return status; }
+    public RecipeStatus getStatusBeforeArchive() { return statusBeforeArchive; }
     public RiskLevel getRiskLevel() { return riskLevel; }
 
     public void setUserId(UUID userId) { this.userId = userId; }
@@ -100,6 +121,11 @@ public class RecipeEntity extends AuditableEntity {
     public void setRiskLevel(RiskLevel level) { this.riskLevel = level; }
     public void setWarningsJson(String json) { this.warningsJson = json; }
     public void setStatus(RecipeStatus status) { this.status = status; }
+    public void setStatusBeforeArchive(RecipeStatus status) { this.statusBeforeArchive = status; }
+    public void setOriginalRecipeId(UUID originalRecipeId) { this.originalRecipeId = originalRecipeId; }
+    public void setParentRecipeId(UUID parentRecipeId) { this.parentRecipeId = parentRecipeId; }
+    public void setVersion(int version) { this.version = version; }
+    public void setRefinementFeedback(String feedback) { this.refinementFeedback = feedback; }
 
     public String getIngredientsJson() { return ingredientsJson; }
     public String getStepsJson() { return stepsJson; }
@@ -111,4 +137,8 @@ public class RecipeEntity extends AuditableEntity {
     public String getStorageGuidance() { return storageGuidance; }
     public String getDescription() { return description; }
     public UUID getRequestId() { return requestId; }
+    public UUID getOriginalRecipeId() { return originalRecipeId; }
+    public UUID getParentRecipeId() { return parentRecipeId; }
+    public int getVersion() { return version; }
+    public String getRefinementFeedback() { return refinementFeedback; }
 }
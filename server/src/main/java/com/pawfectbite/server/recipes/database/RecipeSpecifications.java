@@ -0,0 +1,61 @@
+package com.pawfectbite.server.recipes.database;
+
+import com.pawfectbite.server.recipes.domain.RecipeSearchCriteria;
+import jakarta.persistence.criteria.Predicate;
+import org.springframework.data.jpa.domain.Specification;
+
+import java.time.Instant;
+import java.time.ZoneOffset;
+import java.util.ArrayList;
+import java.util.List;
+
+public final class RecipeSpecifications {
+
+    private RecipeSpecifications() {}
+
+    public static Specification<RecipeEntity> matching(RecipeSearchCriteria criteria) {
+        return (root, query, cb) -> {
+            List<Predicate> predicates = new ArrayList<>();
+            predicates.add(cb.equal(root.get("userId"), criteria.userId()));
+
+            if (criteria.petId() != null) {
+                predicates.add(cb.equal(root.get("petId"), criteria.petId()));
+            }
+            if (criteria.query() != null && !criteria.query().isBlank()) {
+                String pattern = "%" + escapeLike(criteria.query().trim().toLowerCase()) + "%";
+                predicates.add(cb.or(
+                        cb.like(cb.lower(root.get("title")), pattern, '\\'),
+                        cb.like(cb.lower(root.get("description")), pattern, '\\'),
+                        // Already lower-cased by the database
+                        cb.like(root.get("ingredientNames"), pattern, '\\')
+                ));
+            }
+            if (criteria.riskLevels() != null && !criteria.riskLevels().isEmpty()) {
+                predicates.add(root.get("riskLevel").in(criteria.riskLevels()));
+            }
+            if (criteria.statuses() != null && !criteria.statuses().isEmpty()) {
+                predicates.add(root.get("status").in(criteria.statuses()));
+            }
+            if (criteria.minCalories() != null) {
+                predicates.add(cb.greaterThanOrEqualTo(root.get("estimatedCalories"), criteria.minCalories()));
+            }
+            if (criteria.maxCalories() != null) {
+                predicates.add(cb.lessThanOrEqualTo(root.get("estimatedCalories"), criteria.maxCalories()));
+            }
+            if (criteria.createdFrom() != null) {
+                Instant from = criteria.createdFrom().atStartOfDay(ZoneOffset.UTC).toInstant();
+                predicates.add(cb.greaterThanOrEqualTo(root.get("createdAt"), from));
+            }
+            if (criteria.createdTo() != null) {
+                Instant toExclusive = criteria.createdTo().plusDays(1).atStartOfDay(ZoneOffset.UTC).toInstant();
+                predicates.add(cb.lessThan(root.get("createdAt"), toExclusive));
+            }
+
+            return cb.and(predicates.toArray(new Predicate[0]));
+        };
+    }
+
+    private static String escapeLike(String text) {
+        return text.replace("\\", "\\\\").replace("%", "\\%").replace("_", "\\_");
+    }
+}
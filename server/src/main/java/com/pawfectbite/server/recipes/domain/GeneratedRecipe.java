@@ -25,6 +25,10 @@ public record GeneratedRecipe(
         RiskLevel riskLevel,
         List<SafetyWarning> warnings,
         RecipeStatus status,
+        UUID originalRecipeId,
+        UUID parentRecipeId,
+        int version,
+        String refinementFeedback,
         Instant createdAt
 ) {
     public record RecipeIngredient(
@@ -0,0 +1,5 @@
+package com.pawfectbite.server.recipes.domain;
+
+public enum GenerationStage {
+    RETRIEVING_KNOWLEDGE, WRITING, VALIDATING, SAVING
+}
@@ -11,5 +11,14 @@ public record RecipePlan(
         List<String> approvedIngredients,
         List<String> excludedIngredients,
         SafetyResult safetyResult,
-        List<String> knowledgeContext
-) {}
+        List<String> knowledgeContext,
+        RecipeRefinement refinement,
+        RecipeVariation variation
+) {
+    public RecipePlan withVariation(RecipeVariation variation) {
+        return new RecipePlan(
+                pet, goal, approvedIngredients, excludedIngredients,
+                safetyResult, knowledgeContext, refinement, variation
+        );
+    }
+}
@@ -0,0 +1,10 @@
+package com.pawfectbite.server.recipes.domain;
+
+/**
+ * Context for regenerating an existing recipe: the version being refined and
+ * the owner's free-text feedback on it.
+ */
+public record RecipeRefinement(
+        GeneratedRecipe previousRecipe,
+        String feedback
+) {}
@@ -0,0 +1,23 @@
+package com.pawfectbite.server.recipes.domain;
+
+import com.pawfectbite.server.safety.domain.RiskLevel;
+
+import java.time.LocalDate;
+import java.util.List;
+import java.util.UUID;
+
+/**
+ * Filters for the recipe search. Null or empty fields are ignored; the date
+ * range is inclusive and interpreted in UTC.
+ */
+public record RecipeSearchCriteria(
+        UUID userId,
+        UUID petId,
+        String query,
+        List<RiskLevel> riskLevels,
+        List<RecipeStatus> statuses,
+        Integer minCalories,
+        Integer maxCalories,
+        LocalDate createdFrom,
+        LocalDate createdTo
+) {}
@@ -0,0 +1,9 @@
+package com.pawfectbite.server.recipes.domain;
+
+public enum RecipeSort {
+    NEWEST,
+    OLDEST,
+    TITLE,
+    CALORIES_LOW,
+    CALORIES_HIGH
+}
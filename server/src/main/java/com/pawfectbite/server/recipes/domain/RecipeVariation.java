@@ -0,0 +1,13 @@
+package com.pawfectbite.server.recipes.domain;
+
+import java.util.List;
+
+/**
+ * Context for one of several variants written from the same request: its position and
+ * the variants already written, which it should differ from.
+ */
+public record RecipeVariation(
+        int variantNumber,
+        int variantCount,
+        List<GeneratedRecipe> earlierVariants
+) {}
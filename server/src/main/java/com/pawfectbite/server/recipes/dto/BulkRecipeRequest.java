@@ -0,0 +1,13 @@
+package com.pawfectbite.server.recipes.dto;
+
+import jakarta.validation.constraints.NotEmpty;
+import jakarta.validation.constraints.Size;
+
+import java.util.List;
+import java.util.UUID;
+
+public record BulkRecipeRequest(
+        @NotEmpty(message = "Select at least one recipe")
+        @Size(max = 100)
+        List<UUID> recipeIds
+) {}
@@ -0,0 +1,5 @@
+package com.pawfectbite.server.recipes.dto;
+
+import com.pawfectbite.server.recipes.domain.GenerationStage;
+
+public record GenerationStageEvent(GenerationStage stage) {}
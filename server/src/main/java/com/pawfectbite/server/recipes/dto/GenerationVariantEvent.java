@@ -0,0 +1,3 @@
+package com.pawfectbite.server.recipes.dto;
+
+public record GenerationVariantEvent(int variantNumber, int variantCount) {}
@@ -0,0 +1,17 @@
+package com.pawfectbite.server.recipes.dto;
+
+import jakarta.validation.constraints.NotEmpty;
+import jakarta.validation.constraints.NotNull;
+import jakarta.validation.constraints.Size;
+
+import java.util.List;
+import java.util.UUID;
+
+public record IngredientPrecheckRequest(
+        @NotNull(message = "Pet ID is required")
+        UUID petId,
+
+        @NotEmpty(message = "At least one ingredient is required")
+        @Size(max = 30, message = "At most 30 ingredients can be checked at once")
+        List<String> ingredients
+) {}
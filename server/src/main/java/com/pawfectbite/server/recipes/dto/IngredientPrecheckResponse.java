@@ -0,0 +1,17 @@
+package com.pawfectbite.server.recipes.dto;
+
+import com.pawfectbite.server.safety.domain.RiskLevel;
+import com.pawfectbite.server.safety.domain.SafetyResult;
+
+import java.util.List;
+
+public record IngredientPrecheckResponse(
+        String ingredient,
+        RiskLevel riskLevel,
+        List<RecipePrecheckResponse.WarningDto> warnings
+) {
+    public static IngredientPrecheckResponse from(String ingredient, SafetyResult result) {
+        RecipePrecheckResponse precheck = RecipePrecheckResponse.from(result);
+        return new IngredientPrecheckResponse(ingredient, precheck.riskLevel(), precheck.warnings());
+    }
+}
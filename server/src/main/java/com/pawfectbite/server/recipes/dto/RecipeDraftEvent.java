@@ -0,0 +1,19 @@
+package com.pawfectbite.server.recipes.dto;
+
+import com.pawfectbite.server.ai.domain.RecipeDraft;
+
+import java.util.List;
+
+public record RecipeDraftEvent(
+        String title,
+        List<RecipeResponse.IngredientDto> ingredients
+) {
+    public static RecipeDraftEvent from(RecipeDraft draft) {
+        return new RecipeDraftEvent(
+                draft.title(),
+                draft.ingredients().stream()
+                        .map(i -> new RecipeResponse.IngredientDto(i.name(), i.amount(), i.unit(), i.notes()))
+                        .toList()
+        );
+    }
+}
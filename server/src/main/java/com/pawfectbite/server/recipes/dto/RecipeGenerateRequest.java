@@ -5,9 +5,18 @@ import jakarta.validation.constraints.*;
 import java.util.List;
 import java.util.UUID;
 
+/**
+ * {@code variantCount} asks for several alternative recipes from the same request; only
+ * the streaming endpoint honours it, {@code /generate} always writes one.
+ */
 public record RecipeGenerateRequest(
         @NotNull UUID petId,
         @NotBlank String goal,
         List<String> ingredientsToInclude,
-        List<String> ingredientsToExclude
-) {}
+        List<String> ingredientsToExclude,
+        @Min(1) @Max(4) Integer variantCount
+) {
+    public int variantCountOrDefault() {
+        return variantCount != null ? variantCount : 1;
+    }
+}
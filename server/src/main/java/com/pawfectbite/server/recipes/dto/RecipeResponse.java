@@ -24,6 +24,10 @@ public record RecipeResponse(
         RiskLevel riskLevel,
         List<WarningDto> warnings,
         RecipeStatus status,
+        UUID originalRecipeId,
+        UUID parentRecipeId,
+        int version,
+        String refinementFeedback,
         Instant createdAt
 ) {
     public record IngredientDto(String name, String amount, String unit, String notes) {}
@@ -37,7 +41,8 @@ public record RecipeResponse(
                 r.shoppingList(), r.storageGuidance(), r.cautionNotes(),
                 r.riskLevel(),
                 r.warnings().stream().map(w -> new WarningDto(w.ruleType(), w.message(), w.severity())).toList(),
-                r.status(), r.createdAt()
+                r.status(), r.originalRecipeId(), r.parentRecipeId(),
+                r.version(), r.refinementFeedback(), r.createdAt()
         );
     }
 }
@@ -0,0 +1,64 @@
+package com.pawfectbite.server.recipes.dto;
+
+import com.pawfectbite.server.recipes.domain.RecipeSearchCriteria;
+import com.pawfectbite.server.recipes.domain.RecipeSort;
+import com.pawfectbite.server.recipes.domain.RecipeStatus;
+import com.pawfectbite.server.safety.domain.RiskLevel;
+import jakarta.validation.constraints.Max;
+import jakarta.validation.constraints.Min;
+import jakarta.validation.constraints.Size;
+import org.springframework.format.annotation.DateTimeFormat;
+
+import java.time.LocalDate;
+import java.util.List;
+import java.util.UUID;
+
+public record RecipeSearchRequest(
+        @Size(max = 200)
+        String q,
+
+        UUID petId,
+        List<RiskLevel> riskLevel,
+        List<RecipeStatus> status,
+
+        @Min(0)
+        Integer minCalories,
+
+        @Min(0)
+        Integer maxCalories,
+
+        @DateTimeFormat(iso = DateTimeFormat.ISO.DATE)
+        LocalDate createdFrom,
+
+        @DateTimeFormat(iso = DateTimeFormat.ISO.DATE)
+        LocalDate createdTo,
+
+        RecipeSort sort,
+
+        @Min(0)
+        Integer page,
+
+        @Min(1) @Max(100)
+        Integer size
+) {
+    public static final int DEFAULT_PAGE_SIZE = 12;
+
+    public RecipeSearchCriteria toCriteria(UUID userId) {
+        return new RecipeSearchCriteria(
+                userId, petId, q, riskLevel, status,
+                minCalories, maxCalories, createdFrom, createdTo
+        );
+    }
+
+    public RecipeSort sortOrDefault() {
+        return sort != null ? sort : RecipeSort.NEWEST;
+    }
+
+    public int pageOrDefault() {
+        return page != null ? page : 0;
+    }
+
+    public int sizeOrDefault() {
+        return size != null ? size : DEFAULT_PAGE_SIZE;
+    }
+}
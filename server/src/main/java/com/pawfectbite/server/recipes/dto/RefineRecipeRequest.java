@@ -0,0 +1,10 @@
+package com.pawfectbite.server.recipes.dto;
+
+import jakarta.validation.constraints.NotBlank;
+import jakarta.validation.constraints.Size;
+
+public record RefineRecipeRequest(
+        @NotBlank(message = "Feedback is required")
+        @Size(max = 1000)
+        String feedback
+) {}
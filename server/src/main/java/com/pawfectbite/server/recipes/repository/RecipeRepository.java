@@ -1,7 +1,10 @@
 package com.pawfectbite.server.recipes.repository;
 
 import com.pawfectbite.server.recipes.domain.GeneratedRecipe;
+import com.pawfectbite.server.recipes.domain.RecipeSearchCriteria;
+import com.pawfectbite.server.recipes.domain.RecipeSort;
 import com.pawfectbite.server.recipes.domain.RecipeStatus;
+import org.springframework.data.domain.Page;
 
 import java.util.List;
 import java.util.Optional;
@@ -12,6 +15,9 @@ public interface RecipeRepository {
     Optional<GeneratedRecipe> findById(UUID id);
     List<GeneratedRecipe> findByUserId(UUID userId);
     List<GeneratedRecipe> findByUserIdAndPetId(UUID userId, UUID petId);
+    List<GeneratedRecipe> findVersions(UUID originalRecipeId);
+    Page<GeneratedRecipe> search(RecipeSearchCriteria criteria, RecipeSort sort, int page, int size);
     GeneratedRecipe updateStatus(UUID id, RecipeStatus status);
+    GeneratedRecipe unarchive(UUID id);
     void delete(UUID id);
 }
@@ -5,11 +5,18 @@ import com.fasterxml.jackson.databind.ObjectMapper;
 import com.pawfectbite.server.common.exception.ResourceNotFoundException;
 import com.pawfectbite.server.recipes.database.JpaRecipeRepository;
 import com.pawfectbite.server.recipes.database.RecipeEntity;
+import com.pawfectbite.server.recipes.database.RecipeSpecifications;
 import com.pawfectbite.server.recipes.domain.GeneratedRecipe;
+import com.pawfectbite.server.recipes.domain.RecipeSearchCriteria;
+import com.pawfectbite.server.recipes.domain.RecipeSort;
 import com.pawfectbite.server.recipes.domain.RecipeStatus;
 import com.pawfectbite.server.safety.domain.SafetyWarning;
+import org.springframework.data.domain.Page;
+import org.springframework.data.domain.PageRequest;
+import org.springframework.data.domain.Sort;
 import org.springframework.stereotype.Repository;
 
+import java.util.ArrayList;
 import java.util.List;
 import java.util.Optional;
 import java.util.UUID;
@@ -43,6 +50,10 @@ public class RecipeRepositoryImpl implements RecipeRepository {
         entity.setRiskLevel(recipe.riskLevel());
         entity.setWarningsJson(toJson(recipe.warnings()));
         entity.setStatus(recipe.status());
+        entity.setOriginalRecipeId(recipe.originalRecipeId());
+        entity.setParentRecipeId(recipe.parentRecipeId());
+        entity.setVersion(recipe.version());
+        entity.setRefinementFeedback(recipe.refinementFeedback());
         RecipeEntity saved = jpa.save(entity);
         return toDomain(saved, recipe.petName());
     }
@@ -66,14 +77,43 @@ public class RecipeRepositoryImpl implements RecipeRepository {
                 .toList();
     }
 
+    /** The original recipe followed by every refinement of it, oldest version first. */
+    @Override
+    public List<GeneratedRecipe> findVersions(UUID originalRecipeId) {
+        List<GeneratedRecipe> versions = new ArrayList<>();
+        jpa.findById(originalRecipeId).ifPresent(e -> versions.add(toDomain(e, "")));
+        jpa.findByOriginalRecipeIdOrderByVersion(originalRecipeId).forEach(e -> versions.add(toDomain(e, "")));
+        return versions;
+    }
+
+    @Override
+    public Page<GeneratedRecipe> search(RecipeSearchCriteria criteria, RecipeSort sort, int page, int size) {
+        return jpa.findAll(RecipeSpecifications.matching(criteria), PageRequest.of(page, size, toSort(sort)))
+                .map(e -> toDomain(e, ""));
+    }
+
     @Override
     public GeneratedRecipe updateStatus(UUID id, RecipeStatus status) {
         RecipeEntity entity = jpa.findById(id)
                 .orElseThrow(() -> new ResourceNotFoundException("Recipe", id));
+        if (status == RecipeStatus.ARCHIVED && entity.getStatus() != RecipeStatus.ARCHIVED) {
+            entity.setStatusBeforeArchive(entity.getStatus());
+        } else if (status != RecipeStatus.ARCHIVED) {
+            entity.setStatusBeforeArchive(null);
+        }
         entity.setStatus(status);
         return toDomain(jpa.save(entity), "");
     }
 
+    /** Puts an archived recipe back to the status it had before; ones archived before that was recorded become saved. */
+    @Override
+    public GeneratedRecipe unarchive(UUID id) {
+        RecipeEntity entity = jpa.findById(id)
+                .orElseThrow(() -> new ResourceNotFoundException("Recipe", id));
+        RecipeStatus previous = entity.getStatusBeforeArchive();
+        return updateStatus(id, previous != null ? previous : RecipeStatus.SAVED);
+    }
+
     @Override
     public void delete(UUID id) {
         jpa.deleteById(id);
@@ -91,10 +131,22 @@ public class RecipeRepositoryImpl implements RecipeRepository {
                 fromJson(e.getCautionNotesJson(), new TypeReference<>() {}),
                 e.getRiskLevel(),
                 fromJson(e.getWarningsJson(), new TypeReference<>() {}),
-                e.getStatus(), e.getCreatedAt()
+                e.getStatus(), e.getOriginalRecipeId(), e.getParentRecipeId(),
+                e.getVersion(), e.getRefinementFeedback(), e.getCreatedAt()
         );
     }
 
+    private Sort toSort(RecipeSort sort) {
+        Sort newestFirst = Sort.by(Sort.Direction.DESC, "createdAt");
+        return switch (sort) {
+            case NEWEST -> newestFirst;
+            case OLDEST -> Sort.by(Sort.Direction.ASC, "createdAt");
+            case TITLE -> Sort.by(Sort.Direction.ASC, "title").and(newestFirst);
+            case CALORIES_LOW -> Sort.by(Sort.Direction.ASC, "estimatedCalories").and(newestFirst);
+            case CALORIES_HIGH -> Sort.by(Sort.Direction.DESC, "estimatedCalories").and(newestFirst);
+        };
+    }
+
     private String toJson(Object obj) {
         try { return objectMapper.writeValueAsString(obj); }
         catch (Exception e) { return "[]"; }
@@ -2,8 +2,10 @@ package com.pawfectbite.server.recipes.repository;
 
 import com.pawfectbite.server.recipes.domain.RecipeRequest;
 
+import java.util.Optional;
 import java.util.UUID;
 
 public interface RecipeRequestRepository {
     RecipeRequest save(RecipeRequest request);
+    Optional<RecipeRequest> findById(UUID id);
 }
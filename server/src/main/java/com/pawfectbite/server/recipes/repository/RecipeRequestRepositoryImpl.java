@@ -8,6 +8,7 @@ import com.pawfectbite.server.safety.domain.SafetyWarning;
 import org.springframework.stereotype.Repository;
 
 import java.util.List;
+import java.util.Optional;
 import java.util.UUID;
 
 @Repository
@@ -36,6 +37,11 @@ public class RecipeRequestRepositoryImpl implements RecipeRequestRepository {
         return toDomain(saved);
     }
 
+    @Override
+    public Optional<RecipeRequest> findById(UUID id) {
+        return jpa.findById(id).map(this::toDomain);
+    }
+
     private RecipeRequest toDomain(RecipeRequestEntity e) {
         return new RecipeRequest(
                 e.getId(),
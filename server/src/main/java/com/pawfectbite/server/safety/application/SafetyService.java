@@ -8,6 +8,7 @@ import org.slf4j.LoggerFactory;
 import org.springframework.stereotype.Service;
 
 import java.util.List;
+import java.util.Map;
 
 @Service
 public class SafetyService {
@@ -33,4 +34,15 @@ public class SafetyService {
 
         return result;
     }
+
+    /** Per-ingredient results for live hints while a request is being put together; not a gate. */
+    public Map<String, SafetyResult> evaluateEach(Pet pet, List<String> ingredients) {
+        Map<String, SafetyResult> results = evaluator.evaluateEach(pet, ingredients);
+
+        log.debug("Ingredient safety hints for pet={}: {}", pet.name(), results.entrySet().stream()
+                .map(e -> e.getKey() + "=" + e.getValue().riskLevel())
+                .toList());
+
+        return results;
+    }
 }
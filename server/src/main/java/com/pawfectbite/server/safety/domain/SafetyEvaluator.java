@@ -4,7 +4,9 @@ import com.pawfectbite.server.pets.domain.Pet;
 import org.springframework.stereotype.Component;
 
 import java.util.ArrayList;
+import java.util.LinkedHashMap;
 import java.util.List;
+import java.util.Map;
 
 @Component
 public class SafetyEvaluator {
@@ -16,17 +18,40 @@ public class SafetyEvaluator {
     }
 
     public SafetyResult evaluate(Pet pet, List<String> requestedIngredients) {
-        List<SafetyWarning> allWarnings = new ArrayList<>();
-        RiskLevel highestRisk = RiskLevel.GREEN;
+        return resultOf(collectWarnings(pet, requestedIngredients));
+    }
+
+    /**
+     * Evaluates each ingredient on its own, keeping only the warnings that ingredient causes.
+     * Warnings about the pet itself (life stage, medical conditions) are raised with no
+     * ingredients at all, so they are left out rather than repeated for every ingredient.
+     */
+    public Map<String, SafetyResult> evaluateEach(Pet pet, List<String> ingredients) {
+        List<SafetyWarning> petWarnings = collectWarnings(pet, List.of());
+        Map<String, SafetyResult> results = new LinkedHashMap<>();
+
+        for (String ingredient : ingredients) {
+            List<SafetyWarning> warnings = collectWarnings(pet, List.of(ingredient)).stream()
+                    .filter(w -> !petWarnings.contains(w))
+                    .toList();
+            results.put(ingredient, resultOf(warnings));
+        }
+        return results;
+    }
 
+    private List<SafetyWarning> collectWarnings(Pet pet, List<String> requestedIngredients) {
+        List<SafetyWarning> allWarnings = new ArrayList<>();
         for (SafetyRule rule : rules) {
-            List<SafetyWarning> warnings = rule.evaluate(pet, requestedIngredients);
-            allWarnings.addAll(warnings);
-            for (SafetyWarning w : warnings) {
-                highestRisk = highestRisk.escalate(w.severity());
-            }
+            allWarnings.addAll(rule.evaluate(pet, requestedIngredients));
         }
+        return allWarnings;
+    }
 
-        return SafetyResult.of(highestRisk, allWarnings);
+    private static SafetyResult resultOf(List<SafetyWarning> warnings) {
+        RiskLevel highestRisk = RiskLevel.GREEN;
+        for (SafetyWarning w : warnings) {
+            highestRisk = highestRisk.escalate(w.severity());
+        }
+        return SafetyResult.of(highestRisk, warnings);
     }
 }
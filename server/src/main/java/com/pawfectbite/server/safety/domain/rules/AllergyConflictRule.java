@@ -1,5 +1,7 @@
 package com.pawfectbite.server.safety.domain.rules;
 
+import com.pawfectbite.server.pets.domain.Allergen;
+import com.pawfectbite.server.pets.domain.HealthTerm;
 import com.pawfectbite.server.pets.domain.Pet;
 import com.pawfectbite.server.safety.domain.RiskLevel;
 import com.pawfectbite.server.safety.domain.SafetyRule;
@@ -7,9 +9,10 @@ import com.pawfectbite.server.safety.domain.SafetyWarning;
 import org.springframework.stereotype.Component;
 
 import java.util.ArrayList;
+import java.util.HashSet;
 import java.util.List;
+import java.util.Optional;
 import java.util.Set;
-import java.util.stream.Collectors;
 
 @Component
 public class AllergyConflictRule implements SafetyRule {
@@ -18,14 +21,27 @@ public class AllergyConflictRule implements SafetyRule {
     public List<SafetyWarning> evaluate(Pet pet, List<String> requestedIngredients) {
         if (pet.allergies().isEmpty()) return List.of();
 
-        Set<String> allergySet = pet.allergies().stream()
-                .map(a -> a.trim().toLowerCase())
-                .collect(Collectors.toSet());
+        List<Allergen> allergens = new ArrayList<>();
+        // Typed-in allergies that match no allergen group can still block the exact ingredient
+        Set<String> unmatched = new HashSet<>();
+        for (String value : pet.allergies()) {
+            HealthTerm.resolve(Allergen.values(), value)
+                    .ifPresentOrElse(allergens::add, () -> unmatched.add(value.trim().toLowerCase()));
+        }
 
         List<SafetyWarning> warnings = new ArrayList<>();
         for (String ingredient : requestedIngredients) {
-            String normalized = ingredient.trim().toLowerCase();
-            if (allergySet.contains(normalized)) {
+            Optional<Allergen> allergen = allergens.stream()
+                    .filter(a -> a.isPresentIn(ingredient))
+                    .findFirst();
+            if (allergen.isPresent()) {
+                warnings.add(new SafetyWarning(
+                        "ALLERGY_CONFLICT",
+                        "'" + ingredient + "' contains " + allergen.get().label().toLowerCase()
+                                + ", which conflicts with " + pet.name() + "'s known allergy",
+                        RiskLevel.BLOCKED
+                ));
+            } else if (unmatched.contains(ingredient.trim().toLowerCase())) {
                 warnings.add(new SafetyWarning(
                         "ALLERGY_CONFLICT",
                         "'" + ingredient + "' conflicts with " + pet.name() + "'s known allergy",
@@ -1,5 +1,7 @@
 package com.pawfectbite.server.safety.domain.rules;
 
+import com.pawfectbite.server.pets.domain.HealthTerm;
+import com.pawfectbite.server.pets.domain.MedicalCondition;
 import com.pawfectbite.server.pets.domain.Pet;
 import com.pawfectbite.server.safety.domain.RiskLevel;
 import com.pawfectbite.server.safety.domain.SafetyRule;
@@ -7,41 +9,48 @@ import com.pawfectbite.server.safety.domain.SafetyWarning;
 import org.springframework.stereotype.Component;
 
 import java.util.ArrayList;
+import java.util.EnumSet;
 import java.util.List;
+import java.util.Optional;
 import java.util.Set;
 
 @Component
 public class MedicalConditionRule implements SafetyRule {
 
-    private static final Set<String> HIGH_RISK_CONDITIONS = Set.of(
-            "kidney disease", "renal failure", "chronic kidney disease",
-            "liver disease", "hepatic disease", "diabetes",
-            "pancreatitis", "cancer", "heart disease",
-            "epilepsy", "cushing's disease"
+    private static final Set<MedicalCondition> HIGH_RISK_CONDITIONS = EnumSet.of(
+            MedicalCondition.CKD, MedicalCondition.LIVER_DISEASE, MedicalCondition.HEPATIC_LIPIDOSIS,
+            MedicalCondition.DIABETES, MedicalCondition.PANCREATITIS,
+            MedicalCondition.EXOCRINE_PANCREATIC_INSUFFICIENCY, MedicalCondition.CANCER,
+            MedicalCondition.HEART_DISEASE, MedicalCondition.EPILEPSY,
+            MedicalCondition.CUSHINGS_DISEASE, MedicalCondition.ADDISONS_DISEASE
     );
 
-    private static final Set<String> MODERATE_RISK_CONDITIONS = Set.of(
-            "obesity", "arthritis", "ibd", "inflammatory bowel disease",
-            "urinary crystals", "hypothyroidism", "hyperthyroidism",
-            "food intolerance", "skin allergies"
+    private static final Set<MedicalCondition> MODERATE_RISK_CONDITIONS = EnumSet.of(
+            MedicalCondition.OBESITY, MedicalCondition.ARTHRITIS, MedicalCondition.INFLAMMATORY_BOWEL_DISEASE,
+            MedicalCondition.URINARY_STONES, MedicalCondition.HYPOTHYROIDISM, MedicalCondition.HYPERTHYROIDISM,
+            MedicalCondition.FOOD_INTOLERANCE, MedicalCondition.SKIN_ALLERGIES
     );
 
     @Override
     public List<SafetyWarning> evaluate(Pet pet, List<String> requestedIngredients) {
         List<SafetyWarning> warnings = new ArrayList<>();
 
-        for (String condition : pet.medicalConditions()) {
-            String normalized = condition.trim().toLowerCase();
-            if (HIGH_RISK_CONDITIONS.contains(normalized)) {
+        for (String value : pet.medicalConditions()) {
+            // Codes resolve directly; older profiles may still hold the condition as typed
+            Optional<MedicalCondition> condition = HealthTerm.resolve(MedicalCondition.values(), value);
+            if (condition.isEmpty()) continue;
+
+            String label = condition.get().label();
+            if (HIGH_RISK_CONDITIONS.contains(condition.get())) {
                 warnings.add(new SafetyWarning(
                         "MEDICAL_CONDITION",
-                        pet.name() + " has '" + condition + "'. This requires veterinary-supervised dietary planning",
+                        pet.name() + " has '" + label + "'. This requires veterinary-supervised dietary planning",
                         RiskLevel.RED
                 ));
-            } else if (MODERATE_RISK_CONDITIONS.contains(normalized)) {
+            } else if (MODERATE_RISK_CONDITIONS.contains(condition.get())) {
                 warnings.add(new SafetyWarning(
                         "MEDICAL_CONDITION",
-                        pet.name() + " has '" + condition + "'. Recipe will be adjusted with extra caution",
+                        pet.name() + " has '" + label + "'. Recipe will be adjusted with extra caution",
                         RiskLevel.AMBER
                 ));
             }
@@ -13,7 +13,7 @@ import java.util.Set;
 @Component
 public class ToxicIngredientRule implements SafetyRule {
 
-    private static final Set<String> TOXIC_INGREDIENTS = Set.of(
+    public static final Set<String> TOXIC_INGREDIENTS = Set.of(
             "chocolate", "xylitol", "grapes", "raisins", "onion", "onions",
             "garlic", "alcohol", "caffeine", "coffee", "cooked bones",
             "macadamia nuts", "macadamia", "avocado pit", "nutmeg",
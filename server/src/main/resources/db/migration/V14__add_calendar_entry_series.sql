@@ -0,0 +1,3 @@
+ALTER TABLE calendar_entries ADD COLUMN series_id UUID;
+
+CREATE INDEX idx_calendar_entries_series ON calendar_entries(series_id);
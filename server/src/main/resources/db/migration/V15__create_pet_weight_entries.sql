@@ -0,0 +1,14 @@
+CREATE TABLE pet_weight_entries (
+    id           UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    pet_id       UUID         NOT NULL REFERENCES pets(id) ON DELETE CASCADE,
+    weight_kg    DECIMAL(6,2) NOT NULL,
+    recorded_on  DATE         NOT NULL,
+    note         VARCHAR(500),
+    created_at   TIMESTAMPTZ  NOT NULL DEFAULT now(),
+    updated_at   TIMESTAMPTZ  NOT NULL DEFAULT now(),
+    UNIQUE (pet_id, recorded_on)
+);
+
+-- Seed each pet's history with the weight currently on its profile
+INSERT INTO pet_weight_entries (pet_id, weight_kg, recorded_on)
+SELECT id, weight_kg, updated_at::date FROM pets;
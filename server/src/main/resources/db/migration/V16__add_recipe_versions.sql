@@ -0,0 +1,6 @@
+ALTER TABLE recipes ADD COLUMN original_recipe_id UUID REFERENCES recipes(id) ON DELETE SET NULL;
+ALTER TABLE recipes ADD COLUMN parent_recipe_id UUID REFERENCES recipes(id) ON DELETE SET NULL;
+ALTER TABLE recipes ADD COLUMN version INT NOT NULL DEFAULT 1;
+ALTER TABLE recipes ADD COLUMN refinement_feedback TEXT;
+
+CREATE INDEX idx_recipes_original_recipe_id ON recipes(original_recipe_id);
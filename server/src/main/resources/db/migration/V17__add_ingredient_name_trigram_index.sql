@@ -0,0 +1,4 @@
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX idx_ingredient_knowledge_name_trgm ON ingredient_knowledge
+    USING gin (name gin_trgm_ops);
@@ -0,0 +1,17 @@
+CREATE TABLE pet_photos (
+    id          UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    pet_id      UUID          NOT NULL REFERENCES pets(id) ON DELETE CASCADE,
+    url         VARCHAR(1000) NOT NULL,
+    public_id   VARCHAR(255)  NOT NULL,
+    caption     VARCHAR(300),
+    taken_on    DATE,
+    position    INTEGER       NOT NULL,
+    created_at  TIMESTAMPTZ   NOT NULL DEFAULT now(),
+    updated_at  TIMESTAMPTZ   NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_pet_photos_pet_id ON pet_photos (pet_id, position);
+
+-- Each pet's existing photo becomes the first in its gallery; pets.photo_url stays as the avatar
+INSERT INTO pet_photos (pet_id, url, public_id, taken_on, position)
+SELECT id, photo_url, 'pet-' || id, updated_at::date, 0 FROM pets WHERE photo_url IS NOT NULL;
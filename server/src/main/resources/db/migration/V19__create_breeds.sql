@@ -0,0 +1,74 @@
+CREATE TABLE breeds (
+    id                      UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    species                 VARCHAR(10)  NOT NULL CHECK (species IN ('DOG', 'CAT')),
+    name                    VARCHAR(100) NOT NULL,
+    size_class              VARCHAR(10)  NOT NULL CHECK (size_class IN ('TOY', 'SMALL', 'MEDIUM', 'LARGE', 'GIANT')),
+    min_weight_kg           DECIMAL(6,2) NOT NULL,
+    max_weight_kg           DECIMAL(6,2) NOT NULL,
+    dietary_sensitivities   TEXT[]       NOT NULL DEFAULT '{}',
+    created_at              TIMESTAMPTZ  NOT NULL DEFAULT now(),
+    updated_at              TIMESTAMPTZ  NOT NULL DEFAULT now(),
+    UNIQUE (species, name),
+    CHECK (min_weight_kg <= max_weight_kg)
+);
+
+-- Typical healthy adult weights across both sexes
+INSERT INTO breeds (species, name, size_class, min_weight_kg, max_weight_kg, dietary_sensitivities) VALUES
+('DOG', 'Australian Shepherd', 'MEDIUM', 16, 32, ARRAY['ivermectin-sensitive (MDR1), check supplements and medications']),
+('DOG', 'Beagle', 'MEDIUM', 9, 14, ARRAY['prone to obesity; measure portions and treats']),
+('DOG', 'Bedlington Terrier', 'SMALL', 7.5, 10, ARRAY['copper storage hepatopathy; avoid copper-rich foods such as liver and shellfish']),
+('DOG', 'Bernese Mountain Dog', 'GIANT', 35, 55, ARRAY['bloat (gastric dilatation-volvulus); feed smaller, more frequent meals', 'large-breed puppies need controlled calcium and energy for steady growth']),
+('DOG', 'Bichon Frise', 'SMALL', 5, 8, ARRAY['bladder stones; encourage water intake', 'food allergies affecting the skin']),
+('DOG', 'Border Collie', 'MEDIUM', 12, 20, ARRAY['high energy needs when working']),
+('DOG', 'Boston Terrier', 'SMALL', 5, 11, ARRAY['sensitive stomach and flatulence; change diets gradually']),
+('DOG', 'Boxer', 'LARGE', 25, 32, ARRAY['colitis; favour highly digestible proteins', 'dilated cardiomyopathy; ensure adequate taurine and L-carnitine']),
+('DOG', 'Bulldog', 'MEDIUM', 18, 25, ARRAY['food allergies affecting the skin', 'excess weight worsens breathing problems']),
+('DOG', 'Cavalier King Charles Spaniel', 'SMALL', 5.5, 8, ARRAY['mitral valve disease; keep sodium moderate', 'prone to obesity']),
+('DOG', 'Chihuahua', 'TOY', 1.5, 3, ARRAY['hypoglycaemia; feed small meals often', 'prone to obesity']),
+('DOG', 'Cocker Spaniel', 'MEDIUM', 12, 15.5, ARRAY['dilated cardiomyopathy linked to low taurine', 'food allergies affecting the skin and ears']),
+('DOG', 'Dachshund', 'SMALL', 7, 15, ARRAY['excess weight strains the spine (intervertebral disc disease)']),
+('DOG', 'Dalmatian', 'LARGE', 20, 32, ARRAY['urate bladder stones; keep purines low (avoid organ meats, sardines)']),
+('DOG', 'Doberman Pinscher', 'LARGE', 27, 45, ARRAY['dilated cardiomyopathy', 'copper-associated hepatitis; avoid copper-rich foods']),
+('DOG', 'English Springer Spaniel', 'MEDIUM', 18, 25, ARRAY['prone to obesity']),
+('DOG', 'French Bulldog', 'SMALL', 8, 14, ARRAY['food allergies affecting the skin', 'flatulence; change diets gradually', 'excess weight worsens breathing problems']),
+('DOG', 'German Shepherd', 'LARGE', 22, 40, ARRAY['exocrine pancreatic insufficiency', 'sensitive stomach; favour highly digestible diets', 'large-breed puppies need controlled calcium and energy for steady growth']),
+('DOG', 'Golden Retriever', 'LARGE', 25, 34, ARRAY['dilated cardiomyopathy linked to low taurine; avoid unbalanced grain-free diets', 'food allergies affecting the skin']),
+('DOG', 'Great Dane', 'GIANT', 45, 80, ARRAY['bloat (gastric dilatation-volvulus); feed smaller, more frequent meals', 'dilated cardiomyopathy', 'large-breed puppies need controlled calcium and energy for steady growth']),
+('DOG', 'Irish Setter', 'LARGE', 24, 32, ARRAY['gluten-sensitive enteropathy; avoid wheat', 'bloat (gastric dilatation-volvulus)']),
+('DOG', 'Jack Russell Terrier', 'SMALL', 6, 8, ARRAY[]::TEXT[]),
+('DOG', 'Labrador Retriever', 'LARGE', 25, 36, ARRAY['prone to obesity and constant hunger; measure portions and treats', 'joint health; keep lean']),
+('DOG', 'Maltese', 'TOY', 2, 4, ARRAY['hypoglycaemia in puppies; feed small meals often']),
+('DOG', 'Miniature Poodle', 'SMALL', 5, 8, ARRAY['pancreatitis; avoid fatty foods']),
+('DOG', 'Miniature Schnauzer', 'SMALL', 5, 9, ARRAY['hyperlipidaemia and pancreatitis; keep fat low', 'calcium oxalate bladder stones']),
+('DOG', 'Newfoundland', 'GIANT', 45, 70, ARRAY['dilated cardiomyopathy linked to low taurine', 'cystine bladder stones']),
+('DOG', 'Pembroke Welsh Corgi', 'MEDIUM', 10, 14, ARRAY['prone to obesity; excess weight strains the spine']),
+('DOG', 'Pomeranian', 'TOY', 1.5, 3.5, ARRAY['hypoglycaemia; feed small meals often']),
+('DOG', 'Pug', 'SMALL', 6, 8, ARRAY['prone to obesity', 'excess weight worsens breathing problems']),
+('DOG', 'Rottweiler', 'LARGE', 35, 60, ARRAY['prone to obesity', 'large-breed puppies need controlled calcium and energy for steady growth']),
+('DOG', 'Saint Bernard', 'GIANT', 54, 82, ARRAY['bloat (gastric dilatation-volvulus); feed smaller, more frequent meals', 'large-breed puppies need controlled calcium and energy for steady growth']),
+('DOG', 'Shetland Sheepdog', 'SMALL', 6, 12, ARRAY['hyperlipidaemia; keep fat low', 'prone to obesity']),
+('DOG', 'Shih Tzu', 'SMALL', 4, 7.5, ARRAY['bladder stones; encourage water intake', 'food allergies affecting the skin']),
+('DOG', 'Siberian Husky', 'MEDIUM', 16, 27, ARRAY['zinc-responsive dermatosis; ensure adequate zinc']),
+('DOG', 'Standard Poodle', 'LARGE', 18, 32, ARRAY['bloat (gastric dilatation-volvulus); feed smaller, more frequent meals']),
+('DOG', 'Toy Poodle', 'TOY', 2, 4, ARRAY['hypoglycaemia; feed small meals often']),
+('DOG', 'West Highland White Terrier', 'SMALL', 7, 10, ARRAY['food allergies affecting the skin', 'copper-associated liver disease']),
+('DOG', 'Yorkshire Terrier', 'TOY', 2, 3.5, ARRAY['hypoglycaemia; feed small meals often', 'dental disease; include some texture in the diet', 'portosystemic shunt; protein needs veterinary guidance if diagnosed']),
+
+('CAT', 'Abyssinian', 'SMALL', 3, 4.5, ARRAY['renal amyloidosis; monitor kidney values']),
+('CAT', 'Bengal', 'MEDIUM', 3.5, 7, ARRAY['sensitive stomach and inflammatory bowel disease; change diets gradually']),
+('CAT', 'British Shorthair', 'LARGE', 4, 8, ARRAY['prone to obesity', 'hypertrophic cardiomyopathy']),
+('CAT', 'Burmese', 'MEDIUM', 3.5, 5.5, ARRAY['prone to diabetes; keep carbohydrates low', 'calcium oxalate bladder stones']),
+('CAT', 'Devon Rex', 'SMALL', 2.5, 4.5, ARRAY[]::TEXT[]),
+('CAT', 'Domestic Longhair', 'MEDIUM', 3.5, 5.5, ARRAY['hairballs; fibre can help']),
+('CAT', 'Domestic Shorthair', 'MEDIUM', 3.5, 5.5, ARRAY['indoor cats are prone to obesity']),
+('CAT', 'Exotic Shorthair', 'MEDIUM', 3, 6, ARRAY['polycystic kidney disease; keep phosphorus moderate']),
+('CAT', 'Himalayan', 'MEDIUM', 3.5, 5.5, ARRAY['polycystic kidney disease; keep phosphorus moderate', 'calcium oxalate bladder stones']),
+('CAT', 'Maine Coon', 'LARGE', 5.5, 11, ARRAY['hypertrophic cardiomyopathy; ensure adequate taurine', 'prone to obesity']),
+('CAT', 'Norwegian Forest Cat', 'LARGE', 4, 9, ARRAY['prone to obesity']),
+('CAT', 'Oriental Shorthair', 'MEDIUM', 3.5, 5, ARRAY[]::TEXT[]),
+('CAT', 'Persian', 'MEDIUM', 3.5, 5.5, ARRAY['polycystic kidney disease; keep phosphorus moderate', 'calcium oxalate bladder stones', 'hairballs; fibre can help']),
+('CAT', 'Ragdoll', 'LARGE', 4.5, 9, ARRAY['hypertrophic cardiomyopathy', 'prone to obesity']),
+('CAT', 'Russian Blue', 'MEDIUM', 3.5, 5.5, ARRAY['very food-motivated and prone to obesity']),
+('CAT', 'Scottish Fold', 'MEDIUM', 3, 6, ARRAY['joint disease (osteochondrodysplasia); keep lean', 'omega-3 fatty acids support joints']),
+('CAT', 'Siamese', 'MEDIUM', 3, 5.5, ARRAY['food allergies and inflammatory bowel disease', 'hepatic amyloidosis']),
+('CAT', 'Sphynx', 'MEDIUM', 3, 5, ARRAY['higher energy needs without a coat', 'hypertrophic cardiomyopathy']);
@@ -0,0 +1,3 @@
+-- Just the ingredient names, so search doesn't match the keys, amounts, units and notes in the JSONB
+ALTER TABLE recipes ADD COLUMN ingredient_names TEXT
+    GENERATED ALWAYS AS (lower(jsonb_path_query_array(ingredients, '$[*].name')::text)) STORED;
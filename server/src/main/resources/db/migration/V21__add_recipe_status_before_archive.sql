@@ -0,0 +1,2 @@
+-- Lets an archived recipe be restored to whatever it was before, rather than always SAVED
+ALTER TABLE recipes ADD COLUMN status_before_archive VARCHAR(20);
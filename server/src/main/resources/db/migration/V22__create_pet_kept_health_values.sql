@@ -0,0 +1,10 @@
+-- Typed-in allergies, conditions and medications the owner chose to keep rather than map to a code
+CREATE TABLE pet_kept_health_values (
+    id          UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    pet_id      UUID         NOT NULL REFERENCES pets(id) ON DELETE CASCADE,
+    field       VARCHAR(30)  NOT NULL CHECK (field IN ('ALLERGIES', 'MEDICAL_CONDITIONS', 'MEDICATIONS')),
+    value       VARCHAR(255) NOT NULL,
+    created_at  TIMESTAMPTZ  NOT NULL DEFAULT now(),
+    updated_at  TIMESTAMPTZ  NOT NULL DEFAULT now(),
+    UNIQUE (pet_id, field, value)
+);
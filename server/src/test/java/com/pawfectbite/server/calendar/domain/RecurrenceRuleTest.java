@@ -0,0 +1,107 @@
+package com.pawfectbite.server.calendar.domain;
+
+import com.pawfectbite.server.common.exception.AppException;
+import org.junit.jupiter.api.Test;
+
+import java.time.DayOfWeek;
+import java.time.LocalDate;
+import java.util.List;
+import java.util.Set;
+
+import static org.assertj.core.api.Assertions.assertThat;
+import static org.assertj.core.api.Assertions.assertThatThrownBy;
+
+class RecurrenceRuleTest {
+
+    // A Monday
+    private static final LocalDate START = LocalDate.of(2024, 1, 1);
+
+    @Test
+    void weekdaysSkipTheWeekend() {
+        RecurrenceRule rule = new RecurrenceRule(RecurrenceFrequency.WEEKDAYS, null, null, null, 7);
+
+        assertThat(rule.expand(START)).containsExactly(
+                START, START.plusDays(1), START.plusDays(2), START.plusDays(3), START.plusDays(4),
+                START.plusDays(7), START.plusDays(8)
+        );
+    }
+
+    @Test
+    void everyNDaysCountsFromTheStartDate() {
+        RecurrenceRule rule = new RecurrenceRule(RecurrenceFrequency.EVERY_N_DAYS, 3, null, START.plusDays(10), null);
+
+        assertThat(rule.expand(START)).containsExactly(START, START.plusDays(3), START.plusDays(6), START.plusDays(9));
+    }
+
+    @Test
+    void customDaysOnlyUseThePickedDays() {
+        RecurrenceRule rule = new RecurrenceRule(
+                RecurrenceFrequency.CUSTOM_DAYS, null, Set.of(DayOfWeek.WEDNESDAY, DayOfWeek.SATURDAY), null, 3);
+
+        List<LocalDate> dates = rule.expand(START);
+
+        assertThat(dates).containsExactly(START.plusDays(2), START.plusDays(5), START.plusDays(9));
+    }
+
+    @Test
+    void endDateIsInclusive() {
+        RecurrenceRule rule = new RecurrenceRule(RecurrenceFrequency.DAILY, null, null, START.plusDays(2), null);
+
+        assertThat(rule.expand(START)).containsExactly(START, START.plusDays(1), START.plusDays(2));
+    }
+
+    @Test
+    void whicheverOfEndDateAndOccurrencesComesFirstWins() {
+        RecurrenceRule fewerOccurrences = new RecurrenceRule(RecurrenceFrequency.DAILY, null, null, START.plusDays(9), 2);
+        RecurrenceRule earlierEndDate = new RecurrenceRule(RecurrenceFrequency.DAILY, null, null, START.plusDays(1), 5);
+
+        assertThat(fewerOccurrences.expand(START)).hasSize(2);
+        assertThat(earlierEndDate.expand(START)).hasSize(2);
+    }
+
+    @Test
+    void endDateAtTheCapIsAllowed() {
+        RecurrenceRule rule = new RecurrenceRule(
+                RecurrenceFrequency.DAILY, null, null, START.plusDays(RecurrenceRule.MAX_OCCURRENCES - 1), null);
+
+        assertThat(rule.expand(START)).hasSize(RecurrenceRule.MAX_OCCURRENCES);
+    }
+
+    @Test
+    void endDateBeyondTheCapIsRejected() {
+        RecurrenceRule rule = new RecurrenceRule(
+                RecurrenceFrequency.DAILY, null, null, START.plusDays(RecurrenceRule.MAX_OCCURRENCES), null);
+
+        assertInvalid(rule, START);
+    }
+
+    @Test
+    void occurrencesOutsideTheBoundsAreRejected() {
+        assertInvalid(new RecurrenceRule(RecurrenceFrequency.DAILY, null, null, null, 0), START);
+        assertInvalid(new RecurrenceRule(RecurrenceFrequency.DAILY, null, null, null, RecurrenceRule.MAX_OCCURRENCES + 1), START);
+    }
+
+    @Test
+    void incompleteRulesAreRejected() {
+        assertInvalid(new RecurrenceRule(RecurrenceFrequency.DAILY, null, null, null, null), START);
+        assertInvalid(new RecurrenceRule(RecurrenceFrequency.DAILY, null, null, START.minusDays(1), null), START);
+        assertInvalid(new RecurrenceRule(RecurrenceFrequency.EVERY_N_DAYS, 0, null, null, 3), START);
+        assertInvalid(new RecurrenceRule(RecurrenceFrequency.CUSTOM_DAYS, null, Set.of(), null, 3), START);
+    }
+
+    @Test
+    void rulesProducingNoMealsAreRejected() {
+        // A Monday-only rule that ends on the Sunday before its first Monday
+        RecurrenceRule rule = new RecurrenceRule(
+                RecurrenceFrequency.CUSTOM_DAYS, null, Set.of(DayOfWeek.MONDAY), START.plusDays(6), null);
+
+        assertInvalid(rule, START.plusDays(1));
+    }
+
+    private static void assertInvalid(RecurrenceRule rule, LocalDate startDate) {
+        assertThatThrownBy(() -> rule.expand(startDate))
+                .isInstanceOf(AppException.class)
+                .extracting(e -> ((AppException) e).getCode())
+                .isEqualTo("INVALID_RECURRENCE");
+    }
+}
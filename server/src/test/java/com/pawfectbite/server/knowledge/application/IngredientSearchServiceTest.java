@@ -0,0 +1,89 @@
+package com.pawfectbite.server.knowledge.application;
+
+import com.pawfectbite.server.knowledge.domain.IngredientKnowledge;
+import com.pawfectbite.server.knowledge.domain.IngredientSuggestion;
+import com.pawfectbite.server.knowledge.repository.IngredientKnowledgeRepository;
+import org.junit.jupiter.api.Test;
+import org.mockito.Mockito;
+
+import java.util.List;
+import java.util.UUID;
+
+import static org.assertj.core.api.Assertions.assertThat;
+
+class IngredientSearchServiceTest {
+
+    private final IngredientKnowledgeRepository repository = Mockito.mock(IngredientKnowledgeRepository.class);
+    private final IngredientSearchService service = new IngredientSearchService(repository);
+
+    @Test
+    void editDistanceCountsInsertionsDeletionsAndSubstitutions() {
+        assertThat(IngredientSearchService.editDistance("garlic", "garlic")).isZero();
+        assertThat(IngredientSearchService.editDistance("choclate", "chocolate")).isEqualTo(1);
+        assertThat(IngredientSearchService.editDistance("kitten", "sitting")).isEqualTo(3);
+        assertThat(IngredientSearchService.editDistance("", "xylitol")).isEqualTo(7);
+    }
+
+    @Test
+    void prefixesAndWholeWordContainmentResemble() {
+        assertThat(IngredientSearchService.resembles("choc", "chocolate")).isTrue();
+        assertThat(IngredientSearchService.resembles("garlic powder", "garlic")).isTrue();
+        assertThat(IngredientSearchService.resembles("fresh grapes", "grapes")).isTrue();
+    }
+
+    @Test
+    void containmentMustBeWholeWords() {
+        assertThat(IngredientSearchService.resembles("grapefruit", "grapes")).isFalse();
+        assertThat(IngredientSearchService.resembles("nutmegs and more", "nutmeg")).isFalse();
+    }
+
+    @Test
+    void typosAllowOneEditPerFourCharacters() {
+        // 8 characters allow two edits
+        assertThat(IngredientSearchService.resembles("choclate", "chocolate")).isTrue();
+        assertThat(IngredientSearchService.resembles("chcolat", "chocolate")).isFalse();
+        // 5 characters allow one
+        assertThat(IngredientSearchService.resembles("garlc", "garlic")).isTrue();
+        assertThat(IngredientSearchService.resembles("grlc", "garlic")).isFalse();
+    }
+
+    @Test
+    void shortQueriesNeedAnExactSubstring() {
+        assertThat(IngredientSearchService.resembles("oni", "onion")).isTrue();
+        assertThat(IngredientSearchService.resembles("ono", "onion")).isFalse();
+    }
+
+    @Test
+    void knowledgeBaseRowDuplicatingAToxicHitIsDropped() {
+        Mockito.when(repository.searchByName("garlic", 8)).thenReturn(List.of(
+                knowledge("garlic (all forms)", "toxic/hazard", List.of())
+        ));
+
+        List<IngredientSuggestion> suggestions = service.search("Garlic", 8);
+
+        assertThat(suggestions).extracting(IngredientSuggestion::name).containsExactly("garlic");
+        assertThat(suggestions.getFirst().toxic()).isTrue();
+    }
+
+    @Test
+    void toxicKnowledgeBaseRowsAreFlagged() {
+        Mockito.when(repository.searchByName("baking", 8)).thenReturn(List.of(
+                knowledge("chocolate (all forms; dark/baking highest risk)", "toxic/hazard", List.of()),
+                knowledge("sweet potato (baking or boiled)", "Complex Carb", List.of("DOG", "CAT"))
+        ));
+
+        List<IngredientSuggestion> suggestions = service.search("baking", 8);
+
+        assertThat(suggestions).extracting(IngredientSuggestion::toxic).containsExactly(true, false);
+    }
+
+    @Test
+    void baseNameDropsTheParenthesisedDetail() {
+        assertThat(IngredientSearchService.baseName("Onion (all forms)")).isEqualTo("onion");
+        assertThat(IngredientSearchService.baseName("grapes")).isEqualTo("grapes");
+    }
+
+    private static IngredientKnowledge knowledge(String name, String category, List<String> speciesSafe) {
+        return new IngredientKnowledge(UUID.randomUUID(), name, category, speciesSafe, null, null, null);
+    }
+}
@@ -0,0 +1,65 @@
+package com.pawfectbite.server.safety.domain.rules;
+
+import com.pawfectbite.server.pets.domain.ActivityLevel;
+import com.pawfectbite.server.pets.domain.LivingEnvironment;
+import com.pawfectbite.server.pets.domain.Pet;
+import com.pawfectbite.server.pets.domain.Sex;
+import com.pawfectbite.server.pets.domain.Species;
+import com.pawfectbite.server.safety.domain.RiskLevel;
+import com.pawfectbite.server.safety.domain.SafetyWarning;
+import org.junit.jupiter.api.Test;
+
+import java.math.BigDecimal;
+import java.util.List;
+import java.util.UUID;
+
+import static org.assertj.core.api.Assertions.assertThat;
+
+class AllergyConflictRuleTest {
+
+    private final AllergyConflictRule rule = new AllergyConflictRule();
+
+    @Test
+    void allergenCodeBlocksIngredientsContainingIt() {
+        List<SafetyWarning> warnings = rule.evaluate(petAllergicTo("CHICKEN"), List.of("chicken breast", "rice"));
+
+        assertThat(warnings).hasSize(1);
+        assertThat(warnings.getFirst().severity()).isEqualTo(RiskLevel.BLOCKED);
+        assertThat(warnings.getFirst().message()).contains("chicken breast");
+    }
+
+    @Test
+    void allergenGroupCoversItsSynonyms() {
+        List<SafetyWarning> warnings = rule.evaluate(petAllergicTo("DAIRY"), List.of("cottage cheese"));
+
+        assertThat(warnings).extracting(SafetyWarning::severity).containsExactly(RiskLevel.BLOCKED);
+    }
+
+    @Test
+    void typedAllergyOutsideTheVocabularyStillBlocksTheExactIngredient() {
+        List<SafetyWarning> warnings = rule.evaluate(petAllergicTo("Quinoa"), List.of("quinoa", "pumpkin"));
+
+        assertThat(warnings).hasSize(1);
+        assertThat(warnings.getFirst().message()).contains("'quinoa'");
+    }
+
+    @Test
+    void eggAllergyDoesNotFlagEggplant() {
+        assertThat(rule.evaluate(petAllergicTo("EGG"), List.of("eggplant"))).isEmpty();
+        assertThat(rule.evaluate(petAllergicTo("EGG"), List.of("boiled eggs"))).hasSize(1);
+    }
+
+    @Test
+    void petWithoutAllergiesGetsNoWarnings() {
+        assertThat(rule.evaluate(petAllergicTo(), List.of("chicken breast"))).isEmpty();
+    }
+
+    private static Pet petAllergicTo(String... allergies) {
+        return new Pet(
+                UUID.randomUUID(), UUID.randomUUID(), "Biscuit", Species.DOG, "Beagle",
+                4, 0, Sex.MALE, true, new BigDecimal("12.0"), null, ActivityLevel.MODERATE,
+                LivingEnvironment.INDOOR, List.of(allergies), List.of(), List.of(),
+                null, null, 2, null, null, null
+        );
+    }
+}
@@ -0,0 +1,58 @@
+package com.pawfectbite.server.safety.domain.rules;
+
+import com.pawfectbite.server.pets.domain.ActivityLevel;
+import com.pawfectbite.server.pets.domain.LivingEnvironment;
+import com.pawfectbite.server.pets.domain.Pet;
+import com.pawfectbite.server.pets.domain.Sex;
+import com.pawfectbite.server.pets.domain.Species;
+import com.pawfectbite.server.safety.domain.RiskLevel;
+import com.pawfectbite.server.safety.domain.SafetyWarning;
+import org.junit.jupiter.api.Test;
+
+import java.math.BigDecimal;
+import java.util.List;
+import java.util.UUID;
+
+import static org.assertj.core.api.Assertions.assertThat;
+
+class MedicalConditionRuleTest {
+
+    private final MedicalConditionRule rule = new MedicalConditionRule();
+
+    @Test
+    void highRiskCodeIsRed() {
+        List<SafetyWarning> warnings = rule.evaluate(petWith("PANCREATITIS"), List.of());
+
+        assertThat(warnings).extracting(SafetyWarning::severity).containsExactly(RiskLevel.RED);
+    }
+
+    @Test
+    void legacyFreeTextResolvesToItsCondition() {
+        List<SafetyWarning> warnings = rule.evaluate(petWith("chronic kidney disease stage 2"), List.of());
+
+        assertThat(warnings).hasSize(1);
+        assertThat(warnings.getFirst().severity()).isEqualTo(RiskLevel.RED);
+        assertThat(warnings.getFirst().message()).contains("Chronic kidney disease");
+    }
+
+    @Test
+    void moderateRiskCodeIsAmber() {
+        List<SafetyWarning> warnings = rule.evaluate(petWith("OBESITY"), List.of());
+
+        assertThat(warnings).extracting(SafetyWarning::severity).containsExactly(RiskLevel.AMBER);
+    }
+
+    @Test
+    void unrecognisedOrLowRiskConditionsAreIgnored() {
+        assertThat(rule.evaluate(petWith("DENTAL_DISEASE", "a bit grumpy"), List.of())).isEmpty();
+    }
+
+    private static Pet petWith(String... medicalConditions) {
+        return new Pet(
+                UUID.randomUUID(), UUID.randomUUID(), "Biscuit", Species.CAT, "Persian",
+                11, 0, Sex.FEMALE, true, new BigDecimal("4.2"), null, ActivityLevel.LOW,
+                LivingEnvironment.INDOOR, List.of(), List.of(medicalConditions), List.of(),
+                null, null, 2, null, null, null
+        );
+    }
+}